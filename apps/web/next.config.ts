@@ -2,7 +2,13 @@ import { withSentryConfig } from '@sentry/nextjs';
 import type { NextConfig } from 'next';
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Workspace packages ship TypeScript source
+  transpilePackages: ['@shared/db'],
+  // The readiness check compares supabase/migrations with the applied migrations;
+  // ship the files with standalone and serverless builds of that route
+  outputFileTracingIncludes: {
+    '/api/health/ready': ['../../supabase/migrations/*.sql'],
+  },
 };
 
 export default withSentryConfig(nextConfig, {
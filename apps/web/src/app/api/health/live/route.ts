@@ -0,0 +1,12 @@
+import { checkLiveness } from '@/lib/health/checks';
+import { healthResponse } from '@/lib/health/report';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Liveness: 200 while the process can serve requests; checks no dependencies
+ */
+export async function GET() {
+  return healthResponse(await checkLiveness());
+}
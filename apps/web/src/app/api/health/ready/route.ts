@@ -0,0 +1,12 @@
+import { checkReadiness } from '@/lib/health/checks';
+import { healthResponse } from '@/lib/health/report';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Readiness: 503 when a critical dependency (the database) fails
+ */
+export async function GET() {
+  return healthResponse(await checkReadiness());
+}
@@ -1,17 +1,14 @@
-import { NextResponse } from 'next/server';
-import { env } from '@/lib/env';
+import { checkHealth } from '@/lib/health/checks';
+import { healthResponse } from '@/lib/health/report';
 
 export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
 
+/**
+ * Liveness plus the original fields (ok, version, commit, appName,
+ * supabaseConfigured); always 200. Dependencies are only checked by
+ * /api/health/ready, so monitors of this endpoint never see a 503.
+ */
 export async function GET() {
-  const supabaseUrl = env.SUPABASE_URL ?? env.NEXT_PUBLIC_SUPABASE_URL;
-  const supabaseAnon = env.SUPABASE_ANON_KEY ?? env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-
-  return NextResponse.json({
-    ok: true,
-    version: process.env.npm_package_version,
-    commit: process.env.VERCEL_GIT_COMMIT_SHA ?? process.env.GITHUB_SHA ?? null,
-    appName: env.NEXT_PUBLIC_APP_NAME,
-    supabaseConfigured: Boolean(supabaseUrl && supabaseAnon),
-  });
+  return healthResponse(await checkHealth());
 }
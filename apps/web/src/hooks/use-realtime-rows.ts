@@ -0,0 +1,113 @@
+/**
+ * Live Table Rows Hook
+ *
+ * Keeps a list of rows in sync with a table through Supabase Realtime:
+ * - INSERT and UPDATE replace the row with the same key, or append it
+ * - DELETE removes the row with the old row's key
+ * - Changes arrive under the client's RLS scope, so pass the browser client
+ *   (signed-in user) to see only that user's rows
+ *
+ * Changes made while the channel is down are not replayed. Pass `reload` to
+ * refetch the list whenever the channel (re)subscribes.
+ *
+ * @example
+ * ```tsx
+ * const supabase = createClient();
+ * const { rows, status } = useRealtimeRows(supabase, 'notes', {
+ *   initialRows: notes,
+ *   filter: { column: 'owner_id', value: userId },
+ * });
+ * ```
+ */
+
+import {
+  type ChangeEvent,
+  type Database,
+  type DbError,
+  type PublicTables,
+  type RealtimeFilter,
+  type RowChange,
+  type SubscriptionStatus,
+  subscribeToTable,
+  type TableName,
+} from '@shared/db';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { useEffect, useRef, useState } from 'react';
+
+type Row<N extends TableName> = PublicTables[N]['Row'];
+
+export interface UseRealtimeRowsOptions<N extends TableName> {
+  /** Rows fetched before subscribing, e.g. by a Server Component */
+  initialRows: Row<N>[];
+  /** Event to apply (default: all) */
+  event?: ChangeEvent | '*';
+  filter?: RealtimeFilter<Row<N>>;
+  /** Column identifying a row (default: 'id') */
+  key?: keyof Row<N> & string;
+  /** Refetches the rows after each (re)subscribe to cover missed changes */
+  reload?: () => Promise<Row<N>[]>;
+}
+
+export interface RealtimeRows<R> {
+  rows: R[];
+  status: SubscriptionStatus;
+  /** Why the channel last reconnected or closed */
+  error: DbError | null;
+}
+
+export function useRealtimeRows<N extends TableName>(
+  client: SupabaseClient<Database>,
+  table: N,
+  { initialRows, event = '*', filter, key = 'id', reload }: UseRealtimeRowsOptions<N>
+): RealtimeRows<Row<N>> {
+  const [rows, setRows] = useState(initialRows);
+  const [status, setStatus] = useState<SubscriptionStatus>('connecting');
+  const [error, setError] = useState<DbError | null>(null);
+
+  const reloadRef = useRef(reload);
+  reloadRef.current = reload;
+
+  // Filters are usually object literals; resubscribe only when their content changes
+  const filterKey = filter ? JSON.stringify(filter) : null;
+
+  useEffect(() => {
+    const subscription = subscribeToTable(
+      client,
+      table,
+      {
+        event,
+        filter: filterKey ? (JSON.parse(filterKey) as RealtimeFilter<Row<N>>) : undefined,
+        onStatus: (next, cause) => {
+          setStatus(next);
+          setError(cause ?? null);
+          if (next === 'subscribed') {
+            reloadRef.current?.().then(setRows, () => {});
+          }
+        },
+      },
+      (change) => setRows((current) => mergeRowChange(current, change, key))
+    );
+
+    return () => {
+      void subscription.unsubscribe();
+    };
+  }, [client, table, event, filterKey, key]);
+
+  return { rows, status, error };
+}
+
+/**
+ * Apply one change to a list of rows, matching rows by `key`
+ */
+export function mergeRowChange<R>(rows: R[], change: RowChange<R>, key: keyof R): R[] {
+  if (change.event === 'DELETE') {
+    const id = change.old[key];
+    return id === undefined ? rows : rows.filter((row) => row[key] !== id);
+  }
+
+  const index = rows.findIndex((row) => row[key] === change.new[key]);
+  if (index === -1) {
+    return [...rows, change.new];
+  }
+  return rows.map((row, i) => (i === index ? change.new : row));
+}
@@ -14,6 +14,13 @@ export interface MonitoringAdapter {
   setUser: (user: { id: string; email?: string }) => void;
   addBreadcrumb: (message: string, category?: string, level?: string) => void;
   startTransaction: (name: string, op?: string) => { finish: () => void };
+  /** Which provider is configured and whether its SDK is initialized */
+  status: () => MonitoringStatus;
+}
+
+export interface MonitoringStatus {
+  provider: 'sentry' | 'none';
+  initialized: boolean;
 }
 
 class SentryAdapter implements MonitoringAdapter {
@@ -75,6 +82,10 @@ class SentryAdapter implements MonitoringAdapter {
   startTransaction(name: string, op = 'navigation') {
     return { finish: () => Sentry.startSpan({ name, op }, () => {}) };
   }
+
+  status(): MonitoringStatus {
+    return { provider: 'sentry', initialized: Boolean(Sentry.getClient()?.getDsn()) };
+  }
 }
 
 // Default no-op adapter for when monitoring is disabled
@@ -86,6 +97,9 @@ class NoOpAdapter implements MonitoringAdapter {
   startTransaction() {
     return { finish: () => {} };
   }
+  status(): MonitoringStatus {
+    return { provider: 'none', initialized: false };
+  }
 }
 
 export const monitoring: MonitoringAdapter =
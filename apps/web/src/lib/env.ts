@@ -27,6 +27,11 @@ export const env = createEnv({
     // Supabase server keys (optional for now)
     SUPABASE_URL: z.string().url().optional(),
     SUPABASE_ANON_KEY: z.string().min(1).optional(),
+    SUPABASE_SERVICE_ROLE_KEY: z.string().min(1).optional(),
+
+    // Local migrations compared with applied ones by /api/health
+    // (default: supabase/migrations at the repository root)
+    SUPABASE_MIGRATIONS_DIR: z.string().min(1).optional(),
 
     // Supabase MCP server configuration (for AI tooling)
     SUPABASE_ACCESS_TOKEN: z.string().min(1).optional(),
@@ -80,6 +85,8 @@ export const env = createEnv({
 
     SUPABASE_URL: process.env.SUPABASE_URL,
     SUPABASE_ANON_KEY: process.env.SUPABASE_ANON_KEY,
+    SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY,
+    SUPABASE_MIGRATIONS_DIR: process.env.SUPABASE_MIGRATIONS_DIR,
 
     SUPABASE_ACCESS_TOKEN: process.env.SUPABASE_ACCESS_TOKEN,
     SUPABASE_PROJECT_REF: process.env.SUPABASE_PROJECT_REF,
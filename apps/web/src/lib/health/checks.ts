@@ -0,0 +1,100 @@
+/**
+ * Health Checks
+ *
+ * Liveness: the process is up and serving requests. No dependencies are
+ * checked, so a database outage never gets healthy instances restarted.
+ *
+ * Readiness: the dependencies needed to serve traffic respond. Database
+ * latency, migration drift, auth reachability and monitoring configuration.
+ *
+ * Server-only: reads the service-role key and the local migrations directory.
+ */
+
+import path from 'node:path';
+import { createDatabaseClient, type DatabaseConfig } from '@shared/db';
+import { appliedMigrations, createServiceRoleClient, localMigrations } from '@shared/db/server';
+import { monitoring } from '@/lib/adapters/sentry';
+import { env } from '@/lib/env';
+import {
+  authProbe,
+  databaseProbe,
+  type MigrationSource,
+  migrationsProbe,
+  monitoringProbe,
+} from './probes';
+import { type HealthReport, runProbes } from './report';
+
+/**
+ * Body of /api/health: the liveness report plus the fields the endpoint
+ * returned before liveness and readiness had their own routes
+ */
+export interface HealthSummary extends HealthReport {
+  version: string | null;
+  commit: string | null;
+  appName: string;
+  supabaseConfigured: boolean;
+}
+
+export async function checkLiveness(): Promise<HealthReport> {
+  return runProbes([], { check: 'liveness', service: service() });
+}
+
+export async function checkHealth(): Promise<HealthSummary> {
+  const report = await checkLiveness();
+  return {
+    ...report,
+    version: report.service.version,
+    commit: report.service.commit,
+    appName: report.service.name,
+    supabaseConfigured: databaseConfig() !== null,
+  };
+}
+
+export async function checkReadiness(): Promise<HealthReport> {
+  const config = databaseConfig();
+
+  return runProbes(
+    [
+      databaseProbe(config && (() => createDatabaseClient(config))),
+      migrationsProbe(migrationSource(config)),
+      authProbe(config, { critical: env.AUTH_ENABLED }),
+      monitoringProbe(monitoring),
+    ],
+    { check: 'readiness', service: service() }
+  );
+}
+
+function service(): HealthReport['service'] {
+  return {
+    name: env.NEXT_PUBLIC_APP_NAME,
+    version: process.env.npm_package_version ?? null,
+    commit: process.env.VERCEL_GIT_COMMIT_SHA ?? process.env.GITHUB_SHA ?? null,
+  };
+}
+
+function databaseConfig(): DatabaseConfig | null {
+  const url = env.SUPABASE_URL ?? env.NEXT_PUBLIC_SUPABASE_URL;
+  const anonKey = env.SUPABASE_ANON_KEY ?? env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  return url && anonKey ? { url, anonKey } : null;
+}
+
+function migrationSource(config: DatabaseConfig | null): MigrationSource | null {
+  const serviceRoleKey = env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!config || !serviceRoleKey) {
+    return null;
+  }
+
+  const dir =
+    env.SUPABASE_MIGRATIONS_DIR ?? path.join(process.cwd(), '..', '..', 'supabase', 'migrations');
+  return {
+    // Deployments built without the migration files (see next.config.ts) have no directory
+    local: () =>
+      localMigrations(dir).catch((error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }),
+    applied: () => appliedMigrations(createServiceRoleClient({ url: config.url, serviceRoleKey })),
+  };
+}
@@ -0,0 +1,173 @@
+/**
+ * Health Probes
+ *
+ * Probe factories for the readiness check. Each takes its dependency (or
+ * null when it is not configured), so probes can be tested with fakes and
+ * report a missing configuration instead of throwing.
+ *
+ * @see ./report.ts for how probes are run and reported
+ */
+
+import type { DatabaseClient, DatabaseConfig } from '@shared/db';
+import { compareMigrations } from '@shared/db/server';
+import type { MonitoringAdapter } from '@/lib/adapters/sentry';
+import type { HealthProbe } from './report';
+
+/**
+ * Database round trip through DatabaseClient.healthCheck()
+ * @param connect - Creates the client; null when Supabase is not configured
+ * @param slowMs - Latency above which the probe warns (default: 500)
+ */
+export function databaseProbe(
+  connect: (() => Pick<DatabaseClient, 'healthCheck'>) | null,
+  { slowMs = 500 }: { slowMs?: number } = {}
+): HealthProbe {
+  return {
+    name: 'database',
+    critical: true,
+    async check() {
+      if (!connect) {
+        return { status: 'fail', message: 'Supabase URL and anon key are not configured' };
+      }
+
+      const { healthy, latencyMs, error } = await connect().healthCheck();
+      if (!healthy) {
+        return {
+          status: 'fail',
+          message: error ?? 'Database check failed',
+          details: { latencyMs },
+        };
+      }
+      if (latencyMs > slowMs) {
+        return {
+          status: 'warn',
+          message: `Round trip took ${latencyMs} ms (over ${slowMs} ms)`,
+          details: { latencyMs },
+        };
+      }
+      return { status: 'ok', details: { latencyMs } };
+    },
+  };
+}
+
+/**
+ * Where the migrations probe reads local and applied migration versions
+ */
+export interface MigrationSource {
+  /** Resolves to null when the migration files are not deployed with the app */
+  local: () => Promise<string[] | null>;
+  applied: () => Promise<string[]>;
+}
+
+/**
+ * Applied vs local migrations: fails on pending migrations, warns on applied
+ * migrations with no local file or when the local files are missing
+ * @param source - null when the service-role key is not configured
+ */
+export function migrationsProbe(source: MigrationSource | null): HealthProbe {
+  return {
+    name: 'migrations',
+    critical: false,
+    timeoutMs: 3000,
+    async check() {
+      if (!source) {
+        return {
+          status: 'warn',
+          message: 'SUPABASE_SERVICE_ROLE_KEY is not set; applied migrations cannot be read',
+        };
+      }
+
+      const [local, applied] = await Promise.all([source.local(), source.applied()]);
+      if (local === null) {
+        return {
+          status: 'warn',
+          message: 'Migration files are not deployed; pending migrations cannot be detected',
+          details: { applied: applied.length },
+        };
+      }
+
+      const { pending, unknown } = compareMigrations(local, applied);
+      const details = { local: local.length, applied: applied.length, pending, unknown };
+
+      if (pending.length > 0) {
+        return { status: 'fail', message: `${pending.length} migration(s) not applied`, details };
+      }
+      if (unknown.length > 0) {
+        return {
+          status: 'warn',
+          message: `${unknown.length} applied migration(s) have no local file`,
+          details,
+        };
+      }
+      return { status: 'ok', details };
+    },
+  };
+}
+
+/**
+ * Reachability of the Supabase Auth (GoTrue) health endpoint
+ * @param config - null when Supabase is not configured
+ * @param critical - Whether auth is required for the app to serve traffic
+ */
+export function authProbe(
+  config: DatabaseConfig | null,
+  { critical = false }: { critical?: boolean } = {}
+): HealthProbe {
+  return {
+    name: 'auth',
+    critical,
+    async check(signal) {
+      if (!config) {
+        return { status: 'fail', message: 'Supabase URL and anon key are not configured' };
+      }
+
+      const started = performance.now();
+      const response = await fetch(`${config.url.replace(/\/$/, '')}/auth/v1/health`, {
+        headers: { apikey: config.anonKey },
+        cache: 'no-store',
+        signal,
+      });
+      const latencyMs = Math.round(performance.now() - started);
+
+      if (!response.ok) {
+        return {
+          status: 'fail',
+          message: `Auth health endpoint returned HTTP ${response.status}`,
+          details: { latencyMs },
+        };
+      }
+      const body = (await response.json().catch(() => ({}))) as { version?: string };
+      return { status: 'ok', details: { latencyMs, version: body.version ?? null } };
+    },
+  };
+}
+
+/**
+ * Monitoring adapter configuration: warns when no provider is configured and
+ * fails when one is configured but its SDK did not initialize
+ */
+export function monitoringProbe(adapter: Pick<MonitoringAdapter, 'status'>): HealthProbe {
+  return {
+    name: 'monitoring',
+    critical: false,
+    timeoutMs: 500,
+    async check() {
+      const details = { ...adapter.status() };
+      if (details.provider === 'none') {
+        return {
+          status: 'warn',
+          message: 'No monitoring provider configured (set SENTRY_DSN)',
+          details,
+        };
+      }
+      if (!details.initialized) {
+        return {
+          status: 'fail',
+          message: `${details.provider} is configured but its SDK is not initialized`,
+          details,
+        };
+      }
+      return { status: 'ok', details };
+    },
+  };
+}
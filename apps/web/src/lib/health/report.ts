@@ -0,0 +1,148 @@
+/**
+ * Health Report
+ *
+ * Runs health probes with per-probe timeouts and renders the result as the
+ * JSON served by /api/health, /api/health/live and /api/health/ready.
+ *
+ * Format (stable; uptime tooling parses it):
+ * {
+ *   "status": "ok" | "warn" | "fail",
+ *   "ok": boolean,                     // false only when status is "fail"
+ *   "check": "liveness" | "readiness",
+ *   "timestamp": ISO 8601,
+ *   "durationMs": number,
+ *   "service": { "name", "version", "commit" },
+ *   "probes": { [name]: { "status", "critical", "durationMs", "message"?, "details"? } }
+ * }
+ *
+ * /api/health adds its original fields to the liveness report (see
+ * checkHealth in ./checks.ts).
+ *
+ * HTTP status is 503 when status is "fail", 200 otherwise. A failing probe
+ * fails the report only if it is critical; otherwise it downgrades it to "warn".
+ */
+
+import { NextResponse } from 'next/server';
+
+export type HealthStatus = 'ok' | 'warn' | 'fail';
+
+export type HealthCheckKind = 'liveness' | 'readiness';
+
+/**
+ * What a probe reports
+ */
+export interface ProbeOutcome {
+  status: HealthStatus;
+  message?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * A single dependency check
+ */
+export interface HealthProbe {
+  name: string;
+  /** Whether a failure makes the service unready */
+  critical: boolean;
+  /** Overrides the runner's default timeout */
+  timeoutMs?: number;
+  /** Aborted when the probe times out */
+  check: (signal: AbortSignal) => Promise<ProbeOutcome>;
+}
+
+export interface ProbeResult extends ProbeOutcome {
+  critical: boolean;
+  durationMs: number;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  ok: boolean;
+  check: HealthCheckKind;
+  timestamp: string;
+  durationMs: number;
+  service: {
+    name: string;
+    version: string | null;
+    commit: string | null;
+  };
+  probes: Record<string, ProbeResult>;
+}
+
+export interface RunProbesOptions {
+  check: HealthCheckKind;
+  service: HealthReport['service'];
+  /** Timeout for probes that do not set their own (default: 2000) */
+  defaultTimeoutMs?: number;
+}
+
+export const DEFAULT_PROBE_TIMEOUT_MS = 2000;
+
+/**
+ * Run probes concurrently and build a report
+ */
+export async function runProbes(
+  probes: HealthProbe[],
+  options: RunProbesOptions
+): Promise<HealthReport> {
+  const started = performance.now();
+  const timeoutMs = options.defaultTimeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS;
+  const results = await Promise.all(probes.map((probe) => runProbe(probe, timeoutMs)));
+
+  const status = overallStatus(results);
+  return {
+    status,
+    ok: status !== 'fail',
+    check: options.check,
+    timestamp: new Date().toISOString(),
+    durationMs: Math.round(performance.now() - started),
+    service: options.service,
+    probes: Object.fromEntries(probes.map((probe, i) => [probe.name, results[i]])),
+  };
+}
+
+/**
+ * Serve a report: 503 when it failed, never cached
+ */
+export function healthResponse(report: HealthReport): NextResponse<HealthReport> {
+  return NextResponse.json(report, {
+    status: report.ok ? 200 : 503,
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
+
+async function runProbe(probe: HealthProbe, defaultTimeoutMs: number): Promise<ProbeResult> {
+  const timeoutMs = probe.timeoutMs ?? defaultTimeoutMs;
+  const controller = new AbortController();
+  const started = performance.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<ProbeOutcome>((resolve) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      resolve({ status: 'fail', message: `Timed out after ${timeoutMs} ms` });
+    }, timeoutMs);
+  });
+
+  let outcome: ProbeOutcome;
+  try {
+    outcome = await Promise.race([probe.check(controller.signal), timeout]);
+  } catch (error) {
+    outcome = { status: 'fail', message: error instanceof Error ? error.message : String(error) };
+  } finally {
+    clearTimeout(timer);
+  }
+
+  return {
+    ...outcome,
+    critical: probe.critical,
+    durationMs: Math.round(performance.now() - started),
+  };
+}
+
+function overallStatus(results: ProbeResult[]): HealthStatus {
+  if (results.some((result) => result.status === 'fail' && result.critical)) {
+    return 'fail';
+  }
+  return results.every((result) => result.status === 'ok') ? 'ok' : 'warn';
+}
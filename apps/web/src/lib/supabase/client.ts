@@ -7,10 +7,11 @@
  * @see https://supabase.com/docs/guides/auth/server-side/nextjs
  */
 
+import type { Database } from '@shared/db';
 import { createBrowserClient } from '@supabase/ssr';
 
 export function createClient() {
-  return createBrowserClient(
+  return createBrowserClient<Database>(
     process.env.NEXT_PUBLIC_SUPABASE_URL ?? '',
     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? ''
   );
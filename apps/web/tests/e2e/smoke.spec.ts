@@ -31,11 +31,33 @@ test.describe('Smoke Tests', () => {
     expect(response?.status()).toBe(404);
   });
 
-  test('health endpoint responds', async ({ request }) => {
+  test('health endpoint keeps its original fields', async ({ request }) => {
     const response = await request.get('/api/health');
+    expect(response.status()).toBe(200);
+
+    const data = await response.json();
+    expect(data).toMatchObject({ ok: true, status: 'ok', check: 'liveness' });
+    expect(data).toHaveProperty('appName');
+    expect(data).toHaveProperty('commit');
+    expect(typeof data.supabaseConfigured).toBe('boolean');
+  });
+
+  test('liveness endpoint responds', async ({ request }) => {
+    const response = await request.get('/api/health/live');
     expect(response.ok()).toBeTruthy();
 
     const data = await response.json();
     expect(data.status).toBe('ok');
+    expect(data.check).toBe('liveness');
+  });
+
+  test('readiness endpoint reports every probe', async ({ request }) => {
+    // 200 or 503 depending on whether Supabase is running; the body is always a report
+    const response = await request.get('/api/health/ready');
+    expect([200, 503]).toContain(response.status());
+
+    const data = await response.json();
+    expect(data.ok).toBe(response.status() === 200);
+    expect(Object.keys(data.probes)).toEqual(['database', 'migrations', 'auth', 'monitoring']);
   });
 });
@@ -24,6 +24,9 @@
  * - Admin access for seeding test data and bypassing RLS
  * - Test data management for RLS validation
  *
+ * Clients come from the role-scoped factories in `@shared/db` and
+ * `@shared/db/server`; these helpers only add env loading and OTP sign-in.
+ *
  * ## Best Practices for RLS Testing (2025)
  *
  * 1. **Use admin.generateLink() with OTP verification for user impersonation**
@@ -62,8 +65,14 @@
  * ```
  */
 
-import { createClient, type SupabaseClient } from '@supabase/supabase-js';
-import type { Database } from '../../../../packages/db/src/types';
+import {
+  type AnonClient,
+  createAnonClient,
+  createUserClient as createUserScopedClient,
+  type Database,
+  type UserClient,
+} from '@shared/db';
+import { createServiceRoleClient, type ServiceRoleClient } from '@shared/db/server';
 
 /**
  * Type helpers for type-safe table operations
@@ -120,14 +129,12 @@ function validateEnv(): RLSTestEnv {
  * const { data } = await adminClient.from('profiles').select('*');
  * ```
  */
-export function createAdminClient(): SupabaseClient<Database> {
+export function createAdminClient(): ServiceRoleClient {
   const env = validateEnv();
 
-  return createClient<Database>(env.NEXT_PUBLIC_SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY, {
-    auth: {
-      autoRefreshToken: false,
-      persistSession: false,
-    },
+  return createServiceRoleClient({
+    url: env.NEXT_PUBLIC_SUPABASE_URL,
+    serviceRoleKey: env.SUPABASE_SERVICE_ROLE_KEY,
   });
 }
 
@@ -151,14 +158,11 @@ export function createAdminClient(): SupabaseClient<Database> {
  * // Only returns data accessible to this user via RLS
  * ```
  */
-export async function createUserClient(userId: string): Promise<SupabaseClient<Database>> {
+export async function createUserClient(userId: string): Promise<UserClient> {
   const env = validateEnv();
 
   // Create admin client to generate access token
-  const adminClient = createClient<Database>(
-    env.NEXT_PUBLIC_SUPABASE_URL,
-    env.SUPABASE_SERVICE_ROLE_KEY
-  );
+  const adminClient = createAdminClient();
 
   // Get the user to verify they exist and get their email
   const {
@@ -201,17 +205,8 @@ export async function createUserClient(userId: string): Promise<SupabaseClient<D
       : undefined);
   const emailOtp = props?.email_otp;
 
-  // Create a new client with the anon key
-  const userClient = createClient<Database>(
-    env.NEXT_PUBLIC_SUPABASE_URL,
-    env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
-    {
-      auth: {
-        autoRefreshToken: false,
-        persistSession: false,
-      },
-    }
-  );
+  // Verify the OTP with an anon client to obtain the user's session
+  const anonClient = createAnonymousClient();
 
   // Verify OTP (prefer token_hash; fallback to raw email OTP)
   if (!tokenHash && !emailOtp) {
@@ -220,20 +215,29 @@ export async function createUserClient(userId: string): Promise<SupabaseClient<D
 
   // Type assertion: at this point, either tokenHash or emailOtp must be defined
   const verifyResult = tokenHash
-    ? await userClient.auth.verifyOtp({ type: 'email', token_hash: tokenHash })
-    : await userClient.auth.verifyOtp({
+    ? await anonClient.auth.verifyOtp({ type: 'email', token_hash: tokenHash })
+    : await anonClient.auth.verifyOtp({
         type: 'email',
         email: user.email,
         token: emailOtp as string,
       });
 
-  const { error: verifyError } = verifyResult;
+  const {
+    data: { session },
+    error: verifyError,
+  } = verifyResult;
 
-  if (verifyError) {
-    throw new Error(`Failed to verify OTP for user ${userId}: ${verifyError.message}`);
+  if (verifyError || !session) {
+    throw new Error(
+      `Failed to verify OTP for user ${userId}: ${verifyError?.message ?? 'No session returned'}`
+    );
   }
 
-  return userClient;
+  // Scope a client to the session's JWT so RLS sees auth.uid()
+  return createUserScopedClient(
+    { url: env.NEXT_PUBLIC_SUPABASE_URL, anonKey: env.NEXT_PUBLIC_SUPABASE_ANON_KEY },
+    { session }
+  );
 }
 
 /**
@@ -248,14 +252,12 @@ export async function createUserClient(userId: string): Promise<SupabaseClient<D
  * // Should return empty array or error due to RLS
  * ```
  */
-export function createAnonymousClient(): SupabaseClient<Database> {
+export function createAnonymousClient(): AnonClient {
   const env = validateEnv();
 
-  return createClient<Database>(env.NEXT_PUBLIC_SUPABASE_URL, env.NEXT_PUBLIC_SUPABASE_ANON_KEY, {
-    auth: {
-      autoRefreshToken: false,
-      persistSession: false,
-    },
+  return createAnonClient({
+    url: env.NEXT_PUBLIC_SUPABASE_URL,
+    anonKey: env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
   });
 }
 
@@ -284,7 +286,7 @@ export interface TestUser {
  * ```
  */
 export async function seedRLSTestData(
-  adminClient: SupabaseClient<Database>
+  adminClient: ServiceRoleClient
 ): Promise<{ user1: TestUser; user2: TestUser }> {
   const runId = String(Date.now());
 
@@ -352,7 +354,7 @@ export async function seedRLSTestData(
  * ```
  */
 export async function cleanupRLSTestData(
-  adminClient: SupabaseClient<Database>,
+  adminClient: ServiceRoleClient,
   userId: string
 ): Promise<void> {
   // Delete user (this will cascade delete their data if FK constraints are set up)
@@ -387,7 +389,7 @@ export async function cleanupRLSTestData(
  * ```
  */
 export async function createTestData<TRow = unknown>(
-  adminClient: SupabaseClient<Database>,
+  adminClient: ServiceRoleClient,
   userId: string,
   table: TableName,
   data: Record<string, unknown>
@@ -419,7 +421,7 @@ export async function createTestData<TRow = unknown>(
  * @deprecated Prefer the type-safe createTestData() for existing tables
  */
 export async function createTestDataUnsafe<TRow = unknown>(
-  adminClient: SupabaseClient<Database>,
+  adminClient: ServiceRoleClient,
   userId: string,
   table: string,
   data: Record<string, unknown>
@@ -454,7 +456,7 @@ export async function createTestDataUnsafe<TRow = unknown>(
  * ```
  */
 export async function cleanupTestData(
-  adminClient: SupabaseClient<Database>,
+  adminClient: ServiceRoleClient,
   userId: string,
   table: TableName,
   ownerColumn: string = 'user_id'
@@ -479,7 +481,7 @@ export async function cleanupTestData(
  * @deprecated Prefer the type-safe cleanupTestData() for existing tables
  */
 export async function cleanupTestDataUnsafe(
-  adminClient: SupabaseClient<Database>,
+  adminClient: ServiceRoleClient,
   userId: string,
   table: string,
   ownerColumn: string = 'user_id'
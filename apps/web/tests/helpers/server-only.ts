@@ -0,0 +1,6 @@
+/**
+ * Stand-in for the `server-only` marker package, which throws outside the
+ * Next.js react-server build. Aliased in vitest.config.ts so unit tests can
+ * import server modules such as `@shared/db/server`.
+ */
+export {};
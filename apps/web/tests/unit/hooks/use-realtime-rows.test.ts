@@ -0,0 +1,137 @@
+import type { Database } from '@shared/db';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { mergeRowChange, useRealtimeRows } from '@/hooks/use-realtime-rows';
+
+type Row = { id: number };
+
+const meta = { table: '_health_check', commitTimestamp: '2025-11-07T10:00:00Z' };
+
+function fakeClient() {
+  const channel = {
+    filter: undefined as unknown,
+    emit: vi.fn<(payload: Record<string, unknown>) => void>(),
+    setState: vi.fn<(state: string) => void>(),
+    on: vi.fn(),
+    subscribe: vi.fn(),
+  };
+  channel.on.mockImplementation((_type, filter, listener) => {
+    channel.filter = filter;
+    channel.emit = listener;
+    return channel;
+  });
+  channel.subscribe.mockImplementation((callback) => {
+    channel.setState = callback;
+    return channel;
+  });
+  const removeChannel = vi.fn().mockResolvedValue('ok');
+  const client = {
+    channel: vi.fn(() => channel),
+    removeChannel,
+  } as unknown as SupabaseClient<Database>;
+  return { client, channel, removeChannel };
+}
+
+const payload = { schema: 'public', table: '_health_check', commit_timestamp: '', errors: [] };
+
+describe('mergeRowChange', () => {
+  const rows: Row[] = [{ id: 1 }, { id: 2 }];
+
+  it('appends inserted rows', () => {
+    const change = { ...meta, event: 'INSERT' as const, new: { id: 3 }, old: null };
+    expect(mergeRowChange(rows, change, 'id')).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+  });
+
+  it('replaces updated rows in place', () => {
+    const updated = { id: 1, label: 'updated' } as Row;
+    const change = { ...meta, event: 'UPDATE' as const, new: updated, old: { id: 1 } };
+    expect(mergeRowChange(rows, change, 'id')).toEqual([updated, { id: 2 }]);
+  });
+
+  it('appends updated rows it has not seen', () => {
+    const change = { ...meta, event: 'UPDATE' as const, new: { id: 5 }, old: { id: 5 } };
+    expect(mergeRowChange(rows, change, 'id')).toHaveLength(3);
+  });
+
+  it('removes deleted rows by key', () => {
+    const change = { ...meta, event: 'DELETE' as const, new: null, old: { id: 2 } };
+    expect(mergeRowChange<Row>(rows, change, 'id')).toEqual([{ id: 1 }]);
+  });
+});
+
+describe('useRealtimeRows', () => {
+  it('merges changes into the initial rows', () => {
+    const { client, channel } = fakeClient();
+    const { result } = renderHook(() =>
+      useRealtimeRows(client, '_health_check', {
+        initialRows: [{ id: 1, status: 'ok', checked_at: null }],
+      })
+    );
+
+    act(() => {
+      channel.setState('SUBSCRIBED');
+      channel.emit({ ...payload, eventType: 'INSERT', new: { id: 2 }, old: {} });
+      channel.emit({ ...payload, eventType: 'DELETE', new: {}, old: { id: 1 } });
+    });
+
+    expect(result.current.status).toBe('subscribed');
+    expect(result.current.rows).toEqual([{ id: 2 }]);
+  });
+
+  it('passes the filter to the channel', () => {
+    const { client, channel } = fakeClient();
+    renderHook(() =>
+      useRealtimeRows(client, '_health_check', {
+        initialRows: [],
+        event: 'UPDATE',
+        filter: { column: 'id', op: 'gt', value: 10 },
+      })
+    );
+
+    expect(channel.filter).toEqual({
+      event: 'UPDATE',
+      schema: 'public',
+      table: '_health_check',
+      filter: 'id=gt.10',
+    });
+  });
+
+  it('reloads the rows when subscribed', async () => {
+    const { client, channel } = fakeClient();
+    const reload = vi.fn().mockResolvedValue([{ id: 9 }]);
+    const { result } = renderHook(() =>
+      useRealtimeRows(client, '_health_check', { initialRows: [], reload })
+    );
+
+    act(() => channel.setState('SUBSCRIBED'));
+
+    await waitFor(() => expect(result.current.rows).toEqual([{ id: 9 }]));
+  });
+
+  it('does not resubscribe when an equal filter is passed again', () => {
+    const { client, removeChannel } = fakeClient();
+    const { rerender } = renderHook(() =>
+      useRealtimeRows(client, '_health_check', {
+        initialRows: [],
+        filter: { column: 'id', value: 1 },
+      })
+    );
+
+    rerender();
+
+    expect(client.channel).toHaveBeenCalledTimes(1);
+    expect(removeChannel).not.toHaveBeenCalled();
+  });
+
+  it('removes the channel on unmount', () => {
+    const { client, removeChannel } = fakeClient();
+    const { unmount } = renderHook(() =>
+      useRealtimeRows(client, '_health_check', { initialRows: [] })
+    );
+
+    unmount();
+
+    expect(removeChannel).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,237 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { authProbe, databaseProbe, migrationsProbe, monitoringProbe } from '@/lib/health/probes';
+import { type HealthProbe, healthResponse, runProbes } from '@/lib/health/report';
+
+const service = { name: 'DL Starter', version: '1.0.0', commit: null };
+
+function probe(overrides: Partial<HealthProbe>): HealthProbe {
+  return {
+    name: 'probe',
+    critical: true,
+    check: async () => ({ status: 'ok' }),
+    ...overrides,
+  };
+}
+
+describe('runProbes', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reports ok when every probe passes', async () => {
+    const report = await runProbes([probe({ name: 'a' }), probe({ name: 'b' })], {
+      check: 'readiness',
+      service,
+    });
+
+    expect(report).toMatchObject({
+      status: 'ok',
+      ok: true,
+      check: 'readiness',
+      service,
+      probes: {
+        a: { status: 'ok', critical: true, durationMs: expect.any(Number) },
+        b: { status: 'ok', critical: true },
+      },
+    });
+    expect(new Date(report.timestamp).toISOString()).toBe(report.timestamp);
+  });
+
+  it('fails only when a critical probe fails', async () => {
+    const optional = probe({
+      name: 'optional',
+      critical: false,
+      check: async () => ({ status: 'fail' }),
+    });
+    const required = probe({ name: 'required', check: async () => ({ status: 'fail' }) });
+
+    expect((await runProbes([optional], { check: 'readiness', service })).status).toBe('warn');
+    expect((await runProbes([optional, required], { check: 'readiness', service })).status).toBe(
+      'fail'
+    );
+  });
+
+  it('turns a thrown error into a failure', async () => {
+    const report = await runProbes(
+      [
+        probe({
+          check: async () => {
+            throw new Error('boom');
+          },
+        }),
+      ],
+      { check: 'readiness', service }
+    );
+
+    expect(report.probes.probe).toMatchObject({ status: 'fail', message: 'boom' });
+  });
+
+  it('times out slow probes and aborts them', async () => {
+    vi.useFakeTimers();
+    let signal: AbortSignal | undefined;
+    const slow = probe({
+      timeoutMs: 100,
+      check: (s) => {
+        signal = s;
+        return new Promise(() => {});
+      },
+    });
+
+    const pending = runProbes([slow], { check: 'readiness', service });
+    await vi.advanceTimersByTimeAsync(100);
+    const report = await pending;
+
+    expect(report.probes.probe).toMatchObject({
+      status: 'fail',
+      message: 'Timed out after 100 ms',
+    });
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('is ok with no probes (liveness)', async () => {
+    const report = await runProbes([], { check: 'liveness', service });
+
+    expect(report).toMatchObject({ status: 'ok', ok: true, probes: {} });
+  });
+});
+
+describe('healthResponse', () => {
+  it('returns 503 for a failed report and disables caching', async () => {
+    const report = await runProbes([probe({ check: async () => ({ status: 'fail' }) })], {
+      check: 'readiness',
+      service,
+    });
+    const response = healthResponse(report);
+
+    expect(response.status).toBe(503);
+    expect(response.headers.get('Cache-Control')).toBe('no-store');
+    expect(await response.json()).toMatchObject({ status: 'fail', ok: false });
+  });
+});
+
+describe('probes', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('databaseProbe', () => {
+    const signal = new AbortController().signal;
+
+    it('reports latency', async () => {
+      const healthCheck = vi.fn().mockResolvedValue({ healthy: true, latencyMs: 12 });
+
+      expect(await databaseProbe(() => ({ healthCheck })).check(signal)).toEqual({
+        status: 'ok',
+        details: { latencyMs: 12 },
+      });
+    });
+
+    it('warns when the round trip is slow', async () => {
+      const healthCheck = vi.fn().mockResolvedValue({ healthy: true, latencyMs: 900 });
+
+      const outcome = await databaseProbe(() => ({ healthCheck }), { slowMs: 500 }).check(signal);
+      expect(outcome.status).toBe('warn');
+    });
+
+    it('fails with the database error', async () => {
+      const healthCheck = vi
+        .fn()
+        .mockResolvedValue({ healthy: false, latencyMs: 5, error: 'relation does not exist' });
+
+      expect(await databaseProbe(() => ({ healthCheck })).check(signal)).toMatchObject({
+        status: 'fail',
+        message: 'relation does not exist',
+      });
+    });
+
+    it('fails when Supabase is not configured', async () => {
+      expect((await databaseProbe(null).check(signal)).status).toBe('fail');
+    });
+  });
+
+  describe('migrationsProbe', () => {
+    const signal = new AbortController().signal;
+    const source = (local: string[], applied: string[]) => ({
+      local: async () => local,
+      applied: async () => applied,
+    });
+
+    it('passes when local and applied migrations match', async () => {
+      const outcome = await migrationsProbe(source(['1', '2'], ['1', '2'])).check(signal);
+      expect(outcome.status).toBe('ok');
+    });
+
+    it('fails on pending migrations', async () => {
+      const outcome = await migrationsProbe(source(['1', '2'], ['1'])).check(signal);
+      expect(outcome).toMatchObject({
+        status: 'fail',
+        details: { pending: ['2'], unknown: [] },
+      });
+    });
+
+    it('warns on applied migrations with no local file', async () => {
+      const outcome = await migrationsProbe(source(['1'], ['1', '2'])).check(signal);
+      expect(outcome).toMatchObject({ status: 'warn', details: { unknown: ['2'] } });
+    });
+
+    it('warns when the migration files are not deployed', async () => {
+      const outcome = await migrationsProbe({
+        local: async () => null,
+        applied: async () => ['1', '2'],
+      }).check(signal);
+      expect(outcome).toMatchObject({ status: 'warn', details: { applied: 2 } });
+    });
+
+    it('warns when applied migrations cannot be read', async () => {
+      expect((await migrationsProbe(null).check(signal)).status).toBe('warn');
+    });
+  });
+
+  describe('authProbe', () => {
+    const config = { url: 'https://test.supabase.co/', anonKey: 'anon-key' };
+
+    it('calls the auth health endpoint with the anon key', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(new Response(JSON.stringify({ version: 'v2.170.0' }), { status: 200 }));
+      vi.stubGlobal('fetch', fetchMock);
+      const signal = new AbortController().signal;
+
+      const outcome = await authProbe(config).check(signal);
+
+      expect(outcome).toMatchObject({ status: 'ok', details: { version: 'v2.170.0' } });
+      expect(fetchMock).toHaveBeenCalledWith(
+        'https://test.supabase.co/auth/v1/health',
+        expect.objectContaining({ headers: { apikey: 'anon-key' }, signal })
+      );
+    });
+
+    it('fails on an error status', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('', { status: 503 })));
+
+      const outcome = await authProbe(config, { critical: true }).check(
+        new AbortController().signal
+      );
+      expect(outcome).toMatchObject({ status: 'fail', message: expect.stringContaining('503') });
+    });
+  });
+
+  describe('monitoringProbe', () => {
+    const signal = new AbortController().signal;
+
+    it('passes when the SDK is initialized', async () => {
+      const adapter = { status: () => ({ provider: 'sentry' as const, initialized: true }) };
+      expect((await monitoringProbe(adapter).check(signal)).status).toBe('ok');
+    });
+
+    it('fails when configured but not initialized', async () => {
+      const adapter = { status: () => ({ provider: 'sentry' as const, initialized: false }) };
+      expect((await monitoringProbe(adapter).check(signal)).status).toBe('fail');
+    });
+
+    it('warns when no provider is configured', async () => {
+      const adapter = { status: () => ({ provider: 'none' as const, initialized: false }) };
+      expect((await monitoringProbe(adapter).check(signal)).status).toBe('warn');
+    });
+  });
+});
@@ -48,6 +48,7 @@ export default defineConfig({
       '@/components': path.resolve(__dirname, './src/components'),
       '@/lib': path.resolve(__dirname, './src/lib'),
       '@/tests': path.resolve(__dirname, './tests'),
+      'server-only': path.resolve(__dirname, './tests/helpers/server-only.ts'),
     },
   },
 });
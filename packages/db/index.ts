@@ -2,7 +2,8 @@
  * @fileoverview Database package main exports
  *
  * Provides typed Supabase client and database types following the adapter pattern
- * for replaceable vendor boundaries. Supports AI-assisted database operations
+ * for replaceable vendor boundaries. Service-role access is exported separately
+ * from `@shared/db/server`. Supports AI-assisted database operations
  * with comprehensive type safety and security-first defaults.
  *
  * @example
@@ -13,9 +14,48 @@
  *   url: process.env.SUPABASE_URL,
  *   anonKey: process.env.SUPABASE_ANON_KEY
  * });
+ *
+ * const profile = await client.table('profiles').findById(id);
  * ```
  */
 
 // Database package exports
 export { createDatabaseClient, DatabaseClient, type DatabaseConfig } from './src/client';
+export {
+  type AnonClient,
+  type ClientRole,
+  createAnonClient,
+  createUserClient,
+  type RoleScopedClient,
+  type UserClient,
+  type UserCredentials,
+} from './src/clients';
+export { DbError, type DbErrorCode, type DbErrorOptions, toDbError } from './src/errors';
+export type { Page } from './src/pagination';
+export type { QueryOptions } from './src/query';
+export {
+  type BackoffOptions,
+  type ChangeEvent,
+  type ChangeFor,
+  type RealtimeFilter,
+  type RowChange,
+  type SubscribeOptions,
+  type Subscription,
+  type SubscriptionStatus,
+  subscribeToTable,
+} from './src/realtime';
+export {
+  type CountOptions,
+  type FilterOperators,
+  type FindManyOptions,
+  type FindPageOptions,
+  type OrderBy,
+  type PublicTables,
+  type TableDefinition,
+  type TableName,
+  type TableOptions,
+  TableRepository,
+  type UpsertOptions,
+  type Where,
+} from './src/repository';
 export type { Database, Json } from './src/types';
@@ -0,0 +1,33 @@
+/**
+ * @fileoverview Server-only database exports
+ *
+ * Service-role access bypasses Row Level Security, so it lives behind this
+ * separate entry point. Import it only from server code (route handlers,
+ * server actions, scripts and tests); never from client components. The
+ * `server-only` import makes Next.js fail the build when a client component
+ * pulls this module in; test runners alias it to an empty module (see
+ * apps/web/vitest.config.ts).
+ *
+ * @example
+ * ```typescript
+ * import { createServiceRoleClient } from '@shared/db/server';
+ *
+ * const admin = createServiceRoleClient({
+ *   url: process.env.SUPABASE_URL,
+ *   serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY,
+ * });
+ * const rows = await query(admin, 'select id from auth.users where email = $1', [email]);
+ * ```
+ */
+
+import 'server-only';
+
+export type { ServiceRoleClient } from './src/clients';
+export {
+  appliedMigrations,
+  compareMigrations,
+  localMigrations,
+  type MigrationStatus,
+} from './src/migrations';
+export { type QueryOptions, query } from './src/query';
+export { createServiceRoleClient, type ServiceRoleConfig } from './src/service-role';
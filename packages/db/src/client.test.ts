@@ -5,7 +5,9 @@
 
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
 import { createDatabaseClient, DatabaseClient } from './client';
+import { TableRepository } from './repository';
 import type { Database } from './types';
 
 // Mock the Supabase SDK
@@ -101,6 +103,15 @@ describe('DatabaseClient', () => {
       });
     });
 
+    it('should reject a service-role key', async () => {
+      const { createClient } = await import('@supabase/supabase-js');
+
+      expect(
+        () => new DatabaseClient({ url: 'https://test.supabase.co', anonKey: 'sb_secret_abc' })
+      ).toThrow(/service-role key/);
+      expect(createClient).not.toHaveBeenCalled();
+    });
+
     it('should disable auto refresh token', async () => {
       const { createClient } = await import('@supabase/supabase-js');
 
@@ -144,6 +155,44 @@ describe('DatabaseClient', () => {
     });
   });
 
+  describe('table method', () => {
+    it('should return a repository bound to the Supabase client', () => {
+      const config = {
+        url: 'https://test.supabase.co',
+        anonKey: 'test-anon-key',
+      };
+
+      const client = new DatabaseClient(config);
+      const table = client.table('_health_check');
+
+      expect(table).toBeInstanceOf(TableRepository);
+      expect(table.name).toBe('_health_check');
+    });
+  });
+
+  describe('subscribe method', () => {
+    it('should open a Realtime channel for the table', () => {
+      const channel = { on: vi.fn(), subscribe: vi.fn() };
+      channel.on.mockReturnValue(channel);
+      channel.subscribe.mockReturnValue(channel);
+      mockSupabaseClient.channel = vi.fn().mockReturnValue(channel);
+      const config = {
+        url: 'https://test.supabase.co',
+        anonKey: 'test-anon-key',
+      };
+
+      const client = new DatabaseClient(config);
+      const subscription = client.subscribe('_health_check', { event: 'UPDATE' }, vi.fn());
+
+      expect(subscription.status).toBe('connecting');
+      expect(channel.on).toHaveBeenCalledWith(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: '_health_check' },
+        expect.any(Function)
+      );
+    });
+  });
+
   describe('auth getter', () => {
     it('should return the auth instance', () => {
       const config = {
@@ -251,17 +300,34 @@ describe('DatabaseClient', () => {
         params: [],
       });
     });
+
+    it('should return rows validated by a schema', async () => {
+      process.env.NODE_ENV = 'development';
+
+      const mockRpc = vi.fn().mockResolvedValue({ data: [{ total: 3 }], error: null });
+      mockSupabaseClient.rpc = mockRpc;
+
+      const client = new DatabaseClient({
+        url: 'https://test.supabase.co',
+        anonKey: 'test-anon-key',
+      });
+      const rows = await client.query('SELECT $1::int + $2::int AS total', [1, 2], {
+        schema: z.object({ total: z.number() }),
+        timeoutMs: 1000,
+      });
+
+      expect(rows).toEqual([{ total: 3 }]);
+      expect(mockRpc).toHaveBeenCalledWith('query', {
+        sql: 'SELECT $1::int + $2::int AS total',
+        params: [1, 2],
+        timeout_ms: 1000,
+      });
+    });
   });
 
   describe('healthCheck method', () => {
     it('should return healthy: true when database is accessible', async () => {
-      const mockSelect = vi.fn().mockReturnValue({
-        limit: vi.fn().mockResolvedValue({ error: null }),
-      });
-
-      mockSupabaseClient.from = vi.fn(() => ({
-        select: mockSelect,
-      })) as any;
+      mockSupabaseClient.rpc = vi.fn().mockResolvedValue({ data: true, error: null });
 
       const config = {
         url: 'https://test.supabase.co',
@@ -271,17 +337,13 @@ describe('DatabaseClient', () => {
       const client = new DatabaseClient(config);
       const result = await client.healthCheck();
 
-      expect(result).toEqual({ healthy: true });
+      expect(result).toEqual({ healthy: true, latencyMs: expect.any(Number) });
     });
 
     it('should return healthy: false when database returns error', async () => {
-      const mockSelect = vi.fn().mockReturnValue({
-        limit: vi.fn().mockResolvedValue({ error: { message: 'Connection failed' } }),
-      });
-
-      mockSupabaseClient.from = vi.fn(() => ({
-        select: mockSelect,
-      })) as any;
+      mockSupabaseClient.rpc = vi
+        .fn()
+        .mockResolvedValue({ data: null, error: { message: 'Connection failed' } });
 
       const config = {
         url: 'https://test.supabase.co',
@@ -291,16 +353,15 @@ describe('DatabaseClient', () => {
       const client = new DatabaseClient(config);
       const result = await client.healthCheck();
 
-      expect(result).toEqual({ healthy: false });
+      expect(result).toEqual({
+        healthy: false,
+        latencyMs: expect.any(Number),
+        error: 'Connection failed',
+      });
     });
 
-    it('should query _health_check table with correct parameters', async () => {
-      const mockLimit = vi.fn().mockResolvedValue({ error: null });
-      const mockSelect = vi.fn().mockReturnValue({ limit: mockLimit });
-
-      mockSupabaseClient.from = vi.fn(() => ({
-        select: mockSelect,
-      })) as any;
+    it('should call the ping RPC, which the migrations create', async () => {
+      mockSupabaseClient.rpc = vi.fn().mockResolvedValue({ data: true, error: null });
 
       const config = {
         url: 'https://test.supabase.co',
@@ -310,13 +371,12 @@ describe('DatabaseClient', () => {
       const client = new DatabaseClient(config);
       await client.healthCheck();
 
-      expect(mockSupabaseClient.from).toHaveBeenCalledWith('_health_check');
-      expect(mockSelect).toHaveBeenCalledWith('id', { head: true, count: 'exact' });
-      expect(mockLimit).toHaveBeenCalledWith(1);
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith('ping');
+      expect(mockSupabaseClient.from).not.toHaveBeenCalled();
     });
 
     it('should return healthy: false with error message when exception is thrown', async () => {
-      mockSupabaseClient.from = vi.fn(() => {
+      mockSupabaseClient.rpc = vi.fn(() => {
         throw new Error('Network error');
       }) as any;
 
@@ -330,12 +390,13 @@ describe('DatabaseClient', () => {
 
       expect(result).toEqual({
         healthy: false,
+        latencyMs: expect.any(Number),
         error: 'Network error',
       });
     });
 
     it('should handle non-Error exceptions', async () => {
-      mockSupabaseClient.from = vi.fn(() => {
+      mockSupabaseClient.rpc = vi.fn(() => {
         throw 'String error';
       }) as any;
 
@@ -349,6 +410,7 @@ describe('DatabaseClient', () => {
 
       expect(result).toEqual({
         healthy: false,
+        latencyMs: expect.any(Number),
         error: 'Unknown error',
       });
     });
@@ -2,8 +2,9 @@
  * @fileoverview Database client adapter following DLStarter adapter patterns
  *
  * Provides a clean, typed interface for Supabase database operations while
- * maintaining replaceable vendor boundaries. Includes health checks, auth
- * management, and safe SQL execution capabilities.
+ * maintaining replaceable vendor boundaries. Includes typed table repositories,
+ * realtime subscriptions, health checks, auth management, and safe SQL
+ * execution capabilities.
  *
  * @example
  * ```typescript
@@ -12,17 +13,35 @@
  *   anonKey: process.env.SUPABASE_ANON_KEY
  * });
  *
- * const { data, error } = await client.raw.from('users').select('*');
+ * const users = await client.table('users').findMany({ limit: 50 });
  * const health = await client.healthCheck();
  * ```
  */
 
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type { z } from 'zod';
+import { assertPublicKey } from './clients';
+import { executeQuery, type QueryOptions } from './query';
+import {
+  type ChangeEvent,
+  type ChangeFor,
+  type SubscribeOptions,
+  type Subscription,
+  subscribeToTable,
+} from './realtime';
+import {
+  type PublicTables,
+  type TableName,
+  type TableOptions,
+  TableRepository,
+} from './repository';
 import type { Database, Json } from './types';
 
 /**
  * Supabase client configuration
- * Following the adapter pattern for replaceable vendor boundaries
+ * Following the adapter pattern for replaceable vendor boundaries.
+ * Takes the public anon key only; service-role access goes through
+ * createServiceRoleClient from `@shared/db/server`.
  */
 export interface DatabaseConfig {
   url: string;
@@ -36,7 +55,11 @@ export interface DatabaseConfig {
 export class DatabaseClient {
   private client: SupabaseClient<Database>;
 
+  /**
+   * @throws DbError - `configuration` if given a service-role key
+   */
   constructor(config: DatabaseConfig) {
+    assertPublicKey(config.anonKey, 'DatabaseClient');
     this.client = createClient<Database>(config.url, config.anonKey, {
       auth: {
         autoRefreshToken: false,
@@ -47,12 +70,40 @@ export class DatabaseClient {
 
   /**
    * Get the raw Supabase client for advanced operations
-   * Use sparingly - prefer typed methods on this class
+   * Use sparingly - prefer table() and the other typed methods on this class
    */
   get raw(): SupabaseClient<Database> {
     return this.client;
   }
 
+  /**
+   * Get a typed repository for a table in the public schema
+   * @param name - Table name
+   * @param options - Primary key and soft delete column
+   */
+  table<N extends TableName>(
+    name: N,
+    options?: TableOptions<PublicTables[N]['Row']>
+  ): TableRepository<PublicTables[N]> {
+    return new TableRepository<PublicTables[N]>(this.client, name, options);
+  }
+
+  /**
+   * Subscribe to row changes of a table in the public schema
+   * Changes are delivered under this client's RLS scope; the channel
+   * reconnects with backoff until the subscription is cancelled
+   * @param table - Table name
+   * @param options - Event, single-column filter, backoff and status callback
+   * @param handler - Called with each change
+   */
+  subscribe<N extends TableName, E extends ChangeEvent | '*' = '*'>(
+    table: N,
+    options: SubscribeOptions<PublicTables[N]['Row'], E>,
+    handler: (change: ChangeFor<PublicTables[N]['Row'], E>) => void
+  ): Subscription {
+    return subscribeToTable(this.client, table, options, handler);
+  }
+
   /**
    * Get the auth instance for user management
    */
@@ -61,33 +112,52 @@ export class DatabaseClient {
   }
 
   /**
-   * Execute a SQL query with parameters
-   * Requires service role credentials - not available with anon/authenticated keys
-   * @param sql - SQL query string
+   * Execute a SQL statement with `$1..$n` parameters through the query RPC
+   * Requires service role credentials - not available with anon/authenticated keys;
+   * server code should use query() from `@shared/db/server` with a service-role client
+   * @param sql - SQL statement
    * @param params - Query parameters as JSON array
-   * @throws Error if called without service role privileges
+   * @param options - Row schema, read-only mode and timeout
+   * @throws Error outside development; DbError if the statement fails
    */
-  async query(sql: string, params: Json[] = []) {
+  async query<T>(
+    sql: string,
+    params: Json[],
+    options: QueryOptions<T> & { schema: z.ZodType<T> }
+  ): Promise<T[]>;
+  async query(
+    sql: string,
+    params?: Json[],
+    options?: Omit<QueryOptions, 'schema'>
+  ): Promise<Json[]>;
+  async query(
+    sql: string,
+    params: Json[] = [],
+    options: QueryOptions<unknown> = {}
+  ): Promise<unknown[]> {
     if (process.env.NODE_ENV !== 'development') {
       throw new Error('DatabaseClient.query is dev-only. Do not use in production.');
     }
-    // This function requires service role - will fail with anon/authenticated keys
-    return (this.client as any).rpc('query', { sql, params });
+    return executeQuery(this.client, sql, params, options);
   }
 
   /**
    * Check database connection and health
+   * Times one round trip through PostgREST to Postgres (the `ping` RPC),
+   * successful or not
    */
-  async healthCheck(): Promise<{ healthy: boolean; error?: string }> {
+  async healthCheck(): Promise<{ healthy: boolean; latencyMs: number; error?: string }> {
+    const started = performance.now();
+    const latency = () => Math.round(performance.now() - started);
     try {
-      const { error } = await this.client
-        .from('_health_check')
-        .select('id', { head: true, count: 'exact' })
-        .limit(1);
-      return { healthy: !error };
+      const { error } = await this.client.rpc('ping');
+      return error
+        ? { healthy: false, latencyMs: latency(), error: error.message }
+        : { healthy: true, latencyMs: latency() };
     } catch (err) {
       return {
         healthy: false,
+        latencyMs: latency(),
         error: err instanceof Error ? err.message : 'Unknown error',
       };
     }
@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Test suite for role-scoped client factories
+ * @module db/clients/tests
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  apiKeyRole,
+  createAnonClient,
+  createUserClient,
+  isBrowserRuntime,
+  type ServiceRoleClient,
+  type UserClient,
+} from './clients';
+import { DbError } from './errors';
+import { createServiceRoleClient } from './service-role';
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({ from: vi.fn() })),
+}));
+
+/**
+ * Unsigned JWT with the given role claim (shape of a legacy Supabase API key)
+ */
+function legacyKey(role: string): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({ iss: 'supabase', role })}.signature`;
+}
+
+const config = { url: 'https://test.supabase.co', anonKey: legacyKey('anon') };
+
+describe('client factories', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('apiKeyRole', () => {
+    it('should recognize publishable and secret keys', () => {
+      expect(apiKeyRole('sb_publishable_abc')).toBe('anon');
+      expect(apiKeyRole('sb_secret_abc')).toBe('service_role');
+    });
+
+    it('should read the role claim of legacy JWT keys', () => {
+      expect(apiKeyRole(legacyKey('anon'))).toBe('anon');
+      expect(apiKeyRole(legacyKey('service_role'))).toBe('service_role');
+    });
+
+    it('should return null for unknown keys', () => {
+      expect(apiKeyRole('test-anon-key')).toBeNull();
+      expect(apiKeyRole('a.not-base64!.c')).toBeNull();
+      expect(apiKeyRole(legacyKey('authenticated'))).toBeNull();
+    });
+  });
+
+  describe('createAnonClient', () => {
+    it('should create a stateless client with the anon key', () => {
+      createAnonClient(config);
+
+      expect(createClient).toHaveBeenCalledWith(config.url, config.anonKey, {
+        auth: { autoRefreshToken: false, persistSession: false, detectSessionInUrl: false },
+      });
+    });
+
+    it('should reject service-role keys', () => {
+      expect(() => createAnonClient({ ...config, anonKey: legacyKey('service_role') })).toThrow(
+        DbError
+      );
+      expect(() => createAnonClient({ ...config, anonKey: 'sb_secret_abc' })).toThrow(
+        /service-role key/
+      );
+      expect(createClient).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createUserClient', () => {
+    it('should send the access token on every request', () => {
+      createUserClient(config, { accessToken: 'user-jwt' });
+
+      expect(createClient).toHaveBeenCalledWith(
+        config.url,
+        config.anonKey,
+        expect.objectContaining({
+          global: { headers: { Authorization: 'Bearer user-jwt' } },
+        })
+      );
+    });
+
+    it('should authorize Realtime channels with the access token', async () => {
+      createUserClient(config, { accessToken: 'user-jwt' });
+
+      const options = vi.mocked(createClient).mock.calls[0]?.[2];
+      expect(await options?.realtime?.accessToken?.()).toBe('user-jwt');
+    });
+
+    it('should accept a session', () => {
+      createUserClient(config, { session: { access_token: 'session-jwt' } });
+
+      const options = vi.mocked(createClient).mock.calls[0][2];
+      expect(options?.global?.headers).toEqual({ Authorization: 'Bearer session-jwt' });
+    });
+
+    it('should require a token', () => {
+      expect(() => createUserClient(config, { accessToken: '' })).toThrow(
+        expect.objectContaining({ code: 'invalid_input' })
+      );
+    });
+
+    it('should reject service-role keys', () => {
+      expect(() =>
+        createUserClient({ ...config, anonKey: 'sb_secret_abc' }, { accessToken: 'user-jwt' })
+      ).toThrow(expect.objectContaining({ code: 'configuration' }));
+    });
+  });
+
+  describe('createServiceRoleClient', () => {
+    const serviceConfig = { url: config.url, serviceRoleKey: legacyKey('service_role') };
+
+    it('should create a stateless client with the service-role key', () => {
+      createServiceRoleClient(serviceConfig);
+
+      expect(createClient).toHaveBeenCalledWith(
+        serviceConfig.url,
+        serviceConfig.serviceRoleKey,
+        expect.objectContaining({ auth: expect.objectContaining({ persistSession: false }) })
+      );
+    });
+
+    it('should reject anon keys', () => {
+      expect(() =>
+        createServiceRoleClient({ ...serviceConfig, serviceRoleKey: config.anonKey })
+      ).toThrow(expect.objectContaining({ code: 'configuration' }));
+    });
+
+    it('should refuse to run in a browser', () => {
+      vi.stubGlobal('window', {});
+      vi.stubGlobal('document', {});
+      vi.stubGlobal('process', { env: {}, versions: {} });
+
+      expect(isBrowserRuntime()).toBe(true);
+      expect(() => createServiceRoleClient(serviceConfig)).toThrow(/cannot run in a browser/);
+      expect(createClient).not.toHaveBeenCalled();
+    });
+
+    it('should allow DOM emulation under Node', () => {
+      vi.stubGlobal('window', {});
+      vi.stubGlobal('document', {});
+
+      expect(isBrowserRuntime()).toBe(false);
+      expect(() => createServiceRoleClient(serviceConfig)).not.toThrow();
+    });
+  });
+
+  it('should keep roles apart at the type level', () => {
+    const admin = createServiceRoleClient({ url: config.url, serviceRoleKey: 'sb_secret_abc' });
+    const user = createUserClient(config, { accessToken: 'user-jwt' });
+    const requireUser = (client: UserClient) => client;
+
+    requireUser(user);
+    // @ts-expect-error a service-role client is not a user-scoped client
+    requireUser(admin);
+    // @ts-expect-error a plain Supabase client carries no role
+    const unbranded: ServiceRoleClient = createClient('https://test.supabase.co', 'key');
+    expect(unbranded).toBeDefined();
+  });
+});
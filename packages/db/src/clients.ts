@@ -0,0 +1,159 @@
+/**
+ * @fileoverview Role-scoped Supabase client factories
+ *
+ * Every client acts as one Postgres role: `anon` (no user), `authenticated`
+ * (a user's JWT, subject to RLS) or `service_role` (bypasses RLS). The role is
+ * branded into the client type so a function can demand, say, a user-scoped
+ * client and reject the others at compile time. Service-role clients are only
+ * created by `@shared/db/server`, which refuses to run in a browser.
+ *
+ * @example
+ * ```typescript
+ * const anon = createAnonClient({ url, anonKey });
+ * const user = createUserClient({ url, anonKey }, { accessToken: session.access_token });
+ *
+ * async function listOwnNotes(client: UserClient) {
+ *   return client.from('notes').select('*');
+ * }
+ * ```
+ */
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import type { DatabaseConfig } from './client';
+import { DbError } from './errors';
+import type { Database } from './types';
+
+/**
+ * Postgres role a client acts as
+ */
+export type ClientRole = 'anon' | 'authenticated' | 'service_role';
+
+declare const clientRole: unique symbol;
+
+/**
+ * Supabase client branded with the role it acts as
+ */
+export type RoleScopedClient<R extends ClientRole> = SupabaseClient<Database> & {
+  readonly [clientRole]: R;
+};
+
+/**
+ * Client without a user; sees only what RLS grants to `anon`
+ */
+export type AnonClient = RoleScopedClient<'anon'>;
+
+/**
+ * Client acting as one signed-in user; sees what RLS grants to that user
+ */
+export type UserClient = RoleScopedClient<'authenticated'>;
+
+/**
+ * Server-only client that bypasses RLS (see `@shared/db/server`)
+ */
+export type ServiceRoleClient = RoleScopedClient<'service_role'>;
+
+/**
+ * Credentials of the user a UserClient acts for: an access token (JWT), or a
+ * Supabase session carrying one
+ */
+export type UserCredentials = { accessToken: string } | { session: { access_token: string } };
+
+const credentialsSchema = z.union([
+  z.object({ accessToken: z.string().min(1) }),
+  z.object({ session: z.object({ access_token: z.string().min(1) }) }),
+]);
+
+/**
+ * Stateless auth settings: tokens are supplied per client, never stored
+ */
+export const STATELESS_AUTH = {
+  autoRefreshToken: false,
+  persistSession: false,
+  detectSessionInUrl: false,
+} as const;
+
+/**
+ * Create a client for unauthenticated access
+ * @throws DbError - `configuration` if given a service-role key
+ */
+export function createAnonClient(config: DatabaseConfig): AnonClient {
+  assertPublicKey(config.anonKey, 'createAnonClient');
+  return createClient<Database>(config.url, config.anonKey, {
+    auth: STATELESS_AUTH,
+  }) as AnonClient;
+}
+
+/**
+ * Create a client that acts as the user owning `credentials`
+ *
+ * Requests and Realtime channels carry the user's JWT, so RLS policies see
+ * `auth.uid()`. The token is not refreshed; create a new client when the
+ * session is renewed.
+ *
+ * @throws DbError - `configuration` if given a service-role key, `invalid_input`
+ * if the credentials carry no token
+ */
+export function createUserClient(config: DatabaseConfig, credentials: UserCredentials): UserClient {
+  assertPublicKey(config.anonKey, 'createUserClient');
+  const parsed = credentialsSchema.safeParse(credentials);
+  if (!parsed.success) {
+    throw new DbError('createUserClient requires an access token or a session', {
+      code: 'invalid_input',
+      cause: parsed.error,
+    });
+  }
+  const accessToken =
+    'accessToken' in parsed.data ? parsed.data.accessToken : parsed.data.session.access_token;
+
+  return createClient<Database>(config.url, config.anonKey, {
+    auth: STATELESS_AUTH,
+    global: { headers: { Authorization: `Bearer ${accessToken}` } },
+    // Without this, Realtime authorizes with the anon key and applies anon RLS
+    realtime: { accessToken: async () => accessToken },
+  }) as UserClient;
+}
+
+/**
+ * Role granted by a Supabase API key, or null if it cannot be determined
+ *
+ * Recognizes `sb_publishable_`/`sb_secret_` keys and legacy JWT keys, whose
+ * `role` claim names the Postgres role.
+ */
+export function apiKeyRole(key: string): 'anon' | 'service_role' | null {
+  if (key.startsWith('sb_secret_')) return 'service_role';
+  if (key.startsWith('sb_publishable_')) return 'anon';
+
+  const payload = key.split('.')[1];
+  if (!payload) return null;
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const claims: unknown = JSON.parse(atob(base64));
+    const role = (claims as { role?: unknown } | null)?.role;
+    return role === 'anon' || role === 'service_role' ? role : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Throw if a service-role key is passed where an anon (public) key belongs,
+ * which would silently bypass RLS
+ */
+export function assertPublicKey(key: string, caller: string): void {
+  if (apiKeyRole(key) === 'service_role') {
+    throw new DbError(
+      `${caller} was given a service-role key; use createServiceRoleClient from @shared/db/server`,
+      { code: 'configuration' }
+    );
+  }
+}
+
+/**
+ * True when running in a browser rather than Node (jsdom under Node counts as Node)
+ */
+export function isBrowserRuntime(): boolean {
+  const scope = globalThis as { window?: unknown; document?: unknown };
+  const isNode = typeof process !== 'undefined' && Boolean(process.versions?.node);
+  return scope.window !== undefined && scope.document !== undefined && !isNode;
+}
@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Test suite for database error normalization
+ * @module db/errors/tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { DbError, toDbError } from './errors';
+
+describe('toDbError', () => {
+  it('should map Postgres SQLSTATE codes', () => {
+    const error = toDbError(
+      {
+        code: '23505',
+        message: 'duplicate key value violates unique constraint "profiles_email_key"',
+        details: 'Key (email)=(a@example.com) already exists.',
+        hint: null,
+      },
+      409
+    );
+
+    expect(error).toBeInstanceOf(DbError);
+    expect(error.code).toBe('unique_violation');
+    expect(error.sourceCode).toBe('23505');
+    expect(error.details).toBe('Key (email)=(a@example.com) already exists.');
+    expect(error.status).toBe(409);
+  });
+
+  it('should map PostgREST codes', () => {
+    expect(toDbError({ code: 'PGRST116', message: 'no rows' }).code).toBe('not_found');
+    expect(toDbError({ code: 'PGRST205', message: 'missing table' }).code).toBe('configuration');
+  });
+
+  it('should treat data exceptions as invalid input', () => {
+    const error = toDbError({ code: '22P02', message: 'invalid input syntax for type uuid' });
+    expect(error.code).toBe('invalid_input');
+  });
+
+  it('should map statement and lock timeouts', () => {
+    expect(toDbError({ code: '57014', message: 'canceling statement' }).code).toBe('timeout');
+    expect(toDbError({ code: '55P03', message: 'lock timeout' }).code).toBe('timeout');
+  });
+
+  it('should fall back to HTTP status for unknown codes', () => {
+    expect(toDbError({ code: 'XX000', message: 'denied' }, 403).code).toBe('permission_denied');
+    expect(toDbError({ code: 'XX000', message: 'internal' }, 500).code).toBe('unknown');
+  });
+
+  it('should detect fetch failures reported by postgrest-js', () => {
+    const error = toDbError(
+      { code: '', message: 'TypeError: fetch failed', details: '', hint: '' },
+      0
+    );
+    expect(error.code).toBe('network');
+    expect(error.sourceCode).toBeNull();
+  });
+
+  it('should classify PostgrestError instances from throwOnError()', () => {
+    const thrown = Object.assign(new Error('permission denied for table profiles'), {
+      name: 'PostgrestError',
+      code: '42501',
+      details: '',
+      hint: '',
+    });
+    expect(toDbError(thrown).code).toBe('permission_denied');
+  });
+
+  it('should wrap thrown errors and keep the cause', () => {
+    const cause = new Error('socket hang up');
+    const error = toDbError(cause);
+
+    expect(error.code).toBe('unknown');
+    expect(error.message).toBe('socket hang up');
+    expect(error.cause).toBe(cause);
+    expect(toDbError(new Error('connect ECONNREFUSED 127.0.0.1:54321')).code).toBe('network');
+  });
+
+  it('should return DbError instances unchanged', () => {
+    const original = new DbError('missing', { code: 'not_found' });
+    expect(toDbError(original)).toBe(original);
+  });
+
+  it('should handle non-error values', () => {
+    const error = toDbError('boom');
+    expect(error.message).toBe('Unknown error');
+    expect(error.code).toBe('unknown');
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Normalized database errors
+ *
+ * Supabase reports failures in several shapes: PostgREST errors carrying a
+ * Postgres SQLSTATE or `PGRST` code, fetch failures, and thrown exceptions.
+ * DbError folds them into one type with a stable `code` so callers can branch
+ * on the kind of failure without knowing the vendor's error format.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.table('profiles').insert({ email });
+ * } catch (error) {
+ *   if (error instanceof DbError && error.code === 'unique_violation') {
+ *     return { field: 'email', message: 'Already registered' };
+ *   }
+ *   throw error;
+ * }
+ * ```
+ */
+
+/**
+ * Kind of database failure
+ */
+export type DbErrorCode =
+  | 'not_found'
+  | 'unique_violation'
+  | 'foreign_key_violation'
+  | 'not_null_violation'
+  | 'check_violation'
+  | 'permission_denied'
+  | 'invalid_input'
+  | 'configuration'
+  | 'network'
+  | 'timeout'
+  | 'unknown';
+
+/**
+ * Details attached to a DbError
+ */
+export interface DbErrorOptions {
+  code: DbErrorCode;
+  /** Postgres SQLSTATE or PostgREST error code (e.g. '23505', 'PGRST116') */
+  sourceCode?: string | null;
+  details?: string | null;
+  hint?: string | null;
+  /** HTTP status of the PostgREST response, if any */
+  status?: number | null;
+  cause?: unknown;
+}
+
+/**
+ * Database error with a vendor-independent code
+ */
+export class DbError extends Error {
+  readonly code: DbErrorCode;
+  readonly sourceCode: string | null;
+  readonly details: string | null;
+  readonly hint: string | null;
+  readonly status: number | null;
+
+  constructor(message: string, options: DbErrorOptions) {
+    super(message, { cause: options.cause });
+    this.name = 'DbError';
+    this.code = options.code;
+    this.sourceCode = options.sourceCode ?? null;
+    this.details = options.details ?? null;
+    this.hint = options.hint ?? null;
+    this.status = options.status ?? null;
+  }
+}
+
+/**
+ * Error codes by SQLSTATE or PostgREST code
+ * @see https://www.postgresql.org/docs/current/errcodes-appendix.html
+ * @see https://postgrest.org/en/stable/references/errors.html
+ */
+const SOURCE_CODES: Record<string, DbErrorCode> = {
+  '23505': 'unique_violation',
+  '23503': 'foreign_key_violation',
+  '23502': 'not_null_violation',
+  '23514': 'check_violation',
+  '25006': 'permission_denied',
+  '42501': 'permission_denied',
+  '42P01': 'configuration',
+  '42P02': 'invalid_input',
+  '42703': 'invalid_input',
+  '55P03': 'timeout',
+  '57014': 'timeout',
+  PGRST116: 'not_found',
+  PGRST204: 'invalid_input',
+  PGRST205: 'configuration',
+  PGRST301: 'permission_denied',
+  PGRST302: 'permission_denied',
+};
+
+/**
+ * Shape of a PostgREST error: a plain object in `{ data, error }` responses,
+ * or a PostgrestError instance when the query used throwOnError()
+ */
+interface PostgrestErrorLike {
+  message: string;
+  code?: string;
+  details?: string | null;
+  hint?: string | null;
+}
+
+/**
+ * Convert any database failure into a DbError
+ *
+ * @param error - PostgREST error, thrown exception, or DbError
+ * @param status - HTTP status of the response, if known
+ * @returns The same DbError, or a new one with a normalized code
+ */
+export function toDbError(error: unknown, status?: number | null): DbError {
+  if (error instanceof DbError) {
+    return error;
+  }
+
+  if (isPostgrestError(error)) {
+    const sourceCode = error.code || null;
+    return new DbError(error.message, {
+      code: classify(sourceCode, error.message, status),
+      sourceCode,
+      details: error.details ?? null,
+      hint: error.hint ?? null,
+      status,
+      cause: error,
+    });
+  }
+
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return new DbError(message, {
+    code: isNetworkFailure(message) ? 'network' : 'unknown',
+    status,
+    cause: error,
+  });
+}
+
+function classify(
+  sourceCode: string | null,
+  message: string,
+  status: number | null | undefined
+): DbErrorCode {
+  if (sourceCode && SOURCE_CODES[sourceCode]) {
+    return SOURCE_CODES[sourceCode];
+  }
+  // Class 22 is data exceptions: invalid text representation, out of range...
+  if (sourceCode?.startsWith('22')) {
+    return 'invalid_input';
+  }
+  // postgrest-js reports fetch failures with status 0 and the fetch error's message
+  if (status === 0 || isNetworkFailure(message)) {
+    return 'network';
+  }
+  if (status === 401 || status === 403) {
+    return 'permission_denied';
+  }
+  return 'unknown';
+}
+
+function isPostgrestError(error: unknown): error is PostgrestErrorLike {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    typeof (error as PostgrestErrorLike).message === 'string' &&
+    (!(error instanceof Error) || error.name === 'PostgrestError')
+  );
+}
+
+function isNetworkFailure(message: string): boolean {
+  return /fetch failed|network|ECONNREFUSED|ETIMEDOUT|ENOTFOUND/i.test(message);
+}
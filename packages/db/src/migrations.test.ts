@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Test suite for migration comparison
+ * @module db/migrations/tests
+ */
+
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ServiceRoleClient } from './clients';
+import { appliedMigrations, compareMigrations, localMigrations } from './migrations';
+
+describe('migrations', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  describe('localMigrations', () => {
+    it('should list migration versions in order, ignoring other files', async () => {
+      dir = await mkdtemp(join(tmpdir(), 'migrations-'));
+      await writeFile(join(dir, '20251106000000_second.sql'), '');
+      await writeFile(join(dir, '20250926120000_first.sql'), '');
+      await writeFile(join(dir, 'README.md'), '');
+      await writeFile(join(dir, 'draft.sql'), '');
+
+      expect(await localMigrations(dir)).toEqual(['20250926120000', '20251106000000']);
+    });
+  });
+
+  describe('appliedMigrations', () => {
+    it('should return versions from the RPC', async () => {
+      const rpc = vi.fn().mockResolvedValue({ data: ['20250926120000'], error: null, status: 200 });
+      const client = { rpc } as unknown as ServiceRoleClient;
+
+      expect(await appliedMigrations(client)).toEqual(['20250926120000']);
+      expect(rpc).toHaveBeenCalledWith('applied_migrations');
+    });
+
+    it('should normalize RPC errors', async () => {
+      const rpc = vi.fn().mockResolvedValue({
+        data: null,
+        error: { code: '42501', message: 'permission denied for function applied_migrations' },
+        status: 403,
+      });
+      const client = { rpc } as unknown as ServiceRoleClient;
+
+      await expect(appliedMigrations(client)).rejects.toMatchObject({
+        name: 'DbError',
+        code: 'permission_denied',
+      });
+    });
+  });
+
+  describe('compareMigrations', () => {
+    it('should report pending and unknown versions', () => {
+      expect(compareMigrations(['1', '2', '3'], ['1', '4'])).toEqual({
+        pending: ['2', '3'],
+        unknown: ['4'],
+      });
+    });
+
+    it('should report nothing when in sync', () => {
+      expect(compareMigrations(['1', '2'], ['2', '1'])).toEqual({ pending: [], unknown: [] });
+    });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview Applied vs local migration comparison (server only)
+ *
+ * Local migrations are the `<version>_<name>.sql` files in
+ * `supabase/migrations`; applied ones are read from the database through the
+ * service-role-only `applied_migrations` RPC. A local version missing from the
+ * database is pending; an applied version with no local file is unknown, which
+ * usually means the deployed code is older than the database.
+ *
+ * @example
+ * ```typescript
+ * const status = compareMigrations(
+ *   await localMigrations('supabase/migrations'),
+ *   await appliedMigrations(admin)
+ * );
+ * if (status.pending.length > 0) console.warn('Pending:', status.pending);
+ * ```
+ */
+
+import { readdir } from 'node:fs/promises';
+import type { ServiceRoleClient } from './clients';
+import { toDbError } from './errors';
+
+/**
+ * Result of comparing local and applied migrations
+ */
+export interface MigrationStatus {
+  /** Local versions not yet applied, oldest first */
+  pending: string[];
+  /** Applied versions with no local migration file, oldest first */
+  unknown: string[];
+}
+
+/**
+ * Versions of the migration files in a directory, oldest first
+ * @param dir - Directory holding `<version>_<name>.sql` files
+ */
+export async function localMigrations(dir: string): Promise<string[]> {
+  const files = await readdir(dir);
+  return files
+    .map((file) => /^(\d+)_.*\.sql$/.exec(file)?.[1])
+    .filter((version): version is string => version !== undefined)
+    .sort();
+}
+
+/**
+ * Versions of the migrations applied to the database, oldest first
+ * @throws DbError if the RPC fails
+ */
+export async function appliedMigrations(client: ServiceRoleClient): Promise<string[]> {
+  try {
+    const { data, error, status } = await client.rpc('applied_migrations');
+    if (error) {
+      throw toDbError(error, status);
+    }
+    return data ?? [];
+  } catch (error) {
+    throw toDbError(error);
+  }
+}
+
+/**
+ * Compare local migration versions with applied ones
+ */
+export function compareMigrations(local: string[], applied: string[]): MigrationStatus {
+  const appliedSet = new Set(applied);
+  const localSet = new Set(local);
+  return {
+    pending: local.filter((version) => !appliedSet.has(version)).sort(),
+    unknown: applied.filter((version) => !localSet.has(version)).sort(),
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Test suite for keyset pagination helpers
+ * @module db/pagination/tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { DbError } from './errors';
+import { decodeCursor, encodeCursor, keysetFilter, stableOrdering } from './pagination';
+
+const ordering = [
+  { column: 'created_at', ascending: false },
+  { column: 'id', ascending: true },
+];
+
+describe('stableOrdering', () => {
+  it('should append the primary key as a tie-breaker', () => {
+    expect(stableOrdering([{ column: 'name', ascending: true }], 'id')).toEqual([
+      { column: 'name', ascending: true },
+      { column: 'id', ascending: true },
+    ]);
+  });
+
+  it('should keep an ordering that already includes the primary key', () => {
+    expect(stableOrdering(ordering, 'id')).toBe(ordering);
+  });
+});
+
+describe('cursors', () => {
+  it('should round-trip ordering values', () => {
+    const cursor = encodeCursor({ id: 7, created_at: '2025-01-01T00:00:00Z', name: 'x' }, ordering);
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor, ordering)).toEqual(['2025-01-01T00:00:00Z', 7]);
+  });
+
+  it('should reject null ordering values', () => {
+    expect(() => encodeCursor({ id: 1, created_at: null }, ordering)).toThrow(DbError);
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(() => decodeCursor('not a cursor', ordering)).toThrow('Malformed pagination cursor');
+    const wrongShape = Buffer.from(JSON.stringify({ v: 1, o: 'id:asc', k: [{}] })).toString(
+      'base64url'
+    );
+    expect(() => decodeCursor(wrongShape, ordering)).toThrow('Malformed pagination cursor');
+  });
+
+  it('should reject cursors issued for another ordering', () => {
+    const cursor = encodeCursor({ id: 1, created_at: '2025-01-01' }, ordering);
+    const reversed = ordering.map((key) => ({ ...key, ascending: !key.ascending }));
+
+    expect(() => decodeCursor(cursor, reversed)).toThrow('different ordering');
+  });
+});
+
+describe('keysetFilter', () => {
+  it('should select rows strictly after the cursor', () => {
+    expect(keysetFilter(ordering, ['2025-01-01', 7])).toBe(
+      'created_at.lt."2025-01-01",and(created_at.eq."2025-01-01",id.gt."7")'
+    );
+  });
+
+  it('should quote reserved characters', () => {
+    expect(keysetFilter([{ column: 'name', ascending: true }], ['a,b "c" \\d'])).toBe(
+      'name.gt."a,b \\"c\\" \\\\d"'
+    );
+  });
+});
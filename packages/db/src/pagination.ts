@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Keyset (cursor) pagination helpers
+ *
+ * Keyset pagination reads the page after a known row instead of skipping
+ * `offset` rows, so every page costs the same and rows inserted mid-scroll do
+ * not shift later pages. The ordering always ends with the primary key, which
+ * makes it total (no ties), and cursors are opaque strings that encode the
+ * last row's ordering values together with the ordering they belong to.
+ *
+ * @example
+ * ```typescript
+ * const first = await client.table('profiles').findPage({
+ *   orderBy: { column: 'created_at', ascending: false },
+ *   limit: 50,
+ * });
+ * const second = await client.table('profiles').findPage({
+ *   orderBy: { column: 'created_at', ascending: false },
+ *   limit: 50,
+ *   after: first.nextCursor,
+ * });
+ * ```
+ */
+
+import { z } from 'zod';
+import { DbError } from './errors';
+
+/**
+ * Column and direction of one ordering key
+ */
+export interface KeysetColumn {
+  column: string;
+  ascending: boolean;
+}
+
+/**
+ * One page of rows
+ */
+export interface Page<Row> {
+  rows: Row[];
+  /** Cursor for the following page, or null on the last page */
+  nextCursor: string | null;
+  hasMore: boolean;
+  /** Total matching rows, when requested with `withCount` */
+  total: number | null;
+}
+
+const CURSOR_VERSION = 1;
+
+const cursorSchema = z.object({
+  v: z.literal(CURSOR_VERSION),
+  /** Ordering signature, e.g. `created_at:desc,id:asc` */
+  o: z.string(),
+  /** Ordering values of the last row on the previous page */
+  k: z.array(z.union([z.string(), z.number(), z.boolean()])),
+});
+
+/**
+ * Append the primary key to an ordering unless it is already part of it
+ */
+export function stableOrdering(ordering: KeysetColumn[], primaryKey: string): KeysetColumn[] {
+  return ordering.some((key) => key.column === primaryKey)
+    ? ordering
+    : [...ordering, { column: primaryKey, ascending: true }];
+}
+
+/**
+ * Encode the cursor pointing just past `row`
+ * @throws DbError - `invalid_input` if an ordering column is null or not a scalar
+ */
+export function encodeCursor(row: Record<string, unknown>, ordering: KeysetColumn[]): string {
+  const values = ordering.map(({ column }) => {
+    const value = row[column];
+    if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+      throw new DbError(`Keyset column "${column}" must be a non-null scalar`, {
+        code: 'invalid_input',
+      });
+    }
+    return value;
+  });
+  const payload = { v: CURSOR_VERSION, o: orderingSignature(ordering), k: values };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a cursor and check it was issued for the same ordering
+ * @returns The ordering values of the row the cursor points past
+ * @throws DbError - `invalid_input` for malformed or mismatched cursors
+ */
+export function decodeCursor(
+  cursor: string,
+  ordering: KeysetColumn[]
+): (string | number | boolean)[] {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch (error) {
+    throw new DbError('Malformed pagination cursor', { code: 'invalid_input', cause: error });
+  }
+
+  const result = cursorSchema.safeParse(payload);
+  if (!result.success || result.data.k.length !== ordering.length) {
+    throw new DbError('Malformed pagination cursor', { code: 'invalid_input' });
+  }
+  if (result.data.o !== orderingSignature(ordering)) {
+    throw new DbError('Pagination cursor was issued for a different ordering', {
+      code: 'invalid_input',
+    });
+  }
+  return result.data.k;
+}
+
+/**
+ * Build the PostgREST `or` filter selecting rows after the cursor values
+ *
+ * For ordering (a asc, b desc) and values (1, 2) this is
+ * `a.gt.1,and(a.eq.1,b.lt.2)`.
+ */
+export function keysetFilter(
+  ordering: KeysetColumn[],
+  values: readonly (string | number | boolean)[]
+): string {
+  return ordering
+    .map(({ column, ascending }, index) => {
+      const equal = ordering
+        .slice(0, index)
+        .map((key, keyIndex) => `${key.column}.eq.${quoteValue(values[keyIndex])}`);
+      const after = `${column}.${ascending ? 'gt' : 'lt'}.${quoteValue(values[index])}`;
+      return equal.length > 0 ? `and(${[...equal, after].join(',')})` : after;
+    })
+    .join(',');
+}
+
+function orderingSignature(ordering: KeysetColumn[]): string {
+  return ordering
+    .map(({ column, ascending }) => `${column}:${ascending ? 'asc' : 'desc'}`)
+    .join(',');
+}
+
+/**
+ * Quote a value for a PostgREST logical filter, where `,` `.` `(` `)` and `:`
+ * are reserved
+ */
+function quoteValue(value: string | number | boolean): string {
+  return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
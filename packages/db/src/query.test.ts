@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Test suite for the parameterized query RPC wrapper
+ * @module db/query/tests
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import type { ServiceRoleClient } from './clients';
+import { DbError } from './errors';
+import { query } from './query';
+
+/**
+ * Client whose rpc() resolves to the given PostgREST response
+ */
+function mockClient(response: { data: unknown; error: unknown; status?: number }) {
+  const rpc = vi.fn().mockResolvedValue({ status: 200, ...response });
+  return { client: { rpc } as unknown as ServiceRoleClient, rpc };
+}
+
+const userSchema = z.object({ id: z.number(), email: z.string() });
+
+describe('query', () => {
+  it('should send the statement and params, leaving options to the database defaults', async () => {
+    const { client, rpc } = mockClient({ data: [], error: null });
+
+    await query(client, 'select * from users where id = $1', [1]);
+
+    expect(rpc).toHaveBeenCalledWith('query', {
+      sql: 'select * from users where id = $1',
+      params: [1],
+    });
+  });
+
+  it('should pass read-only mode and timeout', async () => {
+    const { client, rpc } = mockClient({ data: [], error: null });
+
+    await query(client, 'delete from users where id = $1', [1], {
+      readOnly: false,
+      timeoutMs: 1000,
+    });
+
+    expect(rpc).toHaveBeenCalledWith('query', {
+      sql: 'delete from users where id = $1',
+      params: [1],
+      read_only: false,
+      timeout_ms: 1000,
+    });
+  });
+
+  it('should validate rows with the schema', async () => {
+    const { client } = mockClient({
+      data: [{ id: 1, email: 'a@example.com', extra: true }],
+      error: null,
+    });
+
+    const rows = await query(client, 'select * from users', [], { schema: userSchema });
+
+    expect(rows).toEqual([{ id: 1, email: 'a@example.com' }]);
+  });
+
+  it('should reject rows that do not match the schema', async () => {
+    const { client } = mockClient({
+      data: [{ id: 1, email: 'a@example.com' }, { id: '2' }],
+      error: null,
+    });
+
+    const result = query(client, 'select * from users', [], { schema: userSchema });
+
+    await expect(result).rejects.toBeInstanceOf(DbError);
+    await expect(result).rejects.toMatchObject({ code: 'invalid_input' });
+    await expect(result).rejects.toThrow(/at 1\.id/);
+  });
+
+  it('should normalize database errors', async () => {
+    const { client } = mockClient({
+      data: null,
+      error: { code: '25006', message: 'cannot execute CREATE TABLE in a read-only transaction' },
+      status: 403,
+    });
+
+    await expect(query(client, 'create table t (id int)')).rejects.toMatchObject({
+      name: 'DbError',
+      code: 'permission_denied',
+      sourceCode: '25006',
+    });
+  });
+
+  it('should report a non-array result as a configuration error', async () => {
+    const { client } = mockClient({ data: { error: 'legacy' }, error: null });
+
+    await expect(query(client, 'select 1')).rejects.toMatchObject({ code: 'configuration' });
+  });
+});
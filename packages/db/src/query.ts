@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Parameterized SQL through the `query` RPC
+ *
+ * The `public.query` database function binds `$1..$n` placeholders from a JSON
+ * array, runs one statement and returns its rows as a JSON array. It only runs
+ * for the service role and is read-only unless `readOnly: false` is passed.
+ * Given a Zod schema, every row is validated and the result is typed by it.
+ *
+ * @example
+ * ```typescript
+ * import { createServiceRoleClient, query } from '@shared/db/server';
+ *
+ * const signups = await query(admin, 'select id, email from auth.users where created_at > $1', [since], {
+ *   schema: z.object({ id: z.string(), email: z.string() }),
+ * });
+ * ```
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import type { ServiceRoleClient } from './clients';
+import { DbError, toDbError } from './errors';
+import type { Database, Json } from './types';
+
+/**
+ * Options for a query RPC call; omitted options use the database defaults
+ */
+export interface QueryOptions<T = Json> {
+  /** Validates each row and types the result */
+  schema?: z.ZodType<T>;
+  /** Reject writes (default: true) */
+  readOnly?: boolean;
+  /**
+   * Limit in milliseconds on lock waits and on reading result rows, 1 to 30000
+   * (default: 5000). Statements are always capped at 30 s; a single slow step
+   * such as a large sort can run past this limit up to that cap.
+   */
+  timeoutMs?: number;
+}
+
+type QueryArgs = Database['public']['Functions']['query']['Args'];
+
+/**
+ * Run a parameterized statement as the service role
+ *
+ * @param sql - One SQL statement with `$1..$n` placeholders
+ * @param params - Placeholder values; `params[0]` binds `$1`
+ * @returns The statement's rows; empty for statements without a row set
+ * @throws DbError - the database error, or `invalid_input` if a row does not
+ * match the schema
+ */
+export function query<T>(
+  client: ServiceRoleClient,
+  sql: string,
+  params: Json[],
+  options: QueryOptions<T> & { schema: z.ZodType<T> }
+): Promise<T[]>;
+export function query(
+  client: ServiceRoleClient,
+  sql: string,
+  params?: Json[],
+  options?: Omit<QueryOptions, 'schema'>
+): Promise<Json[]>;
+export function query(
+  client: ServiceRoleClient,
+  sql: string,
+  params: Json[] = [],
+  options: QueryOptions<unknown> = {}
+): Promise<unknown[]> {
+  return executeQuery(client, sql, params, options);
+}
+
+/**
+ * Call the query RPC with any client; the database rejects non-service roles
+ */
+export async function executeQuery<T>(
+  client: SupabaseClient<Database>,
+  sql: string,
+  params: Json[],
+  options: QueryOptions<T>
+): Promise<T[]> {
+  const args: QueryArgs = { sql, params };
+  if (options.readOnly !== undefined) args.read_only = options.readOnly;
+  if (options.timeoutMs !== undefined) args.timeout_ms = options.timeoutMs;
+
+  let rows: Json;
+  try {
+    const { data, error, status } = await client.rpc('query', args);
+    if (error) {
+      throw toDbError(error, status);
+    }
+    rows = data;
+  } catch (error) {
+    throw toDbError(error);
+  }
+
+  if (!Array.isArray(rows)) {
+    throw new DbError('Query RPC returned a non-array result; is the query migration applied?', {
+      code: 'configuration',
+    });
+  }
+  if (!options.schema) {
+    return rows as T[];
+  }
+
+  const result = z.array(options.schema).safeParse(rows);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new DbError(
+      `Query rows do not match the schema at ${issue.path.join('.')}: ${issue.message}`,
+      {
+        code: 'invalid_input',
+        cause: result.error,
+      }
+    );
+  }
+  return result.data;
+}
@@ -0,0 +1,232 @@
+/**
+ * @fileoverview Test suite for typed Realtime subscriptions
+ * @module db/realtime/tests
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DbError } from './errors';
+import { backoffDelay, realtimeFilter, subscribeToTable } from './realtime';
+import type { Database } from './types';
+
+type Listener = (payload: Record<string, unknown>) => void;
+type StateCallback = (state: string, error?: Error) => void;
+
+interface FakeChannel {
+  topic: string;
+  filter: Record<string, unknown>;
+  emit: Listener;
+  setState: StateCallback;
+}
+
+/**
+ * Supabase client whose channels are driven by the test
+ */
+function fakeClient() {
+  const channels: FakeChannel[] = [];
+  const removeChannel = vi.fn().mockResolvedValue('ok');
+  const channel = vi.fn((topic: string) => {
+    const fake = { topic } as FakeChannel;
+    channels.push(fake);
+    const api = {
+      on: (_type: string, filter: Record<string, unknown>, listener: Listener) => {
+        fake.filter = filter;
+        fake.emit = listener;
+        return api;
+      },
+      subscribe: (callback: StateCallback) => {
+        fake.setState = callback;
+        return api;
+      },
+    };
+    return api;
+  });
+  const client = { channel, removeChannel } as unknown as SupabaseClient<Database>;
+  return { client, channels, removeChannel };
+}
+
+const payload = {
+  schema: 'public',
+  table: '_health_check',
+  commit_timestamp: '2025-11-07T10:00:00Z',
+  errors: [],
+};
+
+describe('realtime', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('realtimeFilter', () => {
+    it('should default to eq', () => {
+      expect(realtimeFilter<{ id: number }>({ column: 'id', value: 7 })).toBe('id=eq.7');
+    });
+
+    it('should serialize other operators and in-lists', () => {
+      expect(realtimeFilter<{ id: number }>({ column: 'id', op: 'gte', value: 3 })).toBe(
+        'id=gte.3'
+      );
+      expect(realtimeFilter<{ id: number }>({ column: 'id', op: 'in', value: [1, 2] })).toBe(
+        'id=in.(1,2)'
+      );
+    });
+  });
+
+  describe('backoffDelay', () => {
+    it('should double up to the maximum with jitter of up to half', () => {
+      const options = { initialMs: 1000, maxMs: 5000 };
+      expect(backoffDelay(0, options, () => 1)).toBe(1000);
+      expect(backoffDelay(2, options, () => 1)).toBe(4000);
+      expect(backoffDelay(5, options, () => 1)).toBe(5000);
+      expect(backoffDelay(0, options, () => 0)).toBe(500);
+    });
+  });
+
+  describe('subscribeToTable', () => {
+    it('should listen for the event and filter on the public schema', () => {
+      const { client, channels } = fakeClient();
+
+      subscribeToTable(
+        client,
+        '_health_check',
+        { event: 'INSERT', filter: { column: 'id', value: 1 } },
+        vi.fn()
+      );
+
+      expect(channels[0]?.filter).toEqual({
+        event: 'INSERT',
+        schema: 'public',
+        table: '_health_check',
+        filter: 'id=eq.1',
+      });
+    });
+
+    it('should deliver normalized changes', () => {
+      const { client, channels } = fakeClient();
+      const handler = vi.fn();
+
+      subscribeToTable(client, '_health_check', {}, handler);
+      channels[0]?.emit({ ...payload, eventType: 'INSERT', new: { id: 1 }, old: {} });
+      channels[0]?.emit({ ...payload, eventType: 'DELETE', new: {}, old: { id: 1 } });
+
+      expect(handler).toHaveBeenNthCalledWith(1, {
+        event: 'INSERT',
+        table: '_health_check',
+        commitTimestamp: '2025-11-07T10:00:00Z',
+        new: { id: 1 },
+        old: null,
+      });
+      expect(handler).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          event: 'DELETE',
+          new: null,
+          old: { id: 1 },
+        })
+      );
+    });
+
+    it('should report status changes', () => {
+      const { client, channels } = fakeClient();
+      const onStatus = vi.fn();
+
+      const subscription = subscribeToTable(client, '_health_check', { onStatus }, vi.fn());
+      expect(subscription.status).toBe('connecting');
+
+      channels[0]?.setState('SUBSCRIBED');
+      expect(subscription.status).toBe('subscribed');
+      expect(onStatus).toHaveBeenCalledWith('subscribed', undefined);
+    });
+
+    it('should replace a failed channel after a backoff', async () => {
+      const { client, channels, removeChannel } = fakeClient();
+      const onStatus = vi.fn();
+      const subscription = subscribeToTable(
+        client,
+        '_health_check',
+        { onStatus, backoff: { initialMs: 100 } },
+        vi.fn()
+      );
+
+      channels[0]?.setState('CHANNEL_ERROR', new Error('socket closed'));
+
+      expect(subscription.status).toBe('reconnecting');
+      expect(onStatus).toHaveBeenLastCalledWith('reconnecting', expect.any(DbError));
+      expect(removeChannel).toHaveBeenCalledTimes(1);
+      expect(channels).toHaveLength(1);
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(channels).toHaveLength(2);
+      expect(channels[1]?.topic).not.toBe(channels[0]?.topic);
+
+      channels[1]?.setState('TIMED_OUT');
+      await vi.advanceTimersByTimeAsync(199);
+      expect(channels).toHaveLength(2);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(channels).toHaveLength(3);
+    });
+
+    it('should ignore changes and states from a replaced channel', async () => {
+      const { client, channels } = fakeClient();
+      const handler = vi.fn();
+      const subscription = subscribeToTable(
+        client,
+        '_health_check',
+        { backoff: { initialMs: 100 } },
+        handler
+      );
+
+      channels[0]?.setState('CHANNEL_ERROR');
+      await vi.advanceTimersByTimeAsync(100);
+      channels[0]?.setState('CLOSED');
+      channels[0]?.emit({ ...payload, eventType: 'INSERT', new: { id: 1 }, old: {} });
+
+      expect(subscription.status).toBe('reconnecting');
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should close after the maximum number of reconnects', () => {
+      const { client, channels } = fakeClient();
+      const onStatus = vi.fn();
+      const subscription = subscribeToTable(
+        client,
+        '_health_check',
+        { onStatus, backoff: { maxAttempts: 0 } },
+        vi.fn()
+      );
+
+      channels[0]?.setState('TIMED_OUT');
+
+      expect(subscription.status).toBe('closed');
+      expect(onStatus).toHaveBeenLastCalledWith(
+        'closed',
+        expect.objectContaining({ name: 'DbError', code: 'timeout' })
+      );
+    });
+
+    it('should remove the channel and cancel reconnects on unsubscribe', async () => {
+      const { client, channels, removeChannel } = fakeClient();
+      const subscription = subscribeToTable(
+        client,
+        '_health_check',
+        { backoff: { initialMs: 100 } },
+        vi.fn()
+      );
+
+      channels[0]?.setState('SUBSCRIBED');
+      await subscription.unsubscribe();
+      channels[0]?.setState('CLOSED');
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(subscription.status).toBe('closed');
+      expect(removeChannel).toHaveBeenCalledTimes(1);
+      expect(channels).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * @fileoverview Typed Supabase Realtime subscriptions to table changes
+ *
+ * Wraps a `postgres_changes` channel so handlers receive rows typed from
+ * `Database` and never see the raw payload. Realtime applies the RLS policies
+ * of the client's role, so a user-scoped client only receives rows that user
+ * can select. A channel that errors, times out or is closed by the server is
+ * replaced after an exponential backoff until the subscription is cancelled.
+ *
+ * @example
+ * ```typescript
+ * const subscription = client.subscribe(
+ *   'notes',
+ *   { event: 'INSERT', filter: { column: 'owner_id', value: userId } },
+ *   (change) => notes.push(change.new)
+ * );
+ *
+ * await subscription.unsubscribe();
+ * ```
+ */
+
+import type {
+  RealtimeChannel,
+  RealtimePostgresChangesFilter,
+  RealtimePostgresChangesPayload,
+  SupabaseClient,
+} from '@supabase/supabase-js';
+import { DbError } from './errors';
+import type { PublicTables, TableName } from './repository';
+import type { Database } from './types';
+
+/**
+ * Kind of row change
+ */
+export type ChangeEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+
+/**
+ * Single-column filter applied by the Realtime server
+ *
+ * Realtime supports one filter per subscription: `eq` (the default), `neq`,
+ * `lt`, `lte`, `gt`, `gte`, or `in` with a list of values.
+ */
+export type RealtimeFilter<Row> = {
+  [K in keyof Row & string]:
+    | { column: K; op?: 'eq' | 'neq' | 'lt' | 'lte' | 'gt' | 'gte'; value: NonNullable<Row[K]> }
+    | { column: K; op: 'in'; value: NonNullable<Row[K]>[] };
+}[keyof Row & string];
+
+/**
+ * A row change delivered to a subscription
+ *
+ * `old` holds the primary key only, unless the table's replica identity is
+ * FULL; DELETE events cannot be filtered for the same reason.
+ */
+export type RowChange<Row> =
+  | { event: 'INSERT'; table: string; commitTimestamp: string; new: Row; old: null }
+  | { event: 'UPDATE'; table: string; commitTimestamp: string; new: Row; old: Partial<Row> }
+  | { event: 'DELETE'; table: string; commitTimestamp: string; new: null; old: Partial<Row> };
+
+/**
+ * Changes delivered for a subscribed event (`'*'` for all)
+ */
+export type ChangeFor<Row, E extends ChangeEvent | '*'> = E extends ChangeEvent
+  ? Extract<RowChange<Row>, { event: E }>
+  : RowChange<Row>;
+
+/**
+ * Lifecycle of a subscription
+ */
+export type SubscriptionStatus = 'connecting' | 'subscribed' | 'reconnecting' | 'closed';
+
+/**
+ * Delay between channel reconnects: doubles from `initialMs` up to `maxMs`,
+ * randomized by up to half so clients do not reconnect in lockstep
+ */
+export interface BackoffOptions {
+  /** Delay before the first reconnect (default: 1000) */
+  initialMs?: number;
+  /** Longest delay (default: 30000) */
+  maxMs?: number;
+  /** Reconnects before giving up and closing (default: unlimited) */
+  maxAttempts?: number;
+}
+
+/**
+ * Options for subscribe()
+ */
+export interface SubscribeOptions<Row, E extends ChangeEvent | '*' = '*'> {
+  /** Event to receive (default: all) */
+  event?: E;
+  filter?: RealtimeFilter<Row>;
+  backoff?: BackoffOptions;
+  /** Called on every status change, with the error that caused a reconnect or close */
+  onStatus?: (status: SubscriptionStatus, error?: DbError) => void;
+}
+
+/**
+ * Handle to an active subscription
+ */
+export interface Subscription {
+  readonly status: SubscriptionStatus;
+  /** Stop receiving changes and cancel any pending reconnect */
+  unsubscribe(): Promise<void>;
+}
+
+const DEFAULT_BACKOFF = { initialMs: 1000, maxMs: 30_000, maxAttempts: Number.POSITIVE_INFINITY };
+
+let channelCount = 0;
+
+/**
+ * Subscribe to changes of a table in the public schema
+ * @param client - Supabase client whose role (and RLS scope) receives the changes
+ * @param table - Table name
+ * @param options - Event, filter, backoff and status callback
+ * @param handler - Called with each change
+ */
+export function subscribeToTable<N extends TableName, E extends ChangeEvent | '*' = '*'>(
+  client: SupabaseClient<Database>,
+  table: N,
+  options: SubscribeOptions<PublicTables[N]['Row'], E>,
+  handler: (change: ChangeFor<PublicTables[N]['Row'], E>) => void
+): Subscription {
+  return new TableSubscription(client, table, options, handler);
+}
+
+/**
+ * Serialize a filter to Realtime's `column=op.value` syntax
+ */
+export function realtimeFilter<Row>(filter: RealtimeFilter<Row>): string {
+  if (filter.op === 'in') {
+    return `${filter.column}=in.(${filter.value.map(String).join(',')})`;
+  }
+  return `${filter.column}=${filter.op ?? 'eq'}.${String(filter.value)}`;
+}
+
+/**
+ * Delay before reconnect number `attempt` (0-based)
+ */
+export function backoffDelay(
+  attempt: number,
+  { initialMs, maxMs }: { initialMs: number; maxMs: number },
+  random: () => number = Math.random
+): number {
+  const delay = Math.min(maxMs, initialMs * 2 ** attempt);
+  return Math.round(delay / 2 + (random() * delay) / 2);
+}
+
+class TableSubscription<Row extends Record<string, unknown>, E extends ChangeEvent | '*'>
+  implements Subscription
+{
+  private current: SubscriptionStatus = 'connecting';
+  private channel: RealtimeChannel | null = null;
+  private attempt = 0;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private cancelled = false;
+
+  constructor(
+    private readonly client: SupabaseClient<Database>,
+    private readonly table: string,
+    private readonly options: SubscribeOptions<Row, E>,
+    private readonly handler: (change: ChangeFor<Row, E>) => void
+  ) {
+    this.connect();
+  }
+
+  get status(): SubscriptionStatus {
+    return this.current;
+  }
+
+  async unsubscribe(): Promise<void> {
+    if (this.cancelled) return;
+    this.cancelled = true;
+    clearTimeout(this.timer);
+    const channel = this.channel;
+    this.channel = null;
+    this.setStatus('closed');
+    if (channel) await this.client.removeChannel(channel);
+  }
+
+  private connect(): void {
+    const { event = '*', filter } = this.options;
+    // The listener overloads are per event literal; payloads are narrowed by toRowChange
+    const listen = {
+      event,
+      schema: 'public',
+      table: this.table,
+      ...(filter && { filter: realtimeFilter(filter) }),
+    } as RealtimePostgresChangesFilter<'*'>;
+
+    const channel = this.client.channel(`db:${this.table}:${++channelCount}`);
+    this.channel = channel;
+    channel
+      .on<Row>('postgres_changes', listen, (payload) => {
+        if (this.channel === channel) {
+          this.handler(toRowChange(payload) as ChangeFor<Row, E>);
+        }
+      })
+      .subscribe((state, error) => {
+        // Ignore late callbacks from a channel that was already replaced or removed
+        if (this.cancelled || this.channel !== channel) return;
+        if (state === 'SUBSCRIBED') {
+          this.attempt = 0;
+          this.setStatus('subscribed');
+          return;
+        }
+        this.reconnect(
+          new DbError(error?.message ?? `Realtime channel for ${this.table}: ${state}`, {
+            code: state === 'TIMED_OUT' ? 'timeout' : 'network',
+            cause: error,
+          })
+        );
+      });
+  }
+
+  private reconnect(error: DbError): void {
+    const backoff = { ...DEFAULT_BACKOFF, ...this.options.backoff };
+    const stale = this.channel;
+    this.channel = null;
+    if (stale) void this.client.removeChannel(stale);
+
+    if (this.attempt >= backoff.maxAttempts) {
+      this.cancelled = true;
+      this.setStatus('closed', error);
+      return;
+    }
+    this.setStatus('reconnecting', error);
+    this.timer = setTimeout(() => this.connect(), backoffDelay(this.attempt++, backoff));
+  }
+
+  private setStatus(status: SubscriptionStatus, error?: DbError): void {
+    this.current = status;
+    this.options.onStatus?.(status, error);
+  }
+}
+
+function toRowChange<Row extends Record<string, unknown>>(
+  payload: RealtimePostgresChangesPayload<Row>
+): RowChange<Row> {
+  const base = { table: payload.table, commitTimestamp: payload.commit_timestamp };
+  switch (payload.eventType) {
+    case 'INSERT':
+      return { ...base, event: 'INSERT', new: payload.new, old: null };
+    case 'UPDATE':
+      return { ...base, event: 'UPDATE', new: payload.new, old: payload.old };
+    case 'DELETE':
+      return { ...base, event: 'DELETE', new: null, old: payload.old };
+  }
+}
@@ -0,0 +1,385 @@
+/**
+ * @fileoverview Test suite for typed table repositories
+ * @module db/repository/tests
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DbError } from './errors';
+import { TableRepository } from './repository';
+
+// Generated table types are type literals, which (unlike interfaces) satisfy Record<string, unknown>
+type Profile = {
+  id: string;
+  email: string;
+  team_id: string | null;
+  score: number;
+  created_at: string;
+  deleted_at: string | null;
+};
+
+type ProfilesTable = {
+  Row: Profile;
+  Insert: Partial<Profile> & { email: string };
+  Update: Partial<Profile>;
+};
+
+interface MockResponse {
+  data?: unknown;
+  error?: unknown;
+  count?: number | null;
+  status?: number;
+}
+
+/**
+ * Chainable query builder that records every call and resolves to `response`
+ */
+function createBuilder(response: MockResponse | Error) {
+  const calls: [string, ...unknown[]][] = [];
+  const builder: Record<string, unknown> = {
+    // biome-ignore lint/suspicious/noThenProperty: mimics the thenable PostgREST builder
+    then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+      response instanceof Error
+        ? Promise.reject(response).then(resolve, reject)
+        : Promise.resolve({
+            data: null,
+            error: null,
+            count: null,
+            status: 200,
+            ...response,
+          }).then(resolve, reject),
+  };
+  const methods = [
+    'select',
+    'insert',
+    'update',
+    'upsert',
+    'eq',
+    'neq',
+    'gt',
+    'gte',
+    'lt',
+    'lte',
+    'in',
+    'like',
+    'ilike',
+    'is',
+    'or',
+    'order',
+    'limit',
+    'range',
+    'single',
+    'maybeSingle',
+  ];
+  for (const method of methods) {
+    builder[method] = vi.fn((...args: unknown[]) => {
+      calls.push([method, ...args]);
+      return builder;
+    });
+  }
+  return { builder, calls };
+}
+
+describe('TableRepository', () => {
+  let from: ReturnType<typeof vi.fn>;
+  let client: SupabaseClient;
+
+  function respond(response: MockResponse | Error) {
+    const { builder, calls } = createBuilder(response);
+    from.mockReturnValue(builder);
+    return calls;
+  }
+
+  beforeEach(() => {
+    from = vi.fn();
+    client = { from } as unknown as SupabaseClient;
+  });
+
+  describe('findById', () => {
+    it('should select a single row by primary key', async () => {
+      const profile = { id: 'p1', email: 'a@example.com' };
+      const calls = respond({ data: profile });
+      const profiles = new TableRepository<ProfilesTable>(client, 'profiles');
+
+      await expect(profiles.findById('p1')).resolves.toEqual(profile);
+      expect(from).toHaveBeenCalledWith('profiles');
+      expect(calls).toEqual([['select', '*'], ['eq', 'id', 'p1'], ['maybeSingle']]);
+    });
+
+    it('should return null when no row matches', async () => {
+      respond({ data: null });
+      const profiles = new TableRepository<ProfilesTable>(client, 'profiles');
+
+      await expect(profiles.findById('missing')).resolves.toBeNull();
+    });
+
+    it('should skip soft-deleted rows', async () => {
+      const calls = respond({ data: null });
+      const profiles = new TableRepository<ProfilesTable>(client, 'profiles', {
+        softDeleteColumn: 'deleted_at',
+      });
+
+      await profiles.findById('p1');
+      expect(calls).toContainEqual(['is', 'deleted_at', null]);
+    });
+  });
+
+  describe('findMany', () => {
+    it('should apply filters, ordering and pagination', async () => {
+      const calls = respond({ data: [] });
+      const profiles = new TableRepository<ProfilesTable>(client, 'profiles');
+
+      await profiles.findMany({
+        where: {
+          team_id: 't1',
+          deleted_at: null,
+          score: { gte: 10, lt: 100 },
+          email: { ilike: '%@example.com' },
+          id: { in: ['p1', 'p2'] },
+        },
+        orderBy: [{ column: 'created_at', ascending: false }, { column: 'id' }],
+        limit: 20,
+        offset: 40,
+      });
+
+      expect(calls).toEqual([
+        ['select', '*'],
+        ['eq', 'team_id', 't1'],
+        ['is', 'deleted_at', null],
+        ['gte', 'score', 10],
+        ['lt', 'score', 100],
+        ['ilike', 'email', '%@example.com'],
+        ['in', 'id', ['p1', 'p2']],
+        ['order', 'created_at', { ascending: false, nullsFirst: undefined }],
+        ['order', 'id', { ascending: true, nullsFirst: undefined }],
+        ['range', 40, 59],
+      ]);
+    });
+
+    it('should use limit without an offset', async () => {
+      const calls = respond({ data: [{ id: 'p1' }] });
+      const profiles = new TableRepository<ProfilesTable>(client, 'profiles');
+
+      await expect(profiles.findMany({ limit: 5 })).resolves.toEqual([{ id: 'p1' }]);
+      expect(calls).toContainEqual(['limit', 5]);
+    });
+
+    it('should exclude soft-deleted rows unless asked', async () => {
+      const profiles = new TableRepository<ProfilesTable>(client, 'profiles', {
+        softDeleteColumn: 'deleted_at',
+      });
+
+      let calls = respond({ data: [] });
+      await profiles.findMany();
+      expect(calls).toContainEqual(['is', 'deleted_at', null]);
+
+      calls = respond({ data: [] });
+      await profiles.findMany({ includeDeleted: true });
+      expect(calls).not.toContainEqual(['is', 'deleted_at', null]);
+    });
+
+    it('should reject invalid pagination before querying', async () => {
+      const profiles = new TableRepository<ProfilesTable>(client, 'profiles');
+
+      await expect(profiles.findMany({ limit: 0 })).rejects.toMatchObject({
+        name: 'DbError',
+        code: 'invalid_input',
+      });
+      await expect(profiles.findMany({ offset: -1 })).rejects.toBeInstanceOf(DbError);
+      expect(from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('count', () => {
+    it('should request an exact count without rows', async () => {
+      const calls = respond({ count: 42 });
+      const profiles = new TableRepository<ProfilesTable>(client, 'profiles');
+
+      await expect(profiles.count({ team_id: 't1' })).resolves.toBe(42);
+      expect(calls).toEqual([
+        ['select', '*', { count: 'exact', head: true }],
+        ['eq', 'team_id', 't1'],
+      ]);
+    });
+  });
+
+  describe('findPage', () => {
+    const rows = [
+      { id: 'p1', score: 9 },
+      { id: 'p2', score: 7 },
+      { id: 'p3', score: 7 },
+    ];
+
+    it('should fetch one extra row to detect the next page', async () => {
+      const calls = respond({ data: rows });
+      const profiles = new TableRepository<ProfilesTable>(client, 'profiles');
+
+      const page = await profiles.findPage({
+        orderBy: { column: 'score', ascending: false },
+        limit: 2,
+      });
+
+      expect(page.rows).toEqual(rows.slice(0, 2));
+      expect(page.hasMore).toBe(true);
+      expect(page.total).toBeNull();
+      expect(page.nextCursor).toEqual(expect.any(String));
+      expect(calls).toEqual([
+        ['select', '*'],
+        ['order', 'score', { ascending: false }],
+        ['order', 'id', { ascending: true }],
+        ['limit', 3],
+      ]);
+    });
+
+    it('should continue after the cursor', async () => {
+      respond({ data: rows });
+      const profiles = new TableRepository<ProfilesTable>(client, 'profiles');
+      const orderBy = { column: 'score', ascending: false } as const;
+      const { nextCursor } = await profiles.findPage({ orderBy, limit: 2 });
+
+      const calls = respond({ data: rows.slice(2) });
+      const page = await profiles.findPage({ orderBy, limit: 2, after: nextCursor });
+
+      expect(page).toEqual({ rows: rows.slice(2), nextCursor: null, hasMore: false, total: null });
+      expect(calls).toContainEqual(['or', 'score.lt."7",and(score.eq."7",id.gt."p2")']);
+    });
+
+    it('should reject a cursor from a different ordering', async () => {
+      respond({ data: rows });
+      const profiles = new TableRepository<ProfilesTable>(client, 'profiles');
+      const { nextCursor } = await profiles.findPage({ limit: 2 });
+
+      await expect(
+        profiles.findPage({ orderBy: { column: 'score' }, after: nextCursor })
+      ).rejects.toMatchObject({ code: 'invalid_input' });
+    });
+
+    it('should count all matching rows when asked', async () => {
+      const pageQuery = createBuilder({ data: rows.slice(0, 1) });
+      const countQuery = createBuilder({ count: 3 });
+      from.mockReturnValueOnce(pageQuery.builder).mockReturnValueOnce(countQuery.builder);
+      const profiles = new TableRepository<ProfilesTable>(client, 'profiles');
+
+      const page = await profiles.findPage({ where: { team_id: 't1' }, withCount: true });
+
+      expect(page.total).toBe(3);
+      expect(countQuery.calls).toEqual([
+        ['select', '*', { count: 'exact', head: true }],
+        ['eq', 'team_id', 't1'],
+      ]);
+    });
+  });
+
+  describe('insert', () => {
+    it('should return the inserted row', async () => {
+      const row = { id: 'p1', email: 'a@example.com' };
+      const calls = respond({ data: row });
+      const profiles = new TableRepository<ProfilesTable>(client, 'profiles');
+
+      await expect(profiles.insert({ email: 'a@example.com' })).resolves.toEqual(row);
+      expect(calls).toEqual([['insert', { email: 'a@example.com' }], ['select', '*'], ['single']]);
+    });
+
+    it('should insert several rows in one request', async () => {
+      const rows = [{ id: 'p1' }, { id: 'p2' }];
+      const calls = respond({ data: rows });
+      const profiles = new TableRepository<ProfilesTable>(client, 'profiles');
+
+      await expect(
+        profiles.insert([{ email: 'a@example.com' }, { email: 'b@example.com' }])
+      ).resolves.toEqual(rows);
+      expect(calls.map(([method]) => method)).toEqual(['insert', 'select']);
+    });
+
+    it('should normalize constraint violations', async () => {
+      respond({
+        error: { code: '23505', message: 'duplicate key value', details: null, hint: null },
+        status: 409,
+      });
+      const profiles = new TableRepository<ProfilesTable>(client, 'profiles');
+
+      await expect(profiles.insert({ email: 'a@example.com' })).rejects.toMatchObject({
+        code: 'unique_violation',
+        sourceCode: '23505',
+        status: 409,
+      });
+    });
+  });
+
+  describe('update', () => {
+    it('should update by primary key and return the row', async () => {
+      const calls = respond({ data: { id: 'p1', score: 5 } });
+      const profiles = new TableRepository<ProfilesTable>(client, 'profiles', {
+        softDeleteColumn: 'deleted_at',
+      });
+
+      await expect(profiles.update('p1', { score: 5 })).resolves.toEqual({ id: 'p1', score: 5 });
+      expect(calls).toEqual([
+        ['update', { score: 5 }],
+        ['eq', 'id', 'p1'],
+        ['is', 'deleted_at', null],
+        ['select', '*'],
+        ['maybeSingle'],
+      ]);
+    });
+  });
+
+  describe('upsert', () => {
+    it('should resolve conflicts on the given columns', async () => {
+      const calls = respond({ data: { id: 'p1' } });
+      const profiles = new TableRepository<ProfilesTable>(client, 'profiles');
+
+      await profiles.upsert({ email: 'a@example.com' }, { onConflict: ['email', 'team_id'] });
+      expect(calls[0]).toEqual([
+        'upsert',
+        { email: 'a@example.com' },
+        { onConflict: 'email,team_id', ignoreDuplicates: false },
+      ]);
+    });
+
+    it('should default to the primary key', async () => {
+      const calls = respond({ data: [] });
+      const profiles = new TableRepository<ProfilesTable>(client, 'profiles');
+
+      await profiles.upsert([{ id: 'p1', email: 'a@example.com' }]);
+      expect(calls[0][2]).toEqual({ onConflict: 'id', ignoreDuplicates: false });
+    });
+  });
+
+  describe('softDelete', () => {
+    it('should stamp the soft delete column on live rows', async () => {
+      vi.useFakeTimers({ now: new Date('2025-01-02T03:04:05Z') });
+      try {
+        const calls = respond({ data: { id: 'p1' } });
+        const profiles = new TableRepository<ProfilesTable>(client, 'profiles', {
+          softDeleteColumn: 'deleted_at',
+        });
+
+        await expect(profiles.softDelete('p1')).resolves.toEqual({ id: 'p1' });
+        expect(calls).toEqual([
+          ['update', { deleted_at: '2025-01-02T03:04:05.000Z' }],
+          ['eq', 'id', 'p1'],
+          ['is', 'deleted_at', null],
+          ['select', '*'],
+          ['maybeSingle'],
+        ]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should require a soft delete column', async () => {
+      const profiles = new TableRepository<ProfilesTable>(client, 'profiles');
+
+      await expect(profiles.softDelete('p1')).rejects.toMatchObject({ code: 'configuration' });
+      expect(from).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should normalize thrown network errors', async () => {
+    respond(new Error('fetch failed'));
+    const profiles = new TableRepository<ProfilesTable>(client, 'profiles');
+
+    await expect(profiles.findMany()).rejects.toMatchObject({ name: 'DbError', code: 'network' });
+  });
+});
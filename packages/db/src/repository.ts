@@ -0,0 +1,482 @@
+/**
+ * @fileoverview Typed table repositories
+ *
+ * Wraps the Supabase query builder in a small CRUD API typed from the
+ * generated Database type, so app code never needs `client.raw`. Every
+ * failure is thrown as a DbError.
+ *
+ * @example
+ * ```typescript
+ * const profiles = client.table('profiles', { softDeleteColumn: 'deleted_at' });
+ *
+ * const recent = await profiles.findMany({
+ *   where: { team_id: teamId, created_at: { gte: since } },
+ *   orderBy: { column: 'created_at', ascending: false },
+ *   limit: 20,
+ * });
+ * const profile = await profiles.update(id, { display_name: 'Ada' });
+ * ```
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { DbError, toDbError } from './errors';
+import { decodeCursor, encodeCursor, keysetFilter, type Page, stableOrdering } from './pagination';
+import type { Database } from './types';
+
+/**
+ * Tables in the public schema
+ */
+export type PublicTables = Database['public']['Tables'];
+
+/**
+ * Name of a table in the public schema
+ */
+export type TableName = keyof PublicTables & string;
+
+/**
+ * Row, insert and update shapes of a table (as generated by Supabase)
+ */
+export interface TableDefinition {
+  Row: Record<string, unknown>;
+  Insert: Record<string, unknown>;
+  Update: Record<string, unknown>;
+}
+
+/**
+ * Operators accepted for a column in a `where` filter
+ */
+export interface FilterOperators<V> {
+  eq?: V;
+  neq?: V;
+  gt?: V;
+  gte?: V;
+  lt?: V;
+  lte?: V;
+  in?: readonly V[];
+  like?: string;
+  ilike?: string;
+  is?: null | boolean;
+}
+
+/**
+ * Column filters, combined with AND. A plain value means equality (`is null`
+ * for null); an object of FilterOperators applies each operator.
+ */
+export type Where<Row> = {
+  [K in keyof Row]?: Row[K] | FilterOperators<Row[K]>;
+};
+
+/**
+ * Sort order for findMany
+ */
+export interface OrderBy<Row> {
+  column: keyof Row & string;
+  /** @default true */
+  ascending?: boolean;
+  nullsFirst?: boolean;
+}
+
+/**
+ * Options for findMany
+ */
+export interface FindManyOptions<Row> {
+  where?: Where<Row>;
+  orderBy?: OrderBy<Row> | OrderBy<Row>[];
+  /** Maximum rows to return (1-1000) */
+  limit?: number;
+  /** Rows to skip; pages hold `limit` rows (default 1000) */
+  offset?: number;
+  /** Include soft-deleted rows */
+  includeDeleted?: boolean;
+}
+
+/**
+ * Options for findPage (keyset pagination)
+ */
+export interface FindPageOptions<Row> {
+  where?: Where<Row>;
+  /**
+   * Sort order; the primary key is appended as a tie-breaker. Ordering
+   * columns must be non-null, and `nullsFirst` is ignored.
+   */
+  orderBy?: OrderBy<Row> | OrderBy<Row>[];
+  /**
+   * Rows per page (1-1000)
+   * @default 50
+   */
+  limit?: number;
+  /** `nextCursor` of the previous page; omit for the first page */
+  after?: string | null;
+  /** Also count all matching rows (an extra request) */
+  withCount?: boolean;
+  /** Include soft-deleted rows */
+  includeDeleted?: boolean;
+}
+
+/**
+ * Options for count
+ */
+export interface CountOptions {
+  /** Include soft-deleted rows */
+  includeDeleted?: boolean;
+}
+
+/**
+ * Options for upsert
+ */
+export interface UpsertOptions<Row> {
+  /** Columns of the unique constraint to resolve conflicts on (default: primary key) */
+  onConflict?: (keyof Row & string) | (keyof Row & string)[];
+  /** Keep existing rows instead of updating them */
+  ignoreDuplicates?: boolean;
+}
+
+/**
+ * Per-table repository configuration
+ */
+export interface TableOptions<Row> {
+  /** @default 'id' */
+  primaryKey?: keyof Row & string;
+  /**
+   * Timestamp column marking soft-deleted rows. When set, reads and counts
+   * skip rows where it is not null and softDelete() is available.
+   */
+  softDeleteColumn?: keyof Row & string;
+}
+
+/**
+ * Page size used when findMany is given an offset without a limit
+ * (PostgREST's default maximum rows per request)
+ */
+const DEFAULT_PAGE_SIZE = 1000;
+
+const DEFAULT_KEYSET_PAGE_SIZE = 50;
+
+const FILTER_OPERATORS = new Set([
+  'eq',
+  'neq',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'like',
+  'ilike',
+  'is',
+]);
+
+const paginationSchema = z.object({
+  limit: z.number().int().min(1).max(DEFAULT_PAGE_SIZE).optional(),
+  offset: z.number().int().min(0).optional(),
+});
+
+/**
+ * Filter methods shared by select, update and delete builders. Column types
+ * are enforced by the repository's public API rather than here.
+ */
+interface FilterQuery {
+  eq(column: string, value: unknown): this;
+  neq(column: string, value: unknown): this;
+  gt(column: string, value: unknown): this;
+  gte(column: string, value: unknown): this;
+  lt(column: string, value: unknown): this;
+  lte(column: string, value: unknown): this;
+  in(column: string, values: readonly unknown[]): this;
+  like(column: string, pattern: string): this;
+  ilike(column: string, pattern: string): this;
+  is(column: string, value: boolean | null): this;
+}
+
+/**
+ * CRUD operations for one table
+ *
+ * @template T - Table definition (`Database['public']['Tables'][name]`)
+ */
+export class TableRepository<T extends TableDefinition> {
+  private readonly client: SupabaseClient;
+  private readonly primaryKey: string;
+  private readonly softDeleteColumn: string | null;
+
+  constructor(
+    client: SupabaseClient<Database>,
+    readonly name: string,
+    options: TableOptions<T['Row']> = {}
+  ) {
+    this.client = client as SupabaseClient;
+    this.primaryKey = options.primaryKey ?? 'id';
+    this.softDeleteColumn = options.softDeleteColumn ?? null;
+  }
+
+  /**
+   * Find a row by primary key
+   * @returns The row, or null if it does not exist (or is soft-deleted)
+   * @throws DbError
+   */
+  async findById(id: T['Row'][keyof T['Row']]): Promise<T['Row'] | null> {
+    const query = this.excludeDeleted(this.from().select('*').eq(this.primaryKey, id), false);
+    return this.run(query.maybeSingle());
+  }
+
+  /**
+   * Find rows matching filters, with ordering and pagination
+   * @throws DbError - `invalid_input` for an invalid limit or offset
+   */
+  async findMany(options: FindManyOptions<T['Row']> = {}): Promise<T['Row'][]> {
+    const { limit, offset } = this.validatePagination(options);
+
+    let query = this.from().select('*');
+    query = this.excludeDeleted(applyWhere(query, options.where), options.includeDeleted);
+    const orders = options.orderBy ? [options.orderBy].flat() : [];
+    for (const order of orders) {
+      query = query.order(order.column, {
+        ascending: order.ascending ?? true,
+        nullsFirst: order.nullsFirst,
+      });
+    }
+    if (offset !== undefined) {
+      query = query.range(offset, offset + (limit ?? DEFAULT_PAGE_SIZE) - 1);
+    } else if (limit !== undefined) {
+      query = query.limit(limit);
+    }
+
+    return (await this.run(query)) ?? [];
+  }
+
+  /**
+   * Find one page of rows after a cursor (keyset pagination)
+   * @throws DbError - `invalid_input` for an invalid limit or a cursor issued
+   * for a different ordering
+   */
+  async findPage(options: FindPageOptions<T['Row']> = {}): Promise<Page<T['Row']>> {
+    const { limit = DEFAULT_KEYSET_PAGE_SIZE } = this.validatePagination(options);
+    const orders = options.orderBy ? [options.orderBy].flat() : [];
+    const ordering = stableOrdering(
+      orders.map((order) => ({ column: order.column, ascending: order.ascending ?? true })),
+      this.primaryKey
+    );
+
+    let query = this.from().select('*');
+    query = this.excludeDeleted(applyWhere(query, options.where), options.includeDeleted);
+    if (options.after) {
+      query = query.or(keysetFilter(ordering, decodeCursor(options.after, ordering)));
+    }
+    for (const key of ordering) {
+      query = query.order(key.column, { ascending: key.ascending });
+    }
+    // One extra row tells us whether another page follows
+    query = query.limit(limit + 1);
+
+    const [rows, total] = await Promise.all([
+      this.run(query).then((data) => data ?? []),
+      options.withCount
+        ? this.count(options.where, { includeDeleted: options.includeDeleted })
+        : null,
+    ]);
+    const hasMore = rows.length > limit;
+    const pageRows = hasMore ? rows.slice(0, limit) : rows;
+    return {
+      rows: pageRows,
+      nextCursor: hasMore ? encodeCursor(pageRows[pageRows.length - 1], ordering) : null,
+      hasMore,
+      total,
+    };
+  }
+
+  /**
+   * Count rows matching filters
+   * @throws DbError
+   */
+  async count(where?: Where<T['Row']>, options: CountOptions = {}): Promise<number> {
+    let query = this.from().select('*', { count: 'exact', head: true });
+    query = this.excludeDeleted(applyWhere(query, where), options.includeDeleted);
+    try {
+      const { error, count, status } = await query;
+      if (error) {
+        throw toDbError(error, status);
+      }
+      return count ?? 0;
+    } catch (error) {
+      throw toDbError(error);
+    }
+  }
+
+  /**
+   * Insert one row, or several in one request
+   * @returns The inserted row(s), including defaults set by the database
+   * @throws DbError
+   */
+  async insert(values: T['Insert']): Promise<T['Row']>;
+  async insert(values: T['Insert'][]): Promise<T['Row'][]>;
+  async insert(values: T['Insert'] | T['Insert'][]): Promise<T['Row'] | T['Row'][]> {
+    const query = this.from().insert(values).select('*');
+    return Array.isArray(values)
+      ? ((await this.run(query)) ?? [])
+      : this.runRequired(query.single());
+  }
+
+  /**
+   * Update a row by primary key
+   * @returns The updated row, or null if no row matched
+   * @throws DbError
+   */
+  async update(id: T['Row'][keyof T['Row']], values: T['Update']): Promise<T['Row'] | null> {
+    const query = this.excludeDeleted(this.from().update(values).eq(this.primaryKey, id), false);
+    return this.run(query.select('*').maybeSingle());
+  }
+
+  /**
+   * Insert rows, or update them when they conflict on a unique constraint
+   * @returns The inserted or updated row(s)
+   * @throws DbError
+   */
+  async upsert(values: T['Insert'], options?: UpsertOptions<T['Row']>): Promise<T['Row']>;
+  async upsert(values: T['Insert'][], options?: UpsertOptions<T['Row']>): Promise<T['Row'][]>;
+  async upsert(
+    values: T['Insert'] | T['Insert'][],
+    options: UpsertOptions<T['Row']> = {}
+  ): Promise<T['Row'] | T['Row'][]> {
+    const onConflict = options.onConflict ? [options.onConflict].flat().join(',') : this.primaryKey;
+    const query = this.from()
+      .upsert(values, { onConflict, ignoreDuplicates: options.ignoreDuplicates ?? false })
+      .select('*');
+    return Array.isArray(values)
+      ? ((await this.run(query)) ?? [])
+      : this.runRequired(query.single());
+  }
+
+  /**
+   * Mark a row as deleted by setting the soft delete column to now
+   * @returns The deleted row, or null if no live row matched
+   * @throws DbError - `configuration` if the table has no softDeleteColumn
+   */
+  async softDelete(id: T['Row'][keyof T['Row']]): Promise<T['Row'] | null> {
+    const column = this.softDeleteColumn;
+    if (!column) {
+      throw new DbError(`Table "${this.name}" has no soft delete column configured`, {
+        code: 'configuration',
+      });
+    }
+    const query = this.from()
+      .update({ [column]: new Date().toISOString() })
+      .eq(this.primaryKey, id)
+      .is(column, null);
+    return this.run(query.select('*').maybeSingle());
+  }
+
+  private from() {
+    return this.client.from(this.name);
+  }
+
+  private excludeDeleted<Q extends FilterQuery>(query: Q, includeDeleted: boolean | undefined): Q {
+    return this.softDeleteColumn && !includeDeleted ? query.is(this.softDeleteColumn, null) : query;
+  }
+
+  private validatePagination(options: { limit?: number; offset?: number }) {
+    const result = paginationSchema.safeParse({ limit: options.limit, offset: options.offset });
+    if (!result.success) {
+      throw new DbError(
+        `Invalid pagination for "${this.name}": ${result.error.issues[0].message}`,
+        {
+          code: 'invalid_input',
+          cause: result.error,
+        }
+      );
+    }
+    return result.data;
+  }
+
+  /**
+   * Await a query, converting `{ error }` responses and thrown errors to DbError
+   */
+  private async run<R>(
+    query: PromiseLike<{ data: R | null; error: unknown; status: number }>
+  ): Promise<R | null> {
+    try {
+      const { data, error, status } = await query;
+      if (error) {
+        throw toDbError(error, status);
+      }
+      return data;
+    } catch (error) {
+      throw toDbError(error);
+    }
+  }
+
+  private async runRequired<R>(
+    query: PromiseLike<{ data: R | null; error: unknown; status: number }>
+  ): Promise<R> {
+    const data = await this.run(query);
+    if (data === null) {
+      throw new DbError(`No row returned from "${this.name}"`, { code: 'not_found' });
+    }
+    return data;
+  }
+}
+
+/**
+ * Apply a `where` filter to a query
+ */
+function applyWhere<Q extends FilterQuery>(
+  query: Q,
+  where: Where<Record<string, unknown>> | undefined
+): Q {
+  let filtered = query;
+  for (const [column, condition] of Object.entries(where ?? {})) {
+    if (condition === undefined) {
+      continue;
+    }
+    if (!isFilterOperators(condition)) {
+      filtered = condition === null ? filtered.is(column, null) : filtered.eq(column, condition);
+      continue;
+    }
+    for (const [operator, value] of Object.entries(condition)) {
+      if (value === undefined) continue;
+      switch (operator) {
+        case 'in':
+          filtered = filtered.in(column, value as readonly unknown[]);
+          break;
+        case 'like':
+          filtered = filtered.like(column, value as string);
+          break;
+        case 'ilike':
+          filtered = filtered.ilike(column, value as string);
+          break;
+        case 'is':
+          filtered = filtered.is(column, value as boolean | null);
+          break;
+        case 'eq':
+          filtered = filtered.eq(column, value);
+          break;
+        case 'neq':
+          filtered = filtered.neq(column, value);
+          break;
+        case 'gt':
+          filtered = filtered.gt(column, value);
+          break;
+        case 'gte':
+          filtered = filtered.gte(column, value);
+          break;
+        case 'lt':
+          filtered = filtered.lt(column, value);
+          break;
+        case 'lte':
+          filtered = filtered.lte(column, value);
+          break;
+      }
+    }
+  }
+  return filtered;
+}
+
+/**
+ * True for a non-empty plain object whose keys are all filter operators
+ * (anything else, such as a JSON column value, is compared for equality)
+ */
+function isFilterOperators(value: unknown): value is FilterOperators<unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key) => FILTER_OPERATORS.has(key));
+}
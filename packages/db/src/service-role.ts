@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Service-role client factory (server only)
+ *
+ * A service-role client bypasses Row Level Security. It is exported only from
+ * `@shared/db/server` so client components cannot import it by accident, and it
+ * throws when constructed in a browser, where the key would be exposed.
+ *
+ * @example
+ * ```typescript
+ * import { createServiceRoleClient } from '@shared/db/server';
+ *
+ * const admin = createServiceRoleClient({
+ *   url: process.env.SUPABASE_URL,
+ *   serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY,
+ * });
+ * ```
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { apiKeyRole, isBrowserRuntime, type ServiceRoleClient, STATELESS_AUTH } from './clients';
+import { DbError } from './errors';
+import type { Database } from './types';
+
+/**
+ * Service-role client configuration
+ */
+export interface ServiceRoleConfig {
+  url: string;
+  serviceRoleKey: string;
+}
+
+/**
+ * Create a client that bypasses RLS
+ * @throws DbError - `configuration` in a browser, or if given an anon key
+ */
+export function createServiceRoleClient(config: ServiceRoleConfig): ServiceRoleClient {
+  if (isBrowserRuntime()) {
+    throw new DbError(
+      'createServiceRoleClient cannot run in a browser; the service-role key must stay on the server',
+      { code: 'configuration' }
+    );
+  }
+  if (apiKeyRole(config.serviceRoleKey) === 'anon') {
+    throw new DbError('createServiceRoleClient was given an anon key', { code: 'configuration' });
+  }
+
+  return createClient<Database>(config.url, config.serviceRoleKey, {
+    auth: STATELESS_AUTH,
+  }) as ServiceRoleClient;
+}
@@ -75,14 +75,18 @@ describe('Database Types', () => {
       const schemaStructure: Partial<PublicSchema> = {
         Tables: {
           _health_check: {
-            Row: { id: 1 },
+            Row: { id: 1, status: 'ok', checked_at: null },
             Insert: {},
             Update: {},
             Relationships: [],
           },
         },
         Views: {},
-        Functions: {},
+        Functions: {
+          applied_migrations: { Args: undefined as never, Returns: [] },
+          ping: { Args: undefined as never, Returns: true },
+          query: { Args: { sql: 'SELECT 1' }, Returns: [] },
+        },
         Enums: {},
         CompositeTypes: {},
       };
@@ -134,9 +138,9 @@ describe('Database Types', () => {
       expect(table).toBeDefined();
     });
 
-    it('should have Row type with id field', () => {
+    it('should have Row type with the seeded columns', () => {
       type HealthCheckRow = Database['public']['Tables']['_health_check']['Row'];
-      const row: HealthCheckRow = { id: 1 };
+      const row: HealthCheckRow = { id: 1, status: 'ok', checked_at: null };
 
       expect(row.id).toBe(1);
     });
@@ -179,7 +183,7 @@ describe('Database Types', () => {
       type Row = Database['public']['Tables']['_health_check']['Row'];
 
       // Simulate a database response
-      const rows: Row[] = [{ id: 1 }, { id: 2 }, { id: 3 }];
+      const rows: Row[] = [1, 2, 3].map((id) => ({ id, status: 'ok', checked_at: null }));
 
       expect(rows).toHaveLength(3);
       expect(rows[0].id).toBe(1);
@@ -270,12 +274,12 @@ describe('Database Types', () => {
       type Row = Database['public']['Tables']['_health_check']['Row'];
 
       // This should compile - id is a number
-      const validRow: Row = { id: 42 };
+      const validRow: Row = { id: 42, status: 'healthy', checked_at: '2025-11-06T00:00:00Z' };
       expect(validRow.id).toBe(42);
 
       // TypeScript would prevent these at compile time:
       // const invalidRow: Row = { id: '42' }; // Error: Type 'string' is not assignable to type 'number'
-      // const invalidRow: Row = {}; // Error: Property 'id' is missing
+      // const invalidRow: Row = {}; // Error: Properties 'id', 'status' and 'checked_at' are missing
     });
 
     it('should allow optional fields in Insert type', () => {
@@ -307,14 +311,18 @@ describe('Database Types', () => {
         public: {
           Tables: {
             _health_check: {
-              Row: { id: 1 },
+              Row: { id: 1, status: 'ok', checked_at: null },
               Insert: {},
               Update: {},
               Relationships: [],
             },
           },
           Views: {},
-          Functions: {},
+          Functions: {
+            applied_migrations: { Args: undefined as never, Returns: [] },
+            ping: { Args: undefined as never, Returns: true },
+            query: { Args: { sql: 'SELECT 1' }, Returns: [] },
+          },
           Enums: {},
           CompositeTypes: {},
         },
@@ -345,7 +353,7 @@ describe('Database Types', () => {
       type Row = Database['public']['Tables']['_health_check']['Row'];
 
       const mockHealthCheckResponse: { data: Row[] | null; error: null | Error } = {
-        data: [{ id: 1 }],
+        data: [{ id: 1, status: 'healthy', checked_at: '2025-11-06T00:00:00Z' }],
         error: null,
       };
 
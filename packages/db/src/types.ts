@@ -29,9 +29,21 @@ export interface Database {
     Tables: {
       // Tables will be auto-generated here
       _health_check: {
-        Row: { id: number };
-        Insert: { id?: number };
-        Update: { id?: number };
+        Row: {
+          checked_at: string | null;
+          id: number;
+          status: string | null;
+        };
+        Insert: {
+          checked_at?: string | null;
+          id?: number;
+          status?: string | null;
+        };
+        Update: {
+          checked_at?: string | null;
+          id?: number;
+          status?: string | null;
+        };
         Relationships: [];
       };
     };
@@ -39,10 +51,23 @@ export interface Database {
       [_ in never]: never;
     };
     Functions: {
-      [_ in never]: never;
-      // Note: Development-only query function would be conditionally typed here
-      // but TypeScript doesn't support conditional interface merging at the type level
-      // The runtime check in client.ts provides the actual protection
+      applied_migrations: {
+        Args: never;
+        Returns: string[];
+      };
+      ping: {
+        Args: never;
+        Returns: boolean;
+      };
+      query: {
+        Args: {
+          params?: Json;
+          read_only?: boolean;
+          sql: string;
+          timeout_ms?: number;
+        };
+        Returns: Json;
+      };
     };
     Enums: {
       [_ in never]: never;
@@ -0,0 +1,135 @@
+/**
+ * Tests for the git-context command-line front end.
+ * Runs against a throwaway fixture repository without changing process.cwd().
+ *
+ * @module cli.test
+ */
+
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, realpathSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { runCli } from '../src/cli.js';
+import { formatGitContext } from '../src/context-format.js';
+import { getGitContext } from '../src/index.js';
+
+let repo: string;
+
+function git(...args: string[]): void {
+  execFileSync('git', args, { cwd: repo });
+}
+
+function run(...argv: string[]): { code: number; stdout: string; stderr: string } {
+  let stdout = '';
+  let stderr = '';
+  const code = runCli(argv, {
+    stdout: (text) => {
+      stdout += text;
+    },
+    stderr: (text) => {
+      stderr += text;
+    },
+  });
+  return { code, stdout, stderr };
+}
+
+beforeAll(() => {
+  repo = realpathSync(mkdtempSync(join(tmpdir(), 'git-context-cli-')));
+  git('init', '-q', '-b', 'main');
+  git('config', 'user.name', 'Test');
+  git('config', 'user.email', 'test@example.com');
+  git('config', 'commit.gpgsign', 'false');
+  writeFileSync(join(repo, 'README.md'), '# app\n');
+  git('add', '-A');
+  git('commit', '-q', '-m', 'feat: init');
+  writeFileSync(join(repo, 'README.md'), `# app\n\nKEY=sk-ant-api03-${'a'.repeat(95)}\n`);
+  writeFileSync(join(repo, 'notes.md'), 'todo\n');
+});
+
+afterAll(() => {
+  rmSync(repo, { recursive: true, force: true });
+});
+
+describe('runCli', () => {
+  it('should print all sections as JSON by default', () => {
+    const { code, stdout, stderr } = run('--cwd', repo);
+
+    expect(code).toBe(0);
+    expect(stderr).toBe('');
+    const output = JSON.parse(stdout);
+    expect(output.branch.current).toBe('main');
+    expect(output.recentCommits[0].subject).toBe('feat: init');
+    expect(output.status.untracked).toEqual(['notes.md']);
+  });
+
+  it('should match the library output with the same sanitization', () => {
+    const { stdout } = run('-C', repo, '--format', 'markdown', '--max-commits', '1');
+
+    expect(stdout).toBe(
+      formatGitContext(getGitContext({ cwd: repo, maxCommits: 1 }), { format: 'markdown' })
+    );
+    expect(stdout).not.toContain(repo);
+    expect(stdout).not.toContain('sk-ant-api03-');
+    expect(stdout).toContain('[REDACTED SECRET]');
+  });
+
+  it('should print raw context with --no-sanitize', () => {
+    const { stdout } = run('-C', repo, '--no-sanitize', '--only', 'repository');
+
+    expect(JSON.parse(stdout).repository.root).toBe(repo);
+  });
+
+  it('should select sections by name or alias, in the given order', () => {
+    const { stdout } = run('-C', repo, '-f', 'xml', '--only', 'commits, branch');
+
+    expect(stdout).toMatch(/^<git-context>\n<recent-commits>\n[\s\S]*<\/recent-commits>\n<branch>/);
+    expect(stdout).not.toContain('<diff>');
+  });
+
+  it('should apply status and diff options', () => {
+    const { stdout } = run(
+      '-C',
+      repo,
+      '--no-untracked',
+      '--diff-context',
+      '0',
+      '--only',
+      'status,diff'
+    );
+    const output = JSON.parse(stdout);
+
+    expect(output.status.untracked).toEqual([]);
+    expect(output.diff.files[0].hunks[0].lines.every((line: string) => line[0] !== ' ')).toBe(true);
+  });
+
+  it('should print usage with --help', () => {
+    const { code, stdout } = run('--help');
+
+    expect(code).toBe(0);
+    expect(stdout).toContain('Usage: git-context [options]');
+  });
+
+  it.each([
+    [['--format', 'yaml'], '--format:'],
+    [['--only', 'diff,tags'], '--only:'],
+    [['--max-commits', '0'], '--max-commits:'],
+    [['--max-commits', 'ten'], '--max-commits:'],
+    [['--verbose'], "Unknown option '--verbose'"],
+    [['status'], 'Unexpected argument'],
+  ])('should reject invalid usage %j', (argv, message) => {
+    const { code, stdout, stderr } = run(...argv);
+
+    expect(code).toBe(2);
+    expect(stdout).toBe('');
+    expect(stderr).toContain(message);
+    expect(stderr).toContain('Usage:');
+  });
+
+  it('should exit 1 outside a git repository', () => {
+    const { code, stderr } = run('-C', tmpdir());
+
+    expect(code).toBe(1);
+    expect(stderr).toMatch(/^git-context: /);
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Tests for token-budgeted git context packing.
+ *
+ * @module context-budget.test
+ */
+
+import { describe, expect, it } from 'vitest';
+import { countTokens } from '../../../scripts/skills/token-counter.js';
+import {
+  DEFAULT_LOW_PRIORITY_PATTERNS,
+  estimateTokens,
+  packGitContext,
+} from '../src/context-budget.js';
+import type { Commit, DiffFile, GitContext } from '../src/types.js';
+
+function makeFile(path: string, hunkCount: number, linesPerHunk: number): DiffFile {
+  const hunks = Array.from({ length: hunkCount }, (_, h) => ({
+    oldStart: h * 100 + 1,
+    oldLines: linesPerHunk,
+    newStart: h * 100 + 1,
+    newLines: linesPerHunk,
+    lines: Array.from({ length: linesPerHunk }, (_, i) => `+const value${h}_${i} = ${i};`),
+    oldMissingNewline: false,
+    newMissingNewline: false,
+  }));
+  return {
+    path,
+    oldPath: null,
+    status: 'modified',
+    similarity: null,
+    oldMode: '100644',
+    newMode: '100644',
+    submodule: false,
+    binary: null,
+    crlf: false,
+    encoding: 'utf-8',
+    additions: hunkCount * linesPerHunk,
+    deletions: 0,
+    hunks,
+  };
+}
+
+function makeCommit(n: number): Commit {
+  const hash = n.toString(16).padStart(40, '0');
+  return {
+    hash,
+    shortHash: hash.slice(0, 7),
+    author: 'Dev',
+    email: 'dev@example.com',
+    date: new Date('2025-01-01T00:00:00Z'),
+    message: `feat: change ${n}\n\nDetails for change ${n}`,
+    subject: `feat: change ${n}`,
+    body: `Details for change ${n}`,
+    parents: ['b'.repeat(40)],
+    isMerge: false,
+    conventional: null,
+    trailers: [],
+    coAuthors: [],
+    refs: [],
+    aiAssisted: null,
+    signature: { status: 'unsigned', signer: null, key: null },
+  };
+}
+
+function makeContext(files: DiffFile[], commitCount = 5): GitContext {
+  return {
+    repository: {
+      root: '~/project',
+      remote: null,
+      isClean: false,
+      isLinkedWorktree: false,
+      mainWorktreeRoot: '~/project',
+      worktrees: [],
+      submodules: [],
+    },
+    branch: { current: 'main', upstream: null, tracking: false, commitsAhead: 0, commitsBehind: 0 },
+    status: {
+      staged: files.map((f) => f.path),
+      modified: [],
+      untracked: [],
+      deleted: [],
+      renamed: [],
+      conflicted: [],
+      entries: [],
+    },
+    recentCommits: Array.from({ length: commitCount }, (_, i) => makeCommit(i + 1)),
+    diff: {
+      files,
+      stats: {
+        filesChanged: files.length,
+        additions: files.reduce((sum, f) => sum + f.additions, 0),
+        deletions: 0,
+      },
+    },
+    changedFiles: files.map((f) => ({ path: f.path, status: 'staged' as const })),
+    operationState: {
+      operation: null,
+      operations: [],
+      incomingCommit: null,
+      rebase: null,
+      conflicts: [],
+      head: { detached: false, commit: null, refs: [] },
+    },
+  };
+}
+
+describe('packGitContext', () => {
+  describe('within budget', () => {
+    it('should return the context unchanged when it already fits', () => {
+      const context = makeContext([makeFile('src/a.ts', 1, 3)]);
+      const packed = packGitContext(context, { maxTokens: 100_000, countTokens });
+
+      expect(packed.withinBudget).toBe(true);
+      expect(packed.context).toEqual(context);
+      expect(packed.omitted).toEqual({ droppedFiles: [], trimmedFiles: [], commitsOmitted: 0 });
+      expect(packed.text).toBe(JSON.stringify(context));
+      expect(packed.tokens).toBe(countTokens(packed.text));
+    });
+  });
+
+  describe('reduction stages', () => {
+    it('should drop low-priority files before trimming hunks', () => {
+      const context = makeContext([
+        makeFile('src/a.ts', 2, 10),
+        makeFile('pnpm-lock.yaml', 20, 40),
+      ]);
+      const withoutLock = JSON.stringify(makeContext([makeFile('src/a.ts', 2, 10)]));
+      const packed = packGitContext(context, {
+        maxTokens: countTokens(withoutLock) + 200,
+        countTokens,
+      });
+
+      expect(packed.withinBudget).toBe(true);
+      expect(packed.context.diff.files.map((f) => f.path)).toEqual(['src/a.ts']);
+      expect(packed.context.diff.files[0].hunks).toHaveLength(2);
+      expect(packed.omitted.droppedFiles).toEqual([
+        { path: 'pnpm-lock.yaml', additions: 800, deletions: 0, reason: 'low-priority' },
+      ]);
+      expect(packed.omitted.trimmedFiles).toEqual([]);
+    });
+
+    it('should trim hunks from the largest file first', () => {
+      const context = makeContext([makeFile('src/small.ts', 1, 5), makeFile('src/big.ts', 10, 30)]);
+      const full = countTokens(JSON.stringify(context));
+      const packed = packGitContext(context, { maxTokens: Math.floor(full / 2), countTokens });
+
+      expect(packed.withinBudget).toBe(true);
+      expect(packed.tokens).toBeLessThanOrEqual(Math.floor(full / 2));
+      const small = packed.context.diff.files.find((f) => f.path === 'src/small.ts');
+      expect(small?.hunks).toHaveLength(1);
+      expect(packed.omitted.trimmedFiles).toHaveLength(1);
+      expect(packed.omitted.trimmedFiles[0].path).toBe('src/big.ts');
+      expect(packed.omitted.trimmedFiles[0].hunksOmitted).toBeGreaterThan(0);
+      expect(packed.omitted.trimmedFiles[0].linesOmitted).toBe(
+        packed.omitted.trimmedFiles[0].hunksOmitted * 30
+      );
+    });
+
+    it('should recompute diff stats for the lines that are kept', () => {
+      const context = makeContext([makeFile('src/small.ts', 1, 5), makeFile('src/big.ts', 10, 30)]);
+      const full = countTokens(JSON.stringify(context));
+      const packed = packGitContext(context, { maxTokens: Math.floor(full / 2), countTokens });
+
+      const kept = packed.context.diff.files;
+      const additions = kept.reduce(
+        (sum, f) => sum + f.hunks.flatMap((h) => h.lines).filter((l) => l.startsWith('+')).length,
+        0
+      );
+      expect(packed.context.diff.stats).toEqual({
+        filesChanged: kept.length,
+        additions,
+        deletions: 0,
+      });
+      expect(packed.context.diff.stats.additions).toBeLessThan(context.diff.stats.additions);
+    });
+
+    it('should drop oldest commits but keep the latest', () => {
+      const context = makeContext([makeFile('src/a.ts', 3, 20)], 30);
+      const packed = packGitContext(context, { maxTokens: 300, countTokens });
+
+      expect(packed.context.recentCommits.length).toBeGreaterThanOrEqual(1);
+      expect(packed.context.recentCommits[0].hash).toBe(context.recentCommits[0].hash);
+      expect(packed.omitted.commitsOmitted).toBe(30 - packed.context.recentCommits.length);
+    });
+
+    it('should report when the budget cannot be met', () => {
+      const context = makeContext([makeFile('src/a.ts', 1, 1)]);
+      const packed = packGitContext(context, { maxTokens: 1, countTokens });
+
+      expect(packed.withinBudget).toBe(false);
+      expect(packed.context.diff.files).toEqual([]);
+      expect(packed.omitted.droppedFiles[0]).toMatchObject({ path: 'src/a.ts', reason: 'budget' });
+    });
+  });
+
+  describe('output', () => {
+    it('should include the omission summary in the serialized text', () => {
+      const context = makeContext([makeFile('yarn.lock', 5, 50)]);
+      const packed = packGitContext(context, { maxTokens: 1_000, countTokens });
+
+      const parsed = JSON.parse(packed.text);
+      expect(parsed.omitted.droppedFiles[0].path).toBe('yarn.lock');
+    });
+
+    it('should not mutate the input context', () => {
+      const context = makeContext([makeFile('src/big.ts', 10, 30)]);
+      const before = JSON.stringify(context);
+      packGitContext(context, { maxTokens: 500, countTokens });
+      expect(JSON.stringify(context)).toBe(before);
+    });
+
+    it('should be deterministic', () => {
+      const context = makeContext([makeFile('src/a.ts', 8, 20), makeFile('src/b.ts', 8, 20)]);
+      const a = packGitContext(context, { maxTokens: 1_500, countTokens });
+      const b = packGitContext(context, { maxTokens: 1_500, countTokens });
+      expect(a.text).toBe(b.text);
+    });
+  });
+
+  describe('options', () => {
+    it('should count cl100k tokens like the skills token counter by default', () => {
+      const context = makeContext([makeFile('src/a.ts', 1, 3)]);
+      const packed = packGitContext(context, { maxTokens: 100_000 });
+      expect(packed.tokens).toBe(countTokens(packed.text));
+    });
+
+    it('should accept a custom counter', () => {
+      const context = makeContext([makeFile('src/a.ts', 1, 3)]);
+      const packed = packGitContext(context, { maxTokens: 100_000, countTokens: estimateTokens });
+      expect(packed.tokens).toBe(estimateTokens(packed.text));
+    });
+
+    it('should accept custom low-priority patterns', () => {
+      const context = makeContext([makeFile('docs/huge.md', 10, 40), makeFile('src/a.ts', 1, 3)]);
+      const packed = packGitContext(context, {
+        maxTokens: 2_000,
+        countTokens,
+        lowPriorityPatterns: [/^docs\//],
+      });
+      expect(packed.omitted.droppedFiles[0]).toMatchObject({
+        path: 'docs/huge.md',
+        reason: 'low-priority',
+      });
+    });
+
+    it('should reject a non-positive budget', () => {
+      expect(() => packGitContext(makeContext([]), { maxTokens: 0 })).toThrow();
+    });
+  });
+});
+
+describe('DEFAULT_LOW_PRIORITY_PATTERNS', () => {
+  const isLowPriority = (path: string) =>
+    DEFAULT_LOW_PRIORITY_PATTERNS.some((pattern) => pattern.test(path));
+
+  it('should match lockfiles and generated files', () => {
+    expect(isLowPriority('pnpm-lock.yaml')).toBe(true);
+    expect(isLowPriority('apps/web/package-lock.json')).toBe(true);
+    expect(isLowPriority('packages/db/src/types.ts')).toBe(true);
+    expect(isLowPriority('src/api.generated.ts')).toBe(true);
+    expect(isLowPriority('dist/index.js')).toBe(true);
+    expect(isLowPriority('src/__snapshots__/a.test.ts.snap')).toBe(true);
+  });
+
+  it('should not match regular source files', () => {
+    expect(isLowPriority('src/index.ts')).toBe(false);
+    expect(isLowPriority('packages/git-context/src/types.ts')).toBe(false);
+    expect(isLowPriority('README.md')).toBe(false);
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Tests for the incremental git context cache and its change subscription.
+ * Runs against a throwaway fixture repository without changing process.cwd().
+ *
+ * @module context-cache.test
+ */
+
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, realpathSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createGitContextCache } from '../src/context-cache.js';
+import type { GitContext } from '../src/types.js';
+
+// Lets a test hold a background refresh while it recomputes the diff
+const diffGate = vi.hoisted(() => ({
+  held: null as Promise<void> | null,
+  waiting: false,
+}));
+
+vi.mock('../src/git-diff.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../src/git-diff.js')>();
+  return {
+    ...actual,
+    getParsedDiffAsync: async (...args: Parameters<typeof actual.getParsedDiffAsync>) => {
+      if (diffGate.held) {
+        diffGate.waiting = true;
+        await diffGate.held;
+      }
+      return actual.getParsedDiffAsync(...args);
+    },
+  };
+});
+
+let base: string;
+let repo: string;
+
+function git(...args: string[]): string {
+  return execFileSync('git', args, { cwd: repo, encoding: 'utf-8' }).trim();
+}
+
+beforeAll(() => {
+  base = realpathSync(mkdtempSync(join(tmpdir(), 'git-context-cache-')));
+  repo = join(base, 'app');
+  execFileSync('git', ['init', '-q', '-b', 'main', repo]);
+  git('config', 'user.name', 'Test');
+  git('config', 'user.email', 'test@example.com');
+  git('config', 'commit.gpgsign', 'false');
+  writeFileSync(join(repo, 'README.md'), '# app\n');
+  writeFileSync(join(repo, 'index.ts'), 'export const v = 1;\n');
+  git('add', '-A');
+  git('commit', '-q', '-m', 'feat: init');
+});
+
+beforeEach(() => {
+  git('reset', '-q', '--hard');
+  git('clean', '-qfd');
+});
+
+afterAll(() => {
+  rmSync(base, { recursive: true, force: true });
+});
+
+describe('createGitContextCache', () => {
+  it('should compute every section on first use and reuse the context after', () => {
+    const cache = createGitContextCache({ cwd: repo, sanitizeForAI: false });
+
+    const first = cache.get();
+    expect(first.repository.root).toBe(repo);
+    expect(first.recentCommits[0].subject).toBe('feat: init');
+    expect([...cache.lastRefreshed].sort()).toEqual([
+      'branch',
+      'diff',
+      'operationState',
+      'recentCommits',
+      'repository',
+      'status',
+    ]);
+
+    expect(cache.get()).toBe(first);
+    expect(cache.lastRefreshed).toEqual([]);
+  });
+
+  it('should recompute the diff but not commits when a tracked file changes', () => {
+    const cache = createGitContextCache({ cwd: repo, sanitizeForAI: false });
+    const before = cache.get();
+
+    writeFileSync(join(repo, 'index.ts'), 'export const v = 2;\n');
+    const after = cache.get();
+
+    expect(cache.lastRefreshed).toContain('diff');
+    expect(cache.lastRefreshed).toContain('status');
+    expect(cache.lastRefreshed).not.toContain('recentCommits');
+    expect(cache.lastRefreshed).not.toContain('branch');
+    expect(after.recentCommits).toBe(before.recentCommits);
+    expect(after.status.modified).toEqual(['index.ts']);
+    expect(after.changedFiles).toEqual([{ path: 'index.ts', status: 'modified' }]);
+  });
+
+  it('should notice further edits to an already modified file', () => {
+    const cache = createGitContextCache({ cwd: repo, sanitizeForAI: false });
+    writeFileSync(join(repo, 'index.ts'), 'export const v = 2;\n');
+    const before = cache.get();
+
+    writeFileSync(join(repo, 'index.ts'), 'export const v = 2;\nexport const w = 3;\n');
+    const after = cache.get();
+
+    expect(cache.lastRefreshed).toContain('diff');
+    expect(after.diff).not.toEqual(before.diff);
+  });
+
+  it('should recompute status when the index changes', () => {
+    const cache = createGitContextCache({ cwd: repo, sanitizeForAI: false });
+    writeFileSync(join(repo, 'index.ts'), 'export const v = 2;\n');
+    cache.get();
+
+    git('add', 'index.ts');
+    const after = cache.get();
+
+    expect(cache.lastRefreshed).toContain('status');
+    expect(after.status.staged).toEqual(['index.ts']);
+  });
+
+  it('should recompute commits and branch when HEAD moves', () => {
+    const cache = createGitContextCache({ cwd: repo, sanitizeForAI: false });
+    const before = cache.get();
+
+    git('commit', '-q', '--allow-empty', '-m', 'chore: bump');
+    const after = cache.get();
+
+    expect(cache.lastRefreshed).toContain('recentCommits');
+    expect(cache.lastRefreshed).toContain('branch');
+    expect(after.recentCommits[0].subject).toBe('chore: bump');
+    expect(after.status).toBe(before.status);
+  });
+
+  it('should recompute every section after invalidate', () => {
+    const cache = createGitContextCache({ cwd: repo, sanitizeForAI: false });
+    const first = cache.get();
+
+    cache.invalidate();
+    const second = cache.get();
+
+    expect(second).not.toBe(first);
+    expect(second).toEqual(first);
+    expect(cache.lastRefreshed).toHaveLength(6);
+  });
+
+  it('should sanitize the cached context by default', () => {
+    const cache = createGitContextCache({ cwd: repo });
+
+    expect(cache.get().repository.root).not.toBe(repo);
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => createGitContextCache({ pollIntervalMs: 0 })).toThrow();
+    expect(() => createGitContextCache({ cwd: '' })).toThrow();
+  });
+});
+
+describe('GitContextCache.subscribe', () => {
+  it('should emit a new context when the repository changes', async () => {
+    const cache = createGitContextCache({ cwd: repo, sanitizeForAI: false, pollIntervalMs: 20 });
+    const contexts: GitContext[] = [];
+    const errors: Error[] = [];
+    const unsubscribe = cache.subscribe(
+      (context) => contexts.push(context),
+      (error) => errors.push(error)
+    );
+
+    try {
+      // Let the first poll record the baseline
+      await expect.poll(() => cache.fingerprint).not.toBeNull();
+      expect(contexts).toHaveLength(0);
+
+      writeFileSync(join(repo, 'notes.md'), 'todo\n');
+      await expect.poll(() => contexts.length, { timeout: 5000 }).toBeGreaterThan(0);
+
+      expect(contexts.at(-1)?.status.untracked).toEqual(['notes.md']);
+      expect(errors).toEqual([]);
+    } finally {
+      unsubscribe();
+    }
+  });
+
+  it('should discard a background refresh that finishes after invalidate', async () => {
+    const cache = createGitContextCache({ cwd: repo, sanitizeForAI: false, pollIntervalMs: 20 });
+    const contexts: GitContext[] = [];
+    const unsubscribe = cache.subscribe((context) => contexts.push(context));
+    let release = () => {};
+    diffGate.held = new Promise((resolve) => {
+      release = resolve;
+    });
+
+    try {
+      // The first poll records the baseline, with the diff held
+      await expect.poll(() => diffGate.waiting).toBe(true);
+      // No later poll may record a baseline again
+      unsubscribe();
+      cache.invalidate();
+      release();
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(contexts).toEqual([]);
+      expect(cache.fingerprint).toBeNull();
+    } finally {
+      diffGate.held = null;
+      diffGate.waiting = false;
+      release();
+      unsubscribe();
+    }
+  });
+
+  it('should stop emitting after unsubscribe', async () => {
+    const cache = createGitContextCache({ cwd: repo, sanitizeForAI: false, pollIntervalMs: 20 });
+    const contexts: GitContext[] = [];
+    const unsubscribe = cache.subscribe((context) => contexts.push(context));
+    await expect.poll(() => cache.fingerprint).not.toBeNull();
+
+    unsubscribe();
+    writeFileSync(join(repo, 'notes.md'), 'todo\n');
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(contexts).toEqual([]);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Tests for JSON, Markdown and XML renderings of git context.
+ *
+ * @module context-format.test
+ */
+
+import { describe, expect, it } from 'vitest';
+import { formatGitContext, GIT_CONTEXT_KEYS } from '../src/context-format.js';
+import type { GitContext } from '../src/types.js';
+
+const context: GitContext = {
+  repository: {
+    root: '~/project',
+    remote: 'https://github.com/org/project.git',
+    isClean: false,
+    isLinkedWorktree: false,
+    mainWorktreeRoot: '~/project',
+    worktrees: [],
+    submodules: [],
+  },
+  branch: {
+    current: 'feature/login',
+    upstream: 'origin/feature/login',
+    tracking: true,
+    commitsAhead: 2,
+    commitsBehind: 0,
+  },
+  status: {
+    staged: ['src/auth.ts'],
+    modified: ['README.md'],
+    untracked: ['notes.md'],
+    deleted: [],
+    renamed: [],
+    conflicted: [],
+    entries: [],
+  },
+  recentCommits: [
+    {
+      hash: 'a'.repeat(40),
+      shortHash: 'aaaaaaa',
+      author: 'Dev',
+      email: 'dev@example.com',
+      date: new Date('2025-01-02T10:00:00Z'),
+      message: 'feat: add login',
+      subject: 'feat: add login',
+      body: '',
+      parents: ['b'.repeat(40)],
+      isMerge: false,
+      conventional: { type: 'feat', scope: null, breaking: false, description: 'add login' },
+      trailers: [],
+      coAuthors: [],
+      refs: [],
+      aiAssisted: null,
+      signature: { status: 'unsigned', signer: null, key: null },
+    },
+  ],
+  diff: {
+    files: [
+      {
+        path: 'src/auth.ts',
+        oldPath: null,
+        status: 'modified',
+        similarity: null,
+        oldMode: '100644',
+        newMode: '100644',
+        submodule: false,
+        binary: null,
+        crlf: false,
+        encoding: 'utf-8',
+        additions: 1,
+        deletions: 1,
+        hunks: [
+          {
+            oldStart: 1,
+            oldLines: 1,
+            newStart: 1,
+            newLines: 1,
+            lines: ['-const ok = a < b;', '+const ok = a <= b && fence !== "```";'],
+            oldMissingNewline: false,
+            newMissingNewline: false,
+          },
+        ],
+      },
+    ],
+    stats: { filesChanged: 1, additions: 1, deletions: 1 },
+  },
+  changedFiles: [
+    { path: 'src/auth.ts', status: 'staged' },
+    { path: 'README.md', status: 'modified' },
+    { path: 'notes.md', status: 'untracked' },
+  ],
+  operationState: {
+    operation: null,
+    operations: [],
+    incomingCommit: null,
+    rebase: null,
+    conflicts: [],
+    head: { detached: false, commit: 'a'.repeat(40), refs: [] },
+  },
+};
+
+describe('formatGitContext', () => {
+  it('should render selected sections as JSON in the requested order', () => {
+    const output = formatGitContext(context, { format: 'json', sections: ['status', 'branch'] });
+
+    expect(Object.keys(JSON.parse(output))).toEqual(['status', 'branch']);
+    expect(JSON.parse(output).branch).toEqual(context.branch);
+  });
+
+  it('should render every section by default', () => {
+    const output = formatGitContext(context, { format: 'json' });
+
+    expect(Object.keys(JSON.parse(output))).toEqual([...GIT_CONTEXT_KEYS]);
+  });
+
+  it('should render a Markdown digest', () => {
+    const output = formatGitContext(context, {
+      format: 'markdown',
+      sections: ['branch', 'status', 'recentCommits'],
+    });
+
+    expect(output).toBe(
+      [
+        '# Git Context',
+        '',
+        '## Branch',
+        '',
+        '- Current: feature/login',
+        '- Upstream: origin/feature/login (ahead 2, behind 0)',
+        '',
+        '## Status',
+        '',
+        '- Staged (1): src/auth.ts',
+        '- Modified (1): README.md',
+        '- Untracked (1): notes.md',
+        '',
+        '## Recent Commits',
+        '',
+        '- aaaaaaa feat: add login (Dev, 2025-01-02)',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should fence diff hunks with a fence longer than any backtick run in them', () => {
+    const output = formatGitContext(context, { format: 'markdown', sections: ['diff'] });
+
+    expect(output).toContain('1 files changed, +1 -1');
+    expect(output).toContain('### src/auth.ts (modified, +1 -1)');
+    expect(output).toContain('````diff\n@@ -1,1 +1,1 @@\n-const ok = a < b;');
+  });
+
+  it('should wrap sections in escaped XML tags', () => {
+    const output = formatGitContext(context, {
+      format: 'xml',
+      sections: ['recentCommits', 'diff'],
+    });
+
+    expect(output.startsWith('<git-context>\n<recent-commits>\n')).toBe(true);
+    expect(output).toContain('</recent-commits>\n<diff>\n');
+    expect(output).toContain('-const ok = a &lt; b;');
+    expect(output.endsWith('</diff>\n</git-context>\n')).toBe(true);
+  });
+
+  it('should describe clean and empty sections', () => {
+    const clean: GitContext = {
+      ...context,
+      status: { ...context.status, staged: [], modified: [], untracked: [] },
+      changedFiles: [],
+      recentCommits: [],
+      diff: { files: [], stats: { filesChanged: 0, additions: 0, deletions: 0 } },
+    };
+
+    const output = formatGitContext(clean, {
+      format: 'markdown',
+      sections: ['status', 'changedFiles', 'recentCommits', 'diff'],
+    });
+
+    expect(output).toContain('## Status\n\nWorking tree clean\n');
+    expect(output).toContain('## Changed Files\n\nNo changed files\n');
+    expect(output).toContain('## Recent Commits\n\nNo commits\n');
+    expect(output).toContain('## Diff\n\nNo changes\n');
+  });
+
+  it('should render operation state, conflicts and detached HEAD', () => {
+    const output = formatGitContext(
+      {
+        ...context,
+        operationState: {
+          operation: 'rebase',
+          operations: ['rebase'],
+          incomingCommit: null,
+          rebase: { step: 2, totalSteps: 5, branch: 'feature/login', onto: 'b'.repeat(40) },
+          conflicts: [
+            {
+              path: 'src/auth.ts',
+              type: 'both-modified',
+              base: null,
+              ours: null,
+              theirs: null,
+            },
+          ],
+          head: { detached: true, commit: 'c'.repeat(40), refs: ['v1.0.0'] },
+        },
+      },
+      { format: 'markdown', sections: ['operationState'] }
+    );
+
+    expect(output).toContain('- In progress: rebase');
+    expect(output).toContain('- HEAD: detached at ccccccc (v1.0.0)');
+    expect(output).toContain('- Rebase: step 2/5 of feature/login onto bbbbbbb');
+    expect(output).toContain('- Conflict: src/auth.ts (both-modified)');
+  });
+});
@@ -0,0 +1,472 @@
+/**
+ * Tests for the unified diff parser: quoted paths, CRLF, missing newlines,
+ * non-UTF-8 content, binary files and NUL-separated numstat output.
+ * Includes seeded fuzz tests that round-trip generated diffs.
+ *
+ * @module diff-parser.test
+ */
+
+import { describe, expect, it } from 'vitest';
+import { parseNumstatZ, parseUnifiedDiff, unquoteGitPath } from '../src/diff-parser.js';
+
+/**
+ * Deterministic PRNG (mulberry32) so fuzz failures are reproducible.
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Quotes a path the way git does with core.quotePath=true (or false, which
+ * leaves non-ASCII bytes verbatim).
+ */
+function quoteLikeGit(path: string, quoteNonAscii: boolean): string {
+  const escapes: Record<number, string> = {
+    7: '\\a',
+    8: '\\b',
+    9: '\\t',
+    10: '\\n',
+    11: '\\v',
+    12: '\\f',
+    13: '\\r',
+    34: '\\"',
+    92: '\\\\',
+  };
+  let quoted = '';
+  let needsQuotes = false;
+  for (const byte of Buffer.from(path, 'utf-8')) {
+    if (escapes[byte]) {
+      quoted += escapes[byte];
+      needsQuotes = true;
+    } else if (byte < 0x20 || byte === 0x7f || (byte >= 0x80 && quoteNonAscii)) {
+      quoted += `\\${byte.toString(8).padStart(3, '0')}`;
+      needsQuotes = true;
+    } else {
+      quoted += String.fromCharCode(byte);
+    }
+  }
+  // Non-ASCII bytes left verbatim are re-read as UTF-8 below
+  const text = Buffer.from(quoted, 'latin1').toString('utf-8');
+  return needsQuotes ? `"${text}"` : text;
+}
+
+interface GeneratedFile {
+  path: string;
+  oldPath: string | null;
+  status: 'added' | 'modified' | 'deleted' | 'renamed';
+  crlf: boolean;
+  hunks: Array<{ lines: string[]; oldMissingNewline: boolean; newMissingNewline: boolean }>;
+}
+
+const PATH_PIECES = [
+  'src',
+  'a b',
+  'x"y',
+  'back\\slash',
+  'tab\there',
+  'é',
+  '日本',
+  'b',
+  'new\nline',
+];
+const LINE_PIECES = ['const', ' ', 'diff --git a/x b/x', '@@ -1 +1 @@', '--- a', '+++ b', 'é', '"'];
+
+function pick<T>(random: () => number, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function generatePath(random: () => number): string {
+  const depth = 1 + Math.floor(random() * 3);
+  return Array.from({ length: depth }, () => pick(random, PATH_PIECES)).join('/') + '.ts';
+}
+
+function generateFile(random: () => number, index: number): GeneratedFile {
+  const status = pick(random, ['added', 'modified', 'deleted', 'renamed'] as const);
+  const crlf = random() < 0.3;
+  const hunkCount = 1 + Math.floor(random() * 3);
+  const hunks = Array.from({ length: hunkCount }, (_, h) => {
+    const length = 1 + Math.floor(random() * 5);
+    const lines = Array.from({ length }, () => {
+      const marker = status === 'added' ? '+' : status === 'deleted' ? '-' : pick(random, '+- ');
+      return (
+        marker +
+        Array.from({ length: Math.floor(random() * 4) }, () => pick(random, LINE_PIECES)).join('')
+      );
+    });
+    const last = h === hunkCount - 1 && random() < 0.4;
+    const lastMarker = lines[lines.length - 1][0];
+    return {
+      lines,
+      oldMissingNewline: last && lastMarker !== '+',
+      newMissingNewline: last && lastMarker !== '-',
+    };
+  });
+  const path = `${index}/${generatePath(random)}`;
+  return {
+    path,
+    oldPath: status === 'renamed' ? `${index}/old/${generatePath(random)}` : null,
+    status,
+    crlf,
+    hunks,
+  };
+}
+
+/**
+ * Renders generated files as `git diff` output.
+ */
+function renderGitDiff(files: GeneratedFile[], quoteNonAscii: boolean): string {
+  const out: string[] = [];
+  for (const file of files) {
+    const oldName = file.oldPath ?? file.path;
+    const q = (prefix: string, path: string) => quoteLikeGit(prefix + path, quoteNonAscii);
+    out.push(`diff --git ${q('a/', oldName)} ${q('b/', file.path)}`);
+    if (file.status === 'added') out.push('new file mode 100644');
+    if (file.status === 'deleted') out.push('deleted file mode 100644');
+    if (file.status === 'renamed') {
+      out.push('similarity index 50%');
+      out.push(`rename from ${quoteLikeGit(oldName, quoteNonAscii)}`);
+      out.push(`rename to ${quoteLikeGit(file.path, quoteNonAscii)}`);
+    }
+    out.push(
+      `index ${'1'.repeat(40)}..${'2'.repeat(40)}${file.status === 'modified' ? ' 100644' : ''}`
+    );
+
+    // Git adds a tab after unquoted paths that contain spaces
+    const fileLine = (prefix: string, path: string) => {
+      const quoted = q(prefix, path);
+      return !quoted.startsWith('"') && quoted.includes(' ') ? `${quoted}\t` : quoted;
+    };
+    out.push(`--- ${file.status === 'added' ? '/dev/null' : fileLine('a/', oldName)}`);
+    out.push(`+++ ${file.status === 'deleted' ? '/dev/null' : fileLine('b/', file.path)}`);
+
+    let oldStart = 1;
+    for (const hunk of file.hunks) {
+      const oldLines = hunk.lines.filter((line) => line[0] !== '+').length;
+      const newLines = hunk.lines.filter((line) => line[0] !== '-').length;
+      out.push(`@@ -${oldStart},${oldLines} +${oldStart},${newLines} @@ fn()`);
+      hunk.lines.forEach((line, i) => {
+        out.push(file.crlf ? `${line}\r` : line);
+        const last = i === hunk.lines.length - 1;
+        if (last && (hunk.oldMissingNewline || hunk.newMissingNewline)) {
+          out.push('\\ No newline at end of file');
+        }
+      });
+      oldStart += oldLines + 10;
+    }
+  }
+  return `${out.join('\n')}\n`;
+}
+
+describe('parseUnifiedDiff', () => {
+  describe('paths', () => {
+    it('should decode quoted paths with octal and C escapes', () => {
+      const [file] = parseUnifiedDiff(
+        [
+          'diff --git "a/caf\\303\\251 \\"x\\".txt" "b/caf\\303\\251 \\"x\\".txt"',
+          'index 1111111..2222222 100644',
+          '--- "a/caf\\303\\251 \\"x\\".txt"',
+          '+++ "b/caf\\303\\251 \\"x\\".txt"',
+          '@@ -1 +1 @@',
+          '-a',
+          '+b',
+        ].join('\n')
+      );
+
+      expect(file.path).toBe('café "x".txt');
+      expect(file.oldPath).toBeNull();
+    });
+
+    it('should handle unquoted paths with spaces and the trailing tab', () => {
+      const [added, renamed] = parseUnifiedDiff(
+        [
+          'diff --git a/my b/file.txt b/my b/file.txt',
+          'new file mode 100644',
+          'index 0000000..2222222',
+          '--- /dev/null',
+          '+++ b/my b/file.txt\t',
+          '@@ -0,0 +1 @@',
+          '+x',
+          'diff --git a/old name.txt b/new name.txt',
+          'similarity index 100%',
+          'rename from old name.txt',
+          'rename to new name.txt',
+        ].join('\n')
+      );
+
+      expect(added).toMatchObject({ path: 'my b/file.txt', status: 'added', oldPath: null });
+      expect(renamed).toMatchObject({
+        path: 'new name.txt',
+        oldPath: 'old name.txt',
+        status: 'renamed',
+      });
+    });
+
+    it('should split an ambiguous header symmetrically', () => {
+      const [file] = parseUnifiedDiff(
+        ['diff --git a/x b/y b/x b/y', 'old mode 100644', 'new mode 100755'].join('\n')
+      );
+
+      expect(file).toMatchObject({ path: 'x b/y', oldPath: null, newMode: '100755' });
+    });
+
+    it('should keep raw UTF-8 paths printed with core.quotePath=false', () => {
+      const [file] = parseUnifiedDiff(
+        Buffer.from(
+          ['diff --git a/日本.md b/日本.md', 'old mode 100644', 'new mode 100755'].join('\n')
+        )
+      );
+
+      expect(file.path).toBe('日本.md');
+    });
+  });
+
+  describe('line endings and encodings', () => {
+    it('should strip CRs from CRLF content and flag the file', () => {
+      const [file] = parseUnifiedDiff(
+        [
+          'diff --git a/win.txt b/win.txt',
+          'index 1111111..2222222 100644',
+          '--- a/win.txt',
+          '+++ b/win.txt',
+          '@@ -1,2 +1,2 @@',
+          ' keep\r',
+          '-old\r',
+          '+new\r',
+        ].join('\n')
+      );
+
+      expect(file.crlf).toBe(true);
+      expect(file.hunks[0].lines).toEqual([' keep', '-old', '+new']);
+    });
+
+    it('should record which side lacks a final newline', () => {
+      const [file] = parseUnifiedDiff(
+        [
+          'diff --git a/a.txt b/a.txt',
+          'index 1111111..2222222 100644',
+          '--- a/a.txt',
+          '+++ b/a.txt',
+          '@@ -1 +1,2 @@',
+          '-last',
+          '\\ No newline at end of file',
+          '+last',
+          '+added',
+        ].join('\n')
+      );
+
+      expect(file.hunks[0]).toMatchObject({
+        lines: ['-last', '+last', '+added'],
+        oldMissingNewline: true,
+        newMissingNewline: false,
+      });
+    });
+
+    it('should decode content that is not valid UTF-8 as Latin-1', () => {
+      const [file] = parseUnifiedDiff(
+        Buffer.concat([
+          Buffer.from('diff --git a/l.txt b/l.txt\n--- a/l.txt\n+++ b/l.txt\n@@ -1 +1 @@\n-caf'),
+          Buffer.from([0xe9]),
+          Buffer.from('\n+café\n'),
+        ])
+      );
+
+      expect(file.encoding).toBe('latin1');
+      expect(file.hunks[0].lines).toEqual(['-café', '+café']);
+    });
+  });
+
+  describe('hunks', () => {
+    it('should read hunk bodies by line count, not by prefix', () => {
+      const [file, next] = parseUnifiedDiff(
+        [
+          'diff --git a/doc.md b/doc.md',
+          'index 1111111..2222222 100644',
+          '--- a/doc.md',
+          '+++ b/doc.md',
+          '@@ -1,3 +1,3 @@',
+          '--- a/not-a-header',
+          '+++ b/not-a-header',
+          '',
+          '-diff --git a/x b/x',
+          'diff --git a/next.md b/next.md',
+          'deleted file mode 100644',
+        ].join('\n')
+      );
+
+      expect(file.hunks[0].lines).toEqual([
+        '--- a/not-a-header',
+        '+++ b/not-a-header',
+        ' ',
+        '-diff --git a/x b/x',
+      ]);
+      expect(file).toMatchObject({ additions: 1, deletions: 2 });
+      expect(next).toMatchObject({ path: 'next.md', status: 'deleted' });
+    });
+
+    it('should parse plain diff -u output', () => {
+      const files = parseUnifiedDiff(
+        [
+          '--- old/a.txt\t2025-01-01 00:00:00.000000000 +0000',
+          '+++ new/a.txt\t2025-01-02 00:00:00.000000000 +0000',
+          '@@ -1 +1 @@',
+          '-a',
+          '+b',
+          '--- /dev/null',
+          '+++ new/b.txt',
+          '@@ -0,0 +1 @@',
+          '+b',
+        ].join('\n')
+      );
+
+      expect(files.map(({ path, oldPath, status }) => ({ path, oldPath, status }))).toEqual([
+        { path: 'new/a.txt', oldPath: 'old/a.txt', status: 'modified' },
+        { path: 'new/b.txt', oldPath: null, status: 'added' },
+      ]);
+    });
+  });
+
+  describe('binary files', () => {
+    it('should flag binary files and keep their blob ids', () => {
+      const [file] = parseUnifiedDiff(
+        [
+          'diff --git a/logo.png b/logo.png',
+          `index ${'a'.repeat(40)}..${'b'.repeat(40)} 100644`,
+          'Binary files a/logo.png and b/logo.png differ',
+        ].join('\n')
+      );
+
+      expect(file.hunks).toEqual([]);
+      expect(file.binary).toEqual({
+        oldOid: 'a'.repeat(40),
+        newOid: 'b'.repeat(40),
+        oldSize: null,
+        newSize: null,
+        sizeDelta: null,
+      });
+    });
+
+    it('should read sizes from GIT binary patch literals', () => {
+      const [modified, added] = parseUnifiedDiff(
+        [
+          'diff --git a/bin.dat b/bin.dat',
+          'index 1111111..2222222 100644',
+          'GIT binary patch',
+          'literal 5',
+          'McmZQzWMXCk000>P3jhEB',
+          '',
+          'literal 3',
+          'KcmZQzWC8#H2LJ>B',
+          '',
+          'diff --git a/new.bin b/new.bin',
+          'new file mode 100644',
+          'index 0000000..3333333',
+          'GIT binary patch',
+          'literal 2',
+          'GcmZQz00031',
+          '',
+          'literal 0',
+          'HcmV?d00001',
+          '',
+        ].join('\n')
+      );
+
+      expect(modified.binary).toMatchObject({ oldSize: 3, newSize: 5, sizeDelta: 2 });
+      expect(added.binary).toMatchObject({ oldSize: 0, newSize: 2, sizeDelta: 2 });
+      expect(added.status).toBe('added');
+    });
+  });
+
+  describe('fuzz', () => {
+    it.each([1, 2, 3, 4, 5, 6, 7, 8])('should round-trip generated diffs (seed %i)', (seed) => {
+      const random = createRandom(seed);
+      const generated = Array.from({ length: 1 + Math.floor(random() * 6) }, (_, i) =>
+        generateFile(random, i)
+      );
+      const quoteNonAscii = random() < 0.5;
+      const output = renderGitDiff(generated, quoteNonAscii);
+
+      const parsed = parseUnifiedDiff(Buffer.from(output, 'utf-8'));
+
+      expect(parsed.map((file) => file.path)).toEqual(generated.map((file) => file.path));
+      parsed.forEach((file, i) => {
+        const expected = generated[i];
+        expect(file.status).toBe(expected.status);
+        expect(file.oldPath).toBe(expected.oldPath);
+        expect(file.crlf).toBe(expected.crlf);
+        expect(file.encoding).toBe('utf-8');
+        expect(
+          file.hunks.map(({ lines, oldMissingNewline, newMissingNewline }) => ({
+            lines,
+            oldMissingNewline,
+            newMissingNewline,
+          }))
+        ).toEqual(expected.hunks);
+        const allLines = expected.hunks.flatMap((hunk) => hunk.lines);
+        expect(file.additions).toBe(allLines.filter((line) => line[0] === '+').length);
+        expect(file.deletions).toBe(allLines.filter((line) => line[0] === '-').length);
+      });
+    });
+
+    it('should never throw on truncated or corrupted input', () => {
+      const random = createRandom(42);
+      const output = Buffer.from(
+        renderGitDiff(
+          Array.from({ length: 5 }, (_, i) => generateFile(random, i)),
+          true
+        )
+      );
+
+      for (let round = 0; round < 200; round++) {
+        const corrupted = Buffer.from(output.subarray(0, Math.floor(random() * output.length)));
+        for (let flips = 0; flips < 5; flips++) {
+          corrupted[Math.floor(random() * corrupted.length)] = Math.floor(random() * 256);
+        }
+        expect(() => parseUnifiedDiff(corrupted)).not.toThrow();
+      }
+    });
+  });
+});
+
+describe('parseNumstatZ', () => {
+  it('should read NUL-separated records, renames and binary files', () => {
+    const entries = parseNumstatZ(
+      ['3\t1\tsrc/a b.ts', '-\t-\tlogo.png', '0\t0\t', 'old\nname.txt', 'new "name".txt', ''].join(
+        '\0'
+      )
+    );
+
+    expect(entries).toEqual([
+      { path: 'src/a b.ts', oldPath: null, additions: 3, deletions: 1, binary: false },
+      { path: 'logo.png', oldPath: null, additions: 0, deletions: 0, binary: true },
+      {
+        path: 'new "name".txt',
+        oldPath: 'old\nname.txt',
+        additions: 0,
+        deletions: 0,
+        binary: false,
+      },
+    ]);
+  });
+
+  it('should decode raw UTF-8 paths', () => {
+    expect(parseNumstatZ(Buffer.from('1\t0\t日本.md\0'))[0].path).toBe('日本.md');
+  });
+});
+
+describe('unquoteGitPath', () => {
+  it.each([
+    ['plain name.txt', 'plain name.txt'],
+    ['"caf\\303\\251.txt"', 'café.txt'],
+    ['"tab\\there\\nnew\\\\line"', 'tab\there\nnew\\line'],
+    ['"unterminated', 'unterminated'],
+  ])('should decode %s', (quoted, expected) => {
+    expect(unquoteGitPath(quoted)).toBe(expected);
+  });
+});
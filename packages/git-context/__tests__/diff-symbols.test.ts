@@ -0,0 +1,317 @@
+/**
+ * Tests for symbol-level diff summaries of TypeScript files.
+ *
+ * @module diff-symbols.test
+ */
+
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, realpathSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { extractExportedSymbols, summarizeDiffSymbols } from '../src/diff-symbols.js';
+import { getParsedDiff } from '../src/git-diff.js';
+
+describe('extractExportedSymbols', () => {
+  it('should describe exported functions, classes, interfaces, types and enums', () => {
+    const source = [
+      'import { helper } from "./helper";',
+      '',
+      'export async function load(id: string): Promise<User> {',
+      '  return helper(id);',
+      '}',
+      'export class Store<T> extends Base implements Disposable {',
+      '  #cache = new Map();',
+      '  private secret = 1;',
+      '  readonly size: number = 0;',
+      '  constructor(private readonly db: Db) { super(); }',
+      '  get(key: string): T | undefined { return undefined; }',
+      '}',
+      'export interface User {',
+      '  id: string;',
+      '  name?: string;',
+      '}',
+      'export type Role = "admin" | "member";',
+      'export enum Level { Low, High }',
+      'function internal() {}',
+    ].join('\n');
+
+    expect(extractExportedSymbols(source, 'api.ts')).toEqual([
+      {
+        name: 'load',
+        kind: 'function',
+        signature: 'async function load(id: string): Promise<User>',
+        line: 3,
+      },
+      {
+        name: 'Store',
+        kind: 'class',
+        signature:
+          'class Store<T> extends Base implements Disposable { readonly size: number; constructor(private readonly db: Db); get(key: string): T | undefined }',
+        line: 6,
+      },
+      {
+        name: 'User',
+        kind: 'interface',
+        signature: 'interface User { id: string; name?: string; }',
+        line: 13,
+      },
+      { name: 'Role', kind: 'type', signature: 'type Role = "admin" | "member"', line: 17 },
+      { name: 'Level', kind: 'enum', signature: 'enum Level { Low, High }', line: 18 },
+    ]);
+  });
+
+  it('should detect React components and Zod schemas', () => {
+    const source = [
+      "import { z } from 'zod';",
+      "import { memo } from 'react';",
+      'export const userSchema = z.object({ id: z.string().uuid() }).strict();',
+      'export function Avatar({ url }: Props) {',
+      '  return <img src={url} />;',
+      '}',
+      'export const Badge = memo(({ label }: { label: string }) => <span>{label}</span>);',
+      'export const formatName = (user: User): string => user.name;',
+      'export const MAX_USERS = 50;',
+    ].join('\n');
+
+    expect(
+      extractExportedSymbols(source, 'user.tsx').map(({ name, kind, signature }) => [
+        name,
+        kind,
+        signature,
+      ])
+    ).toEqual([
+      ['userSchema', 'schema', 'const userSchema = z.object({ id: z.string().uuid() }).strict()'],
+      ['Avatar', 'component', 'function Avatar({ url }: Props)'],
+      ['Badge', 'component', 'const Badge = ({ label }: { label: string }) =>'],
+      ['formatName', 'function', 'const formatName = (user: User): string =>'],
+      ['MAX_USERS', 'variable', 'const MAX_USERS = 50'],
+    ]);
+  });
+
+  it('should resolve export lists, aliases, overloads and default exports', () => {
+    const source = [
+      'function parse(input: string): number;',
+      'function parse(input: number): number;',
+      'function parse(input: unknown): number { return Number(input); }',
+      'const version = "1.0";',
+      'export { parse, version as VERSION };',
+      'export { other } from "./other";',
+      'export default function (props: Props) { return <div />; }',
+    ].join('\n');
+
+    expect(extractExportedSymbols(source, 'mod.tsx')).toEqual([
+      {
+        name: 'parse',
+        kind: 'function',
+        signature: 'function parse(input: string): number; function parse(input: number): number',
+        line: 1,
+      },
+      { name: 'VERSION', kind: 'variable', signature: 'const version = "1.0"', line: 4 },
+      { name: 'default', kind: 'component', signature: 'function (props: Props)', line: 7 },
+    ]);
+  });
+
+  it('should truncate very long signatures', () => {
+    const fields = Array.from({ length: 60 }, (_, i) => `field${i}: string;`).join(' ');
+    const [symbol] = extractExportedSymbols(`export interface Big { ${fields} }`, 'big.ts');
+
+    expect(symbol.signature).toHaveLength(300);
+    expect(symbol.signature.endsWith('…')).toBe(true);
+  });
+});
+
+describe('summarizeDiffSymbols', () => {
+  let repo: string;
+
+  function git(...args: string[]): string {
+    return execFileSync('git', args, { cwd: repo, encoding: 'utf-8' }).trim();
+  }
+
+  beforeAll(() => {
+    repo = realpathSync(mkdtempSync(join(tmpdir(), 'git-diff-symbols-')));
+    git('init', '-q', '-b', 'main');
+    git('config', 'user.name', 'Test');
+    git('config', 'user.email', 'test@example.com');
+    git('config', 'commit.gpgsign', 'false');
+    writeFileSync(
+      join(repo, 'math.ts'),
+      [
+        'export function add(a: number, b: number): number {',
+        '  return a + b;',
+        '}',
+        'export function sub(a: number, b: number): number {',
+        '  return a - b;',
+        '}',
+        'export const ZERO = 0;',
+        '',
+      ].join('\n')
+    );
+    writeFileSync(join(repo, 'README.md'), '# math\n');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'feat: init');
+  });
+
+  beforeEach(() => {
+    git('reset', '-q', '--hard');
+    git('clean', '-qfd');
+  });
+
+  afterAll(() => {
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  const editMath = () => {
+    writeFileSync(
+      join(repo, 'math.ts'),
+      [
+        'export function add(a: number, b: number, c = 0): number {',
+        '  return a + b + c;',
+        '}',
+        'export function mul(a: number, b: number): number {',
+        '  return a * b;',
+        '}',
+        'export const ZERO = -0;',
+        '',
+      ].join('\n')
+    );
+    writeFileSync(join(repo, 'README.md'), '# math\n\nNow with mul.\n');
+  };
+
+  it('should summarize working tree changes per exported symbol', () => {
+    editMath();
+
+    const summary = summarizeDiffSymbols(getParsedDiff({ cwd: repo }), { cwd: repo });
+
+    expect(summary.files).toEqual([
+      {
+        path: 'math.ts',
+        oldPath: null,
+        status: 'modified',
+        changes: [
+          {
+            name: 'add',
+            kind: 'function',
+            change: 'signature-changed',
+            oldSignature: 'function add(a: number, b: number): number',
+            newSignature: 'function add(a: number, b: number, c = 0): number',
+            line: 1,
+          },
+          {
+            name: 'mul',
+            kind: 'function',
+            change: 'added',
+            oldSignature: null,
+            newSignature: 'function mul(a: number, b: number): number',
+            line: 4,
+          },
+          {
+            name: 'ZERO',
+            kind: 'variable',
+            change: 'signature-changed',
+            oldSignature: 'const ZERO = 0',
+            newSignature: 'const ZERO = -0',
+            line: 7,
+          },
+          {
+            name: 'sub',
+            kind: 'function',
+            change: 'removed',
+            oldSignature: 'function sub(a: number, b: number): number',
+            newSignature: null,
+            line: 4,
+          },
+        ],
+      },
+    ]);
+    expect(summary.stats).toEqual({ added: 1, removed: 1, signatureChanged: 2, modified: 0 });
+  });
+
+  it('should report body-only changes as modified', () => {
+    writeFileSync(
+      join(repo, 'math.ts'),
+      git('show', 'HEAD:math.ts').replace('return a + b;', 'return b + a;')
+    );
+
+    const summary = summarizeDiffSymbols(getParsedDiff({ cwd: repo }), { cwd: repo });
+
+    expect(summary.files[0].changes).toEqual([
+      {
+        name: 'add',
+        kind: 'function',
+        change: 'modified',
+        oldSignature: null,
+        newSignature: 'function add(a: number, b: number): number',
+        line: 1,
+      },
+    ]);
+  });
+
+  it('should read staged and committed versions to match the diff', () => {
+    editMath();
+    git('add', 'math.ts');
+    writeFileSync(join(repo, 'math.ts'), 'export const unstaged = true;\n');
+
+    const staged = summarizeDiffSymbols(getParsedDiff({ cwd: repo, staged: true }), {
+      cwd: repo,
+      staged: true,
+    });
+    expect(staged.stats).toEqual({ added: 1, removed: 1, signatureChanged: 2, modified: 0 });
+
+    git('checkout', '-q', '--', 'math.ts');
+    const base = git('rev-parse', 'HEAD');
+    git('commit', '-q', '-m', 'feat: mul');
+    const range = { cwd: repo, commitA: base, commitB: 'HEAD' };
+    const committed = summarizeDiffSymbols(getParsedDiff(range), range);
+    expect(committed.stats).toEqual(staged.stats);
+    git('reset', '-q', '--hard', base);
+  });
+
+  it('should treat added, deleted and non-TypeScript files', () => {
+    writeFileSync(join(repo, 'ids.ts'), 'export type Id = string;\n');
+    git('add', 'ids.ts');
+    git('rm', '-q', 'math.ts');
+
+    const summary = summarizeDiffSymbols(getParsedDiff({ cwd: repo, staged: true }), {
+      cwd: repo,
+      staged: true,
+    });
+
+    expect(summary.files.map((file) => [file.path, file.status, file.changes.length])).toEqual([
+      ['ids.ts', 'added', 1],
+      ['math.ts', 'deleted', 3],
+    ]);
+    expect(summary.stats.removed).toBe(3);
+  });
+
+  it('should redact signatures that contain secrets', () => {
+    writeFileSync(
+      join(repo, 'config.ts'),
+      `export const apiKey = 'sk-ant-api03-${'a'.repeat(93)}AA';\n`
+    );
+    git('add', 'config.ts');
+    const diff = getParsedDiff({ cwd: repo, staged: true });
+
+    const [change] = summarizeDiffSymbols(diff, { cwd: repo, staged: true }).files[0].changes;
+    expect(change.newSignature).toBe('[REDACTED SECRET]');
+
+    const raw = summarizeDiffSymbols(diff, { cwd: repo, staged: true, sanitize: false });
+    expect(raw.files[0].changes[0].newSignature).toContain('sk-ant-api03-');
+  });
+
+  it('should return an empty summary when no TypeScript file changed', () => {
+    writeFileSync(join(repo, 'README.md'), '# changed\n');
+
+    expect(summarizeDiffSymbols(getParsedDiff({ cwd: repo }), { cwd: repo })).toEqual({
+      files: [],
+      stats: { added: 0, removed: 0, signatureChanged: 0, modified: 0 },
+    });
+  });
+
+  it('should reject inconsistent comparison options', () => {
+    const diff = { files: [], stats: { filesChanged: 0, additions: 0, deletions: 0 } };
+
+    expect(() => summarizeDiffSymbols(diff, { commitB: 'HEAD' })).toThrow();
+    expect(() => summarizeDiffSymbols(diff, { commitA: 'main', fromMergeBase: true })).toThrow();
+  });
+});
@@ -6,7 +6,13 @@
  */
 
 import { describe, expect, it, vi } from 'vitest';
-import { execGitSafe, execGitSafeDetailed, sanitizeError } from '../src/exec-safe.js';
+import {
+  execGitSafe,
+  execGitSafeAsync,
+  execGitSafeDetailed,
+  execGitSafeDetailedAsync,
+  sanitizeError,
+} from '../src/exec-safe.js';
 
 describe('execGitSafe', () => {
   describe('successful execution', () => {
@@ -104,6 +110,12 @@ describe('execGitSafe', () => {
       expect(typeof output).toBe('string');
     });
 
+    it('should respect an explicit -- separator after revisions', () => {
+      // Without the explicit separator, HEAD would be treated as a path
+      const output = execGitSafe(['log', '-1', '--pretty=format:%H', 'HEAD', '--']);
+      expect(output.trim()).toMatch(/^[a-f0-9]{40}$/);
+    });
+
     it('should not add -- separator for status command', () => {
       // Status doesn't support --, so it shouldn't be added
       const output = execGitSafe(['status', '--porcelain']);
@@ -212,6 +224,75 @@ describe('execGitSafeDetailed', () => {
   });
 });
 
+describe('execGitSafeAsync', () => {
+  describe('successful execution', () => {
+    it('should resolve with the same output as execGitSafe', async () => {
+      const output = await execGitSafeAsync(['rev-parse', '--show-toplevel']);
+      expect(output).toBe(execGitSafe(['rev-parse', '--show-toplevel']));
+    });
+
+    it('should allow non-zero exit with allowNonZeroExit option', async () => {
+      const output = await execGitSafeAsync(['diff', 'nonexistent-ref'], {
+        allowNonZeroExit: true,
+      });
+      expect(typeof output).toBe('string');
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject shell metacharacters before spawning', async () => {
+      await expect(execGitSafeAsync(['status', '; rm -rf /'])).rejects.toThrow(
+        /Shell metacharacter/
+      );
+    });
+  });
+
+  describe('error handling', () => {
+    it('should reject on non-zero exit code by default', async () => {
+      await expect(execGitSafeAsync(['not-a-real-command'])).rejects.toThrow(
+        /Git command failed with exit code/
+      );
+    });
+
+    it('should reject immediately when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      await expect(
+        execGitSafeAsync(['status', '--porcelain'], { signal: controller.signal })
+      ).rejects.toThrow(/aborted/);
+    });
+
+    it('should reject when aborted mid-flight', async () => {
+      const controller = new AbortController();
+      const pending = execGitSafeAsync(['log', '--all', '--patch'], { signal: controller.signal });
+      controller.abort();
+      await expect(pending).rejects.toThrow(/aborted/);
+    });
+
+    it('should reject when the timeout elapses', async () => {
+      await expect(execGitSafeAsync(['log', '--all', '--patch'], { timeoutMs: 1 })).rejects.toThrow(
+        /timed out after 1ms/
+      );
+    });
+  });
+});
+
+describe('execGitSafeDetailedAsync', () => {
+  it('should resolve with exit code instead of rejecting on failure', async () => {
+    const result = await execGitSafeDetailedAsync(['not-a-real-command']);
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stderr.trim().length).toBeGreaterThan(0);
+  });
+
+  it('should respect cwd option', async () => {
+    const result = await execGitSafeDetailedAsync(['rev-parse', '--show-toplevel'], {
+      cwd: process.cwd(),
+    });
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout.trim()).toBeTruthy();
+  });
+});
+
 describe('sanitizeError', () => {
   describe('home directory redaction', () => {
     it('should redact macOS home paths', () => {
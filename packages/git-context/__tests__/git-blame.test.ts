@@ -0,0 +1,155 @@
+/**
+ * Tests for blame and line history.
+ * Runs against a throwaway fixture repository.
+ *
+ * @module git-blame.test
+ */
+
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, renameSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { getBlame } from '../src/git-blame.js';
+import { getCommitsByHash, getLineHistory } from '../src/git-log.js';
+
+const originalCwd = process.cwd();
+let repo: string;
+
+function git(...args: string[]): string {
+  return execFileSync('git', args, { cwd: repo, encoding: 'utf-8' }).trim();
+}
+
+function commitFile(file: string, content: string, message: string): string {
+  writeFileSync(join(repo, file), content);
+  git('add', '-A');
+  git('commit', '-q', '-m', message);
+  return git('rev-parse', 'HEAD');
+}
+
+let firstCommit: string;
+let secondCommit: string;
+let renameCommit: string;
+
+beforeAll(() => {
+  repo = mkdtempSync(join(tmpdir(), 'git-blame-'));
+  git('init', '-q', '-b', 'main');
+  git('config', 'user.name', 'Test');
+  git('config', 'user.email', 'test@example.com');
+  git('config', 'commit.gpgsign', 'false');
+
+  firstCommit = commitFile(
+    'old.ts',
+    'const a = 1;\nconst b = 2;\nconst c = 3;\n',
+    'feat: add constants\n\nIntroduces the pattern.'
+  );
+  secondCommit = commitFile(
+    'old.ts',
+    'const a = 1;\nconst b = 20;\nconst c = 3;\n',
+    'fix: change b'
+  );
+  renameSync(join(repo, 'old.ts'), join(repo, 'constants.ts'));
+  git('add', '-A');
+  git('commit', '-q', '-m', 'refactor: rename constants file');
+  renameCommit = git('rev-parse', 'HEAD');
+
+  process.chdir(repo);
+});
+
+afterAll(() => {
+  process.chdir(originalCwd);
+  rmSync(repo, { recursive: true, force: true });
+});
+
+describe('getBlame', () => {
+  it('should attribute every line to the commit that last changed it', () => {
+    const lines = getBlame('constants.ts');
+
+    expect(lines.map((l) => [l.line, l.content, l.commit?.hash])).toEqual([
+      [1, 'const a = 1;', firstCommit],
+      [2, 'const b = 20;', secondCommit],
+      [3, 'const c = 3;', firstCommit],
+    ]);
+  });
+
+  it('should return full commit metadata', () => {
+    const [line] = getBlame('constants.ts', { startLine: 1, endLine: 1 });
+
+    expect(line.commit).toMatchObject({
+      hash: firstCommit,
+      author: 'Test',
+      email: 'test@example.com',
+      subject: 'feat: add constants',
+      body: expect.stringContaining('Introduces the pattern.'),
+    });
+    expect(line.commit?.date).toBeInstanceOf(Date);
+  });
+
+  it('should report the original path for lines from before a rename', () => {
+    const [line] = getBlame('constants.ts', { startLine: 2, endLine: 2 });
+
+    expect(line).toMatchObject({ line: 2, originalLine: 2, originalPath: 'old.ts' });
+  });
+
+  it('should blame from startLine to end of file when endLine is omitted', () => {
+    const lines = getBlame('constants.ts', { startLine: 2 });
+    expect(lines.map((l) => l.line)).toEqual([2, 3]);
+  });
+
+  it('should return a null commit for uncommitted lines', () => {
+    writeFileSync(join(repo, 'constants.ts'), 'const a = 1;\nconst b = 20;\nconst c = 30;\n');
+    try {
+      const lines = getBlame('constants.ts');
+      expect(lines[2].commit).toBeNull();
+      expect(lines[0].commit?.hash).toBe(firstCommit);
+    } finally {
+      git('checkout', '--', 'constants.ts');
+    }
+  });
+
+  it('should reject invalid paths and ranges', () => {
+    expect(() => getBlame('../outside.ts')).toThrow();
+    expect(() => getBlame('--output=x')).toThrow();
+    expect(() => getBlame('constants.ts', { startLine: 3, endLine: 1 })).toThrow();
+    expect(() => getBlame('constants.ts', { startLine: 0 })).toThrow();
+  });
+
+  it('should throw for untracked files', () => {
+    expect(() => getBlame('missing.ts')).toThrow();
+  });
+});
+
+describe('getLineHistory', () => {
+  it('should list the commits that changed a line across renames, newest first', () => {
+    const history = getLineHistory('constants.ts', 2);
+
+    expect(history.map((c) => c.hash)).toEqual([secondCommit, firstCommit]);
+    expect(history.at(-1)?.subject).toBe('feat: add constants');
+  });
+
+  it('should respect the limit option', () => {
+    expect(getLineHistory('constants.ts', 2, { limit: 1 }).map((c) => c.hash)).toEqual([
+      secondCommit,
+    ]);
+  });
+
+  it('should reject invalid line numbers', () => {
+    expect(() => getLineHistory('constants.ts', 0)).toThrow();
+    expect(() => getLineHistory('constants.ts', 1.5)).toThrow();
+  });
+});
+
+describe('getCommitsByHash', () => {
+  it('should return commits in the order given', () => {
+    const commits = getCommitsByHash([renameCommit, firstCommit]);
+    expect(commits.map((c) => c.hash)).toEqual([renameCommit, firstCommit]);
+  });
+
+  it('should reject abbreviated hashes', () => {
+    expect(() => getCommitsByHash([firstCommit.slice(0, 7)])).toThrow();
+  });
+
+  it('should return an empty array for no hashes', () => {
+    expect(getCommitsByHash([])).toEqual([]);
+  });
+});
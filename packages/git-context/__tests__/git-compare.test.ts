@@ -0,0 +1,124 @@
+/**
+ * Tests for branch comparison (merge base, PR-range diff, commit range).
+ * Runs against a throwaway fixture repository.
+ *
+ * @module git-compare.test
+ */
+
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, renameSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { detectBaseBranch, getBranchComparison, getMergeBase } from '../src/git-compare.js';
+
+const originalCwd = process.cwd();
+let repo: string;
+
+function git(...args: string[]): string {
+  return execFileSync('git', args, { cwd: repo, encoding: 'utf-8' }).trim();
+}
+
+function commitFile(file: string, content: string, message: string): void {
+  writeFileSync(join(repo, file), content);
+  git('add', '-A');
+  git('commit', '-q', '-m', message);
+}
+
+beforeAll(() => {
+  repo = mkdtempSync(join(tmpdir(), 'git-compare-'));
+  git('init', '-q', '-b', 'main');
+  git('config', 'user.name', 'Test');
+  git('config', 'user.email', 'test@example.com');
+  git('config', 'commit.gpgsign', 'false');
+
+  commitFile('base.txt', 'base\n', 'chore: initial commit');
+
+  git('checkout', '-q', '-b', 'feature/compare');
+  commitFile('feature.txt', 'one\n', 'feat: add feature file');
+  renameSync(join(repo, 'base.txt'), join(repo, 'moved.txt'));
+  git('add', '-A');
+  git('commit', '-q', '-m', 'refactor: move base file');
+
+  git('checkout', '-q', 'main');
+  commitFile('main-only.txt', 'main\n', 'fix: main-only change');
+  git('checkout', '-q', 'feature/compare');
+
+  process.chdir(repo);
+});
+
+afterAll(() => {
+  process.chdir(originalCwd);
+  rmSync(repo, { recursive: true, force: true });
+});
+
+describe('getBranchComparison', () => {
+  it('should find the merge base and ahead/behind counts', () => {
+    const comparison = getBranchComparison({ base: 'main', head: 'HEAD' });
+    const expectedBase = git('rev-list', '--max-parents=0', 'HEAD');
+
+    expect(comparison.base).toBe('main');
+    expect(comparison.head).toBe('HEAD');
+    expect(comparison.mergeBase).toBe(expectedBase);
+    expect(comparison.commitsAhead).toBe(2);
+    expect(comparison.commitsBehind).toBe(1);
+  });
+
+  it('should list only commits unique to the head branch', () => {
+    const comparison = getBranchComparison({ base: 'main' });
+
+    expect(comparison.commits.map((c) => c.subject)).toEqual([
+      'refactor: move base file',
+      'feat: add feature file',
+    ]);
+    expect(comparison.commits[0].hash).toMatch(/^[a-f0-9]{40}$/);
+  });
+
+  it('should attach per-commit file lists', () => {
+    const comparison = getBranchComparison({ base: 'main' });
+    const [rename, add] = comparison.commits;
+
+    expect(add.files).toEqual([{ path: 'feature.txt', oldPath: null, status: 'added' }]);
+    expect(rename.files).toEqual([{ path: 'moved.txt', oldPath: 'base.txt', status: 'renamed' }]);
+  });
+
+  it('should use a three-dot diff that excludes base-only changes', () => {
+    const comparison = getBranchComparison({ base: 'main' });
+    const paths = comparison.diff.files.map((f) => f.path);
+
+    expect(paths).toContain('feature.txt');
+    expect(paths).not.toContain('main-only.txt');
+  });
+
+  it('should respect maxCommits', () => {
+    const comparison = getBranchComparison({ base: 'main', maxCommits: 1 });
+    expect(comparison.commits).toHaveLength(1);
+    expect(comparison.commitsAhead).toBe(2);
+  });
+
+  it('should detect the base branch when none is given', () => {
+    const comparison = getBranchComparison();
+    expect(comparison.base).toBe('main');
+  });
+
+  it('should reject unknown refs', () => {
+    expect(() => getBranchComparison({ base: 'does-not-exist' })).toThrow(/Unknown git ref/);
+  });
+
+  it('should reject refs that look like flags or ranges', () => {
+    expect(() => getBranchComparison({ base: '--output=x' })).toThrow();
+    expect(() => getBranchComparison({ base: 'main..HEAD' })).toThrow();
+  });
+});
+
+describe('getMergeBase', () => {
+  it('should return the common ancestor', () => {
+    expect(getMergeBase('main', 'feature/compare')).toBe(git('merge-base', 'main', 'HEAD'));
+  });
+});
+
+describe('detectBaseBranch', () => {
+  it('should fall back to local main without an origin', () => {
+    expect(detectBaseBranch()).toBe('main');
+  });
+});
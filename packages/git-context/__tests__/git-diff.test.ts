@@ -4,8 +4,18 @@
  * @module git-diff.test
  */
 
-import { describe, expect, it } from 'vitest';
-import { getDiffFileCount, getDiffStats, getParsedDiff } from '../src/git-diff.js';
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, realpathSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  getDiffFileCount,
+  getDiffStats,
+  getParsedDiff,
+  getParsedDiffAsync,
+  parseDiffOutput,
+} from '../src/git-diff.js';
 
 describe('getParsedDiff', () => {
   describe('basic functionality', () => {
@@ -110,6 +120,124 @@ describe('getParsedDiff', () => {
   });
 });
 
+describe('parseDiffOutput', () => {
+  describe('renames and copies', () => {
+    it('should report rename source, target and similarity', () => {
+      const files = parseDiffOutput(
+        [
+          'diff --git a/src/old.ts b/src/new.ts',
+          'similarity index 87%',
+          'rename from src/old.ts',
+          'rename to src/new.ts',
+          'index 1111111..2222222 100644',
+          '--- a/src/old.ts',
+          '+++ b/src/new.ts',
+          '@@ -1 +1 @@',
+          '-a',
+          '+b',
+        ].join('\n')
+      );
+
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatchObject({
+        path: 'src/new.ts',
+        oldPath: 'src/old.ts',
+        status: 'renamed',
+        similarity: 87,
+        oldMode: '100644',
+        newMode: '100644',
+        additions: 1,
+        deletions: 1,
+      });
+    });
+
+    it('should keep pure renames without hunks', () => {
+      const files = parseDiffOutput(
+        [
+          'diff --git a/a.txt b/b.txt',
+          'similarity index 100%',
+          'rename from a.txt',
+          'rename to b.txt',
+          'diff --git a/c.txt b/c.txt',
+          'index 1111111..2222222 100644',
+          '--- a/c.txt',
+          '+++ b/c.txt',
+          '@@ -1 +1 @@',
+          '-x',
+          '+y',
+        ].join('\n')
+      );
+
+      expect(files.map((f) => f.path)).toEqual(['b.txt', 'c.txt']);
+      expect(files[0]).toMatchObject({ status: 'renamed', similarity: 100, hunks: [] });
+    });
+
+    it('should report copies', () => {
+      const files = parseDiffOutput(
+        [
+          'diff --git a/base.ts b/copy.ts',
+          'similarity index 95%',
+          'copy from base.ts',
+          'copy to copy.ts',
+        ].join('\n')
+      );
+
+      expect(files[0]).toMatchObject({
+        path: 'copy.ts',
+        oldPath: 'base.ts',
+        status: 'copied',
+        similarity: 95,
+      });
+    });
+  });
+
+  describe('modes and submodules', () => {
+    it('should report mode changes', () => {
+      const files = parseDiffOutput(
+        ['diff --git a/run.sh b/run.sh', 'old mode 100644', 'new mode 100755'].join('\n')
+      );
+
+      expect(files[0]).toMatchObject({
+        status: 'modified',
+        oldMode: '100644',
+        newMode: '100755',
+        hunks: [],
+      });
+    });
+
+    it('should record modes for added and deleted files', () => {
+      const files = parseDiffOutput(
+        [
+          'diff --git a/new.ts b/new.ts',
+          'new file mode 100644',
+          'diff --git a/gone.ts b/gone.ts',
+          'deleted file mode 100755',
+        ].join('\n')
+      );
+
+      expect(files[0]).toMatchObject({ status: 'added', oldMode: null, newMode: '100644' });
+      expect(files[1]).toMatchObject({ status: 'deleted', oldMode: '100755', newMode: null });
+    });
+
+    it('should flag submodule entries', () => {
+      const files = parseDiffOutput(
+        [
+          'diff --git a/vendor/lib b/vendor/lib',
+          'index 1111111..2222222 160000',
+          '--- a/vendor/lib',
+          '+++ b/vendor/lib',
+          '@@ -1 +1 @@',
+          '-Subproject commit 1111111111111111111111111111111111111111',
+          '+Subproject commit 2222222222222222222222222222222222222222',
+        ].join('\n')
+      );
+
+      expect(files[0].submodule).toBe(true);
+      expect(files[0].newMode).toBe('160000');
+    });
+  });
+});
+
 describe('getDiffStats', () => {
   describe('stats-only mode', () => {
     it('should return stats object', () => {
@@ -177,3 +305,63 @@ describe('getDiffFileCount', () => {
     });
   });
 });
+
+describe('unusual files in a fixture repository', () => {
+  let repo: string;
+
+  function git(...args: string[]): void {
+    execFileSync('git', args, { cwd: repo });
+  }
+
+  beforeAll(() => {
+    repo = realpathSync(mkdtempSync(join(tmpdir(), 'git-diff-files-')));
+    git('init', '-q', '-b', 'main');
+    git('config', 'user.name', 'Test');
+    git('config', 'user.email', 'test@example.com');
+    git('config', 'commit.gpgsign', 'false');
+    git('config', 'core.autocrlf', 'false');
+    writeFileSync(join(repo, 'my notes.txt'), 'a\r\nb\r\n');
+    writeFileSync(join(repo, 'café.txt'), 'old');
+    writeFileSync(join(repo, 'latin.txt'), Buffer.from([0x63, 0x61, 0x66, 0xe9, 0x0a]));
+    writeFileSync(join(repo, 'logo.bin'), Buffer.from([0, 1, 2]));
+    git('add', '-A');
+    git('commit', '-q', '-m', 'feat: init');
+
+    writeFileSync(join(repo, 'my notes.txt'), 'a\r\nc\r\n');
+    writeFileSync(join(repo, 'café.txt'), 'new');
+    writeFileSync(join(repo, 'latin.txt'), Buffer.from([0x63, 0x61, 0x66, 0xe8, 0x0a]));
+    writeFileSync(join(repo, 'logo.bin'), Buffer.from([0, 1, 2, 3, 4, 5, 6]));
+  });
+
+  afterAll(() => {
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('should parse quoted paths, CRLF, missing newlines and non-UTF-8 content', () => {
+    const files = new Map(getParsedDiff({ cwd: repo }).files.map((file) => [file.path, file]));
+
+    expect([...files.keys()].sort()).toEqual(['café.txt', 'latin.txt', 'logo.bin', 'my notes.txt']);
+    expect(files.get('my notes.txt')).toMatchObject({ crlf: true, additions: 1, deletions: 1 });
+    expect(files.get('café.txt')?.hunks[0]).toMatchObject({
+      lines: ['-old', '+new'],
+      oldMissingNewline: true,
+      newMissingNewline: true,
+    });
+    expect(files.get('latin.txt')).toMatchObject({ encoding: 'latin1' });
+    expect(files.get('latin.txt')?.hunks[0].lines).toEqual(['-café', '+cafè']);
+  });
+
+  it('should report binary size deltas from the object database and working tree', async () => {
+    const worktree = getParsedDiff({ cwd: repo }).files.find((file) => file.path === 'logo.bin');
+    expect(worktree?.binary).toMatchObject({ oldSize: 3, newSize: 7, sizeDelta: 4 });
+
+    git('add', 'logo.bin');
+    const staged = await getParsedDiffAsync({ cwd: repo, staged: true });
+    expect(staged.files[0].binary).toMatchObject({ oldSize: 3, newSize: 7, sizeDelta: 4 });
+    git('reset', '-q', 'logo.bin');
+  });
+
+  it('should count the same files in getDiffStats', () => {
+    expect(getDiffStats({ cwd: repo })).toEqual(getParsedDiff({ cwd: repo }).stats);
+  });
+});
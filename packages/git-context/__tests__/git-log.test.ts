@@ -4,8 +4,18 @@
  * @module git-log.test
  */
 
-import { describe, expect, it } from 'vitest';
-import { getCommitsSince, getLatestCommit, getRecentCommits } from '../src/git-log.js';
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, readFileSync, realpathSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  getCommitsSince,
+  getLatestCommit,
+  getRecentCommits,
+  parseCommitTrailers,
+  parseConventionalCommit,
+} from '../src/git-log.js';
 
 describe('getRecentCommits', () => {
   describe('basic functionality', () => {
@@ -243,3 +253,152 @@ describe('getCommitsSince', () => {
     });
   });
 });
+
+describe('parseConventionalCommit', () => {
+  it.each([
+    ['feat: add login', { type: 'feat', scope: null, breaking: false, description: 'add login' }],
+    [
+      'fix(auth)!: reject expired tokens',
+      { type: 'fix', scope: 'auth', breaking: true, description: 'reject expired tokens' },
+    ],
+    [
+      'chore(deps ): bump zod',
+      { type: 'chore', scope: 'deps', breaking: false, description: 'bump zod' },
+    ],
+  ])('should parse %j', (subject, expected) => {
+    expect(parseConventionalCommit(subject)).toEqual(expected);
+  });
+
+  it('should detect breaking change footers', () => {
+    expect(
+      parseConventionalCommit('refactor: rename', 'BREAKING CHANGE: API renamed')?.breaking
+    ).toBe(true);
+    expect(parseConventionalCommit('refactor: rename', 'BREAKING-CHANGE: yes')?.breaking).toBe(
+      true
+    );
+  });
+
+  it.each(['Update README', 'feat add login', 'feat(): ', 'Merge branch main'])(
+    'should return null for %j',
+    (subject) => {
+      expect(parseConventionalCommit(subject)).toBeNull();
+    }
+  );
+});
+
+describe('parseCommitTrailers', () => {
+  it('should read the final paragraph and unfold continuation lines', () => {
+    expect(
+      parseCommitTrailers(
+        'Why this changed.\n\nRefs: #12\nCo-authored-by: Ana <ana@example.com>\nNote: spans\n  two lines\n'
+      )
+    ).toEqual([
+      { key: 'Refs', value: '#12' },
+      { key: 'Co-authored-by', value: 'Ana <ana@example.com>' },
+      { key: 'Note', value: 'spans two lines' },
+    ]);
+  });
+
+  it('should ignore a final paragraph that is not all trailers', () => {
+    expect(parseCommitTrailers('Refs: #12\nThis is prose, not a trailer.')).toEqual([]);
+    expect(parseCommitTrailers('')).toEqual([]);
+  });
+});
+
+describe('commit metadata in a fixture repository', () => {
+  let repo: string;
+
+  function git(...args: string[]): string {
+    return execFileSync('git', args, { cwd: repo, encoding: 'utf-8' }).trim();
+  }
+
+  let commitCount = 0;
+  function commit(message: string, ...flags: string[]): void {
+    // A file per commit so the branches merge without conflicts
+    writeFileSync(join(repo, `${++commitCount}.txt`), `${message}\n`);
+    git('add', '-A');
+    git('commit', '-q', ...flags, '-m', message);
+  }
+
+  beforeAll(() => {
+    repo = realpathSync(mkdtempSync(join(tmpdir(), 'git-log-meta-')));
+    git('init', '-q', '-b', 'main');
+    git('config', 'user.name', 'Test');
+    git('config', 'user.email', 'test@example.com');
+    git('config', 'commit.gpgsign', 'false');
+
+    // SSH signing key trusted through an allowed signers file (kept in .git,
+    // out of the commits)
+    const key = join(repo, '.git', 'signing-key');
+    execFileSync('ssh-keygen', ['-q', '-t', 'ed25519', '-N', '', '-f', key]);
+    const publicKey = readFileSync(`${key}.pub`, 'utf-8').trim();
+    writeFileSync(join(repo, '.git', 'allowed-signers'), `test@example.com ${publicKey}\n`);
+    git('config', 'gpg.format', 'ssh');
+    git('config', 'user.signingkey', key);
+    git('config', 'gpg.ssh.allowedSignersFile', join(repo, '.git', 'allowed-signers'));
+
+    commit('chore: init');
+    git('checkout', '-q', '-b', 'feature');
+    commit(
+      [
+        'feat(api)!: remove v1 endpoints',
+        '',
+        'Clients must move to v2.',
+        '',
+        'Refs: #42',
+        'Co-authored-by: Ana Lima <ana@example.com>',
+        'Co-authored-by: Bo <bo@example.com>',
+        'AI-Assisted: partial',
+      ].join('\n'),
+      '-S'
+    );
+    git('checkout', '-q', 'main');
+    commit('docs: changelog');
+    git('merge', '-q', '--no-ff', '-m', 'Merge branch feature', 'feature');
+  });
+
+  afterAll(() => {
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('should identify merges by their parents', () => {
+    const [merge, docs] = getRecentCommits({ cwd: repo, limit: 2 });
+
+    expect(merge).toMatchObject({ isMerge: true, conventional: null });
+    expect(merge.parents).toEqual([docs.hash, git('rev-parse', 'feature')]);
+    expect(docs).toMatchObject({ isMerge: false, parents: [git('rev-parse', 'main~2')] });
+  });
+
+  it('should parse conventional headers, trailers and co-authors', () => {
+    const feature = getRecentCommits({ cwd: repo, branch: 'feature', limit: 1 })[0];
+
+    expect(feature.conventional).toEqual({
+      type: 'feat',
+      scope: 'api',
+      breaking: true,
+      description: 'remove v1 endpoints',
+    });
+    expect(feature.trailers.map((t) => t.key)).toEqual([
+      'Refs',
+      'Co-authored-by',
+      'Co-authored-by',
+      'AI-Assisted',
+    ]);
+    expect(feature.coAuthors).toEqual([
+      { name: 'Ana Lima', email: 'ana@example.com' },
+      { name: 'Bo', email: 'bo@example.com' },
+    ]);
+    expect(feature.refs).toEqual(['#42']);
+    expect(feature.aiAssisted).toBe('partial');
+  });
+
+  it('should report signature status', () => {
+    const [feature] = getRecentCommits({ cwd: repo, branch: 'feature', limit: 1 });
+    const [root] = getRecentCommits({ cwd: repo, branch: 'main~2', limit: 1 });
+
+    expect(feature.signature.status).toBe('good');
+    expect(feature.signature.signer).toBe('test@example.com');
+    expect(feature.signature.key).toMatch(/^SHA256:/);
+    expect(root.signature).toEqual({ status: 'unsigned', signer: null, key: null });
+  });
+});
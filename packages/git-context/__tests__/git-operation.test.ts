@@ -0,0 +1,206 @@
+/**
+ * Tests for in-progress operation detection (merge, rebase, cherry-pick,
+ * bisect, detached HEAD). Runs against a throwaway fixture repository.
+ *
+ * @module git-operation.test
+ */
+
+import { execFileSync, spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import {
+  getOperationState,
+  getOperationStateAsync,
+  parseUnmergedOutput,
+} from '../src/git-operation.js';
+
+const originalCwd = process.cwd();
+let repo: string;
+
+function git(...args: string[]): string {
+  return execFileSync('git', args, { cwd: repo, encoding: 'utf-8' }).trim();
+}
+
+/**
+ * Runs a git command that is expected to stop on a conflict (non-zero exit).
+ */
+function gitConflict(...args: string[]): void {
+  spawnSync('git', args, { cwd: repo, encoding: 'utf-8' });
+}
+
+function commitFile(file: string, content: string, message: string): void {
+  writeFileSync(join(repo, file), content);
+  git('add', '-A');
+  git('commit', '-q', '-m', message);
+}
+
+beforeAll(() => {
+  repo = mkdtempSync(join(tmpdir(), 'git-operation-'));
+  git('init', '-q', '-b', 'main');
+  git('config', 'user.name', 'Test');
+  git('config', 'user.email', 'test@example.com');
+  git('config', 'commit.gpgsign', 'false');
+
+  commitFile('shared.txt', 'base\n', 'chore: initial commit');
+  commitFile('removed.txt', 'keep\n', 'chore: add file removed on feature');
+
+  git('checkout', '-q', '-b', 'feature');
+  commitFile('shared.txt', 'feature\n', 'feat: change shared file');
+  git('rm', '-q', 'removed.txt');
+  git('commit', '-q', '-m', 'feat: remove file');
+  commitFile('feature-only.txt', 'feature\n', 'feat: add feature-only file');
+
+  git('checkout', '-q', 'main');
+  commitFile('shared.txt', 'main\n', 'fix: change shared file on main');
+  commitFile('removed.txt', 'changed on main\n', 'fix: change file removed on feature');
+
+  process.chdir(repo);
+});
+
+afterEach(() => {
+  // Leave the fixture clean for the next test
+  gitConflict('merge', '--abort');
+  gitConflict('rebase', '--abort');
+  gitConflict('cherry-pick', '--abort');
+  gitConflict('bisect', 'reset');
+  git('checkout', '-q', '-f', 'main');
+});
+
+afterAll(() => {
+  process.chdir(originalCwd);
+  rmSync(repo, { recursive: true, force: true });
+});
+
+describe('getOperationState', () => {
+  it('should report no operation on a clean branch', () => {
+    const state = getOperationState();
+
+    expect(state.operation).toBeNull();
+    expect(state.operations).toEqual([]);
+    expect(state.incomingCommit).toBeNull();
+    expect(state.rebase).toBeNull();
+    expect(state.conflicts).toEqual([]);
+    expect(state.head).toEqual({
+      detached: false,
+      commit: git('rev-parse', 'HEAD'),
+      refs: [],
+    });
+  });
+
+  it('should detect a merge with conflicts and stage info', () => {
+    gitConflict('merge', 'feature');
+
+    const state = getOperationState();
+
+    expect(state.operation).toBe('merge');
+    expect(state.incomingCommit).toBe(git('rev-parse', 'feature'));
+
+    const byPath = new Map(state.conflicts.map((conflict) => [conflict.path, conflict]));
+    expect(byPath.get('shared.txt')).toEqual({
+      path: 'shared.txt',
+      type: 'both-modified',
+      base: git('rev-parse', 'main~2:shared.txt'),
+      ours: git('rev-parse', 'main:shared.txt'),
+      theirs: git('rev-parse', 'feature:shared.txt'),
+    });
+    expect(byPath.get('removed.txt')).toMatchObject({
+      type: 'deleted-by-them',
+      theirs: null,
+    });
+  });
+
+  it('should detect a rebase with its step counter', () => {
+    git('checkout', '-q', 'feature');
+    gitConflict('rebase', 'main');
+
+    const state = getOperationState();
+
+    expect(state.operation).toBe('rebase');
+    expect(state.rebase).toEqual({
+      step: 1,
+      totalSteps: 3,
+      branch: 'feature',
+      onto: git('rev-parse', 'main'),
+    });
+    expect(state.head.detached).toBe(true);
+    expect(state.conflicts.map((conflict) => conflict.path)).toEqual(['shared.txt']);
+  });
+
+  it('should detect a cherry-pick', () => {
+    const commit = git('rev-parse', 'feature~2');
+    gitConflict('cherry-pick', commit);
+
+    const state = getOperationState();
+
+    expect(state.operation).toBe('cherry-pick');
+    expect(state.incomingCommit).toBe(commit);
+  });
+
+  it('should detect bisect and a detached HEAD', () => {
+    git('bisect', 'start', 'main', 'main~2');
+
+    const state = getOperationState();
+
+    expect(state.operation).toBe('bisect');
+    expect(state.head.detached).toBe(true);
+    expect(state.head.commit).toBe(git('rev-parse', 'HEAD'));
+  });
+
+  it('should list refs pointing at a detached HEAD', () => {
+    git('checkout', '-q', '--detach', 'feature');
+
+    const state = getOperationState();
+
+    expect(state.operation).toBeNull();
+    expect(state.head.detached).toBe(true);
+    expect(state.head.refs).toEqual(['feature']);
+  });
+});
+
+describe('getOperationStateAsync', () => {
+  it('should match the synchronous result', async () => {
+    git('checkout', '-q', 'feature');
+    gitConflict('rebase', 'main');
+
+    expect(await getOperationStateAsync()).toEqual(getOperationState());
+  });
+});
+
+describe('parseUnmergedOutput', () => {
+  it('should map stage sets to conflict types', () => {
+    const output = [
+      '100644 aaa111 1\tboth.txt',
+      '100644 bbb222 2\tboth.txt',
+      '100644 ccc333 3\tboth.txt',
+      '100644 ddd444 2\tadded.txt',
+      '100644 eee555 3\tadded.txt',
+      '100644 fff666 1\tdeleted-by-us.txt',
+      '100644 abc777 3\tdeleted-by-us.txt',
+      '',
+    ].join('\0');
+
+    expect(parseUnmergedOutput(output)).toEqual([
+      { path: 'both.txt', type: 'both-modified', base: 'aaa111', ours: 'bbb222', theirs: 'ccc333' },
+      { path: 'added.txt', type: 'both-added', base: null, ours: 'ddd444', theirs: 'eee555' },
+      {
+        path: 'deleted-by-us.txt',
+        type: 'deleted-by-us',
+        base: 'fff666',
+        ours: null,
+        theirs: 'abc777',
+      },
+    ]);
+  });
+
+  it('should keep paths containing tabs and newlines', () => {
+    expect(parseUnmergedOutput('100644 abc123 2\tweird\tname\n.txt\0')).toEqual([
+      { path: 'weird\tname\n.txt', type: 'added-by-us', base: null, ours: 'abc123', theirs: null },
+    ]);
+  });
+
+  it('should return an empty list for empty output', () => {
+    expect(parseUnmergedOutput('')).toEqual([]);
+  });
+});
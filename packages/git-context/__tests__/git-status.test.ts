@@ -10,8 +10,19 @@ import {
   getChangedFilesFromStatus,
   getGitStatus,
   isWorkingDirectoryClean,
+  parseStatusOutput,
 } from '../src/git-status.js';
 
+const OID_A = 'a'.repeat(40);
+const OID_B = 'b'.repeat(40);
+const OID_C = 'c'.repeat(40);
+const NULL = '0'.repeat(40);
+
+/** Joins porcelain v2 records the way `git status -z` does */
+function porcelainV2(...records: string[]): string {
+  return `${records.join('\0')}\0`;
+}
+
 describe('getGitStatus', () => {
   describe('basic functionality', () => {
     it('should return status object with all fields', () => {
@@ -61,7 +72,167 @@ describe('getGitStatus', () => {
   });
 });
 
+describe('parseStatusOutput', () => {
+  describe('ordinary changes', () => {
+    it('should split index and working tree changes', () => {
+      const status = parseStatusOutput(
+        porcelainV2(
+          `1 M. N... 100644 100644 100644 ${OID_A} ${OID_B} src/staged.ts`,
+          `1 .M N... 100644 100644 100644 ${OID_A} ${OID_A} src/modified.ts`,
+          `1 .D N... 100644 100644 000000 ${OID_A} ${OID_A} src/deleted.ts`,
+          `1 D. N... 100644 000000 000000 ${OID_A} ${NULL} src/staged-delete.ts`
+        )
+      );
+
+      expect(status.staged).toEqual(['src/staged.ts', 'src/staged-delete.ts']);
+      expect(status.modified).toEqual(['src/modified.ts']);
+      expect(status.deleted).toEqual(['src/deleted.ts']);
+      expect(status.entries[0]).toMatchObject({ index: 'modified', workTree: 'unmodified' });
+    });
+
+    it('should keep paths containing spaces intact', () => {
+      const status = parseStatusOutput(
+        porcelainV2(
+          `1 .M N... 100644 100644 100644 ${OID_A} ${OID_A} docs/my notes.md`,
+          '? a b.txt'
+        )
+      );
+
+      expect(status.modified).toEqual(['docs/my notes.md']);
+      expect(status.untracked).toEqual(['a b.txt']);
+    });
+
+    it('should report mode transitions', () => {
+      const status = parseStatusOutput(
+        porcelainV2(`1 .M N... 100644 100644 100755 ${OID_A} ${OID_A} bin/run.sh`)
+      );
+
+      expect(status.entries[0].modes).toEqual({
+        head: '100644',
+        index: '100644',
+        workTree: '100755',
+      });
+    });
+
+    it('should ignore headers and ignored files', () => {
+      const status = parseStatusOutput(porcelainV2('# branch.oid abc', '! build/out.js'));
+      expect(status.entries).toEqual([]);
+    });
+  });
+
+  describe('renames and copies', () => {
+    it('should report rename source, target and similarity', () => {
+      const status = parseStatusOutput(
+        porcelainV2(
+          `2 R. N... 100644 100644 100644 ${OID_A} ${OID_A} R087 src/new name.ts`,
+          'src/old name.ts'
+        )
+      );
+
+      expect(status.staged).toEqual(['src/new name.ts']);
+      expect(status.deleted).toEqual([]);
+      expect(status.renamed).toEqual([
+        { from: 'src/old name.ts', to: 'src/new name.ts', similarity: 87, kind: 'renamed' },
+      ]);
+      expect(status.entries[0]).toMatchObject({
+        originalPath: 'src/old name.ts',
+        similarity: 87,
+        index: 'renamed',
+      });
+    });
+
+    it('should report copies and keep parsing following records', () => {
+      const status = parseStatusOutput(
+        porcelainV2(
+          `2 C. N... 100644 100644 100644 ${OID_A} ${OID_A} C100 copy.ts`,
+          'original.ts',
+          '? notes.txt'
+        )
+      );
+
+      expect(status.renamed).toEqual([
+        { from: 'original.ts', to: 'copy.ts', similarity: 100, kind: 'copied' },
+      ]);
+      expect(status.untracked).toEqual(['notes.txt']);
+    });
+  });
+
+  describe('conflicts', () => {
+    it('should report unmerged files with stage object ids', () => {
+      const status = parseStatusOutput(
+        porcelainV2(
+          `u UU N... 100644 100644 100644 100644 ${OID_A} ${OID_B} ${OID_C} src/conflict.ts`,
+          `u AA N... 000000 100644 100644 100644 ${NULL} ${OID_B} ${OID_C} src/both-added.ts`
+        )
+      );
+
+      expect(status.conflicted).toEqual(['src/conflict.ts', 'src/both-added.ts']);
+      expect(status.staged).toEqual([]);
+      expect(status.modified).toEqual([]);
+      expect(status.entries[0].conflict).toEqual({
+        type: 'both-modified',
+        base: OID_A,
+        ours: OID_B,
+        theirs: OID_C,
+      });
+      expect(status.entries[1].conflict).toMatchObject({ type: 'both-added', base: null });
+    });
+  });
+
+  describe('submodules', () => {
+    it('should report submodule state', () => {
+      const status = parseStatusOutput(
+        porcelainV2(`1 .M SCMU 160000 160000 160000 ${OID_A} ${OID_A} vendor/lib`)
+      );
+
+      expect(status.modified).toEqual(['vendor/lib']);
+      expect(status.entries[0].submodule).toEqual({
+        commitChanged: true,
+        hasTrackedChanges: true,
+        hasUntrackedChanges: true,
+      });
+    });
+
+    it('should report null submodule state for regular files', () => {
+      const status = parseStatusOutput(
+        porcelainV2(`1 .M N... 100644 100644 100644 ${OID_A} ${OID_A} file.ts`)
+      );
+      expect(status.entries[0].submodule).toBeNull();
+    });
+  });
+
+  it('should return empty lists for empty output', () => {
+    expect(parseStatusOutput('')).toEqual({
+      staged: [],
+      modified: [],
+      untracked: [],
+      deleted: [],
+      renamed: [],
+      conflicted: [],
+      entries: [],
+    });
+  });
+});
+
 describe('getChangedFilesFromStatus', () => {
+  describe('renames and conflicts', () => {
+    it('should label staged renames and conflicts', () => {
+      const files = getChangedFilesFromStatus({
+        staged: ['new.ts'],
+        modified: [],
+        untracked: [],
+        deleted: [],
+        renamed: [{ from: 'old.ts', to: 'new.ts', similarity: 100, kind: 'renamed' }],
+        conflicted: ['merge.ts'],
+      });
+
+      expect(files).toEqual([
+        { path: 'new.ts', status: 'renamed', oldPath: 'old.ts' },
+        { path: 'merge.ts', status: 'conflicted' },
+      ]);
+    });
+  });
+
   describe('file aggregation', () => {
     it('should aggregate all changed files with correct status', () => {
       const status = {
@@ -162,7 +333,9 @@ describe('getChangedFiles', () => {
         expect(file).toHaveProperty('path');
         expect(file).toHaveProperty('status');
         expect(typeof file.path).toBe('string');
-        expect(['staged', 'modified', 'untracked', 'deleted']).toContain(file.status);
+        expect(['staged', 'modified', 'untracked', 'deleted', 'renamed', 'conflicted']).toContain(
+          file.status
+        );
       });
     });
 
@@ -201,7 +374,10 @@ describe('isWorkingDirectoryClean', () => {
       const isClean = isWorkingDirectoryClean();
 
       const expectedClean =
-        status.staged.length === 0 && status.modified.length === 0 && status.deleted.length === 0;
+        status.staged.length === 0 &&
+        status.modified.length === 0 &&
+        status.deleted.length === 0 &&
+        status.conflicted.length === 0;
 
       expect(isClean).toBe(expectedClean);
     });
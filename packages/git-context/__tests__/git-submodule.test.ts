@@ -0,0 +1,137 @@
+/**
+ * Tests for submodule enumeration.
+ * Runs against a throwaway superproject with local submodules.
+ *
+ * @module git-submodule.test
+ */
+
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, realpathSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { getRepositoryInfo } from '../src/git-repository.js';
+import { getSubmodules, getSubmodulesAsync } from '../src/git-submodule.js';
+
+let base: string;
+let repo: string;
+let libFirst: string;
+let libSecond: string;
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', ['-c', 'protocol.file.allow=always', ...args], {
+    cwd,
+    encoding: 'utf-8',
+  }).trim();
+}
+
+function initRepo(dir: string): void {
+  git(base, 'init', '-q', '-b', 'main', dir);
+  git(dir, 'config', 'user.name', 'Test');
+  git(dir, 'config', 'user.email', 'test@example.com');
+  git(dir, 'config', 'commit.gpgsign', 'false');
+}
+
+function commitFile(dir: string, file: string, content: string, message: string): string {
+  writeFileSync(join(dir, file), content);
+  git(dir, 'add', '-A');
+  git(dir, 'commit', '-q', '-m', message);
+  return git(dir, 'rev-parse', 'HEAD');
+}
+
+beforeAll(() => {
+  base = realpathSync(mkdtempSync(join(tmpdir(), 'git-submodule-')));
+  const lib = join(base, 'lib');
+  repo = join(base, 'app');
+
+  initRepo(lib);
+  libFirst = commitFile(lib, 'index.ts', 'export const v = 1;\n', 'feat: v1');
+  libSecond = commitFile(lib, 'index.ts', 'export const v = 2;\n', 'feat: v2');
+
+  initRepo(repo);
+  commitFile(repo, 'README.md', '# app\n', 'chore: init');
+  git(repo, 'submodule', 'add', '-q', lib, 'vendor/lib');
+  git(repo, 'submodule', 'add', '-q', lib, 'vendor/lazy');
+  git(repo, 'commit', '-q', '-m', 'chore: add submodules');
+
+  // Leave vendor/lazy registered but not checked out
+  git(repo, 'submodule', 'deinit', '-q', 'vendor/lazy');
+});
+
+afterEach(() => {
+  const lib = join(repo, 'vendor/lib');
+  git(lib, 'checkout', '-q', libSecond);
+  git(lib, 'reset', '-q', '--hard');
+  git(lib, 'clean', '-qfd');
+});
+
+afterAll(() => {
+  rmSync(base, { recursive: true, force: true });
+});
+
+describe('getSubmodules', () => {
+  it('should list submodules with their recorded and checked-out commits', () => {
+    expect(getSubmodules({ cwd: repo })).toEqual([
+      {
+        path: 'vendor/lazy',
+        recordedCommit: libSecond,
+        commit: null,
+        initialized: false,
+        commitChanged: false,
+        hasTrackedChanges: false,
+        hasUntrackedChanges: false,
+      },
+      {
+        path: 'vendor/lib',
+        recordedCommit: libSecond,
+        commit: libSecond,
+        initialized: true,
+        commitChanged: false,
+        hasTrackedChanges: false,
+        hasUntrackedChanges: false,
+      },
+    ]);
+  });
+
+  it('should report a checked-out commit that differs from the recorded one', () => {
+    git(join(repo, 'vendor/lib'), 'checkout', '-q', libFirst);
+
+    const lib = getSubmodules({ cwd: repo }).find((s) => s.path === 'vendor/lib');
+    expect(lib).toMatchObject({ recordedCommit: libSecond, commit: libFirst, commitChanged: true });
+  });
+
+  it('should report tracked and untracked changes inside a submodule', () => {
+    writeFileSync(join(repo, 'vendor/lib/index.ts'), 'export const v = 3;\n');
+    writeFileSync(join(repo, 'vendor/lib/notes.txt'), 'todo\n');
+
+    const lib = getSubmodules({ cwd: repo }).find((s) => s.path === 'vendor/lib');
+    expect(lib).toMatchObject({
+      commitChanged: false,
+      hasTrackedChanges: true,
+      hasUntrackedChanges: true,
+    });
+  });
+
+  it('should resolve paths from the superproject root when cwd is a subdirectory', () => {
+    expect(getSubmodules({ cwd: join(repo, 'vendor') }).map((s) => s.path)).toEqual([
+      'vendor/lazy',
+      'vendor/lib',
+    ]);
+  });
+
+  it('should match the async sibling', async () => {
+    writeFileSync(join(repo, 'vendor/lib/notes.txt'), 'todo\n');
+    expect(await getSubmodulesAsync({ cwd: repo })).toEqual(getSubmodules({ cwd: repo }));
+  });
+
+  it('should return an empty array without .gitmodules', () => {
+    expect(getSubmodules({ cwd: join(repo, 'vendor/lib') })).toEqual([]);
+  });
+
+  it('should be included in getRepositoryInfo', () => {
+    expect(getRepositoryInfo({ cwd: repo }).submodules.map((s) => s.path)).toEqual([
+      'vendor/lazy',
+      'vendor/lib',
+    ]);
+  });
+});
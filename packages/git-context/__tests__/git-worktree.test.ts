@@ -0,0 +1,228 @@
+/**
+ * Tests for worktree enumeration and explicit-cwd context building.
+ * Runs against throwaway fixture repositories without changing process.cwd().
+ *
+ * @module git-worktree.test
+ */
+
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, realpathSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { getCurrentBranch } from '../src/git-branch.js';
+import { getRepositoryInfo, getRepositoryInfoAsync } from '../src/git-repository.js';
+import {
+  getWorktrees,
+  getWorktreesAsync,
+  isLinkedWorktree,
+  isLinkedWorktreeAsync,
+  parseWorktreeOutput,
+} from '../src/git-worktree.js';
+import { getGitContext, getGitContextAsync } from '../src/index.js';
+
+let base: string;
+let main: string;
+let linked: string;
+let detached: string;
+let other: string;
+let head: string;
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim();
+}
+
+function initRepo(dir: string, branch: string): void {
+  git(base, 'init', '-q', '-b', branch, dir);
+  git(dir, 'config', 'user.name', 'Test');
+  git(dir, 'config', 'user.email', 'test@example.com');
+  git(dir, 'config', 'commit.gpgsign', 'false');
+  writeFileSync(join(dir, 'README.md'), `# ${branch}\n`);
+  git(dir, 'add', '-A');
+  git(dir, 'commit', '-q', '-m', `feat: init ${branch}`);
+}
+
+beforeAll(() => {
+  base = realpathSync(mkdtempSync(join(tmpdir(), 'git-worktree-')));
+  main = join(base, 'app');
+  linked = join(base, 'app-feature');
+  detached = join(base, 'app-review');
+  other = join(base, 'other');
+
+  initRepo(main, 'main');
+  head = git(main, 'rev-parse', 'HEAD');
+  git(main, 'worktree', 'add', '-q', '-b', 'feature/login', linked);
+  git(main, 'worktree', 'add', '-q', '--detach', detached);
+  git(main, 'worktree', 'lock', '--reason', 'agent session', detached);
+
+  initRepo(other, 'trunk');
+});
+
+afterAll(() => {
+  rmSync(base, { recursive: true, force: true });
+});
+
+describe('getWorktrees', () => {
+  it('should list the main worktree first, then linked worktrees', () => {
+    const worktrees = getWorktrees({ cwd: main });
+
+    expect(worktrees.map((w) => [w.path, w.isMain])).toEqual([
+      [main, true],
+      [linked, false],
+      [detached, false],
+    ]);
+  });
+
+  it('should report branch, detached HEAD and lock state', () => {
+    const [mainWorktree, linkedWorktree, detachedWorktree] = getWorktrees({ cwd: main });
+
+    expect(mainWorktree).toMatchObject({ head, branch: 'main', detached: false, locked: false });
+    expect(linkedWorktree).toMatchObject({ head, branch: 'feature/login', detached: false });
+    expect(detachedWorktree).toMatchObject({
+      head,
+      branch: null,
+      detached: true,
+      locked: true,
+      lockReason: 'agent session',
+    });
+  });
+
+  it('should mark the worktree that cwd is in as current', () => {
+    expect(
+      getWorktrees({ cwd: linked })
+        .filter((w) => w.isCurrent)
+        .map((w) => w.path)
+    ).toEqual([linked]);
+    expect(getWorktrees({ cwd: main }).find((w) => w.isCurrent)?.path).toBe(main);
+  });
+
+  it('should match the async sibling', async () => {
+    expect(await getWorktreesAsync({ cwd: linked })).toEqual(getWorktrees({ cwd: linked }));
+  });
+});
+
+describe('isLinkedWorktree', () => {
+  it('should tell linked worktrees from the main worktree', async () => {
+    expect(isLinkedWorktree({ cwd: main })).toBe(false);
+    expect(isLinkedWorktree({ cwd: linked })).toBe(true);
+    expect(await isLinkedWorktreeAsync({ cwd: detached })).toBe(true);
+  });
+
+  it('should throw outside a git repository', () => {
+    expect(() => isLinkedWorktree({ cwd: tmpdir() })).toThrow();
+  });
+});
+
+describe('getRepositoryInfo worktree fields', () => {
+  it('should point a linked worktree at its main worktree', () => {
+    const info = getRepositoryInfo({ cwd: linked });
+
+    expect(info.root).toBe(linked);
+    expect(info.isLinkedWorktree).toBe(true);
+    expect(info.mainWorktreeRoot).toBe(main);
+    expect(info.worktrees).toHaveLength(3);
+    expect(info.submodules).toEqual([]);
+  });
+
+  it('should report the main worktree as its own main worktree', async () => {
+    const info = await getRepositoryInfoAsync({ cwd: main });
+
+    expect(info).toMatchObject({ root: main, isLinkedWorktree: false, mainWorktreeRoot: main });
+    expect(info).toEqual(getRepositoryInfo({ cwd: main }));
+  });
+});
+
+describe('explicit cwd', () => {
+  it('should build context for several repositories from one process', () => {
+    const app = getGitContext({ cwd: linked, sanitizeForAI: false });
+    const otherRepo = getGitContext({ cwd: other, sanitizeForAI: false });
+
+    expect(app.repository.root).toBe(linked);
+    expect(app.branch.current).toBe('feature/login');
+    expect(otherRepo.repository.root).toBe(other);
+    expect(otherRepo.branch.current).toBe('trunk');
+    expect(otherRepo.recentCommits[0].subject).toBe('feat: init trunk');
+    // process.cwd() is untouched
+    expect(process.cwd()).not.toBe(other);
+  });
+
+  it('should build async context for another repository', async () => {
+    const context = await getGitContextAsync({ cwd: other, sanitizeForAI: false });
+
+    expect(context.errors).toEqual({});
+    expect(context.repository?.root).toBe(other);
+    expect(context.branch?.current).toBe('trunk');
+  });
+
+  it('should apply cwd to sync helpers', () => {
+    expect(getCurrentBranch({ cwd: detached }).current).toBe('HEAD');
+  });
+
+  it('should reject an empty cwd', () => {
+    expect(() => getGitContext({ cwd: '' })).toThrow();
+  });
+});
+
+describe('parseWorktreeOutput', () => {
+  it('should parse bare, unborn and prunable entries', () => {
+    const output = [
+      'worktree /repos/app.git',
+      'bare',
+      '',
+      'worktree /repos/new',
+      `HEAD ${'0'.repeat(40)}`,
+      'branch refs/heads/new',
+      '',
+      'worktree /repos/gone',
+      `HEAD ${'a'.repeat(40)}`,
+      'detached',
+      'locked',
+      'prunable gitdir file points to non-existent location',
+      '',
+      '',
+    ].join('\0');
+
+    expect(parseWorktreeOutput(output, '/repos/new')).toEqual([
+      {
+        path: '/repos/app.git',
+        head: null,
+        branch: null,
+        detached: false,
+        bare: true,
+        isMain: true,
+        isCurrent: false,
+        locked: false,
+        lockReason: null,
+        prunable: false,
+      },
+      {
+        path: '/repos/new',
+        head: null,
+        branch: 'new',
+        detached: false,
+        bare: false,
+        isMain: false,
+        isCurrent: true,
+        locked: false,
+        lockReason: null,
+        prunable: false,
+      },
+      {
+        path: '/repos/gone',
+        head: 'a'.repeat(40),
+        branch: null,
+        detached: true,
+        bare: false,
+        isMain: false,
+        isCurrent: false,
+        locked: true,
+        lockReason: null,
+        prunable: true,
+      },
+    ]);
+  });
+
+  it('should return an empty array for empty output', () => {
+    expect(parseWorktreeOutput('', null)).toEqual([]);
+  });
+});
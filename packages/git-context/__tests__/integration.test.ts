@@ -3,7 +3,7 @@
  */
 
 import { describe, expect, it } from 'vitest';
-import { findGitRoot, getGitContext, isInsideGitRepo } from '../src/index.js';
+import { findGitRoot, getGitContext, getGitContextAsync, isInsideGitRepo } from '../src/index.js';
 
 describe('git-context integration', () => {
   it('should detect git repository', () => {
@@ -91,3 +91,57 @@ describe('git-context integration', () => {
     expect(context.repository.root).toBeTruthy();
   });
 });
+
+describe('git-context async integration', () => {
+  it('should extract the same sections as getGitContext', async () => {
+    const context = await getGitContextAsync({ sanitizeForAI: false });
+    const syncContext = getGitContext({ sanitizeForAI: false });
+
+    expect(context.errors).toEqual({});
+    expect(context.repository).toEqual(syncContext.repository);
+    expect(context.branch).toEqual(syncContext.branch);
+    expect(context.status).toEqual(syncContext.status);
+    expect(context.recentCommits?.map((c) => c.hash)).toEqual(
+      syncContext.recentCommits.map((c) => c.hash)
+    );
+    expect(context.diff?.stats).toEqual(syncContext.diff.stats);
+    expect(context.changedFiles).toEqual(syncContext.changedFiles);
+  });
+
+  it('should respect maxCommits option', async () => {
+    const context = await getGitContextAsync({ maxCommits: 2 });
+    expect(context.recentCommits?.length).toBeLessThanOrEqual(2);
+  });
+
+  it('should mark every section as aborted when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const context = await getGitContextAsync({ signal: controller.signal });
+
+    expect(context.repository).toBeNull();
+    expect(context.diff).toBeNull();
+    expect(context.changedFiles).toEqual([]);
+    expect(Object.keys(context.errors).sort()).toEqual([
+      'branch',
+      'diff',
+      'operationState',
+      'recentCommits',
+      'repository',
+      'status',
+    ]);
+    expect(context.errors.status?.reason).toBe('aborted');
+  });
+
+  it('should report timed-out sections instead of throwing', async () => {
+    const context = await getGitContextAsync({ timeoutMs: 1 });
+
+    for (const error of Object.values(context.errors)) {
+      expect(error?.reason).toBe('timeout');
+    }
+  });
+
+  it('should validate options', async () => {
+    await expect(getGitContextAsync({ timeoutMs: -1 })).rejects.toThrow();
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Security-critical tests for diff secret scanning.
+ *
+ * Fake secrets are assembled at runtime so this file does not trip the
+ * gitleaks pre-commit hook.
+ *
+ * @module secret-scan.test
+ */
+
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import {
+  detectSecrets,
+  redactDiffSecrets,
+  SECRET_ALLOWLIST,
+  SECRET_REDACTION,
+  SECRET_RULES,
+} from '../src/secret-scan.js';
+import type { DiffFile, ParsedDiff } from '../src/types.js';
+
+const fake = {
+  stripeLive: ['sk', 'live', '4eC39HqLyjWDarjtT1zdp7dc'].join('_'),
+  stripeTest: ['sk', 'test', '4eC39HqLyjWDarjtT1zdp7dc'].join('_'),
+  jwt: [
+    'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9',
+    'eyJyb2xlIjoic2VydmljZV9yb2xlIn0',
+    'c2lnbmF0dXJlMTIzNDU2',
+  ].join('.'),
+  supabaseDemoJwt: [
+    'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9',
+    'eyJpc3MiOiJzdXBhYmFzZS1kZW1vIiwicm9sZSI6ImFub24iLCJleHAiOjE5ODM4MTI5OTZ9',
+    'CRXP1A7WOeoJeXxjNni43kdQwgnWNReilDMblYTn_I0',
+  ].join('.'),
+  sentryDsn: `https://${'0123456789abcdef'.repeat(2)}@o123456.ingest.sentry.io/4505`,
+  aws: ['AKIA', 'IOSFODNN7Q4XB2ZD'].join(''),
+  github: ['ghp', 'a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8'].join('_'),
+  anthropic: `sk-ant-api03-${'aB3_dE6-gH9'.repeat(8)}xyz1234`,
+  databaseUrl: ['postgres://', 'app:', 's3cr3tPassw0rd', '@db.example.com:5432/app'].join(''),
+  privateKeyBegin: ['-----BEGIN', 'RSA PRIVATE KEY-----'].join(' '),
+  privateKeyEnd: ['-----END', 'RSA PRIVATE KEY-----'].join(' '),
+};
+
+function makeDiff(path: string, lines: string[], oldStart = 1, newStart = 1): ParsedDiff {
+  const file: DiffFile = {
+    path,
+    oldPath: null,
+    status: 'modified',
+    similarity: null,
+    oldMode: null,
+    newMode: null,
+    submodule: false,
+    binary: null,
+    crlf: false,
+    encoding: 'utf-8',
+    additions: lines.filter((l) => l.startsWith('+')).length,
+    deletions: lines.filter((l) => l.startsWith('-')).length,
+    hunks: [
+      {
+        oldStart,
+        oldLines: 0,
+        newStart,
+        newLines: 0,
+        lines,
+        oldMissingNewline: false,
+        newMissingNewline: false,
+      },
+    ],
+  };
+  return {
+    files: [file],
+    stats: { filesChanged: 1, additions: file.additions, deletions: file.deletions },
+  };
+}
+
+describe('detectSecrets', () => {
+  it.each([
+    ['stripe-access-token', `STRIPE_SECRET_KEY=${fake.stripeLive}`],
+    ['supabase-service-key', `SUPABASE_SERVICE_ROLE_KEY=${fake.jwt}`],
+    ['sentry-dsn', `SENTRY_DSN=${fake.sentryDsn}`],
+    ['aws-access-token', `aws_access_key_id = ${fake.aws}`],
+    ['github-token', `token: ${fake.github}`],
+    ['anthropic-api-key', `ANTHROPIC_API_KEY=${fake.anthropic}`],
+    ['database-url-credentials', `DATABASE_URL=${fake.databaseUrl}`],
+    ['private-key', fake.privateKeyBegin],
+  ])('should detect %s', (ruleId, line) => {
+    expect(detectSecrets(line)).toContain(ruleId);
+  });
+
+  it('should detect generic JWTs', () => {
+    expect(detectSecrets(`Authorization: Bearer ${fake.jwt}`)).toContain('jwt');
+  });
+
+  it('should detect high-entropy values assigned to secret-like keys', () => {
+    expect(detectSecrets('API_KEY=9fK2mQ7xLp4Rz8Vb3Nw6')).toEqual(['generic-api-key']);
+    expect(detectSecrets('"clientSecret": "Zt8pQ2wX9mK4rL7vB1nC"')).toEqual(['generic-api-key']);
+  });
+
+  it('should ignore low-entropy and identifier values', () => {
+    expect(detectSecrets('DB_PASSWORD=changeme_changeme_1')).toEqual([]);
+    expect(detectSecrets('const token = createTokenizerFromConfig(options);')).toEqual([]);
+    expect(
+      detectSecrets('SUPABASE_SERVICE_ROLE_KEY=process.env.SUPABASE_SERVICE_ROLE_KEY')
+    ).toEqual([]);
+  });
+
+  it('should honor the gitleaks allowlist', () => {
+    expect(detectSecrets(`STRIPE_KEY=${fake.stripeTest}`)).toEqual([]);
+    expect(detectSecrets(`SUPABASE_ANON_KEY=${fake.supabaseDemoJwt}`)).toEqual([]);
+    expect(detectSecrets('API_KEY=YOUR_API_KEY_1234567890')).toEqual([]);
+  });
+
+  it('should return nothing for ordinary code', () => {
+    expect(detectSecrets('export const DEFAULT_LIMIT = 10; // see docs/api.md')).toEqual([]);
+  });
+});
+
+describe('redactDiffSecrets', () => {
+  it('should redact secret lines and keep their diff prefix', () => {
+    const diff = makeDiff('.env', [
+      ' NODE_ENV=development',
+      `+STRIPE_SECRET_KEY=${fake.stripeLive}`,
+    ]);
+
+    const result = redactDiffSecrets(diff);
+
+    expect(result.diff.files[0].hunks[0].lines).toEqual([
+      ' NODE_ENV=development',
+      `+${SECRET_REDACTION}`,
+    ]);
+    expect(result.findings).toEqual([{ path: '.env', line: 2, ruleId: 'stripe-access-token' }]);
+  });
+
+  it('should report old line numbers for removed lines', () => {
+    const diff = makeDiff(
+      'config.ts',
+      [' a', `-const dsn = '${fake.sentryDsn}';`, '+const dsn = process.env.SENTRY_DSN;'],
+      10,
+      20
+    );
+
+    const result = redactDiffSecrets(diff);
+
+    expect(result.findings).toEqual([{ path: 'config.ts', line: 11, ruleId: 'sentry-dsn' }]);
+    expect(result.diff.files[0].hunks[0].lines[1]).toBe(`-${SECRET_REDACTION}`);
+  });
+
+  it('should redact a private key block through its END line', () => {
+    const diff = makeDiff('id_rsa', [
+      `+${fake.privateKeyBegin}`,
+      '+MIIEowIBAAKCAQEAx4F1',
+      `+${fake.privateKeyEnd}`,
+      '+after',
+    ]);
+
+    const result = redactDiffSecrets(diff);
+
+    expect(result.diff.files[0].hunks[0].lines).toEqual([
+      `+${SECRET_REDACTION}`,
+      `+${SECRET_REDACTION}`,
+      `+${SECRET_REDACTION}`,
+      '+after',
+    ]);
+    expect(result.findings.map((f) => f.line)).toEqual([1, 2, 3]);
+  });
+
+  it('should skip "no newline" markers when numbering lines', () => {
+    const diff = makeDiff('.env', [
+      '-OLD=1',
+      '\\ No newline at end of file',
+      `+KEY=${fake.stripeLive}`,
+    ]);
+    expect(redactDiffSecrets(diff).findings).toEqual([
+      { path: '.env', line: 1, ruleId: 'stripe-access-token' },
+    ]);
+  });
+
+  it('should return the input unchanged when nothing matches', () => {
+    const diff = makeDiff('src/index.ts', ['+export const a = 1;']);
+    const result = redactDiffSecrets(diff);
+    expect(result.diff).toBe(diff);
+    expect(result.findings).toEqual([]);
+  });
+
+  it('should not mutate the input diff', () => {
+    const diff = makeDiff('.env', [`+KEY=${fake.stripeLive}`]);
+    redactDiffSecrets(diff);
+    expect(diff.files[0].hunks[0].lines[0]).toBe(`+KEY=${fake.stripeLive}`);
+  });
+});
+
+describe('.gitleaks.toml parity', () => {
+  const toml = readFileSync(join(__dirname, '../../../.gitleaks.toml'), 'utf-8');
+
+  it('should include every project-specific gitleaks rule verbatim', () => {
+    const rules = [...toml.matchAll(/\[\[rules\]\]\s+id = "([^"]+)"[\s\S]*?regex = '''(.+?)'''/g)];
+    expect(rules.length).toBeGreaterThan(0);
+
+    for (const [, id, regex] of rules) {
+      const rule = SECRET_RULES.find((r) => r.id === id);
+      expect(rule, `missing rule ${id}`).toBeDefined();
+      expect(rule?.pattern.source).toBe(regex);
+    }
+  });
+
+  it('should include every gitleaks allowlist regex verbatim', () => {
+    const allowlistSection = toml.slice(toml.indexOf('regexes = ['));
+    const regexes = [...allowlistSection.matchAll(/'''(.+?)'''/g)].map((m) => m[1]);
+    expect(regexes.length).toBeGreaterThan(0);
+
+    expect(SECRET_ALLOWLIST.map((r) => r.source)).toEqual(regexes);
+  });
+});
@@ -423,6 +423,12 @@ describe('gitContextOptionsSchema', () => {
     it('should reject invalid sanitizeForAI type', () => {
       expect(() => gitContextOptionsSchema.parse({ sanitizeForAI: 'true' as any })).toThrow();
     });
+
+    it('should accept a cwd and reject empty or null-byte paths', () => {
+      expect(gitContextOptionsSchema.parse({ cwd: '/repos/app' })).toEqual({ cwd: '/repos/app' });
+      expect(() => gitContextOptionsSchema.parse({ cwd: '' })).toThrow();
+      expect(() => gitContextOptionsSchema.parse({ cwd: '/repos/app\0' })).toThrow();
+    });
   });
 });
 
@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+/**
+ * Executable entry point for the `git-context` command.
+ *
+ * @module bin
+ */
+
+import { runCli } from './cli.js';
+
+process.exitCode = runCli(process.argv.slice(2));
@@ -0,0 +1,164 @@
+/**
+ * `git-context` command-line front end, for shell hooks and tooling that
+ * cannot import the library.
+ *
+ * @module cli
+ */
+
+import { parseArgs } from 'node:util';
+import { z } from 'zod';
+import { formatGitContext, GIT_CONTEXT_KEYS, type GitContextKey } from './context-format.js';
+import { getGitContext } from './index.js';
+import { gitContextOptionsSchema } from './validators.js';
+
+/**
+ * Output streams used by runCli().
+ */
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+/**
+ * Short section names accepted by `--only`, besides the GitContext keys.
+ */
+const SECTION_ALIASES: Record<string, GitContextKey> = {
+  commits: 'recentCommits',
+  files: 'changedFiles',
+  operation: 'operationState',
+};
+
+/**
+ * Flag that sets each parsed field, for error messages.
+ */
+const FLAG_NAMES: Record<string, string> = {
+  format: '--format',
+  sections: '--only',
+  cwd: '--cwd',
+  maxCommits: '--max-commits',
+  diffContext: '--diff-context',
+};
+
+const USAGE = `Usage: git-context [options]
+
+Prints sanitized git context for the repository in the working directory.
+
+Options:
+  -f, --format <format>     Output format: json, markdown or xml (default: json)
+      --only <sections>     Comma-separated sections to print (default: all):
+                            repository, branch, operation, status, files, commits, diff
+  -C, --cwd <dir>           Run as if started in <dir>
+      --max-commits <n>     Number of recent commits (default: 10)
+      --diff-context <n>    Context lines around diff hunks (default: 3)
+      --no-untracked        Leave untracked files out of status
+      --no-sanitize         Print raw context without AI sanitization (trusted use only)
+  -h, --help                Show this help
+
+Exit codes: 0 success, 1 git error, 2 invalid usage
+`;
+
+const cliArgsSchema = z.object({
+  format: z.enum(['json', 'markdown', 'xml']),
+  sections: z.array(
+    z
+      .string()
+      .transform((name) => SECTION_ALIASES[name] ?? name)
+      .pipe(z.enum(GIT_CONTEXT_KEYS as [GitContextKey, ...GitContextKey[]]))
+  ),
+  options: gitContextOptionsSchema,
+});
+
+const defaultIO: CliIO = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+};
+
+/**
+ * Runs the `git-context` command.
+ *
+ * Options mirror GitContextOptions (`--max-commits`, `--diff-context`,
+ * `--no-untracked`, `--no-sanitize`, `--cwd`); `--only` selects sections and
+ * `--format` picks JSON, a Markdown digest, or XML-tagged blocks. Output is
+ * sanitized exactly as getGitContext() sanitizes it.
+ *
+ * @param argv - Arguments after the executable (e.g., `process.argv.slice(2)`)
+ * @param io - Output streams (default: process stdout/stderr)
+ * @returns Exit code: 0 on success, 1 if git fails, 2 for invalid usage
+ *
+ * @example
+ * ```typescript
+ * process.exitCode = runCli(['--format', 'markdown', '--only', 'branch,status']);
+ * ```
+ */
+export function runCli(argv: string[], io: CliIO = defaultIO): number {
+  let parsed: z.infer<typeof cliArgsSchema>;
+  try {
+    const { values } = parseArgs({
+      args: argv,
+      strict: true,
+      allowPositionals: false,
+      options: {
+        format: { type: 'string', short: 'f', default: 'json' },
+        only: { type: 'string' },
+        cwd: { type: 'string', short: 'C' },
+        'max-commits': { type: 'string' },
+        'diff-context': { type: 'string' },
+        'no-untracked': { type: 'boolean', default: false },
+        'no-sanitize': { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+
+    if (values.help) {
+      io.stdout(USAGE);
+      return 0;
+    }
+
+    parsed = cliArgsSchema.parse({
+      format: values.format,
+      sections: values.only
+        ? values.only.split(',').map((name) => name.trim())
+        : [...GIT_CONTEXT_KEYS],
+      options: {
+        cwd: values.cwd,
+        maxCommits: toNumber(values['max-commits']),
+        diffContext: toNumber(values['diff-context']),
+        includeUntracked: !values['no-untracked'],
+        sanitizeForAI: !values['no-sanitize'],
+      },
+    });
+  } catch (error) {
+    io.stderr(`git-context: ${describeUsageError(error)}\n\n${USAGE}`);
+    return 2;
+  }
+
+  try {
+    const context = getGitContext(parsed.options);
+    io.stdout(formatGitContext(context, { format: parsed.format, sections: parsed.sections }));
+    return 0;
+  } catch (error) {
+    // Git errors are already sanitized by execGitSafe
+    io.stderr(`git-context: ${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+}
+
+/**
+ * Converts a numeric flag, leaving invalid input for the schema to reject.
+ */
+function toNumber(value: string | undefined): number | undefined {
+  return value === undefined ? undefined : Number(value);
+}
+
+function describeUsageError(error: unknown): string {
+  if (error instanceof z.ZodError) {
+    return error.issues
+      .map((issue) => {
+        const [group, field] = issue.path;
+        const flag = FLAG_NAMES[String(group === 'options' ? field : group)];
+        return flag ? `${flag}: ${issue.message}` : issue.message;
+      })
+      .join('; ');
+  }
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,292 @@
+/**
+ * Token-budgeted serialization of git context for prompt injection.
+ *
+ * Shrinks a GitContext in priority order until its serialized form fits a
+ * token limit, and records everything it removed so agents know what is missing:
+ * 1. Low-priority files (lockfiles, generated code) are dropped from the diff
+ * 2. Hunks are trimmed from the largest files first
+ * 3. Oldest commits are dropped (the latest commit is always kept)
+ * 4. Remaining diff files are dropped, largest first
+ *
+ * @module context-budget
+ */
+
+import { get_encoding, type Tiktoken } from 'tiktoken';
+import type { DiffFile, GitContext } from './types.js';
+import { packOptionsSchema } from './validators.js';
+
+/**
+ * Counts tokens in a string.
+ */
+export type TokenCounter = (text: string) => number;
+
+/**
+ * Options for packGitContext().
+ */
+export interface PackOptions {
+  /** Maximum tokens allowed for the serialized context */
+  maxTokens: number;
+  /**
+   * Token counter used to measure the serialized context.
+   * @default countTokens (cl100k_base, as `scripts/skills/token-counter.ts`)
+   */
+  countTokens?: TokenCounter;
+  /**
+   * Paths matching any of these patterns are dropped first.
+   * @default DEFAULT_LOW_PRIORITY_PATTERNS
+   */
+  lowPriorityPatterns?: RegExp[];
+}
+
+/**
+ * Diff file removed from a packed context.
+ */
+export interface OmittedDiffFile {
+  /** File path */
+  path: string;
+  /** Lines added (from the original diff) */
+  additions: number;
+  /** Lines deleted (from the original diff) */
+  deletions: number;
+  /** Why the file was dropped */
+  reason: 'low-priority' | 'budget';
+}
+
+/**
+ * Diff file kept in a packed context with some of its hunks removed.
+ */
+export interface TrimmedDiffFile {
+  /** File path */
+  path: string;
+  /** Number of hunks removed */
+  hunksOmitted: number;
+  /** Number of diff lines removed */
+  linesOmitted: number;
+}
+
+/**
+ * Summary of everything removed to fit the token budget.
+ */
+export interface ContextOmissions {
+  /** Diff files removed entirely */
+  droppedFiles: OmittedDiffFile[];
+  /** Diff files with hunks removed */
+  trimmedFiles: TrimmedDiffFile[];
+  /** Number of (oldest) commits removed */
+  commitsOmitted: number;
+}
+
+/**
+ * Result of packing a GitContext into a token budget.
+ */
+export interface PackedGitContext {
+  /** Reduced context (input is not mutated) */
+  context: GitContext;
+  /** What was removed */
+  omitted: ContextOmissions;
+  /** Serialized context plus omissions, ready for prompt injection */
+  text: string;
+  /** Token count of `text` */
+  tokens: number;
+  /** False if the context could not be reduced enough to fit */
+  withinBudget: boolean;
+}
+
+/**
+ * Default low-priority path patterns: lockfiles, generated code, build output
+ * and snapshots. These rarely help an agent and are often very large.
+ */
+export const DEFAULT_LOW_PRIORITY_PATTERNS: RegExp[] = [
+  /(^|\/)(pnpm-lock\.yaml|package-lock\.json|yarn\.lock|bun\.lockb?|npm-shrinkwrap\.json)$/,
+  /(^|\/)(Cargo\.lock|Gemfile\.lock|poetry\.lock|composer\.lock|go\.sum)$/,
+  /(^|\/)packages\/db\/src\/types\.ts$/, // Supabase-generated Database types
+  /(^|\/)(__generated__|generated)\//,
+  /\.(generated|gen)\.[cm]?[jt]sx?$/,
+  /\.d\.ts$/,
+  /(^|\/)(dist|build|coverage|\.next)\//,
+  /\.min\.(js|css)$/,
+  /\.map$/,
+  /(^|\/)__snapshots__\/|\.snap$/,
+];
+
+let encoder: Tiktoken | undefined;
+
+/**
+ * Counts cl100k_base tokens, the encoding `scripts/skills/token-counter.ts`
+ * uses to approximate Claude tokenization. Special-token text in diffs
+ * (e.g. `<|endoftext|>`) is counted instead of rejected.
+ *
+ * @param text - Text to measure
+ * @returns Token count
+ */
+export function countTokens(text: string): number {
+  encoder ??= get_encoding('cl100k_base');
+  return encoder.encode(text, 'all').length;
+}
+
+/**
+ * Rough token estimate (~4 characters per token), for callers that cannot
+ * load the tiktoken WASM module.
+ *
+ * @param text - Text to measure
+ * @returns Estimated token count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Serializes a GitContext so it fits inside a token budget.
+ *
+ * The context is reduced only as far as needed. `text` contains the reduced
+ * context and, when anything was removed, an `omitted` summary.
+ *
+ * @param context - Git context (sanitize it first with sanitizeForAIContext)
+ * @param options - Token budget and packing options
+ * @returns Packed context, serialized text and omission summary
+ * @throws {ZodError} If maxTokens is not a positive integer
+ *
+ * @example
+ * ```typescript
+ * const packed = packGitContext(getGitContext(), { maxTokens: 4000 });
+ * const prompt = `Review these changes:\n${packed.text}`;
+ * if (packed.omitted.droppedFiles.length > 0) {
+ *   console.log(`${packed.omitted.droppedFiles.length} files omitted`);
+ * }
+ * ```
+ */
+export function packGitContext(context: GitContext, options: PackOptions): PackedGitContext {
+  const { maxTokens } = packOptionsSchema.parse({ maxTokens: options.maxTokens });
+  const count = options.countTokens ?? countTokens;
+  const lowPriorityPatterns = options.lowPriorityPatterns ?? DEFAULT_LOW_PRIORITY_PATTERNS;
+
+  const omitted: ContextOmissions = { droppedFiles: [], trimmedFiles: [], commitsOmitted: 0 };
+  let files: DiffFile[] = context.diff.files.map((file) => ({ ...file, hunks: [...file.hunks] }));
+  let commits = [...context.recentCommits];
+  // Omission entries report the original line counts of trimmed files
+  const original = new Map(context.diff.files.map((file) => [file.path, file]));
+
+  const render = () => {
+    const packed: GitContext = {
+      ...context,
+      recentCommits: commits,
+      diff: {
+        files,
+        stats: {
+          filesChanged: files.length,
+          additions: files.reduce((sum, file) => sum + file.additions, 0),
+          deletions: files.reduce((sum, file) => sum + file.deletions, 0),
+        },
+      },
+    };
+    const text = serialize(packed, omitted);
+    return { packed, text, tokens: count(text) };
+  };
+
+  let current = render();
+
+  // 1. Drop low-priority files
+  if (current.tokens > maxTokens) {
+    files = files.filter((file) => {
+      if (!lowPriorityPatterns.some((pattern) => pattern.test(file.path))) return true;
+      omitted.droppedFiles.push(toOmittedFile(file, 'low-priority'));
+      return false;
+    });
+    current = render();
+  }
+
+  // 2. Trim hunks from the largest files first
+  while (current.tokens > maxTokens && files.some((file) => file.hunks.length > 0)) {
+    trimHunks(files, current.tokens - maxTokens, count, omitted);
+    current = render();
+  }
+
+  // 3. Drop oldest commits, keeping the latest
+  while (current.tokens > maxTokens && commits.length > 1) {
+    commits = commits.slice(0, -1);
+    omitted.commitsOmitted++;
+    current = render();
+  }
+
+  // 4. Drop remaining diff files, largest first
+  while (current.tokens > maxTokens && files.length > 0) {
+    const largest = files.reduce((a, b) =>
+      b.additions + b.deletions > a.additions + a.deletions ? b : a
+    );
+    files = files.filter((file) => file !== largest);
+    omitted.trimmedFiles = omitted.trimmedFiles.filter((entry) => entry.path !== largest.path);
+    omitted.droppedFiles.push(toOmittedFile(original.get(largest.path) ?? largest, 'budget'));
+    current = render();
+  }
+
+  return {
+    context: current.packed,
+    omitted,
+    text: current.text,
+    tokens: current.tokens,
+    withinBudget: current.tokens <= maxTokens,
+  };
+}
+
+/**
+ * Removes trailing hunks, largest files first, until roughly `excess` tokens are freed.
+ * Hunk costs are estimates; the caller re-measures and calls again if needed.
+ * Line counts of trimmed files are reduced to match the hunks they keep.
+ */
+function trimHunks(
+  files: DiffFile[],
+  excess: number,
+  countTokens: TokenCounter,
+  omitted: ContextOmissions
+): void {
+  const hunkCost = (lines: string[]) => Math.max(1, countTokens(lines.join('\n')));
+  const fileCosts = new Map(
+    files.map((file) => [file, file.hunks.reduce((sum, hunk) => sum + hunkCost(hunk.lines), 0)])
+  );
+
+  let freed = 0;
+  while (freed < excess) {
+    let target: DiffFile | null = null;
+    for (const file of files) {
+      if (file.hunks.length === 0) continue;
+      if (!target || (fileCosts.get(file) ?? 0) > (fileCosts.get(target) ?? 0)) {
+        target = file;
+      }
+    }
+    if (!target) return;
+
+    const hunk = target.hunks.pop();
+    if (!hunk) return;
+    target.additions -= hunk.lines.filter((line) => line.startsWith('+')).length;
+    target.deletions -= hunk.lines.filter((line) => line.startsWith('-')).length;
+
+    const cost = hunkCost(hunk.lines);
+    fileCosts.set(target, (fileCosts.get(target) ?? 0) - cost);
+    freed += cost;
+
+    const path = target.path;
+    let trimmed = omitted.trimmedFiles.find((entry) => entry.path === path);
+    if (!trimmed) {
+      trimmed = { path, hunksOmitted: 0, linesOmitted: 0 };
+      omitted.trimmedFiles.push(trimmed);
+    }
+    trimmed.hunksOmitted++;
+    trimmed.linesOmitted += hunk.lines.length;
+  }
+}
+
+function toOmittedFile(file: DiffFile, reason: OmittedDiffFile['reason']): OmittedDiffFile {
+  return { path: file.path, additions: file.additions, deletions: file.deletions, reason };
+}
+
+/**
+ * Serializes the context, appending the omission summary only when non-empty.
+ */
+function serialize(context: GitContext, omitted: ContextOmissions): string {
+  const hasOmissions =
+    omitted.droppedFiles.length > 0 ||
+    omitted.trimmedFiles.length > 0 ||
+    omitted.commitsOmitted > 0;
+
+  return JSON.stringify(hasOmissions ? { ...context, omitted } : context);
+}
@@ -0,0 +1,410 @@
+/**
+ * Cached, incrementally refreshed git context for callers that ask for it
+ * repeatedly (e.g., an agent loop), plus a polling watch API.
+ *
+ * Each lookup takes a cheap fingerprint of the repository (one
+ * `git status --porcelain=v2 --branch` call, the index mtime, and the mtime and
+ * size of every changed path) and recomputes only the sections it affects:
+ * - HEAD moved → commits, branch, operation state, repository
+ * - Index or working tree changed → status, diff, operation state, repository
+ * - Only upstream/ahead-behind changed (e.g., after a fetch) → branch
+ *
+ * @module context-cache
+ */
+
+import { createHash } from 'node:crypto';
+import { statSync } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import path from 'node:path';
+import { execGitSafe, execGitSafeAsync } from './exec-safe.js';
+import { getCurrentBranch, getCurrentBranchAsync } from './git-branch.js';
+import { getParsedDiff, getParsedDiffAsync } from './git-diff.js';
+import { getRecentCommits, getRecentCommitsAsync } from './git-log.js';
+import { getOperationState, getOperationStateAsync } from './git-operation.js';
+import { getRepositoryInfo, getRepositoryInfoAsync } from './git-repository.js';
+import { getChangedFilesFromStatus, parseStatusOutput } from './git-status.js';
+import { sanitizeForAIContext } from './sanitize.js';
+import type { GitContext, GitContextOptions, GitContextSection, GitStatus } from './types.js';
+import { gitContextCacheOptionsSchema } from './validators.js';
+
+/**
+ * Options for createGitContextCache().
+ */
+export interface GitContextCacheOptions extends GitContextOptions {
+  /**
+   * How often subscribers poll the repository for changes, in milliseconds.
+   * @default 1000
+   */
+  pollIntervalMs?: number;
+}
+
+/**
+ * Cheap summary of repository state used to decide what to recompute.
+ */
+export interface GitContextFingerprint {
+  /** HEAD commit and branch name */
+  head: string;
+  /** Upstream branch and ahead/behind counts */
+  upstream: string;
+  /** Modification time of the index file, null if there is no index */
+  indexMtimeMs: number | null;
+  /** Hash of the status entries and the mtime/size of every changed path */
+  workTree: string;
+}
+
+/**
+ * Receives the new context after the repository changed.
+ */
+export type GitContextListener = (context: GitContext) => void;
+
+/**
+ * Git context cache returned by createGitContextCache().
+ */
+export interface GitContextCache {
+  /**
+   * Returns the current context, recomputing only the sections that changed
+   * since the previous call. Returns the same object when nothing changed.
+   *
+   * @throws {Error} If not in a git repository or git commands fail
+   */
+  get(): GitContext;
+  /** Drops the cached context so the next get() recomputes every section */
+  invalidate(): void;
+  /**
+   * Polls the repository and calls the listener with a new context whenever it
+   * changes. Polling starts with the first subscriber and stops when the last
+   * one unsubscribes; while active it keeps the process alive.
+   *
+   * @param listener - Called with each new context
+   * @param onError - Called if polling fails (e.g., the repository was removed)
+   * @returns Function that unsubscribes the listener
+   */
+  subscribe(listener: GitContextListener, onError?: (error: Error) => void): () => void;
+  /** Fingerprint of the cached context, null before the first lookup */
+  readonly fingerprint: GitContextFingerprint | null;
+  /** Sections recomputed by the most recent lookup (empty if it was a cache hit) */
+  readonly lastRefreshed: readonly GitContextSection[];
+}
+
+/**
+ * Status output and file stats from which a fingerprint is built.
+ */
+interface RepositorySnapshot {
+  fingerprint: GitContextFingerprint;
+  status: GitStatus;
+}
+
+/**
+ * Sections recomputed by running git, as opposed to the status the snapshot
+ * already holds.
+ */
+type LoadedSections = Pick<GitContext, Exclude<GitContextSection, 'status'>>;
+
+type SectionLoaders = { [K in keyof LoadedSections]: () => LoadedSections[K] };
+
+type AsyncSectionLoaders = { [K in keyof LoadedSections]: () => Promise<LoadedSections[K]> };
+
+/** Every section, in the order lastRefreshed reports them */
+const ALL_SECTIONS: readonly GitContextSection[] = [
+  'status',
+  'repository',
+  'branch',
+  'recentCommits',
+  'diff',
+  'operationState',
+];
+
+function isLoadedSection(section: GitContextSection): section is keyof LoadedSections {
+  return section !== 'status';
+}
+
+/**
+ * Creates a git context cache for one repository.
+ *
+ * @param options - Context options (as for getGitContext) plus `pollIntervalMs`
+ * @returns Git context cache
+ * @throws {ZodError} If options fail validation
+ *
+ * @example
+ * ```typescript
+ * const cache = createGitContextCache({ cwd: '/repos/app', maxCommits: 5 });
+ *
+ * const context = cache.get(); // computes every section
+ * cache.get(); // cache hit: only `git status` runs
+ *
+ * const unsubscribe = cache.subscribe((next) => {
+ *   console.log(`${next.changedFiles.length} files changed`);
+ * });
+ * // later
+ * unsubscribe();
+ * ```
+ */
+export function createGitContextCache(options?: GitContextCacheOptions): GitContextCache {
+  const validatedOptions = gitContextCacheOptionsSchema.parse(options);
+
+  const maxCommits = validatedOptions?.maxCommits ?? 10;
+  const diffContext = validatedOptions?.diffContext ?? 3;
+  const includeUntracked = validatedOptions?.includeUntracked ?? true;
+  const sanitizeForAI = validatedOptions?.sanitizeForAI ?? true;
+  const pollIntervalMs = validatedOptions?.pollIntervalMs ?? 1000;
+  const exec = { cwd: validatedOptions?.cwd };
+
+  // Without optional locks, status never rewrites the index, so polling does
+  // not bump the index mtime it fingerprints
+  const statusArgs = ['--no-optional-locks', 'status', '--porcelain=v2', '-z', '--branch'];
+  if (!includeUntracked) {
+    statusArgs.push('--untracked-files=no');
+  }
+
+  let paths: { root: string; indexFile: string } | null = null;
+  let fingerprint: GitContextFingerprint | null = null;
+  let raw: GitContext | null = null;
+  let output: GitContext | null = null;
+  let lastRefreshed: GitContextSection[] = [];
+  // Bumped by invalidate() and update(), so an async refresh started before
+  // either does not overwrite their result
+  let generation = 0;
+
+  // Root and git dir do not change for the lifetime of the cache
+  const resolvePaths = () => {
+    paths ??= {
+      root: execGitSafe(['rev-parse', '--show-toplevel'], exec).trim(),
+      indexFile: path.join(execGitSafe(['rev-parse', '--absolute-git-dir'], exec).trim(), 'index'),
+    };
+    return paths;
+  };
+
+  const takeSnapshot = (): RepositorySnapshot => {
+    const { root, indexFile } = resolvePaths();
+    const statusOutput = execGitSafe(statusArgs, exec);
+    const status = parseStatusOutput(statusOutput);
+    const statOf = (file: string) => statSync(file, { throwIfNoEntry: false }) ?? null;
+
+    return {
+      status,
+      fingerprint: toFingerprint(
+        statusOutput,
+        statOf(indexFile),
+        status.entries.map((entry) => statOf(path.join(root, entry.path)))
+      ),
+    };
+  };
+
+  const takeSnapshotAsync = async (): Promise<RepositorySnapshot> => {
+    const { root, indexFile } = resolvePaths();
+    const statusOutput = await execGitSafeAsync(statusArgs, exec);
+    const status = parseStatusOutput(statusOutput);
+    const statOf = (file: string) => stat(file).catch(() => null);
+
+    const [indexStats, entryStats] = await Promise.all([
+      statOf(indexFile),
+      Promise.all(status.entries.map((entry) => statOf(path.join(root, entry.path)))),
+    ]);
+
+    return { status, fingerprint: toFingerprint(statusOutput, indexStats, entryStats) };
+  };
+
+  const loaders: SectionLoaders = {
+    repository: () => getRepositoryInfo({ ...exec, sanitize: false }),
+    branch: () => getCurrentBranch(exec),
+    recentCommits: () => getRecentCommits({ ...exec, limit: maxCommits, sanitize: false }),
+    diff: () => getParsedDiff({ ...exec, context: diffContext }),
+    operationState: () => getOperationState(exec),
+  };
+  const asyncLoaders: AsyncSectionLoaders = {
+    repository: () => getRepositoryInfoAsync({ ...exec, sanitize: false }),
+    branch: () => getCurrentBranchAsync(exec),
+    recentCommits: () => getRecentCommitsAsync({ ...exec, limit: maxCommits, sanitize: false }),
+    diff: () => getParsedDiffAsync({ ...exec, context: diffContext }),
+    operationState: () => getOperationStateAsync(exec),
+  };
+
+  // Sections whose inputs differ between the cached fingerprint and the next one
+  const staleSections = (next: GitContextFingerprint): GitContextSection[] => {
+    if (!raw) return [...ALL_SECTIONS];
+
+    const headChanged = fingerprint?.head !== next.head;
+    const upstreamChanged = fingerprint?.upstream !== next.upstream;
+    const filesChanged =
+      fingerprint?.indexMtimeMs !== next.indexMtimeMs || fingerprint?.workTree !== next.workTree;
+
+    const changed: Record<GitContextSection, boolean> = {
+      status: filesChanged,
+      repository: headChanged || filesChanged,
+      branch: headChanged || upstreamChanged,
+      recentCommits: headChanged,
+      diff: filesChanged,
+      operationState: headChanged || filesChanged,
+    };
+    return ALL_SECTIONS.filter((section) => changed[section]);
+  };
+
+  // Merges recomputed sections into the context the staleness check was based on
+  const commit = (
+    { fingerprint: next, status }: RepositorySnapshot,
+    previous: GitContext | null,
+    stale: GitContextSection[],
+    loaded: Partial<LoadedSections>,
+    indexMtimeMs: number | null
+  ): GitContext => {
+    const pick = <K extends keyof LoadedSections>(section: K): LoadedSections[K] =>
+      (loaded[section] ?? previous?.[section]) as LoadedSections[K];
+
+    const nextStatus = previous && !stale.includes('status') ? previous.status : status;
+    raw = {
+      repository: pick('repository'),
+      branch: pick('branch'),
+      status: nextStatus,
+      recentCommits: pick('recentCommits'),
+      diff: pick('diff'),
+      changedFiles:
+        previous && nextStatus === previous.status
+          ? previous.changedFiles
+          : getChangedFilesFromStatus(nextStatus),
+      operationState: pick('operationState'),
+    };
+
+    // Recomputing runs `git status`, which may refresh stat data in the index;
+    // record the index as left by that so our own write is not seen as a change
+    fingerprint = { ...next, indexMtimeMs };
+    lastRefreshed = stale;
+    output = sanitizeForAI ? sanitizeForAIContext(raw) : raw;
+    return output;
+  };
+
+  const update = (snapshot: RepositorySnapshot): GitContext => {
+    generation++;
+    const stale = staleSections(snapshot.fingerprint);
+    if (output && stale.length === 0) {
+      fingerprint = snapshot.fingerprint;
+      lastRefreshed = [];
+      return output;
+    }
+
+    const previous = raw;
+    const loaded = Object.fromEntries(
+      stale.filter(isLoadedSection).map((section) => [section, loaders[section]()])
+    );
+    const indexStats = statSync(resolvePaths().indexFile, { throwIfNoEntry: false });
+    return commit(snapshot, previous, stale, loaded, indexStats?.mtimeMs ?? null);
+  };
+
+  // Same as update(), without blocking the event loop while sections are
+  // recomputed; resolves to null if the cache was updated or invalidated meanwhile
+  const updateAsync = async (snapshot: RepositorySnapshot): Promise<GitContext | null> => {
+    const started = generation;
+    const stale = staleSections(snapshot.fingerprint);
+    if (output && stale.length === 0) {
+      fingerprint = snapshot.fingerprint;
+      lastRefreshed = [];
+      return output;
+    }
+
+    const previous = raw;
+    const loaded = Object.fromEntries(
+      await Promise.all(
+        stale
+          .filter(isLoadedSection)
+          .map(async (section) => [section, await asyncLoaders[section]()] as const)
+      )
+    );
+    const indexStats = await stat(resolvePaths().indexFile).catch(() => null);
+    if (generation !== started) return null;
+    return commit(snapshot, previous, stale, loaded, indexStats?.mtimeMs ?? null);
+  };
+
+  const subscribers = new Set<{
+    listener: GitContextListener;
+    onError?: (error: Error) => void;
+  }>();
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let polling = false;
+
+  const poll = async () => {
+    // Skip a tick rather than overlap a slow refresh
+    if (polling) return;
+    polling = true;
+    try {
+      const previous = output;
+      const context = await updateAsync(await takeSnapshotAsync());
+      // An unchanged repository yields the cached object; the first poll only
+      // records the baseline
+      if (context === null || previous === null || context === previous) return;
+      for (const { listener } of subscribers) {
+        listener(context);
+      }
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error));
+      for (const { onError } of subscribers) {
+        onError?.(failure);
+      }
+    } finally {
+      polling = false;
+    }
+  };
+
+  return {
+    get: () => update(takeSnapshot()),
+    invalidate: () => {
+      generation++;
+      fingerprint = null;
+      raw = null;
+      output = null;
+    },
+    subscribe: (listener, onError) => {
+      const subscriber = { listener, onError };
+      subscribers.add(subscriber);
+      timer ??= setInterval(poll, pollIntervalMs);
+
+      return () => {
+        subscribers.delete(subscriber);
+        if (subscribers.size === 0 && timer) {
+          clearInterval(timer);
+          timer = undefined;
+        }
+      };
+    },
+    get fingerprint() {
+      return fingerprint;
+    },
+    get lastRefreshed() {
+      return lastRefreshed;
+    },
+  };
+}
+
+/**
+ * Builds a fingerprint from `git status --porcelain=v2 -z --branch` output
+ * and file stats.
+ *
+ * Status alone misses further edits to an already-modified file, so the
+ * mtime and size of every changed path are folded into the hash.
+ */
+function toFingerprint(
+  statusOutput: string,
+  indexStats: { mtimeMs: number } | null,
+  entryStats: Array<{ mtimeMs: number; size: number } | null>
+): GitContextFingerprint {
+  const headers = new Map<string, string>();
+  const records: string[] = [];
+  for (const record of statusOutput.split('\0')) {
+    if (record.startsWith('# ')) {
+      const [key, ...value] = record.slice(2).split(' ');
+      headers.set(key, value.join(' '));
+    } else if (record) {
+      records.push(record);
+    }
+  }
+
+  const workTree = createHash('sha1').update(records.join('\0'));
+  for (const stats of entryStats) {
+    workTree.update(stats ? `\0${stats.mtimeMs}:${stats.size}` : '\0-');
+  }
+
+  return {
+    head: `${headers.get('branch.oid') ?? ''} ${headers.get('branch.head') ?? ''}`,
+    upstream: `${headers.get('branch.upstream') ?? ''} ${headers.get('branch.ab') ?? ''}`,
+    indexMtimeMs: indexStats?.mtimeMs ?? null,
+    workTree: workTree.digest('hex'),
+  };
+}
@@ -0,0 +1,256 @@
+/**
+ * Text renderings of a GitContext: JSON, a Markdown digest for LLM prompts,
+ * and XML-tagged blocks.
+ *
+ * @module context-format
+ */
+
+import type { DiffFile, GitContext } from './types.js';
+
+/**
+ * Output format for formatGitContext().
+ */
+export type GitContextFormat = 'json' | 'markdown' | 'xml';
+
+/**
+ * Section of a GitContext that can be rendered.
+ */
+export type GitContextKey = Exclude<keyof GitContext, 'sanitizationReport'>;
+
+/**
+ * Options for formatGitContext().
+ */
+export interface FormatOptions {
+  /** Output format */
+  format: GitContextFormat;
+  /**
+   * Sections to render, in output order.
+   * @default GIT_CONTEXT_KEYS
+   */
+  sections?: readonly GitContextKey[];
+}
+
+/**
+ * All renderable sections in their default order.
+ */
+export const GIT_CONTEXT_KEYS: readonly GitContextKey[] = [
+  'repository',
+  'branch',
+  'operationState',
+  'status',
+  'changedFiles',
+  'recentCommits',
+  'diff',
+];
+
+/**
+ * Markdown heading and XML tag for each section.
+ */
+const SECTION_LABELS: Record<GitContextKey, { heading: string; tag: string }> = {
+  repository: { heading: 'Repository', tag: 'repository' },
+  branch: { heading: 'Branch', tag: 'branch' },
+  operationState: { heading: 'Operation State', tag: 'operation-state' },
+  status: { heading: 'Status', tag: 'status' },
+  changedFiles: { heading: 'Changed Files', tag: 'changed-files' },
+  recentCommits: { heading: 'Recent Commits', tag: 'recent-commits' },
+  diff: { heading: 'Diff', tag: 'diff' },
+};
+
+/**
+ * Renders a git context as text.
+ *
+ * - `json`: the selected sections as pretty-printed JSON
+ * - `markdown`: a compact digest with one `##` heading per section and
+ *   fenced diff hunks
+ * - `xml`: the same digest with each section wrapped in a tag (e.g.,
+ *   `<recent-commits>`) inside `<git-context>`, text XML-escaped
+ *
+ * The context is rendered as given; sanitize it first (getGitContext() does
+ * by default).
+ *
+ * @param context - Git context to render
+ * @param options - Format and sections to include
+ * @returns Rendered text (ends with a newline)
+ *
+ * @example
+ * ```typescript
+ * const digest = formatGitContext(getGitContext(), {
+ *   format: 'markdown',
+ *   sections: ['branch', 'status', 'diff'],
+ * });
+ * ```
+ */
+export function formatGitContext(context: GitContext, options: FormatOptions): string {
+  const sections = options.sections ?? GIT_CONTEXT_KEYS;
+
+  switch (options.format) {
+    case 'json':
+      return `${JSON.stringify(Object.fromEntries(sections.map((key) => [key, context[key]])), null, 2)}\n`;
+    case 'markdown':
+      return `# Git Context\n\n${sections
+        .map((key) => `## ${SECTION_LABELS[key].heading}\n\n${renderSection(context, key)}\n`)
+        .join('\n')}`;
+    case 'xml':
+      return `<git-context>\n${sections
+        .map((key) => {
+          const { tag } = SECTION_LABELS[key];
+          return `<${tag}>\n${escapeXml(renderSection(context, key))}\n</${tag}>\n`;
+        })
+        .join('')}</git-context>\n`;
+  }
+}
+
+/**
+ * Renders one section as Markdown (without its heading).
+ */
+function renderSection(context: GitContext, key: GitContextKey): string {
+  switch (key) {
+    case 'repository':
+      return renderRepository(context.repository);
+    case 'branch':
+      return renderBranch(context.branch);
+    case 'operationState':
+      return renderOperationState(context.operationState);
+    case 'status':
+      return renderStatus(context.status);
+    case 'changedFiles':
+      return list(
+        context.changedFiles.map(({ status, path, oldPath }) =>
+          oldPath ? `${status}: ${oldPath} → ${path}` : `${status}: ${path}`
+        ),
+        'No changed files'
+      );
+    case 'recentCommits':
+      return list(
+        context.recentCommits.map(
+          (commit) =>
+            `${commit.shortHash} ${commit.subject} (${commit.author}, ${formatDate(commit.date)})`
+        ),
+        'No commits'
+      );
+    case 'diff':
+      return renderDiff(context.diff);
+  }
+}
+
+function renderRepository(repository: GitContext['repository']): string {
+  const lines = [
+    `Root: ${repository.root}`,
+    `Remote: ${repository.remote ?? 'none'}`,
+    `Clean: ${repository.isClean ? 'yes' : 'no'}`,
+  ];
+  if (repository.isLinkedWorktree) {
+    lines.push(`Linked worktree of: ${repository.mainWorktreeRoot}`);
+  }
+  if (repository.worktrees.length > 1) {
+    lines.push(
+      `Worktrees: ${repository.worktrees
+        .map((w) => `${w.path} (${w.branch ?? w.head?.slice(0, 7) ?? 'bare'})`)
+        .join(', ')}`
+    );
+  }
+  for (const submodule of repository.submodules) {
+    const dirty =
+      submodule.commitChanged || submodule.hasTrackedChanges || submodule.hasUntrackedChanges;
+    const commit = submodule.commit?.slice(0, 7) ?? 'not initialized';
+    lines.push(`Submodule: ${submodule.path} @ ${commit}${dirty ? ' (dirty)' : ''}`);
+  }
+  return list(lines, '');
+}
+
+function renderBranch(branch: GitContext['branch']): string {
+  const upstream = branch.upstream
+    ? `${branch.upstream} (ahead ${branch.commitsAhead}, behind ${branch.commitsBehind})`
+    : 'none';
+  return list([`Current: ${branch.current}`, `Upstream: ${upstream}`], '');
+}
+
+function renderOperationState(state: GitContext['operationState']): string {
+  const { head } = state;
+  const commit = head.commit?.slice(0, 7) ?? 'no commits';
+  const lines = [
+    `In progress: ${state.operations.length > 0 ? state.operations.join(', ') : 'none'}`,
+    head.detached
+      ? `HEAD: detached at ${commit}${head.refs.length > 0 ? ` (${head.refs.join(', ')})` : ''}`
+      : `HEAD: ${commit}`,
+  ];
+  if (state.incomingCommit) {
+    lines.push(`Incoming commit: ${state.incomingCommit.slice(0, 7)}`);
+  }
+  if (state.rebase) {
+    const { step, totalSteps, branch, onto } = state.rebase;
+    lines.push(
+      `Rebase: step ${step}/${totalSteps} of ${branch ?? 'detached HEAD'} onto ${onto?.slice(0, 7) ?? 'unknown'}`
+    );
+  }
+  for (const conflict of state.conflicts) {
+    lines.push(`Conflict: ${conflict.path} (${conflict.type})`);
+  }
+  return list(lines, '');
+}
+
+function renderStatus(status: GitContext['status']): string {
+  const groups: Array<[string, string[]]> = [
+    ['Staged', status.staged],
+    ['Modified', status.modified],
+    ['Deleted', status.deleted],
+    ['Renamed', status.renamed.map((r) => `${r.from} → ${r.to}`)],
+    ['Conflicted', status.conflicted],
+    ['Untracked', status.untracked],
+  ];
+  return list(
+    groups
+      .filter(([, paths]) => paths.length > 0)
+      .map(([label, paths]) => `${label} (${paths.length}): ${paths.join(', ')}`),
+    'Working tree clean'
+  );
+}
+
+function renderDiff(diff: GitContext['diff']): string {
+  const { filesChanged, additions, deletions } = diff.stats;
+  if (diff.files.length === 0) {
+    return 'No changes';
+  }
+  return [
+    `${filesChanged} files changed, +${additions} -${deletions}`,
+    ...diff.files.map(renderDiffFile),
+  ].join('\n\n');
+}
+
+function renderDiffFile(file: DiffFile): string {
+  const name = file.oldPath ? `${file.oldPath} → ${file.path}` : file.path;
+  const heading = `### ${name} (${file.status}, ${file.binary ? describeBinary(file.binary) : `+${file.additions} -${file.deletions}`})`;
+  if (file.hunks.length === 0) {
+    return heading;
+  }
+
+  const body = file.hunks
+    .map(
+      (hunk) =>
+        `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@\n${hunk.lines.join('\n')}`
+    )
+    .join('\n');
+  // The fence must be longer than any backtick run in the diff itself
+  const longestRun = Math.max(2, ...(body.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  return `${heading}\n\n${fence}diff\n${body}\n${fence}`;
+}
+
+function describeBinary(binary: NonNullable<DiffFile['binary']>): string {
+  const { oldSize, newSize } = binary;
+  return oldSize === null || newSize === null ? 'binary' : `binary, ${oldSize} → ${newSize} bytes`;
+}
+
+function list(lines: string[], empty: string): string {
+  return lines.length > 0 ? lines.map((line) => `- ${line}`).join('\n') : empty;
+}
+
+function formatDate(date: Date | string): string {
+  // Dates become strings when a context is round-tripped through JSON
+  const parsed = new Date(date);
+  return Number.isNaN(parsed.getTime()) ? String(date) : parsed.toISOString().slice(0, 10);
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
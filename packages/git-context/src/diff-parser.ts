@@ -0,0 +1,675 @@
+/**
+ * Unified diff parser for `git diff` (and plain `diff -u`) output.
+ *
+ * Works on raw bytes so nothing is lost before parsing: paths may be
+ * C-quoted (`core.quotePath`), contain spaces, or be non-UTF-8; content lines
+ * may end in CRLF or lack a final newline; binary files report size changes.
+ *
+ * @module diff-parser
+ */
+
+import type { BinaryDiffInfo, DiffFile, DiffHunk, DiffNumstatEntry } from './types.js';
+
+/**
+ * Mode git uses for submodule entries (gitlinks).
+ */
+const SUBMODULE_MODE = '160000';
+
+/**
+ * Path git prints for the missing side of an added or deleted file.
+ */
+const NULL_PATH = '/dev/null';
+
+/**
+ * Single-character escapes used by git's C-style path quoting.
+ */
+const C_ESCAPES: Record<string, number> = {
+  a: 0x07,
+  b: 0x08,
+  t: 0x09,
+  n: 0x0a,
+  v: 0x0b,
+  f: 0x0c,
+  r: 0x0d,
+  '"': 0x22,
+  '\\': 0x5c,
+};
+
+const utf8Decoder = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Text decoded from raw bytes.
+ */
+interface DecodedText {
+  text: string;
+  /** False if the bytes were not valid UTF-8 and were decoded as Latin-1 */
+  utf8: boolean;
+}
+
+/**
+ * File being parsed, with header details that are not part of DiffFile.
+ */
+interface FileState {
+  file: DiffFile;
+  hunk: DiffHunk | null;
+  /** Lines still expected in the current hunk, per side */
+  oldRemaining: number;
+  newRemaining: number;
+  /** Side the last hunk line belonged to, for `\ No newline at end of file` */
+  lastSide: 'old' | 'new' | 'both' | null;
+  /** Old path from the `diff --git` / `---` headers */
+  oldName: string | null;
+  /** Blob ids from the `index` line */
+  oids: { oldOid: string; newOid: string } | null;
+  /** Number of `literal`/`delta` blocks seen in a `GIT binary patch` */
+  binaryBlocks: number | null;
+}
+
+/**
+ * Parses unified diff output into DiffFile entries.
+ *
+ * Accepts the raw bytes of `git diff` output (preferred) or an already decoded
+ * string. Handles:
+ * - Extended headers: `new file mode`, `deleted file mode`, `old mode`/`new mode`,
+ *   `index` (blob ids and mode), `similarity index`, `rename from/to`, `copy from/to`
+ * - C-quoted paths (`"a/caf\303\251.txt"`) and unquoted paths with spaces,
+ *   including the trailing tab git adds after such paths on `---`/`+++` lines
+ * - CRLF line endings (the CR is stripped and the file flagged with `crlf`)
+ * - `\ No newline at end of file` markers (`oldMissingNewline`/`newMissingNewline`)
+ * - Content that is not valid UTF-8 (decoded as Latin-1, `encoding: 'latin1'`)
+ * - Binary files (`Binary files ... differ` and `GIT binary patch`), with
+ *   sizes taken from `literal` blocks when present
+ * - Plain `diff -u` output without `diff --git` headers
+ *
+ * Hunk bodies are read using the line counts in the `@@` header, so content
+ * lines that look like headers are never misread. Malformed input never
+ * throws; unrecognized lines are ignored.
+ *
+ * @param input - Raw diff output bytes, or diff text
+ * @returns Parsed files in diff order
+ *
+ * @example
+ * ```typescript
+ * const output = execFileSync('git', ['diff', '--full-index']);
+ * for (const file of parseUnifiedDiff(output)) {
+ *   console.log(file.path, file.binary ? 'binary' : `+${file.additions} -${file.deletions}`);
+ * }
+ * ```
+ */
+export function parseUnifiedDiff(input: string | Uint8Array): DiffFile[] {
+  const text = toByteString(input);
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  const files: DiffFile[] = [];
+  let state: FileState | null = null;
+
+  const flush = () => {
+    if (state) {
+      files.push(finishFile(state));
+    }
+    state = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const current: FileState | null = state;
+
+    // Hunk body: consume exactly the lines announced by the @@ header
+    if (current?.hunk && (current.oldRemaining > 0 || current.newRemaining > 0)) {
+      if (readHunkLine(current, line)) {
+        continue;
+      }
+    }
+
+    // No-newline marker right after the last line of a hunk
+    if (current?.hunk && line.startsWith('\\')) {
+      markMissingNewline(current);
+      continue;
+    }
+
+    const header = stripCr(line);
+
+    // File header: diff --git a/path b/path
+    if (header.startsWith('diff --git ')) {
+      flush();
+      state = startFile(parseGitHeaderPaths(header.slice('diff --git '.length)));
+      continue;
+    }
+
+    // Plain unified diff (no git header): --- old / +++ new
+    if (
+      header.startsWith('--- ') &&
+      lines[i + 1]?.startsWith('+++ ') &&
+      (!current || current.hunk || current.binaryBlocks !== null)
+    ) {
+      flush();
+      state = startFile({ oldName: null, newName: '' });
+    }
+
+    if (!state) {
+      continue;
+    }
+    const file: FileState = state;
+
+    // Base85 data of a GIT binary patch
+    if (file.binaryBlocks !== null) {
+      readBinaryPatchLine(file, header);
+      continue;
+    }
+
+    // Hunk header: @@ -oldStart,oldLines +newStart,newLines @@
+    if (header.startsWith('@@')) {
+      const hunkMatch = header.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+      if (hunkMatch) {
+        closeHunk(file);
+        const hunk: DiffHunk = {
+          oldStart: parseInt(hunkMatch[1], 10),
+          oldLines: parseInt(hunkMatch[2] ?? '1', 10),
+          newStart: parseInt(hunkMatch[3], 10),
+          newLines: parseInt(hunkMatch[4] ?? '1', 10),
+          lines: [],
+          oldMissingNewline: false,
+          newMissingNewline: false,
+        };
+        file.hunk = hunk;
+        file.oldRemaining = hunk.oldLines;
+        file.newRemaining = hunk.newLines;
+        file.lastSide = null;
+      }
+      continue;
+    }
+
+    // Extended headers only appear before the first hunk
+    if (!file.hunk && file.file.hunks.length === 0) {
+      readExtendedHeader(file, header);
+    }
+  }
+
+  flush();
+
+  return files;
+}
+
+/**
+ * Parses `git diff --numstat -z` output.
+ *
+ * With `-z` paths are NUL-terminated and never quoted, so any byte sequence
+ * (spaces, tabs, newlines, quotes, non-UTF-8) round-trips. Renames and copies
+ * are reported with their source and destination paths.
+ *
+ * @param input - Raw output bytes, or output text
+ * @returns One entry per changed file
+ *
+ * @example
+ * ```typescript
+ * const entries = parseNumstatZ(execFileSync('git', ['diff', '--numstat', '-z']));
+ * const binaries = entries.filter((entry) => entry.binary).map((entry) => entry.path);
+ * ```
+ */
+export function parseNumstatZ(input: string | Uint8Array): DiffNumstatEntry[] {
+  const text = toByteString(input);
+  const records = text.split('\0');
+  const entries: DiffNumstatEntry[] = [];
+
+  for (let i = 0; i < records.length; i++) {
+    // Record: <additions>\t<deletions>\t<path> or, for renames and copies,
+    // <additions>\t<deletions>\t followed by <old path>\0<new path>
+    const match = records[i].match(/^(-|\d+)\t(-|\d+)\t([\s\S]*)$/);
+    if (!match) {
+      continue;
+    }
+
+    let path = match[3];
+    let oldPath: string | null = null;
+    if (path === '') {
+      oldPath = decodeBytes(records[i + 1] ?? '').text;
+      path = records[i + 2] ?? '';
+      i += 2;
+    }
+
+    const binary = match[1] === '-' && match[2] === '-';
+    entries.push({
+      path: decodeBytes(path).text,
+      oldPath,
+      additions: binary ? 0 : parseInt(match[1], 10),
+      deletions: binary ? 0 : parseInt(match[2], 10),
+      binary,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Decodes a path as git prints it in diff headers: C-quoted
+ * (`"dir/caf\303\251 \"x\".txt"`) or verbatim.
+ *
+ * Octal escapes are bytes of the path's UTF-8 encoding; paths that are not
+ * valid UTF-8 are decoded as Latin-1.
+ *
+ * @param path - Path as printed by git (quotes included, if any)
+ * @returns Decoded path
+ *
+ * @example
+ * ```typescript
+ * unquoteGitPath('"caf\\303\\251.txt"'); // 'café.txt'
+ * unquoteGitPath('plain name.txt'); // 'plain name.txt'
+ * ```
+ */
+export function unquoteGitPath(path: string): string {
+  const bytes = Buffer.from(path, 'utf-8').toString('latin1');
+  if (!bytes.startsWith('"')) {
+    return decodeBytes(bytes).text;
+  }
+  return decodeBytes(readQuoted(bytes, 0).value).text;
+}
+
+/**
+ * Creates the parse state for a new file.
+ */
+function startFile(paths: { oldName: string | null; newName: string }): FileState {
+  return {
+    file: {
+      path: paths.newName,
+      oldPath: null,
+      status: 'modified',
+      similarity: null,
+      oldMode: null,
+      newMode: null,
+      submodule: false,
+      binary: null,
+      crlf: false,
+      encoding: 'utf-8',
+      additions: 0,
+      deletions: 0,
+      hunks: [],
+    },
+    hunk: null,
+    oldRemaining: 0,
+    newRemaining: 0,
+    lastSide: null,
+    oldName: paths.oldName,
+    oids: null,
+    binaryBlocks: null,
+  };
+}
+
+/**
+ * Finalizes a parsed file: closes its last hunk and derives oldPath,
+ * submodule and binary size fields.
+ */
+function finishFile(state: FileState): DiffFile {
+  closeHunk(state);
+  const { file } = state;
+
+  if (file.status === 'modified' && state.oldName !== null && state.oldName !== file.path) {
+    file.oldPath = state.oldName;
+  }
+  file.submodule = file.oldMode === SUBMODULE_MODE || file.newMode === SUBMODULE_MODE;
+
+  if (file.binary) {
+    if (file.status === 'added') file.binary.oldSize = 0;
+    if (file.status === 'deleted') file.binary.newSize = 0;
+    file.binary.sizeDelta = sizeDelta(file.binary);
+  }
+
+  return file;
+}
+
+/**
+ * Computes newSize - oldSize, or null if either is unknown.
+ */
+function sizeDelta(binary: BinaryDiffInfo): number | null {
+  return binary.oldSize === null || binary.newSize === null
+    ? null
+    : binary.newSize - binary.oldSize;
+}
+
+function closeHunk(state: FileState): void {
+  if (state.hunk) {
+    state.file.hunks.push(state.hunk);
+  }
+  state.hunk = null;
+  state.oldRemaining = 0;
+  state.newRemaining = 0;
+}
+
+/**
+ * Reads one line of a hunk body. Returns false if the line does not belong
+ * to the hunk (truncated hunk), so it is parsed as a header instead.
+ */
+function readHunkLine(state: FileState, rawLine: string): boolean {
+  const marker = rawLine[0];
+
+  if (marker === '\\') {
+    markMissingNewline(state);
+    return true;
+  }
+
+  // Some tools strip the leading space of empty context lines
+  const isContext = marker === ' ' || rawLine === '' || rawLine === '\r';
+  if (marker !== '+' && marker !== '-' && !isContext) {
+    closeHunk(state);
+    return false;
+  }
+
+  let line = rawLine === '' || rawLine === '\r' ? ` ${rawLine}` : rawLine;
+  if (line.endsWith('\r')) {
+    line = line.slice(0, -1);
+    state.file.crlf = true;
+  }
+
+  const decoded = decodeBytes(line);
+  if (!decoded.utf8) {
+    state.file.encoding = 'latin1';
+  }
+  state.hunk?.lines.push(decoded.text);
+
+  if (marker === '+') {
+    state.file.additions++;
+    state.newRemaining--;
+    state.lastSide = 'new';
+  } else if (marker === '-') {
+    state.file.deletions++;
+    state.oldRemaining--;
+    state.lastSide = 'old';
+  } else {
+    state.oldRemaining--;
+    state.newRemaining--;
+    state.lastSide = 'both';
+  }
+  return true;
+}
+
+/**
+ * Applies `\ No newline at end of file` to the side of the preceding line.
+ */
+function markMissingNewline(state: FileState): void {
+  const hunk = state.hunk;
+  if (!hunk || state.lastSide === null) {
+    return;
+  }
+  if (state.lastSide !== 'new') hunk.oldMissingNewline = true;
+  if (state.lastSide !== 'old') hunk.newMissingNewline = true;
+}
+
+/**
+ * Reads an extended header line (before the first hunk).
+ */
+function readExtendedHeader(state: FileState, line: string): void {
+  const { file } = state;
+
+  // New file: new file mode 100644
+  if (line.startsWith('new file mode ')) {
+    file.status = 'added';
+    state.oldName = null;
+    file.newMode = line.slice('new file mode '.length).trim();
+    return;
+  }
+
+  // Deleted file: deleted file mode 100644
+  if (line.startsWith('deleted file mode ')) {
+    file.status = 'deleted';
+    file.oldMode = line.slice('deleted file mode '.length).trim();
+    return;
+  }
+
+  // Mode change: old mode 100644 / new mode 100755
+  if (line.startsWith('old mode ')) {
+    file.oldMode = line.slice('old mode '.length).trim();
+    return;
+  }
+  if (line.startsWith('new mode ')) {
+    file.newMode = line.slice('new mode '.length).trim();
+    return;
+  }
+
+  // Blob ids, plus the mode when unchanged: index abc123..def456 100644
+  const indexMatch = line.match(/^index ([0-9a-f]+)\.\.([0-9a-f]+)(?: (\d{6}))?$/);
+  if (indexMatch) {
+    state.oids = { oldOid: indexMatch[1], newOid: indexMatch[2] };
+    if (indexMatch[3]) {
+      file.oldMode ??= indexMatch[3];
+      file.newMode ??= indexMatch[3];
+    }
+    return;
+  }
+
+  // Similarity: similarity index 87%
+  const similarityMatch = line.match(/^similarity index (\d+)%$/);
+  if (similarityMatch) {
+    file.similarity = parseInt(similarityMatch[1], 10);
+    return;
+  }
+
+  // Renamed or copied file: rename from / rename to, copy from / copy to
+  const moveMatch = line.match(/^(rename|copy) (from|to) (.+)$/);
+  if (moveMatch) {
+    const path = decodePath(moveMatch[3]);
+    file.status = moveMatch[1] === 'rename' ? 'renamed' : 'copied';
+    if (moveMatch[2] === 'from') {
+      file.oldPath = path;
+      state.oldName = path;
+    } else {
+      file.path = path;
+    }
+    return;
+  }
+
+  // Paths of both sides: --- a/path / +++ b/path (/dev/null if absent)
+  if (line.startsWith('--- ') || line.startsWith('+++ ')) {
+    const path = parseFileLinePath(line.slice(4));
+    if (line[0] === '-') {
+      if (path === null) {
+        file.status = 'added';
+        state.oldName = null;
+      } else {
+        state.oldName = path;
+        if (file.path === '') file.path = path;
+      }
+    } else if (path === null) {
+      if (file.status === 'modified') file.status = 'deleted';
+    } else {
+      file.path = path;
+    }
+    return;
+  }
+
+  // Binary file without patch data: Binary files a/x and b/x differ
+  if (line.startsWith('Binary files ') && line.endsWith(' differ')) {
+    file.binary ??= emptyBinary(state);
+    return;
+  }
+
+  // Binary patch (--binary): literal/delta blocks follow
+  if (line === 'GIT binary patch') {
+    file.binary ??= emptyBinary(state);
+    state.binaryBlocks = 0;
+  }
+}
+
+/**
+ * Reads a line inside a `GIT binary patch`. The first block describes the
+ * new content and the second (reverse) block the old content; only
+ * `literal` blocks state the full size.
+ */
+function readBinaryPatchLine(state: FileState, line: string): void {
+  const blockMatch = line.match(/^(literal|delta) (\d+)$/);
+  if (!blockMatch || !state.file.binary || state.binaryBlocks === null) {
+    return;
+  }
+  if (blockMatch[1] === 'literal') {
+    const size = parseInt(blockMatch[2], 10);
+    if (state.binaryBlocks === 0) {
+      state.file.binary.newSize = size;
+    } else if (state.binaryBlocks === 1) {
+      state.file.binary.oldSize = size;
+    }
+  }
+  state.binaryBlocks++;
+}
+
+function emptyBinary(state: FileState): BinaryDiffInfo {
+  return {
+    oldOid: state.oids?.oldOid ?? null,
+    newOid: state.oids?.newOid ?? null,
+    oldSize: null,
+    newSize: null,
+    sizeDelta: null,
+  };
+}
+
+/**
+ * Splits the paths of a `diff --git` header.
+ *
+ * Quoted paths are unambiguous. Unquoted paths may contain spaces, so
+ * `a/x y b/x y` is split symmetrically when both sides are equal (the only
+ * case where git relies on this header alone); otherwise the first ` b/`
+ * is used and later `---`/`+++` or rename headers correct the paths.
+ */
+function parseGitHeaderPaths(rest: string): { oldName: string | null; newName: string } {
+  let oldRaw: string;
+  let newRaw: string;
+
+  if (rest.startsWith('"')) {
+    const quoted = readQuoted(rest, 0);
+    oldRaw = quoted.value;
+    newRaw = readPathToken(rest.slice(quoted.end).replace(/^ /, ''));
+  } else if (rest.endsWith('"') && rest.includes(' "')) {
+    // An unquoted path never contains '"' (it would have been quoted)
+    const split = rest.indexOf(' "');
+    oldRaw = rest.slice(0, split);
+    newRaw = readQuoted(rest, split + 1).value;
+  } else {
+    const half = (rest.length - 1) / 2;
+    if (
+      Number.isInteger(half) &&
+      rest[half] === ' ' &&
+      rest.slice(2, half) === rest.slice(half + 3) &&
+      rest.startsWith('a/') &&
+      rest.slice(half + 1).startsWith('b/')
+    ) {
+      oldRaw = rest.slice(0, half);
+      newRaw = rest.slice(half + 1);
+    } else {
+      const split = rest.indexOf(' b/');
+      oldRaw = split === -1 ? rest : rest.slice(0, split);
+      newRaw = split === -1 ? rest : rest.slice(split + 1);
+    }
+  }
+
+  return {
+    oldName: decodeBytes(stripPrefix(oldRaw, 'a/')).text,
+    newName: decodeBytes(stripPrefix(newRaw, 'b/')).text,
+  };
+}
+
+/**
+ * Parses the path on a `---`/`+++` line; null for /dev/null.
+ */
+function parseFileLinePath(value: string): string | null {
+  if (value.startsWith('"')) {
+    return decodeBytes(stripPrefix(readQuoted(value, 0).value, 'a/', 'b/')).text;
+  }
+  // Git appends a tab after unquoted paths containing spaces; plain diff
+  // appends a tab and a timestamp
+  const tab = value.indexOf('\t');
+  const raw = tab === -1 ? value : value.slice(0, tab);
+  if (raw === NULL_PATH) {
+    return null;
+  }
+  return decodeBytes(stripPrefix(raw, 'a/', 'b/')).text;
+}
+
+/**
+ * Decodes a path from a `rename from`/`copy to` style header (no prefix).
+ */
+function decodePath(raw: string): string {
+  return decodeBytes(readPathToken(raw)).text;
+}
+
+/**
+ * Returns the bytes of a single path token, unquoting it if quoted.
+ */
+function readPathToken(raw: string): string {
+  return raw.startsWith('"') ? readQuoted(raw, 0).value : raw;
+}
+
+/**
+ * Reads a C-quoted string starting at `start` (which must be '"').
+ * Returns the unescaped bytes (as Latin-1 characters) and the index after
+ * the closing quote. An unterminated string runs to the end of the input.
+ */
+function readQuoted(text: string, start: number): { value: string; end: number } {
+  let value = '';
+  let i = start + 1;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '"') {
+      return { value, end: i + 1 };
+    }
+    if (char !== '\\' || i + 1 >= text.length) {
+      value += char;
+      i++;
+      continue;
+    }
+
+    const next = text[i + 1];
+    const octal = text.slice(i + 1, i + 4);
+    if (/^[0-3][0-7]{2}$/.test(octal)) {
+      value += String.fromCharCode(parseInt(octal, 8));
+      i += 4;
+    } else if (next in C_ESCAPES) {
+      value += String.fromCharCode(C_ESCAPES[next]);
+      i += 2;
+    } else {
+      value += next;
+      i += 2;
+    }
+  }
+
+  return { value, end: text.length };
+}
+
+/**
+ * Returns the input's bytes as a Latin-1 string (one character per byte), so
+ * quoted octal escapes and raw UTF-8 sequences decode the same way.
+ */
+function toByteString(input: string | Uint8Array): string {
+  return typeof input === 'string'
+    ? Buffer.from(input, 'utf-8').toString('latin1')
+    : Buffer.from(input.buffer, input.byteOffset, input.byteLength).toString('latin1');
+}
+
+function stripPrefix(path: string, ...prefixes: string[]): string {
+  for (const prefix of prefixes) {
+    if (path.startsWith(prefix)) {
+      return path.slice(prefix.length);
+    }
+  }
+  return path;
+}
+
+function stripCr(line: string): string {
+  return line.endsWith('\r') ? line.slice(0, -1) : line;
+}
+
+/**
+ * Decodes bytes (held as Latin-1 characters) as UTF-8, falling back to
+ * Latin-1 when they are not valid UTF-8.
+ */
+function decodeBytes(bytes: string): DecodedText {
+  // ASCII needs no decoding
+  if (!/[\x80-\xff]/.test(bytes)) {
+    return { text: bytes, utf8: true };
+  }
+  try {
+    return { text: utf8Decoder.decode(Buffer.from(bytes, 'latin1')), utf8: true };
+  } catch {
+    return { text: bytes, utf8: false };
+  }
+}
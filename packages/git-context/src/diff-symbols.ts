@@ -0,0 +1,566 @@
+/**
+ * Symbol-level diff summaries for TypeScript files.
+ *
+ * Parses the old and new version of each changed `.ts`/`.tsx` file with the
+ * TypeScript compiler API and reports which exported functions, classes,
+ * interfaces, types, enums, React components and Zod schemas were added,
+ * removed, or changed. A review agent gets the shape of a change in a fraction
+ * of the tokens of the raw hunks.
+ *
+ * @module diff-symbols
+ */
+
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import ts from 'typescript';
+import { execGitSafe, execGitSafeDetailed } from './exec-safe.js';
+import { getMergeBase } from './git-compare.js';
+import { detectSecrets, SECRET_REDACTION } from './secret-scan.js';
+import type {
+  DiffFile,
+  DiffSymbolOptions,
+  DiffSymbolSummary,
+  ExportedSymbol,
+  FileSymbolChanges,
+  ParsedDiff,
+  SymbolChange,
+} from './types.js';
+import { diffSymbolOptionsSchema } from './validators.js';
+
+/**
+ * TypeScript source extensions (declaration files included).
+ */
+const TYPESCRIPT_FILE = /\.[cm]?tsx?$/;
+
+/**
+ * Longest signature kept in the summary; longer ones are truncated.
+ */
+const MAX_SIGNATURE_LENGTH = 300;
+
+/**
+ * Wrappers whose function argument is a React component.
+ */
+const COMPONENT_WRAPPERS = new Set(['memo', 'forwardRef', 'React.memo', 'React.forwardRef']);
+
+/**
+ * Where one side of the diff is read from.
+ */
+type FileSource = { revision: string } | 'index' | 'worktree';
+
+/**
+ * Exported symbol plus the full declaration text, used to detect body changes.
+ */
+interface ParsedSymbol extends ExportedSymbol {
+  text: string;
+}
+
+/**
+ * Summarizes a diff as changes to exported TypeScript symbols.
+ *
+ * For every changed TypeScript file, the old and new versions are read from
+ * git (or the working tree) and parsed with the TypeScript compiler API.
+ * Exported symbols are matched by name:
+ * - `added` / `removed`: the export exists on one side only
+ * - `signature-changed`: parameters, return type, members, or type shape changed
+ * - `modified`: only the body or initializer changed
+ *
+ * Pass the same comparison options used to produce the diff. Files without
+ * exported symbol changes, submodules and non-TypeScript files are omitted.
+ *
+ * @param parsedDiff - Unsanitized diff from getParsedDiff() (paths are read from disk)
+ * @param options - Comparison the diff was produced with, plus `sanitize` and `cwd`
+ * @returns Symbol changes per file and overall counts
+ * @throws {ZodError} If options fail validation
+ * @throws {Error} If not in a git repository or the merge base cannot be found
+ *
+ * @example
+ * ```typescript
+ * const summary = summarizeDiffSymbols(getParsedDiff({ staged: true }), { staged: true });
+ * for (const file of summary.files) {
+ *   for (const change of file.changes) {
+ *     console.log(`${file.path}: ${change.change} ${change.kind} ${change.name}`);
+ *   }
+ * }
+ * ```
+ */
+export function summarizeDiffSymbols(
+  parsedDiff: ParsedDiff,
+  options?: DiffSymbolOptions
+): DiffSymbolSummary {
+  const validatedOptions = diffSymbolOptionsSchema.parse(options);
+  const sanitize = validatedOptions?.sanitize ?? true;
+  const exec = { cwd: validatedOptions?.cwd };
+
+  const summary: DiffSymbolSummary = {
+    files: [],
+    stats: { added: 0, removed: 0, signatureChanged: 0, modified: 0 },
+  };
+
+  const files = parsedDiff.files.filter(
+    (file) =>
+      !file.submodule &&
+      (TYPESCRIPT_FILE.test(file.path) || TYPESCRIPT_FILE.test(file.oldPath ?? ''))
+  );
+  if (files.length === 0) {
+    return summary;
+  }
+
+  const root = execGitSafe(['rev-parse', '--show-toplevel'], exec).trim();
+  const [oldSource, newSource] = resolveSources(validatedOptions, exec);
+
+  for (const file of files) {
+    const oldPath = file.oldPath ?? file.path;
+    const oldText = file.status === 'added' ? null : readSource(oldSource, oldPath, root);
+    const newText = file.status === 'deleted' ? null : readSource(newSource, file.path, root);
+
+    const changes = compareSymbols(
+      oldText === null ? [] : parseSymbols(oldText, oldPath),
+      newText === null ? [] : parseSymbols(newText, file.path)
+    );
+    if (changes.length === 0) continue;
+
+    summary.files.push(toFileChanges(file, sanitize ? changes.map(redactChange) : changes));
+    for (const { change } of changes) {
+      if (change === 'signature-changed') summary.stats.signatureChanged++;
+      else summary.stats[change]++;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Lists the exported symbols declared in a TypeScript source file.
+ *
+ * Covers `export` declarations, `export default`, and local `export { a as b }`
+ * lists. Re-exports from other modules (`export * from`, `export { x } from`)
+ * are not declared here and are skipped.
+ *
+ * @param source - File contents
+ * @param fileName - File name; the extension selects TS or TSX parsing
+ * @returns Exported symbols in declaration order
+ *
+ * @example
+ * ```typescript
+ * extractExportedSymbols('export const add = (a: number, b: number) => a + b;', 'math.ts');
+ * // [{ name: 'add', kind: 'function', signature: 'const add = (a: number, b: number) =>', line: 1 }]
+ * ```
+ */
+export function extractExportedSymbols(source: string, fileName: string): ExportedSymbol[] {
+  return parseSymbols(source, fileName).map(({ text, ...symbol }) => ({
+    ...symbol,
+    signature: truncate(symbol.signature),
+  }));
+}
+
+/**
+ * Maps the diff comparison to the sources of its old and new sides.
+ */
+function resolveSources(
+  options: DiffSymbolOptions | undefined,
+  exec: { cwd?: string }
+): [FileSource, FileSource] {
+  const { commitA, commitB } = options ?? {};
+
+  if (commitA && commitB) {
+    const base = options?.fromMergeBase ? getMergeBase(commitA, commitB, exec) : commitA;
+    if (!base) {
+      throw new Error(`No merge base between ${commitA} and ${commitB}`);
+    }
+    return [{ revision: base }, { revision: commitB }];
+  }
+  if (commitA) {
+    return [{ revision: commitA }, 'worktree'];
+  }
+  if (options?.staged) {
+    return [{ revision: 'HEAD' }, 'index'];
+  }
+  return ['index', 'worktree'];
+}
+
+/**
+ * Reads one version of a file, or null if it does not exist there.
+ */
+function readSource(source: FileSource, filePath: string, root: string): string | null {
+  if (source === 'worktree') {
+    try {
+      return readFileSync(path.join(root, filePath), 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+
+  // `<rev>:<path>` and `:<path>` (index) are relative to the repository root
+  const object = source === 'index' ? `:${filePath}` : `${source.revision}:${filePath}`;
+  const result = execGitSafeDetailed(['cat-file', 'blob', object], { cwd: root });
+  return result.exitCode === 0 ? result.stdout : null;
+}
+
+/**
+ * Matches symbols by exported name and classifies each difference.
+ */
+function compareSymbols(oldSymbols: ParsedSymbol[], newSymbols: ParsedSymbol[]): SymbolChange[] {
+  const oldByName = new Map(oldSymbols.map((symbol) => [symbol.name, symbol]));
+  const newNames = new Set(newSymbols.map((symbol) => symbol.name));
+  const changes: SymbolChange[] = [];
+
+  // Signatures are compared in full and truncated only for output
+  for (const symbol of newSymbols) {
+    const previous = oldByName.get(symbol.name);
+    const base = { name: symbol.name, kind: symbol.kind, line: symbol.line };
+    const newSignature = truncate(symbol.signature);
+
+    if (!previous) {
+      changes.push({ ...base, change: 'added', oldSignature: null, newSignature });
+    } else if (previous.signature !== symbol.signature || previous.kind !== symbol.kind) {
+      changes.push({
+        ...base,
+        change: 'signature-changed',
+        oldSignature: truncate(previous.signature),
+        newSignature,
+      });
+    } else if (previous.text !== symbol.text) {
+      changes.push({ ...base, change: 'modified', oldSignature: null, newSignature });
+    }
+  }
+
+  for (const symbol of oldSymbols) {
+    if (newNames.has(symbol.name)) continue;
+    changes.push({
+      name: symbol.name,
+      kind: symbol.kind,
+      change: 'removed',
+      oldSignature: truncate(symbol.signature),
+      newSignature: null,
+      line: symbol.line,
+    });
+  }
+
+  return changes;
+}
+
+function toFileChanges(file: DiffFile, changes: SymbolChange[]): FileSymbolChanges {
+  return { path: file.path, oldPath: file.oldPath, status: file.status, changes };
+}
+
+/**
+ * Replaces signatures that contain secrets (e.g., a Zod schema default).
+ */
+function redactChange(change: SymbolChange): SymbolChange {
+  const redact = (signature: string | null) =>
+    signature && detectSecrets(signature).length > 0 ? SECRET_REDACTION : signature;
+
+  return {
+    ...change,
+    oldSignature: redact(change.oldSignature),
+    newSignature: redact(change.newSignature),
+  };
+}
+
+/**
+ * Parses a source file and collects its exported symbols.
+ */
+function parseSymbols(source: string, fileName: string): ParsedSymbol[] {
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+    fileName.endsWith('x') ? ts.ScriptKind.TSX : ts.ScriptKind.TS
+  );
+
+  // Top-level declarations by local name (functions may be overloaded)
+  const locals = new Map<string, ts.Node[]>();
+  const declare = (name: string, node: ts.Node) => {
+    locals.set(name, [...(locals.get(name) ?? []), node]);
+  };
+  for (const statement of sourceFile.statements) {
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) declare(declaration.name.text, declaration);
+      }
+    } else if (isNamedDeclaration(statement) && statement.name) {
+      declare(statement.name.text, statement);
+    }
+  }
+
+  const symbols = new Map<string, ParsedSymbol>();
+  const exportNodes = (name: string, nodes: ts.Node[]) => {
+    const symbol = describe(name, nodes, sourceFile);
+    if (symbol && !symbols.has(name)) symbols.set(name, symbol);
+  };
+
+  for (const statement of sourceFile.statements) {
+    const modifiers = ts.canHaveModifiers(statement) ? ts.getModifiers(statement) : undefined;
+    const exported = modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword);
+    const isDefault = modifiers?.some((m) => m.kind === ts.SyntaxKind.DefaultKeyword);
+
+    if (exported && ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) exportNodes(declaration.name.text, [declaration]);
+      }
+    } else if (exported && isNamedDeclaration(statement)) {
+      const localName = statement.name?.text;
+      const nodes = localName ? (locals.get(localName) ?? [statement]) : [statement];
+      exportNodes(isDefault ? 'default' : (localName ?? 'default'), nodes);
+    } else if (
+      ts.isExportDeclaration(statement) &&
+      !statement.moduleSpecifier &&
+      statement.exportClause &&
+      ts.isNamedExports(statement.exportClause)
+    ) {
+      for (const specifier of statement.exportClause.elements) {
+        const nodes = locals.get((specifier.propertyName ?? specifier.name).text);
+        if (nodes) exportNodes(specifier.name.text, nodes);
+      }
+    } else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      const { expression } = statement;
+      const nodes = ts.isIdentifier(expression) ? locals.get(expression.text) : [statement];
+      if (nodes) exportNodes('default', nodes);
+    }
+  }
+
+  return [...symbols.values()].sort((a, b) => a.line - b.line);
+}
+
+type NamedDeclaration =
+  | ts.FunctionDeclaration
+  | ts.ClassDeclaration
+  | ts.InterfaceDeclaration
+  | ts.TypeAliasDeclaration
+  | ts.EnumDeclaration;
+
+function isNamedDeclaration(node: ts.Node): node is NamedDeclaration {
+  return (
+    ts.isFunctionDeclaration(node) ||
+    ts.isClassDeclaration(node) ||
+    ts.isInterfaceDeclaration(node) ||
+    ts.isTypeAliasDeclaration(node) ||
+    ts.isEnumDeclaration(node)
+  );
+}
+
+/**
+ * Builds the symbol for an exported name from its declaration node(s).
+ */
+function describe(name: string, nodes: ts.Node[], sourceFile: ts.SourceFile): ParsedSymbol | null {
+  const [first] = nodes;
+  const text = nodes.map((node) => normalize(node.getText(sourceFile))).join('\n');
+  const line = sourceFile.getLineAndCharacterOfPosition(first.getStart(sourceFile)).line + 1;
+  const symbol = (kind: ExportedSymbol['kind'], signature: string): ParsedSymbol => ({
+    name,
+    kind,
+    signature,
+    line,
+    text,
+  });
+
+  if (ts.isFunctionDeclaration(first)) {
+    // Overload signatures describe the API; the implementation signature is hidden
+    const functions = nodes.filter(ts.isFunctionDeclaration);
+    const overloads = functions.filter((node) => !node.body);
+    const signature = (overloads.length > 0 ? overloads : functions)
+      .map((node) => textBefore(node, node.body, sourceFile))
+      .join('; ');
+    return symbol(
+      isComponent(first.name?.text ?? name, first) ? 'component' : 'function',
+      signature
+    );
+  }
+  if (ts.isClassDeclaration(first)) {
+    return symbol('class', classSignature(first, sourceFile));
+  }
+  if (ts.isInterfaceDeclaration(first)) {
+    return symbol('interface', textBefore(first, undefined, sourceFile));
+  }
+  if (ts.isTypeAliasDeclaration(first)) {
+    return symbol('type', textBefore(first, undefined, sourceFile));
+  }
+  if (ts.isEnumDeclaration(first)) {
+    return symbol('enum', textBefore(first, undefined, sourceFile));
+  }
+  if (ts.isVariableDeclaration(first)) {
+    return describeVariable(first, symbol, sourceFile);
+  }
+  if (ts.isExportAssignment(first)) {
+    const fn = unwrapFunction(first.expression);
+    if (!fn) return null;
+    return symbol(
+      isComponent(name, first.expression) ? 'component' : 'function',
+      `export default ${textBefore(fn, fn.body, sourceFile)}`
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Describes an exported variable: function, component, schema, or plain value.
+ */
+function describeVariable(
+  declaration: ts.VariableDeclaration,
+  symbol: (kind: ExportedSymbol['kind'], signature: string) => ParsedSymbol,
+  sourceFile: ts.SourceFile
+): ParsedSymbol {
+  const keyword = declaration.parent.flags & ts.NodeFlags.Const ? 'const' : 'let';
+  const name = declaration.name.getText(sourceFile);
+  const type = declaration.type ? `: ${normalize(declaration.type.getText(sourceFile))}` : '';
+  const initializer = declaration.initializer;
+
+  const fn = initializer && unwrapFunction(initializer);
+  if (initializer && fn) {
+    const kind = isComponent(name, initializer) ? 'component' : 'function';
+    return symbol(kind, `${keyword} ${name}${type} = ${textBefore(fn, fn.body, sourceFile)}`);
+  }
+
+  // A Zod schema's shape is its signature
+  if (initializer && isZodSchema(initializer)) {
+    return symbol(
+      'schema',
+      `${keyword} ${name}${type} = ${normalize(initializer.getText(sourceFile))}`
+    );
+  }
+
+  // Without an annotation the initializer determines the type
+  const value = type || !initializer ? '' : ` = ${normalize(initializer.getText(sourceFile))}`;
+  return symbol('variable', `${keyword} ${name}${type}${value}`);
+}
+
+/**
+ * Class header plus the signatures of its non-private members.
+ */
+function classSignature(node: ts.ClassDeclaration, sourceFile: ts.SourceFile): string {
+  // members.pos is just past the opening brace
+  const header = normalize(
+    sourceFile.text.slice(declarationStart(node, sourceFile), node.members.pos - 1)
+  );
+
+  const members = node.members
+    .filter(
+      (member) =>
+        !(member.name && ts.isPrivateIdentifier(member.name)) &&
+        !(
+          ts.canHaveModifiers(member) &&
+          ts.getModifiers(member)?.some((m) => m.kind === ts.SyntaxKind.PrivateKeyword)
+        )
+    )
+    .map((member) => {
+      if (ts.isPropertyDeclaration(member)) {
+        return textBefore(member, member.initializer, sourceFile).replace(/\s*=$/, '');
+      }
+      if (
+        ts.isMethodDeclaration(member) ||
+        ts.isConstructorDeclaration(member) ||
+        ts.isGetAccessorDeclaration(member) ||
+        ts.isSetAccessorDeclaration(member)
+      ) {
+        return textBefore(member, member.body, sourceFile);
+      }
+      return null;
+    })
+    .filter((member) => member !== null);
+
+  return `${header} { ${members.join('; ')} }`.replace('{  }', '{}');
+}
+
+/**
+ * Declaration text from after any `export`/`default` modifiers up to `end`
+ * (the whole node if omitted), whitespace-collapsed and without a trailing `;`.
+ */
+function textBefore(node: ts.Node, end: ts.Node | undefined, sourceFile: ts.SourceFile): string {
+  const text = sourceFile.text.slice(
+    declarationStart(node, sourceFile),
+    end ? end.getStart(sourceFile) : node.getEnd()
+  );
+  return normalize(text).replace(/;$/, '');
+}
+
+function declarationStart(node: ts.Node, sourceFile: ts.SourceFile): number {
+  const modifiers = ts.canHaveModifiers(node) ? (ts.getModifiers(node) ?? []) : [];
+  const exportModifiers = modifiers.filter(
+    (m) => m.kind === ts.SyntaxKind.ExportKeyword || m.kind === ts.SyntaxKind.DefaultKeyword
+  );
+  if (ts.isExportAssignment(node)) {
+    return node.expression.getStart(sourceFile);
+  }
+  return exportModifiers.length > 0
+    ? exportModifiers[exportModifiers.length - 1].getEnd()
+    : node.getStart(sourceFile);
+}
+
+/**
+ * Returns the function an expression defines, looking through
+ * `memo(...)`/`forwardRef(...)` wrappers and parentheses.
+ */
+function unwrapFunction(
+  expression: ts.Expression
+): ts.ArrowFunction | ts.FunctionExpression | null {
+  const inner = skipWrappers(expression);
+  if (ts.isArrowFunction(inner) || ts.isFunctionExpression(inner)) {
+    return inner;
+  }
+  if (ts.isCallExpression(inner) && COMPONENT_WRAPPERS.has(inner.expression.getText())) {
+    const [argument] = inner.arguments;
+    return argument ? unwrapFunction(argument) : null;
+  }
+  return null;
+}
+
+/**
+ * A React component is a PascalCase function that renders JSX, or a function
+ * wrapped in `memo`/`forwardRef`.
+ */
+function isComponent(name: string, node: ts.Node): boolean {
+  if (!/^[A-Z]/.test(name) && name !== 'default') return false;
+
+  const inner = ts.isExpression(node) ? skipWrappers(node) : node;
+  if (ts.isCallExpression(inner) && COMPONENT_WRAPPERS.has(inner.expression.getText())) {
+    return true;
+  }
+  return containsJsx(node);
+}
+
+function containsJsx(node: ts.Node): boolean {
+  if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node)) {
+    return true;
+  }
+  return ts.forEachChild(node, containsJsx) ?? false;
+}
+
+/**
+ * True for call chains rooted at `z` (e.g., `z.object({ ... }).strict()`).
+ */
+function isZodSchema(expression: ts.Expression): boolean {
+  let current: ts.Expression = skipWrappers(expression);
+  while (ts.isCallExpression(current) || ts.isPropertyAccessExpression(current)) {
+    current = current.expression;
+  }
+  return ts.isIdentifier(current) && current.text === 'z' && current !== expression;
+}
+
+/**
+ * Looks through parentheses, `as`, `satisfies` and `!` around an expression.
+ */
+function skipWrappers(expression: ts.Expression): ts.Expression {
+  let current = expression;
+  while (
+    ts.isParenthesizedExpression(current) ||
+    ts.isAsExpression(current) ||
+    ts.isSatisfiesExpression(current) ||
+    ts.isNonNullExpression(current) ||
+    ts.isTypeAssertionExpression(current)
+  ) {
+    current = current.expression;
+  }
+  return current;
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function truncate(signature: string): string {
+  return signature.length > MAX_SIGNATURE_LENGTH
+    ? `${signature.slice(0, MAX_SIGNATURE_LENGTH - 1)}…`
+    : signature;
+}
@@ -11,7 +11,7 @@
  * @module exec-safe
  */
 
-import { spawnSync } from 'node:child_process';
+import { spawn, spawnSync } from 'node:child_process';
 import { gitArgsSchema } from './validators.js';
 
 /**
@@ -26,6 +26,42 @@ export interface GitCommandResult {
   exitCode: number;
 }
 
+/**
+ * Options for git command execution.
+ */
+export interface GitExecOptions {
+  /** Working directory (defaults to process.cwd()) */
+  cwd?: string;
+}
+
+/**
+ * Options for asynchronous git command execution.
+ */
+export interface GitAsyncExecOptions extends GitExecOptions {
+  /** Aborts the command and kills the git process when signalled */
+  signal?: AbortSignal;
+  /** Kills the git process if it runs longer than this many milliseconds */
+  timeoutMs?: number;
+}
+
+/**
+ * Output decoding options for git command execution.
+ */
+export interface GitOutputOptions {
+  /**
+   * Encoding used to decode stdout. 'latin1' maps each byte to one character,
+   * so callers can recover the raw bytes of output that is not valid UTF-8
+   * (e.g., with `Buffer.from(stdout, 'latin1')`).
+   * @default 'utf-8'
+   */
+  encoding?: 'utf-8' | 'latin1';
+}
+
+/**
+ * Maximum combined output size accepted from a single git command (10MB).
+ */
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+
 /**
  * Git commands that support the -- separator for file paths.
  * Only these commands should have -- inserted before file arguments.
@@ -44,6 +80,39 @@ const GIT_COMMANDS_SUPPORTING_SEPARATOR = new Set([
   'blame',
 ]);
 
+/**
+ * Validates git arguments and inserts the -- separator where supported.
+ *
+ * Only commands in GIT_COMMANDS_SUPPORTING_SEPARATOR get a separator, inserted
+ * before the first non-flag argument after the subcommand. Callers that pass
+ * revisions (e.g. `main..HEAD`) must place an explicit -- after them; an
+ * explicit separator is respected and no second one is inserted.
+ */
+function buildFinalArgs(args: string[]): string[] {
+  // Validate all arguments (blocks shell metacharacters, path traversal, etc.)
+  const validated = gitArgsSchema.parse(args);
+
+  // Only add -- for commands that support it (e.g., diff, log, show)
+  const subcommand = validated[0];
+  if (!subcommand || !GIT_COMMANDS_SUPPORTING_SEPARATOR.has(subcommand)) {
+    return validated;
+  }
+
+  // Caller already separated revisions from paths
+  if (validated.includes('--')) {
+    return validated;
+  }
+
+  // Find where to insert -- (after all flags, before file paths)
+  const firstFileIndex = validated.findIndex((arg, i) => i > 0 && !arg.startsWith('-'));
+  if (firstFileIndex < 0) {
+    // No file arguments found, use validated args as-is
+    return validated;
+  }
+
+  return [...validated.slice(0, firstFileIndex), '--', ...validated.slice(firstFileIndex)];
+}
+
 /**
  * Executes a git command safely with validation and security hardening.
  *
@@ -73,40 +142,23 @@ const GIT_COMMANDS_SUPPORTING_SEPARATOR = new Set([
  *
  * @example
  * ```typescript
- * // For commands like 'diff', -- separator is added automatically
- * execGitSafe(['diff', 'HEAD', 'file.ts']); // Becomes: git diff HEAD -- file.ts
+ * // For commands like 'diff', -- separator is added before the first non-flag argument
+ * execGitSafe(['diff', '--cached', 'file.ts']); // Becomes: git diff --cached -- file.ts
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Revisions must be followed by an explicit -- so they are not treated as paths
+ * execGitSafe(['diff', 'HEAD~1', '--', 'file.ts']); // Passed through unchanged
  * ```
  */
 export function execGitSafe(
   args: string[],
-  options?: {
-    cwd?: string;
-    allowNonZeroExit?: boolean;
-  }
+  options?: GitExecOptions & GitOutputOptions & { allowNonZeroExit?: boolean }
 ): string {
   // Validate all arguments (blocks shell metacharacters, path traversal, etc.)
-  const validated = gitArgsSchema.parse(args);
-
-  // Determine if we should add -- separator
-  // Only add it for commands that support it (e.g., diff, log, show)
-  const subcommand = validated[0];
-  const needsSeparator = subcommand && GIT_COMMANDS_SUPPORTING_SEPARATOR.has(subcommand);
-
-  // Build final args array
-  let finalArgs: string[];
-  if (needsSeparator) {
-    // Find where to insert -- (after all flags, before file paths)
-    const firstFileIndex = validated.findIndex((arg, i) => i > 0 && !arg.startsWith('-'));
-    if (firstFileIndex > 0) {
-      // Insert -- before the first non-flag argument after subcommand
-      finalArgs = [...validated.slice(0, firstFileIndex), '--', ...validated.slice(firstFileIndex)];
-    } else {
-      // No file arguments found, use validated args as-is
-      finalArgs = validated;
-    }
-  } else {
-    finalArgs = validated;
-  }
+  // and insert the -- separator where the subcommand supports it
+  const finalArgs = buildFinalArgs(args);
 
   // Execute git with security hardening:
   // - shell: false prevents command injection (e.g., "; rm -rf /")
@@ -115,8 +167,7 @@ export function execGitSafe(
   // - maxBuffer prevents DoS via large outputs
   const result = spawnSync('git', finalArgs, {
     shell: false, // CRITICAL: never set to true
-    encoding: 'utf-8',
-    maxBuffer: 10 * 1024 * 1024, // 10MB
+    maxBuffer: MAX_OUTPUT_BYTES, // 10MB
     cwd: options?.cwd ?? process.cwd(),
   });
 
@@ -127,13 +178,13 @@ export function execGitSafe(
 
   // Handle non-zero exit codes (unless explicitly allowed)
   if (result.status !== 0 && !options?.allowNonZeroExit) {
-    const sanitizedStderr = sanitizeError(result.stderr);
+    const sanitizedStderr = sanitizeError(result.stderr.toString('utf-8'));
     throw new Error(
       `Git command failed with exit code ${result.status}: ${sanitizedStderr.trim() || 'No error message'}`
     );
   }
 
-  return result.stdout;
+  return result.stdout.toString(options?.encoding ?? 'utf-8');
 }
 
 /**
@@ -156,34 +207,15 @@ export function execGitSafe(
  */
 export function execGitSafeDetailed(
   args: string[],
-  options?: {
-    cwd?: string;
-  }
+  options?: GitExecOptions & GitOutputOptions
 ): GitCommandResult {
-  // Validate all arguments
-  const validated = gitArgsSchema.parse(args);
-
-  // Determine if we should add -- separator (same logic as execGitSafe)
-  const subcommand = validated[0];
-  const needsSeparator = subcommand && GIT_COMMANDS_SUPPORTING_SEPARATOR.has(subcommand);
-
-  let finalArgs: string[];
-  if (needsSeparator) {
-    const firstFileIndex = validated.findIndex((arg, i) => i > 0 && !arg.startsWith('-'));
-    if (firstFileIndex > 0) {
-      finalArgs = [...validated.slice(0, firstFileIndex), '--', ...validated.slice(firstFileIndex)];
-    } else {
-      finalArgs = validated;
-    }
-  } else {
-    finalArgs = validated;
-  }
+  // Validate all arguments and add -- separator (same logic as execGitSafe)
+  const finalArgs = buildFinalArgs(args);
 
   // Execute git with security hardening
   const result = spawnSync('git', finalArgs, {
     shell: false,
-    encoding: 'utf-8',
-    maxBuffer: 10 * 1024 * 1024, // 10MB
+    maxBuffer: MAX_OUTPUT_BYTES, // 10MB
     cwd: options?.cwd ?? process.cwd(),
   });
 
@@ -193,12 +225,152 @@ export function execGitSafeDetailed(
   }
 
   return {
-    stdout: result.stdout,
-    stderr: sanitizeError(result.stderr),
+    stdout: result.stdout.toString(options?.encoding ?? 'utf-8'),
+    stderr: sanitizeError(result.stderr.toString('utf-8')),
     exitCode: result.status ?? -1,
   };
 }
 
+/**
+ * Executes a git command asynchronously without blocking the event loop.
+ *
+ * Async sibling of execGitSafe with the same validation, -- separator handling,
+ * error sanitization and 10MB output limit. The git process is killed when the
+ * AbortSignal fires or the timeout elapses.
+ *
+ * @param args - Git command arguments (e.g., ['status', '--porcelain'])
+ * @param options - Optional execution options
+ * @returns Promise resolving to command output
+ * @throws {Error} If command fails, times out, is aborted, or validation fails
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * const output = await execGitSafeAsync(['status', '--porcelain'], {
+ *   signal: controller.signal,
+ *   timeoutMs: 200,
+ * });
+ * ```
+ */
+export async function execGitSafeAsync(
+  args: string[],
+  options?: GitAsyncExecOptions & GitOutputOptions & { allowNonZeroExit?: boolean }
+): Promise<string> {
+  const result = await execGitSafeDetailedAsync(args, options);
+
+  // Handle non-zero exit codes (unless explicitly allowed)
+  if (result.exitCode !== 0 && !options?.allowNonZeroExit) {
+    throw new Error(
+      `Git command failed with exit code ${result.exitCode}: ${result.stderr.trim() || 'No error message'}`
+    );
+  }
+
+  return result.stdout;
+}
+
+/**
+ * Executes a git command asynchronously and returns detailed result information.
+ * Async sibling of execGitSafeDetailed; non-zero exit codes do not reject.
+ *
+ * @param args - Git command arguments
+ * @param options - Optional execution options
+ * @returns Promise resolving to detailed command result
+ * @throws {Error} If the command cannot be spawned, times out, is aborted, or validation fails
+ *
+ * @example
+ * ```typescript
+ * const result = await execGitSafeDetailedAsync(['rev-parse', '--abbrev-ref', '@{u}']);
+ * if (result.exitCode !== 0) {
+ *   console.log('No upstream configured');
+ * }
+ * ```
+ */
+export function execGitSafeDetailedAsync(
+  args: string[],
+  options?: GitAsyncExecOptions & GitOutputOptions
+): Promise<GitCommandResult> {
+  // Validate synchronously so validation errors surface before spawning
+  let finalArgs: string[];
+  try {
+    finalArgs = buildFinalArgs(args);
+  } catch (error) {
+    return Promise.reject(error);
+  }
+
+  const signal = options?.signal;
+  const timeoutMs = options?.timeoutMs;
+
+  return new Promise<GitCommandResult>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Git command aborted'));
+      return;
+    }
+
+    // Same hardening as execGitSafe: shell: false, validated args
+    const child = spawn('git', finalArgs, {
+      shell: false, // CRITICAL: never set to true
+      cwd: options?.cwd ?? process.cwd(),
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    // Buffer raw chunks and decode once so multi-byte characters are never split
+    const stdoutChunks: Buffer[] = [];
+    const stderrChunks: Buffer[] = [];
+    let outputBytes = 0;
+    let settled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const settle = (finish: () => void) => {
+      if (settled) return;
+      settled = true;
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      finish();
+    };
+
+    const killWith = (message: string) => {
+      child.kill();
+      settle(() => reject(new Error(message)));
+    };
+
+    function onAbort() {
+      killWith('Git command aborted');
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    if (timeoutMs !== undefined) {
+      timer = setTimeout(() => killWith(`Git command timed out after ${timeoutMs}ms`), timeoutMs);
+    }
+
+    const collect = (chunks: Buffer[]) => (chunk: Buffer) => {
+      outputBytes += chunk.length;
+      if (outputBytes > MAX_OUTPUT_BYTES) {
+        killWith('Git command failed: output exceeded 10MB limit');
+        return;
+      }
+      chunks.push(chunk);
+    };
+
+    child.stdout.on('data', collect(stdoutChunks));
+    child.stderr.on('data', collect(stderrChunks));
+
+    // Handle spawn errors (e.g., git not found)
+    child.on('error', (error) => {
+      settle(() => reject(new Error(`Git command failed: ${sanitizeError(error.message)}`)));
+    });
+
+    child.on('close', (code) => {
+      settle(() =>
+        resolve({
+          stdout: Buffer.concat(stdoutChunks).toString(options?.encoding ?? 'utf-8'),
+          stderr: sanitizeError(Buffer.concat(stderrChunks).toString('utf-8')),
+          exitCode: code ?? -1,
+        })
+      );
+    });
+  });
+}
+
 /**
  * Sanitizes error messages to prevent information disclosure.
  *
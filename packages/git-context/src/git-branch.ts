@@ -4,7 +4,12 @@
  * @module git-branch
  */
 
-import { execGitSafe, execGitSafeDetailed } from './exec-safe.js';
+import {
+  execGitSafeDetailed,
+  execGitSafeDetailedAsync,
+  type GitAsyncExecOptions,
+  type GitExecOptions,
+} from './exec-safe.js';
 import type { BranchInfo } from './types.js';
 
 /**
@@ -17,6 +22,7 @@ import type { BranchInfo } from './types.js';
  *
  * Handles detached HEAD state gracefully (returns 'HEAD' as branch name).
  *
+ * @param options - Optional execution options (e.g., `cwd`)
  * @returns Current branch information
  *
  * @example
@@ -28,9 +34,11 @@ import type { BranchInfo } from './types.js';
  * console.log(branch.commitsBehind); // 0
  * ```
  */
-export function getCurrentBranch(): BranchInfo {
+export function getCurrentBranch(options?: GitExecOptions): BranchInfo {
+  const exec = { cwd: options?.cwd };
+
   // Get current branch name
-  const currentResult = execGitSafeDetailed(['branch', '--show-current']);
+  const currentResult = execGitSafeDetailed(['branch', '--show-current'], exec);
   const current = currentResult.stdout.trim() || 'HEAD'; // Detached HEAD returns empty string
 
   // Try to get upstream branch
@@ -41,19 +49,17 @@ export function getCurrentBranch(): BranchInfo {
 
   try {
     // Get upstream tracking branch (e.g., 'origin/main')
-    const upstreamResult = execGitSafeDetailed(['rev-parse', '--abbrev-ref', '@{u}']);
+    const upstreamResult = execGitSafeDetailed(['rev-parse', '--abbrev-ref', '@{u}'], exec);
 
     if (upstreamResult.exitCode === 0) {
       upstream = upstreamResult.stdout.trim();
       tracking = true;
 
       // Get ahead/behind counts
-      const countsResult = execGitSafeDetailed([
-        'rev-list',
-        '--left-right',
-        '--count',
-        `${upstream}...HEAD`,
-      ]);
+      const countsResult = execGitSafeDetailed(
+        ['rev-list', '--left-right', '--count', `${upstream}...HEAD`],
+        exec
+      );
 
       if (countsResult.exitCode === 0) {
         // Output format: "behind\tahead"
@@ -78,11 +84,62 @@ export function getCurrentBranch(): BranchInfo {
   };
 }
 
+/**
+ * Async sibling of getCurrentBranch.
+ *
+ * Looks up the branch name and upstream concurrently, then counts
+ * ahead/behind commits if an upstream is configured.
+ *
+ * @param options - Async execution options
+ * @returns Promise resolving to current branch information
+ * @throws {Error} If the command times out or is aborted
+ *
+ * @example
+ * ```typescript
+ * const branch = await getCurrentBranchAsync({ timeoutMs: 200 });
+ * console.log(branch.current); // 'main'
+ * ```
+ */
+export async function getCurrentBranchAsync(options?: GitAsyncExecOptions): Promise<BranchInfo> {
+  const [currentResult, upstreamResult] = await Promise.all([
+    execGitSafeDetailedAsync(['branch', '--show-current'], options),
+    execGitSafeDetailedAsync(['rev-parse', '--abbrev-ref', '@{u}'], options),
+  ]);
+
+  const current = currentResult.stdout.trim() || 'HEAD'; // Detached HEAD returns empty string
+
+  // No upstream configured - not tracking
+  if (upstreamResult.exitCode !== 0) {
+    return { current, upstream: null, tracking: false, commitsBehind: 0, commitsAhead: 0 };
+  }
+
+  const upstream = upstreamResult.stdout.trim();
+  let commitsAhead = 0;
+  let commitsBehind = 0;
+
+  const countsResult = await execGitSafeDetailedAsync(
+    ['rev-list', '--left-right', '--count', `${upstream}...HEAD`],
+    options
+  );
+
+  if (countsResult.exitCode === 0) {
+    // Output format: "behind\tahead"
+    const counts = countsResult.stdout.trim().split(/\s+/);
+    if (counts.length === 2) {
+      commitsBehind = parseInt(counts[0], 10) || 0;
+      commitsAhead = parseInt(counts[1], 10) || 0;
+    }
+  }
+
+  return { current, upstream, tracking: true, commitsBehind, commitsAhead };
+}
+
 /**
  * Gets the name of the current branch.
  *
  * Convenience function that returns just the branch name.
  *
+ * @param options - Optional execution options (e.g., `cwd`)
  * @returns Branch name (e.g., 'main', 'feature/foo')
  *
  * @example
@@ -91,13 +148,14 @@ export function getCurrentBranch(): BranchInfo {
  * console.log(`On branch: ${branchName}`);
  * ```
  */
-export function getCurrentBranchName(): string {
-  return getCurrentBranch().current;
+export function getCurrentBranchName(options?: GitExecOptions): string {
+  return getCurrentBranch(options).current;
 }
 
 /**
  * Checks if the current branch is tracking an upstream branch.
  *
+ * @param options - Optional execution options (e.g., `cwd`)
  * @returns True if tracking remote, false otherwise
  *
  * @example
@@ -107,13 +165,14 @@ export function getCurrentBranchName(): string {
  * }
  * ```
  */
-export function isTrackingUpstream(): boolean {
-  return getCurrentBranch().tracking;
+export function isTrackingUpstream(options?: GitExecOptions): boolean {
+  return getCurrentBranch(options).tracking;
 }
 
 /**
  * Gets the upstream tracking branch name if configured.
  *
+ * @param options - Optional execution options (e.g., `cwd`)
  * @returns Upstream branch name (e.g., 'origin/main') or null if not tracking
  *
  * @example
@@ -126,6 +185,6 @@ export function isTrackingUpstream(): boolean {
  * }
  * ```
  */
-export function getUpstreamBranch(): string | null {
-  return getCurrentBranch().upstream;
+export function getUpstreamBranch(options?: GitExecOptions): string | null {
+  return getCurrentBranch(options).upstream;
 }
@@ -0,0 +1,260 @@
+/**
+ * Branch comparison for code review: merge base, PR-range diff and commit range.
+ *
+ * @module git-compare
+ */
+
+import { execGitSafe, execGitSafeDetailed, type GitExecOptions } from './exec-safe.js';
+import { getParsedDiff } from './git-diff.js';
+import { getRecentCommits } from './git-log.js';
+import type {
+  BranchCommit,
+  BranchComparison,
+  BranchComparisonOptions,
+  CommitFileChange,
+} from './types.js';
+import { branchComparisonOptionsSchema, gitRefSchema } from './validators.js';
+
+/**
+ * Marks the start of each commit in `git log --name-status` output.
+ */
+const COMMIT_MARKER = '\x1F'; // ASCII Unit Separator
+
+/**
+ * Compares a head branch against its base, like a pull request.
+ *
+ * **Includes:**
+ * - Merge base of base and head
+ * - Commits ahead/behind base
+ * - Commits unique to head, each with the files it touched
+ * - Three-dot diff (`base...head`): only the changes made on head
+ *
+ * @param options - Optional configuration (base defaults to origin's default branch)
+ * @returns Branch comparison
+ * @throws {ZodError} If base or head is not a valid ref
+ * @throws {Error} If no base is given and none can be detected, or a ref does not exist
+ *
+ * @example
+ * ```typescript
+ * const comparison = getBranchComparison({ base: 'main', head: 'HEAD' });
+ * console.log(`Merge base: ${comparison.mergeBase}`);
+ * console.log(`${comparison.commitsAhead} commits, ${comparison.diff.stats.filesChanged} files`);
+ * for (const commit of comparison.commits) {
+ *   console.log(`${commit.shortHash} ${commit.subject} (${commit.files.length} files)`);
+ * }
+ * ```
+ */
+export function getBranchComparison(options?: BranchComparisonOptions): BranchComparison {
+  const validatedOptions = options ? branchComparisonOptionsSchema.parse(options) : undefined;
+
+  const exec = { cwd: validatedOptions?.cwd };
+  const head = validatedOptions?.head ?? 'HEAD';
+  const base = validatedOptions?.base ?? detectBaseBranch(exec);
+  const maxCommits = validatedOptions?.maxCommits ?? 100;
+  const diffContext = validatedOptions?.diffContext ?? 3;
+  const sanitize = validatedOptions?.sanitize ?? true;
+
+  // Fail fast with a clear error if either ref does not exist
+  for (const ref of [base, head]) {
+    const result = execGitSafeDetailed(
+      ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`],
+      exec
+    );
+    if (result.exitCode !== 0) {
+      throw new Error(`Unknown git ref: ${ref}`);
+    }
+  }
+
+  const mergeBase = getMergeBase(base, head, exec);
+  const { ahead, behind } = countAheadBehind(base, head, exec);
+
+  const range = `${base}..${head}`;
+  const filesByCommit = getCommitFiles(range, maxCommits, exec);
+  const commits: BranchCommit[] = getRecentCommits({
+    ...exec,
+    branch: range,
+    limit: maxCommits,
+    sanitize,
+  }).map((commit) => ({ ...commit, files: filesByCommit.get(commit.hash) ?? [] }));
+
+  // Unrelated histories have no merge base, so there is no three-dot diff
+  const diff = mergeBase
+    ? getParsedDiff({
+        ...exec,
+        commitA: base,
+        commitB: head,
+        fromMergeBase: true,
+        context: diffContext,
+      })
+    : { files: [], stats: { filesChanged: 0, additions: 0, deletions: 0 } };
+
+  return {
+    base,
+    head,
+    mergeBase,
+    commitsAhead: ahead,
+    commitsBehind: behind,
+    commits,
+    diff,
+  };
+}
+
+/**
+ * Finds the best common ancestor of two refs.
+ *
+ * @param base - Base ref
+ * @param head - Head ref
+ * @param options - Optional execution options (e.g., `cwd`)
+ * @returns Merge base commit hash, or null if the refs share no history
+ *
+ * @example
+ * ```typescript
+ * const mergeBase = getMergeBase('main', 'feature/foo');
+ * ```
+ */
+export function getMergeBase(base: string, head: string, options?: GitExecOptions): string | null {
+  const result = execGitSafeDetailed(
+    ['merge-base', gitRefSchema.parse(base), gitRefSchema.parse(head)],
+    { cwd: options?.cwd }
+  );
+  return result.exitCode === 0 ? result.stdout.trim() || null : null;
+}
+
+/**
+ * Detects the branch that feature branches are usually compared against.
+ *
+ * Tries origin's default branch (`refs/remotes/origin/HEAD`), then local
+ * `main`, then local `master`.
+ *
+ * @param options - Optional execution options (e.g., `cwd`)
+ * @returns Base ref (e.g., 'origin/main', 'main')
+ * @throws {Error} If no candidate base branch exists
+ *
+ * @example
+ * ```typescript
+ * const base = detectBaseBranch(); // 'origin/main'
+ * ```
+ */
+export function detectBaseBranch(options?: GitExecOptions): string {
+  const exec = { cwd: options?.cwd };
+
+  const remoteHead = execGitSafeDetailed(
+    ['symbolic-ref', '--quiet', '--short', 'refs/remotes/origin/HEAD'],
+    exec
+  );
+  if (remoteHead.exitCode === 0 && remoteHead.stdout.trim()) {
+    return remoteHead.stdout.trim();
+  }
+
+  for (const candidate of ['main', 'master']) {
+    const result = execGitSafeDetailed(
+      ['rev-parse', '--verify', '--quiet', `refs/heads/${candidate}`],
+      exec
+    );
+    if (result.exitCode === 0) {
+      return candidate;
+    }
+  }
+
+  throw new Error('Could not detect base branch (no origin/HEAD, main, or master)');
+}
+
+/**
+ * Counts commits unique to each side of `base...head`.
+ */
+function countAheadBehind(
+  base: string,
+  head: string,
+  exec: GitExecOptions
+): { ahead: number; behind: number } {
+  const result = execGitSafeDetailed(
+    ['rev-list', '--left-right', '--count', `${base}...${head}`],
+    exec
+  );
+  if (result.exitCode !== 0) {
+    return { ahead: 0, behind: 0 };
+  }
+
+  // Output format: "behind\tahead" (left = base, right = head)
+  const [behind, ahead] = result.stdout.trim().split(/\s+/);
+  return { ahead: parseInt(ahead, 10) || 0, behind: parseInt(behind, 10) || 0 };
+}
+
+/**
+ * Lists the files touched by each commit in a revision range.
+ *
+ * Output of `git log --name-status --pretty=format:<marker>%H`:
+ * ```
+ * <marker>abc123...
+ * M\tsrc/index.ts
+ * R087\told.ts\tnew.ts
+ * ```
+ */
+function getCommitFiles(
+  range: string,
+  limit: number,
+  exec: GitExecOptions
+): Map<string, CommitFileChange[]> {
+  const filesByCommit = new Map<string, CommitFileChange[]>();
+
+  let output: string;
+  try {
+    output = execGitSafe(
+      [
+        'log',
+        '--name-status',
+        '--find-renames',
+        `--pretty=format:${COMMIT_MARKER}%H`,
+        `-${limit}`,
+        range,
+        '--',
+      ],
+      exec
+    );
+  } catch {
+    return filesByCommit;
+  }
+
+  let files: CommitFileChange[] | null = null;
+  for (const line of output.split('\n')) {
+    if (line.startsWith(COMMIT_MARKER)) {
+      files = [];
+      filesByCommit.set(line.slice(COMMIT_MARKER.length).trim(), files);
+      continue;
+    }
+
+    if (!files || !line.trim()) continue;
+
+    const [code, first, second] = line.split('\t');
+    const change = toCommitFileChange(code ?? '', first, second);
+    if (change) {
+      files.push(change);
+    }
+  }
+
+  return filesByCommit;
+}
+
+/**
+ * Maps a `--name-status` entry to a CommitFileChange.
+ */
+function toCommitFileChange(
+  code: string,
+  first: string | undefined,
+  second: string | undefined
+): CommitFileChange | null {
+  if (!first) return null;
+
+  switch (code[0]) {
+    case 'A':
+      return { path: first, oldPath: null, status: 'added' };
+    case 'D':
+      return { path: first, oldPath: null, status: 'deleted' };
+    case 'R':
+      return { path: second ?? first, oldPath: first, status: 'renamed' };
+    case 'C':
+      return { path: second ?? first, oldPath: first, status: 'copied' };
+    default:
+      return { path: first, oldPath: null, status: 'modified' };
+  }
+}
@@ -4,8 +4,19 @@
  * @module git-diff
  */
 
-import { execGitSafe } from './exec-safe.js';
-import type { DiffFile, DiffHunk, DiffStats, ParsedDiff } from './types.js';
+import { statSync } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import { parseNumstatZ, parseUnifiedDiff } from './diff-parser.js';
+import {
+  execGitSafe,
+  execGitSafeAsync,
+  execGitSafeDetailed,
+  execGitSafeDetailedAsync,
+  type GitAsyncExecOptions,
+  type GitExecOptions,
+} from './exec-safe.js';
+import type { BinaryDiffInfo, DiffFile, DiffStats, ParsedDiff } from './types.js';
 
 /**
  * Parses git diff output into structured format.
@@ -14,8 +25,10 @@ import type { DiffFile, DiffHunk, DiffStats, ParsedDiff } from './types.js';
  * - Added files
  * - Modified files
  * - Deleted files
- * - Renamed files
- * - Binary files (detected, hunks empty)
+ * - Renamed and copied files
+ * - Quoted paths, paths with spaces, and non-UTF-8 paths or content
+ * - CRLF line endings and missing newlines at end of file
+ * - Binary files (hunks empty, old/new sizes and size delta in `binary`)
  *
  * @param options - Optional configuration
  * @returns Parsed diff with files, hunks, and statistics
@@ -27,178 +40,266 @@ import type { DiffFile, DiffHunk, DiffStats, ParsedDiff } from './types.js';
  * console.log(`+${diff.stats.additions} -${diff.stats.deletions}`);
  * ```
  */
-export function getParsedDiff(options?: {
+export function getParsedDiff(options?: DiffOptions): ParsedDiff {
+  let output: string;
+  try {
+    // Latin-1 keeps the raw bytes so the parser can decode paths and content itself
+    output = execGitSafe(buildDiffArgs(options), { cwd: options?.cwd, encoding: 'latin1' });
+  } catch {
+    // No diff (clean repo or no changes)
+    return emptyDiff();
+  }
+
+  const diff = toParsedDiff(output);
+  const lookups = binarySizeLookups(diff.files, options);
+  if (lookups.length > 0) {
+    let root: string | null | undefined;
+    for (const lookup of lookups) {
+      let size = lookup.oid ? readBlobSize(lookup.oid, options) : null;
+      if (size === null && lookup.worktreePath !== null) {
+        root ??= readRoot(options);
+        size = root === null ? null : statSize(join(root, lookup.worktreePath));
+      }
+      setBinarySize(lookup, size);
+    }
+  }
+  return diff;
+}
+
+/**
+ * Async sibling of getParsedDiff that does not block the event loop.
+ *
+ * A failing diff command yields an empty diff (as in getParsedDiff), but a
+ * timeout or abort rejects so callers can mark the diff as incomplete.
+ *
+ * @param options - Optional configuration plus async execution options
+ * @returns Promise resolving to parsed diff with files, hunks, and statistics
+ * @throws {Error} If the command times out or is aborted
+ *
+ * @example
+ * ```typescript
+ * const diff = await getParsedDiffAsync({ context: 3, timeoutMs: 300 });
+ * console.log(`${diff.stats.filesChanged} files changed`);
+ * ```
+ */
+export async function getParsedDiffAsync(
+  options?: DiffOptions & GitAsyncExecOptions
+): Promise<ParsedDiff> {
+  const output = await execGitSafeAsync(buildDiffArgs(options), {
+    ...options,
+    encoding: 'latin1',
+    allowNonZeroExit: true,
+  });
+
+  const diff = toParsedDiff(output);
+  const lookups = binarySizeLookups(diff.files, options);
+  if (lookups.length > 0) {
+    let root: Promise<string | null> | undefined;
+    await Promise.all(
+      lookups.map(async (lookup) => {
+        let size = lookup.oid ? await readBlobSizeAsync(lookup.oid, options) : null;
+        if (size === null && lookup.worktreePath !== null) {
+          root ??= readRootAsync(options);
+          const rootPath = await root;
+          size =
+            rootPath === null ? null : await statSizeAsync(join(rootPath, lookup.worktreePath));
+        }
+        setBinarySize(lookup, size);
+      })
+    );
+  }
+  return diff;
+}
+
+/**
+ * Options shared by getParsedDiff and getParsedDiffAsync.
+ */
+interface DiffOptions extends GitExecOptions {
   context?: number;
   staged?: boolean;
   commitA?: string;
   commitB?: string;
-}): ParsedDiff {
+  /** Diff commitB against the merge base of commitA and commitB (`A...B`) */
+  fromMergeBase?: boolean;
+}
+
+/**
+ * Builds `git diff` arguments for unified patch output.
+ */
+function buildDiffArgs(options?: DiffOptions): string[] {
   const context = options?.context ?? 3;
   const staged = options?.staged ?? false;
 
-  // Build arguments
-  const args = ['diff', '--no-color', `--unified=${context}`, '--patch'];
+  // Explicit prefixes override diff.noprefix / diff.mnemonicPrefix, and full
+  // blob ids let binary sizes be looked up
+  const args = [
+    'diff',
+    '--no-color',
+    `--unified=${context}`,
+    '--patch',
+    '--full-index',
+    '--src-prefix=a/',
+    '--dst-prefix=b/',
+  ];
 
   if (staged) {
     args.push('--cached'); // Diff staged changes
   }
 
+  // Revisions are followed by -- so execGitSafe does not treat them as paths
   if (options?.commitA && options?.commitB) {
-    args.push(`${options.commitA}..${options.commitB}`);
+    const operator = options.fromMergeBase ? '...' : '..';
+    args.push(`${options.commitA}${operator}${options.commitB}`, '--');
   } else if (options?.commitA) {
-    args.push(options.commitA);
+    args.push(options.commitA, '--');
   }
 
-  let output: string;
-  try {
-    output = execGitSafe(args);
-  } catch (error) {
-    // No diff (clean repo or no changes)
-    return {
-      files: [],
-      stats: { filesChanged: 0, additions: 0, deletions: 0 },
-    };
-  }
+  return args;
+}
 
+/**
+ * Parses raw diff output (Latin-1 decoded bytes) and calculates statistics.
+ */
+function toParsedDiff(output: string): ParsedDiff {
   if (!output.trim()) {
-    return {
-      files: [],
-      stats: { filesChanged: 0, additions: 0, deletions: 0 },
-    };
+    return emptyDiff();
   }
 
-  // Parse diff
-  const files = parseDiffOutput(output);
-
-  // Calculate stats
+  const files = parseUnifiedDiff(Buffer.from(output, 'latin1'));
   const stats = calculateDiffStats(files);
 
   return { files, stats };
 }
 
 /**
- * Parses unified diff output into DiffFile array.
- *
- * Unified diff format:
- * ```
- * diff --git a/file.txt b/file.txt
- * index abc123..def456 100644
- * --- a/file.txt
- * +++ b/file.txt
- * @@ -1,3 +1,4 @@
- *  line1
- * +line2
- *  line3
- * ```
+ * Returns an empty diff (clean repository or no changes).
  */
-function parseDiffOutput(output: string): DiffFile[] {
-  const files: DiffFile[] = [];
-  const lines = output.split('\n');
-
-  let currentFile: DiffFile | null = null;
-  let currentHunk: DiffHunk | null = null;
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-
-    // File header: diff --git a/path b/path
-    if (line.startsWith('diff --git ')) {
-      // Save previous file
-      if (currentFile && currentHunk) {
-        currentFile.hunks.push(currentHunk);
-        files.push(currentFile);
-      }
+function emptyDiff(): ParsedDiff {
+  return {
+    files: [],
+    stats: { filesChanged: 0, additions: 0, deletions: 0 },
+  };
+}
 
-      // Parse file paths from: diff --git a/src/file.ts b/src/file.ts
-      const match = line.match(/diff --git a\/(.+?) b\/(.+)$/);
-      if (match) {
-        const oldPath = match[1];
-        const newPath = match[2];
-
-        currentFile = {
-          path: newPath,
-          oldPath: oldPath !== newPath ? oldPath : null,
-          status: 'modified',
-          additions: 0,
-          deletions: 0,
-          hunks: [],
-        };
-        currentHunk = null;
-      }
-      continue;
-    }
+/**
+ * Unknown size of one side of a binary file.
+ */
+interface BinarySizeLookup {
+  binary: BinaryDiffInfo;
+  side: 'old' | 'new';
+  /** Blob id to look up, null if git did not report one */
+  oid: string | null;
+  /** Repository-relative path to stat if the side is the working tree */
+  worktreePath: string | null;
+}
 
-    // New file: new file mode
-    if (line.startsWith('new file mode') && currentFile) {
-      currentFile.status = 'added';
-      currentFile.oldPath = null;
-      continue;
-    }
+/**
+ * Lists binary file sizes the diff did not state. The new side of a working
+ * tree diff (no `--cached`, no second commit) may not be in the object
+ * database, so it falls back to the file on disk.
+ */
+function binarySizeLookups(files: DiffFile[], options?: DiffOptions): BinarySizeLookup[] {
+  const worktree = !options?.staged && !options?.commitB;
+  const lookups: BinarySizeLookup[] = [];
 
-    // Deleted file: deleted file mode
-    if (line.startsWith('deleted file mode') && currentFile) {
-      currentFile.status = 'deleted';
-      continue;
-    }
+  for (const file of files) {
+    const { binary } = file;
+    if (!binary) continue;
 
-    // Renamed file: rename from / rename to
-    if (line.startsWith('rename from') && currentFile) {
-      currentFile.status = 'renamed';
-      continue;
+    if (binary.oldSize === null) {
+      lookups.push({ binary, side: 'old', oid: knownOid(binary.oldOid), worktreePath: null });
     }
-
-    // Binary file: Binary files differ
-    if (line.startsWith('Binary files') && currentFile) {
-      // Binary files have no hunks
-      currentFile.hunks = [];
-      files.push(currentFile);
-      currentFile = null;
-      continue;
+    if (binary.newSize === null) {
+      lookups.push({
+        binary,
+        side: 'new',
+        oid: knownOid(binary.newOid),
+        worktreePath: worktree ? file.path : null,
+      });
     }
+  }
 
-    // Hunk header: @@ -1,3 +1,4 @@
-    if (line.startsWith('@@') && currentFile) {
-      // Save previous hunk
-      if (currentHunk) {
-        currentFile.hunks.push(currentHunk);
-      }
+  return lookups;
+}
 
-      // Parse hunk header: @@ -oldStart,oldLines +newStart,newLines @@
-      const hunkMatch = line.match(/@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
-      if (hunkMatch) {
-        currentHunk = {
-          oldStart: parseInt(hunkMatch[1], 10),
-          oldLines: parseInt(hunkMatch[2] ?? '1', 10),
-          newStart: parseInt(hunkMatch[3], 10),
-          newLines: parseInt(hunkMatch[4] ?? '1', 10),
-          lines: [],
-        };
-      }
-      continue;
-    }
+/**
+ * Returns the blob id, or null if it is missing or all zeros (not hashed).
+ */
+function knownOid(oid: string | null): string | null {
+  return oid && !/^0+$/.test(oid) ? oid : null;
+}
 
-    // Hunk content (starts with +, -, or space)
-    if (currentHunk && currentFile && (line[0] === '+' || line[0] === '-' || line[0] === ' ')) {
-      currentHunk.lines.push(line);
+function setBinarySize(lookup: BinarySizeLookup, size: number | null): void {
+  const { binary } = lookup;
+  if (lookup.side === 'old') {
+    binary.oldSize = size;
+  } else {
+    binary.newSize = size;
+  }
+  binary.sizeDelta =
+    binary.oldSize === null || binary.newSize === null ? null : binary.newSize - binary.oldSize;
+}
 
-      // Update file stats
-      if (line[0] === '+') {
-        currentFile.additions++;
-      } else if (line[0] === '-') {
-        currentFile.deletions++;
-      }
-    }
+function readBlobSize(oid: string, options?: GitExecOptions): number | null {
+  const result = execGitSafeDetailed(['cat-file', '-s', oid], { cwd: options?.cwd });
+  return parseBlobSize(result.exitCode, result.stdout);
+}
+
+async function readBlobSizeAsync(
+  oid: string,
+  options?: GitAsyncExecOptions
+): Promise<number | null> {
+  const result = await execGitSafeDetailedAsync(['cat-file', '-s', oid], {
+    cwd: options?.cwd,
+    signal: options?.signal,
+    timeoutMs: options?.timeoutMs,
+  });
+  return parseBlobSize(result.exitCode, result.stdout);
+}
+
+function parseBlobSize(exitCode: number, stdout: string): number | null {
+  const size = parseInt(stdout.trim(), 10);
+  return exitCode === 0 && Number.isInteger(size) ? size : null;
+}
+
+function readRoot(options?: GitExecOptions): string | null {
+  const result = execGitSafeDetailed(['rev-parse', '--show-toplevel'], { cwd: options?.cwd });
+  return result.exitCode === 0 ? result.stdout.trim() : null;
+}
+
+async function readRootAsync(options?: GitAsyncExecOptions): Promise<string | null> {
+  const result = await execGitSafeDetailedAsync(['rev-parse', '--show-toplevel'], {
+    cwd: options?.cwd,
+    signal: options?.signal,
+    timeoutMs: options?.timeoutMs,
+  });
+  return result.exitCode === 0 ? result.stdout.trim() : null;
+}
+
+function statSize(path: string): number | null {
+  try {
+    return statSync(path).size;
+  } catch {
+    return null;
   }
+}
 
-  // Save last file
-  if (currentFile) {
-    if (currentHunk) {
-      currentFile.hunks.push(currentHunk);
-    }
-    files.push(currentFile);
+async function statSizeAsync(path: string): Promise<number | null> {
+  try {
+    return (await stat(path)).size;
+  } catch {
+    return null;
   }
+}
 
-  return files;
+/**
+ * Parses unified diff output into DiffFile array.
+ *
+ * Text-based wrapper around parseUnifiedDiff(); pass raw bytes to
+ * parseUnifiedDiff() directly to keep non-UTF-8 content intact.
+ */
+export function parseDiffOutput(output: string): DiffFile[] {
+  return parseUnifiedDiff(output);
 }
 
 /**
@@ -234,45 +335,34 @@ function calculateDiffStats(files: DiffFile[]): DiffStats {
  * console.log(`${stats.filesChanged} files, +${stats.additions} -${stats.deletions}`);
  * ```
  */
-export function getDiffStats(options?: { staged?: boolean }): DiffStats {
+export function getDiffStats(options?: { staged?: boolean } & GitExecOptions): DiffStats {
   const staged = options?.staged ?? false;
 
-  // Use --numstat for faster stats-only output
-  const args = ['diff', '--numstat'];
+  // Use --numstat for faster stats-only output; -z keeps unusual paths on one record
+  const args = ['diff', '--numstat', '-z'];
   if (staged) {
     args.push('--cached');
   }
 
   let output: string;
   try {
-    output = execGitSafe(args);
+    output = execGitSafe(args, { cwd: options?.cwd, encoding: 'latin1' });
   } catch (error) {
     return { filesChanged: 0, additions: 0, deletions: 0 };
   }
 
-  if (!output.trim()) {
-    return { filesChanged: 0, additions: 0, deletions: 0 };
-  }
-
-  // Parse --numstat output: "additions\tdeletions\tfilename"
-  const lines = output.split('\n').filter((l) => l.trim().length > 0);
+  // Binary files count as changed with no line additions or deletions
+  const entries = parseNumstatZ(Buffer.from(output, 'latin1'));
   let totalAdditions = 0;
   let totalDeletions = 0;
 
-  for (const line of lines) {
-    const parts = line.split('\t');
-    if (parts.length >= 2) {
-      const additions = parseInt(parts[0], 10);
-      const deletions = parseInt(parts[1], 10);
-
-      // Binary files show "-" instead of numbers
-      if (!isNaN(additions)) totalAdditions += additions;
-      if (!isNaN(deletions)) totalDeletions += deletions;
-    }
+  for (const entry of entries) {
+    totalAdditions += entry.additions;
+    totalDeletions += entry.deletions;
   }
 
   return {
-    filesChanged: lines.length,
+    filesChanged: entries.length,
     additions: totalAdditions,
     deletions: totalDeletions,
   };
@@ -290,6 +380,6 @@ export function getDiffStats(options?: { staged?: boolean }): DiffStats {
  * console.log(`${count} files changed`);
  * ```
  */
-export function getDiffFileCount(options?: { staged?: boolean }): number {
+export function getDiffFileCount(options?: { staged?: boolean } & GitExecOptions): number {
   return getDiffStats(options).filesChanged;
 }
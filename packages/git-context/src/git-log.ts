@@ -4,9 +4,27 @@
  * @module git-log
  */
 
-import { execGitSafe } from './exec-safe.js';
+import {
+  execGitSafe,
+  execGitSafeAsync,
+  type GitAsyncExecOptions,
+  type GitExecOptions,
+} from './exec-safe.js';
 import { sanitizeCommitMessage } from './sanitize.js';
-import type { Commit } from './types.js';
+import type {
+  Commit,
+  CommitPerson,
+  CommitSignatureStatus,
+  CommitTrailer,
+  ConventionalCommit,
+  LineHistoryOptions,
+} from './types.js';
+import {
+  commitHashSchema,
+  filePathSchema,
+  lineHistoryOptionsSchema,
+  positiveIntegerSchema,
+} from './validators.js';
 
 /**
  * Delimiter used to separate commit fields in git log output.
@@ -15,6 +33,53 @@ import type { Commit } from './types.js';
 const FIELD_DELIMITER = '\x1E'; // ASCII Record Separator
 const COMMIT_DELIMITER = '\x1F'; // ASCII Unit Separator
 
+/**
+ * Pretty format for structured commit output (see getRecentCommits for codes).
+ */
+const COMMIT_FORMAT = [
+  '%H', // hash
+  '%h', // shortHash
+  '%an', // author
+  '%ae', // email
+  '%aI', // date (ISO 8601)
+  '%P', // parent hashes
+  '%G?', // signature status
+  '%GS', // signer
+  '%GK', // signing key
+  '%s', // subject
+  '%b', // body
+].join(FIELD_DELIMITER);
+
+/**
+ * Signature status for each `%G?` code.
+ */
+const SIGNATURE_STATUS: Record<string, CommitSignatureStatus> = {
+  G: 'good',
+  B: 'bad',
+  U: 'untrusted',
+  X: 'expired',
+  Y: 'expired-key',
+  R: 'revoked',
+  E: 'unverifiable',
+  N: 'unsigned',
+};
+
+/**
+ * Conventional Commits header: type(scope)!: description
+ */
+const CONVENTIONAL_HEADER = /^([A-Za-z]+)(?:\(([^()\r\n]*)\))?(!)?: (.+)$/;
+
+/**
+ * Breaking change footer (the spec allows a space or a hyphen).
+ */
+const BREAKING_FOOTER = /^BREAKING[ -]CHANGE: /m;
+
+/**
+ * Trailer line: git accepts letters, digits and hyphens in keys. `BREAKING
+ * CHANGE` is the one Conventional Commits footer with a space.
+ */
+const TRAILER_LINE = /^([A-Za-z0-9][A-Za-z0-9-]*|BREAKING CHANGE)[ \t]*:[ \t]*(.*)$/;
+
 /**
  * Gets recent commits with metadata.
  *
@@ -26,9 +91,15 @@ const COMMIT_DELIMITER = '\x1F'; // ASCII Unit Separator
  * - %an - Author name
  * - %ae - Author email
  * - %aI - Author date (ISO 8601)
+ * - %P - Parent hashes (two or more for merges)
+ * - %G? / %GS / %GK - Signature status, signer and key (GPG or SSH)
  * - %s - Subject (first line)
  * - %b - Body (remaining lines)
  *
+ * Subjects are parsed as Conventional Commits (`feat(scope)!: ...`) and the
+ * final paragraph of the body as trailers (`Co-authored-by`, `Refs`,
+ * `AI-Assisted`, ...).
+ *
  * @param options - Optional configuration
  * @returns Array of commit objects (newest first)
  *
@@ -41,45 +112,74 @@ const COMMIT_DELIMITER = '\x1F'; // ASCII Unit Separator
  * });
  * ```
  */
-export function getRecentCommits(options?: {
-  limit?: number;
-  sanitize?: boolean;
-  branch?: string;
-}): Commit[] {
-  const limit = options?.limit ?? 10;
+export function getRecentCommits(
+  options?: { limit?: number; sanitize?: boolean; branch?: string } & GitExecOptions
+): Commit[] {
   const sanitize = options?.sanitize ?? true;
-  const branch = options?.branch;
-
-  // Build format string with field delimiter
-  const formatString = [
-    '%H', // hash
-    '%h', // shortHash
-    '%an', // author
-    '%ae', // email
-    '%aI', // date (ISO 8601)
-    '%s', // subject
-    '%b', // body
-  ].join(FIELD_DELIMITER);
-
-  // Build arguments
-  const args = ['log', `--pretty=format:${formatString}${COMMIT_DELIMITER}`, `-${limit}`];
-  if (branch) {
-    args.push(branch);
-  }
 
   let output: string;
   try {
-    output = execGitSafe(args);
+    output = execGitSafe(buildRecentCommitsArgs(options?.limit ?? 10, options?.branch), {
+      cwd: options?.cwd,
+    });
   } catch (error) {
     // Empty repository or no commits
     return [];
   }
 
+  return parseCommitOutput(output, sanitize);
+}
+
+/**
+ * Async sibling of getRecentCommits that does not block the event loop.
+ *
+ * Returns an empty array for repositories without commits, but rejects on
+ * timeout or abort so callers can tell a missing history from a cut-off one.
+ *
+ * @param options - Optional configuration plus async execution options
+ * @returns Promise resolving to commit objects (newest first)
+ * @throws {Error} If the command times out or is aborted
+ *
+ * @example
+ * ```typescript
+ * const commits = await getRecentCommitsAsync({ limit: 5, timeoutMs: 200 });
+ * ```
+ */
+export async function getRecentCommitsAsync(
+  options?: { limit?: number; sanitize?: boolean; branch?: string } & GitAsyncExecOptions
+): Promise<Commit[]> {
+  const sanitize = options?.sanitize ?? true;
+  const args = buildRecentCommitsArgs(options?.limit ?? 10, options?.branch);
+
+  // Empty repository or no commits exits non-zero
+  const output = await execGitSafeAsync(args, { ...options, allowNonZeroExit: true });
+
+  return parseCommitOutput(output, sanitize);
+}
+
+/**
+ * Builds `git log` arguments for the structured commit format.
+ */
+function buildRecentCommitsArgs(limit: number, branch?: string): string[] {
+  const args = ['log', `--pretty=format:${COMMIT_FORMAT}${COMMIT_DELIMITER}`, `-${limit}`];
+  if (branch) {
+    // Explicit -- so execGitSafe does not treat the branch as a path
+    args.push(branch, '--');
+  }
+  return args;
+}
+
+/**
+ * Parses delimited `git log` output into Commit objects.
+ *
+ * @param output - Output of `git log` using COMMIT_FORMAT
+ * @param sanitize - Apply sanitizeCommitMessage to text fields
+ */
+function parseCommitOutput(output: string, sanitize: boolean): Commit[] {
   if (!output.trim()) {
     return [];
   }
 
-  // Parse commits
   const commitStrings = output.split(COMMIT_DELIMITER).filter((s) => s.trim().length > 0);
 
   const commits: Commit[] = [];
@@ -87,12 +187,27 @@ export function getRecentCommits(options?: {
   for (const commitString of commitStrings) {
     const fields = commitString.split(FIELD_DELIMITER);
 
-    if (fields.length < 7) {
+    if (fields.length < 11) {
       // Invalid commit format, skip
       continue;
     }
 
-    const [hash, shortHash, author, email, dateStr, subject, body] = fields;
+    // git log separates entries with a newline after the commit delimiter
+    const [
+      rawHash,
+      shortHash,
+      author,
+      email,
+      dateStr,
+      parents,
+      signatureCode,
+      signer,
+      signingKey,
+      subject,
+      body,
+    ] = fields;
+    const hash = rawHash.trim();
+    const clean = (text: string) => (sanitize ? sanitizeCommitMessage(text) : text);
 
     // Parse date
     let date: Date;
@@ -103,16 +218,42 @@ export function getRecentCommits(options?: {
       date = new Date();
     }
 
+    // Conventional header, trailers and signature are parsed from the raw text
+    // so sanitization cannot change their structure
+    const conventional = parseConventionalCommit(subject, body);
+    const trailers = parseCommitTrailers(body);
+    const parentHashes = parents.split(' ').filter(Boolean);
+    const trailerValues = (key: string) =>
+      trailers.filter((t) => t.key.toLowerCase() === key).map((t) => t.value);
+
     // Build commit object
     const commit: Commit = {
       hash,
       shortHash,
-      author: sanitize ? sanitizeCommitMessage(author) : author,
-      email: sanitize ? sanitizeCommitMessage(email) : email,
+      author: clean(author),
+      email: clean(email),
       date,
-      message: sanitize ? sanitizeCommitMessage(subject + '\n\n' + body) : subject + '\n\n' + body,
-      subject: sanitize ? sanitizeCommitMessage(subject) : subject,
-      body: sanitize ? sanitizeCommitMessage(body) : body,
+      message: clean(subject + '\n\n' + body),
+      subject: clean(subject),
+      body: clean(body),
+      parents: parentHashes,
+      isMerge: parentHashes.length > 1,
+      conventional: conventional && {
+        ...conventional,
+        description: clean(conventional.description),
+      },
+      trailers: trailers.map((trailer) => ({ key: trailer.key, value: clean(trailer.value) })),
+      coAuthors: trailerValues('co-authored-by').map((value) => {
+        const person = parsePerson(value);
+        return { name: clean(person.name), email: clean(person.email) };
+      }),
+      refs: trailerValues('refs').map(clean),
+      aiAssisted: trailerValues('ai-assisted').map(clean)[0] ?? null,
+      signature: {
+        status: SIGNATURE_STATUS[signatureCode] ?? 'unverifiable',
+        signer: signer ? clean(signer) : null,
+        key: signingKey || null,
+      },
     };
 
     commits.push(commit);
@@ -121,6 +262,86 @@ export function getRecentCommits(options?: {
   return commits;
 }
 
+/**
+ * Parses a Conventional Commits header (`type(scope)!: description`).
+ *
+ * A commit is breaking if the header has `!` before the colon or the body
+ * has a `BREAKING CHANGE:` (or `BREAKING-CHANGE:`) footer.
+ *
+ * @param subject - First line of the commit message
+ * @param body - Rest of the message (default: none)
+ * @returns Parsed header, or null if the subject is not a conventional commit
+ *
+ * @example
+ * ```typescript
+ * parseConventionalCommit('feat(auth)!: drop legacy tokens');
+ * // { type: 'feat', scope: 'auth', breaking: true, description: 'drop legacy tokens' }
+ * ```
+ */
+export function parseConventionalCommit(subject: string, body = ''): ConventionalCommit | null {
+  const match = subject.trim().match(CONVENTIONAL_HEADER);
+  if (!match) {
+    return null;
+  }
+
+  const [, type, scope, bang, description] = match;
+  return {
+    type,
+    scope: scope?.trim() || null,
+    breaking: bang === '!' || BREAKING_FOOTER.test(body),
+    description: description.trim(),
+  };
+}
+
+/**
+ * Parses git trailers from a commit message body.
+ *
+ * Like `git interpret-trailers`, only the final paragraph is considered, and
+ * only if every line in it is a `Key: value` trailer or an indented
+ * continuation of one (continuations are unfolded into the value).
+ *
+ * @param body - Commit message body (or the full message)
+ * @returns Trailers in order; empty if the last paragraph is not a trailer block
+ *
+ * @example
+ * ```typescript
+ * parseCommitTrailers('Explain the change.\n\nRefs: #42\nAI-Assisted: yes');
+ * // [{ key: 'Refs', value: '#42' }, { key: 'AI-Assisted', value: 'yes' }]
+ * ```
+ */
+export function parseCommitTrailers(body: string): CommitTrailer[] {
+  const paragraphs = body
+    .replace(/\r\n/g, '\n')
+    .trim()
+    .split(/\n[ \t]*\n/);
+  const lines = paragraphs[paragraphs.length - 1].split('\n');
+  const trailers: CommitTrailer[] = [];
+
+  for (const line of lines) {
+    const previous = trailers[trailers.length - 1];
+    if (/^[ \t]/.test(line) && previous) {
+      previous.value = `${previous.value} ${line.trim()}`.trim();
+      continue;
+    }
+
+    const match = line.match(TRAILER_LINE);
+    if (!match) {
+      return [];
+    }
+    trailers.push({ key: match[1], value: match[2].trim() });
+  }
+
+  return trailers;
+}
+
+/**
+ * Splits a `Name <email>` identity.
+ */
+function parsePerson(identity: string): CommitPerson {
+  const match = identity.match(/^(.*?)\s*<([^>]*)>\s*$/);
+  return match ? { name: match[1].trim(), email: match[2].trim() } : { name: identity, email: '' };
+}
+
 /**
  * Gets the most recent commit (HEAD).
  *
@@ -137,8 +358,8 @@ export function getRecentCommits(options?: {
  * }
  * ```
  */
-export function getLatestCommit(options?: { sanitize?: boolean }): Commit | null {
-  const commits = getRecentCommits({ limit: 1, sanitize: options?.sanitize });
+export function getLatestCommit(options?: { sanitize?: boolean } & GitExecOptions): Commit | null {
+  const commits = getRecentCommits({ limit: 1, sanitize: options?.sanitize, cwd: options?.cwd });
   return commits.length > 0 ? commits[0] : null;
 }
 
@@ -158,66 +379,113 @@ export function getLatestCommit(options?: { sanitize?: boolean }): Commit | null
  */
 export function getCommitsSince(
   since: Date,
-  options?: { sanitize?: boolean; limit?: number }
+  options?: { sanitize?: boolean; limit?: number } & GitExecOptions
 ): Commit[] {
   const sanitize = options?.sanitize ?? true;
   const limit = options?.limit ?? 100;
 
-  // Build format string
-  const formatString = ['%H', '%h', '%an', '%ae', '%aI', '%s', '%b'].join(FIELD_DELIMITER);
-
   // Build arguments with --since
   const sinceStr = since.toISOString();
   const args = [
     'log',
-    `--pretty=format:${formatString}${COMMIT_DELIMITER}`,
+    `--pretty=format:${COMMIT_FORMAT}${COMMIT_DELIMITER}`,
     `--since=${sinceStr}`,
     `-${limit}`,
   ];
 
   let output: string;
   try {
-    output = execGitSafe(args);
+    output = execGitSafe(args, { cwd: options?.cwd });
   } catch (error) {
     return [];
   }
 
-  if (!output.trim()) {
-    return [];
-  }
-
-  // Parse commits (same logic as getRecentCommits)
-  const commitStrings = output.split(COMMIT_DELIMITER).filter((s) => s.trim().length > 0);
-
-  const commits: Commit[] = [];
+  return parseCommitOutput(output, sanitize);
+}
 
-  for (const commitString of commitStrings) {
-    const fields = commitString.split(FIELD_DELIMITER);
+/**
+ * Gets full commit metadata for specific commits.
+ *
+ * @param hashes - Full commit hashes
+ * @param options - Optional configuration
+ * @returns Commits in the order given (unknown hashes are omitted)
+ * @throws {ZodError} If a hash is not a full SHA-1/SHA-256 hash
+ *
+ * @example
+ * ```typescript
+ * const [commit] = getCommitsByHash([blameLine.hash]);
+ * console.log(commit.subject);
+ * ```
+ */
+export function getCommitsByHash(
+  hashes: string[],
+  options?: { sanitize?: boolean } & GitExecOptions
+): Commit[] {
+  const sanitize = options?.sanitize ?? true;
+  const validatedHashes = [...new Set(hashes)].map((hash) => commitHashSchema.parse(hash));
 
-    if (fields.length < 7) continue;
+  if (validatedHashes.length === 0) {
+    return [];
+  }
 
-    const [hash, shortHash, author, email, dateStr, subject, body] = fields;
+  let output: string;
+  try {
+    output = execGitSafe(
+      [
+        'log',
+        '--no-walk=unsorted',
+        `--pretty=format:${COMMIT_FORMAT}${COMMIT_DELIMITER}`,
+        ...validatedHashes,
+        '--',
+      ],
+      { cwd: options?.cwd }
+    );
+  } catch {
+    return [];
+  }
 
-    let date: Date;
-    try {
-      date = new Date(dateStr);
-    } catch {
-      date = new Date();
-    }
+  return parseCommitOutput(output, sanitize);
+}
 
-    const commit: Commit = {
-      hash,
-      shortHash,
-      author: sanitize ? sanitizeCommitMessage(author) : author,
-      email: sanitize ? sanitizeCommitMessage(email) : email,
-      date,
-      message: sanitize ? sanitizeCommitMessage(subject + '\n\n' + body) : subject + '\n\n' + body,
-      subject: sanitize ? sanitizeCommitMessage(subject) : subject,
-      body: sanitize ? sanitizeCommitMessage(body) : body,
-    };
+/**
+ * Gets the commits that changed a single line, following it through edits,
+ * moves and file renames (`git log -L`).
+ *
+ * The last commit returned is the one that introduced the line, which is what
+ * research agents cite when explaining where a pattern came from.
+ *
+ * @param file - Path relative to the repository root
+ * @param line - Line number in the current file (1-based)
+ * @param options - Optional configuration
+ * @returns Commits that touched the line (newest first)
+ * @throws {ZodError} If the path or line number is invalid
+ * @throws {Error} If the file is not tracked or the line is out of range
+ *
+ * @example
+ * ```typescript
+ * const history = getLineHistory('src/index.ts', 42);
+ * const origin = history.at(-1);
+ * console.log(`Introduced in ${origin?.shortHash}: ${origin?.subject}`);
+ * ```
+ */
+export function getLineHistory(file: string, line: number, options?: LineHistoryOptions): Commit[] {
+  const validatedFile = filePathSchema.parse(file);
+  const validatedLine = positiveIntegerSchema.parse(line);
+  const validatedOptions = lineHistoryOptionsSchema.parse(options);
+  const sanitize = validatedOptions?.sanitize ?? true;
+  const limit = validatedOptions?.limit ?? 20;
 
-    commits.push(commit);
-  }
+  // -L always emits a patch unless suppressed; only commit metadata is needed
+  const output = execGitSafe(
+    [
+      'log',
+      '--no-patch',
+      `--pretty=format:${COMMIT_FORMAT}${COMMIT_DELIMITER}`,
+      `-${limit}`,
+      `-L${validatedLine},${validatedLine}:${validatedFile}`,
+    ],
+    { cwd: validatedOptions?.cwd }
+  );
 
-  return commits;
+  return parseCommitOutput(output, sanitize);
 }
@@ -0,0 +1,327 @@
+/**
+ * Detection of in-progress git operations (merge, rebase, cherry-pick, revert,
+ * bisect, am), unresolved conflicts, and detached HEAD state.
+ *
+ * Operations are detected from the state files git keeps in the git directory,
+ * the same way git's own prompt scripts do.
+ *
+ * @module git-operation
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { access, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  execGitSafe,
+  execGitSafeAsync,
+  execGitSafeDetailed,
+  execGitSafeDetailedAsync,
+  type GitAsyncExecOptions,
+  type GitExecOptions,
+} from './exec-safe.js';
+import type {
+  ConflictedFile,
+  ConflictType,
+  GitOperation,
+  HeadState,
+  OperationState,
+  RebaseProgress,
+} from './types.js';
+
+/**
+ * Operations in priority order; the first one found is the primary operation.
+ * Each is detected by the presence of a file or directory in the git directory.
+ */
+const OPERATION_MARKERS: Array<{ operation: GitOperation; marker: string }> = [
+  { operation: 'rebase', marker: 'rebase-merge' },
+  { operation: 'rebase', marker: 'rebase-apply' }, // also used by am, see below
+  { operation: 'merge', marker: 'MERGE_HEAD' },
+  { operation: 'cherry-pick', marker: 'CHERRY_PICK_HEAD' },
+  { operation: 'revert', marker: 'REVERT_HEAD' },
+  { operation: 'bisect', marker: 'BISECT_START' },
+];
+
+/**
+ * Files holding the commit being brought in by each operation.
+ */
+const INCOMING_COMMIT_FILES: Partial<Record<GitOperation, string>> = {
+  merge: 'MERGE_HEAD',
+  'cherry-pick': 'CHERRY_PICK_HEAD',
+  revert: 'REVERT_HEAD',
+};
+
+/**
+ * Conflict type by the set of index stages present (1 = base, 2 = ours, 3 = theirs).
+ * Mirrors the unmerged XY codes of `git status`.
+ */
+const CONFLICT_TYPES_BY_STAGES: Record<string, ConflictType> = {
+  '1': 'both-deleted',
+  '2': 'added-by-us',
+  '3': 'added-by-them',
+  '12': 'deleted-by-them',
+  '13': 'deleted-by-us',
+  '23': 'both-added',
+  '123': 'both-modified',
+};
+
+/**
+ * Gets the in-progress operation state of the repository.
+ *
+ * **Includes:**
+ * - In-progress operation (merge, rebase, cherry-pick, revert, bisect, am)
+ * - Commit being merged, cherry-picked, or reverted
+ * - Rebase step counter, branch being rebased, and onto commit
+ * - Conflicted paths with base/ours/theirs stage object ids
+ * - Detached HEAD details (commit and refs pointing at it)
+ *
+ * @param options - Optional execution options (e.g., `cwd`)
+ * @returns Operation state (operation is null when nothing is in progress)
+ * @throws {Error} If not in a git repository
+ *
+ * @example
+ * ```typescript
+ * const state = getOperationState();
+ * if (state.operation === 'rebase' && state.rebase) {
+ *   console.log(`Rebasing ${state.rebase.branch}: step ${state.rebase.step}/${state.rebase.totalSteps}`);
+ * }
+ * for (const conflict of state.conflicts) {
+ *   console.log(`${conflict.type}: ${conflict.path}`);
+ * }
+ * ```
+ */
+export function getOperationState(options?: GitExecOptions): OperationState {
+  const exec = { cwd: options?.cwd };
+  const gitDir = execGitSafe(['rev-parse', '--absolute-git-dir'], exec).trim();
+
+  const present = (name: string) => existsSync(path.join(gitDir, name));
+  const read = (name: string) =>
+    readStateFile(() => readFileSync(path.join(gitDir, name), 'utf-8'));
+
+  const operations = detectOperations(present);
+  const rebase = operations.includes('rebase') ? readRebaseProgress(present, read) : null;
+  const incomingCommit = readIncomingCommit(operations, read);
+
+  const symbolicRef = execGitSafeDetailed(['symbolic-ref', '--quiet', 'HEAD'], exec);
+  const headCommit = execGitSafeDetailed(['rev-parse', '--verify', '--quiet', 'HEAD'], exec);
+  const detached = symbolicRef.exitCode !== 0;
+  const refs = detached ? execGitSafeDetailed(['for-each-ref', '--points-at', 'HEAD'], exec) : null;
+
+  return {
+    operation: operations[0] ?? null,
+    operations,
+    incomingCommit,
+    rebase,
+    conflicts: parseUnmergedOutput(execGitSafe(['ls-files', '--unmerged', '-z'], exec)),
+    head: toHeadState(detached, headCommit.exitCode === 0 ? headCommit.stdout : '', refs?.stdout),
+  };
+}
+
+/**
+ * Async sibling of getOperationState that does not block the event loop.
+ *
+ * @param options - Async execution options
+ * @returns Promise resolving to operation state
+ * @throws {Error} If not in a git repository, or the command times out or is aborted
+ *
+ * @example
+ * ```typescript
+ * const state = await getOperationStateAsync({ timeoutMs: 200 });
+ * console.log(state.operation); // 'merge'
+ * ```
+ */
+export async function getOperationStateAsync(
+  options?: GitAsyncExecOptions
+): Promise<OperationState> {
+  const [gitDirOutput, symbolicRef, headCommit, unmerged] = await Promise.all([
+    execGitSafeAsync(['rev-parse', '--absolute-git-dir'], options),
+    execGitSafeDetailedAsync(['symbolic-ref', '--quiet', 'HEAD'], options),
+    execGitSafeDetailedAsync(['rev-parse', '--verify', '--quiet', 'HEAD'], options),
+    execGitSafeAsync(['ls-files', '--unmerged', '-z'], options),
+  ]);
+  const gitDir = gitDirOutput.trim();
+
+  // Resolve marker presence and state file contents up front so the
+  // detection logic can stay synchronous and shared with getOperationState
+  const names = new Set<string>([
+    ...OPERATION_MARKERS.map(({ marker }) => marker),
+    ...Object.values(INCOMING_COMMIT_FILES),
+    'rebase-apply/applying',
+  ]);
+  const files = [
+    'rebase-merge/msgnum',
+    'rebase-merge/end',
+    'rebase-merge/head-name',
+    'rebase-merge/onto',
+    'rebase-apply/next',
+    'rebase-apply/last',
+    'rebase-apply/head-name',
+    'rebase-apply/onto',
+    ...Object.values(INCOMING_COMMIT_FILES),
+  ];
+
+  const [presentNames, contents] = await Promise.all([
+    Promise.all(
+      [...names].map(async (name) =>
+        (await access(path.join(gitDir, name)).then(
+          () => true,
+          () => false
+        ))
+          ? name
+          : null
+      )
+    ),
+    Promise.all(
+      files.map(
+        async (name) =>
+          [
+            name,
+            await readFile(path.join(gitDir, name), 'utf-8').then(
+              (content) => content,
+              () => null
+            ),
+          ] as const
+      )
+    ),
+  ]);
+
+  const presentSet = new Set(presentNames.filter((name): name is string => name !== null));
+  const contentMap = new Map(contents);
+  const present = (name: string) => presentSet.has(name);
+  const read = (name: string) => readStateFile(() => contentMap.get(name) ?? null);
+
+  const operations = detectOperations(present);
+  const detached = symbolicRef.exitCode !== 0;
+  const refs = detached
+    ? await execGitSafeDetailedAsync(['for-each-ref', '--points-at', 'HEAD'], options)
+    : null;
+
+  return {
+    operation: operations[0] ?? null,
+    operations,
+    incomingCommit: readIncomingCommit(operations, read),
+    rebase: operations.includes('rebase') ? readRebaseProgress(present, read) : null,
+    conflicts: parseUnmergedOutput(unmerged),
+    head: toHeadState(detached, headCommit.exitCode === 0 ? headCommit.stdout : '', refs?.stdout),
+  };
+}
+
+/**
+ * Parses `git ls-files --unmerged -z` output into conflicted files.
+ *
+ * Each record is `<mode> <object> <stage>\t<path>`, one per stage present.
+ *
+ * @param output - Raw NUL-separated output
+ * @returns Conflicted files in the order git lists them
+ */
+export function parseUnmergedOutput(output: string): ConflictedFile[] {
+  const stagesByPath = new Map<string, Map<number, string>>();
+
+  for (const record of output.split('\0')) {
+    const match = record.match(/^\d{6} ([0-9a-f]+) ([123])\t(.+)$/s);
+    if (!match) continue;
+
+    const [, oid, stage, filePath] = match;
+    let stages = stagesByPath.get(filePath);
+    if (!stages) {
+      stages = new Map();
+      stagesByPath.set(filePath, stages);
+    }
+    stages.set(parseInt(stage, 10), oid);
+  }
+
+  return [...stagesByPath].map(([filePath, stages]) => ({
+    path: filePath,
+    type: CONFLICT_TYPES_BY_STAGES[[...stages.keys()].sort().join('')] ?? 'both-modified',
+    base: stages.get(1) ?? null,
+    ours: stages.get(2) ?? null,
+    theirs: stages.get(3) ?? null,
+  }));
+}
+
+/**
+ * Lists in-progress operations in priority order.
+ */
+function detectOperations(present: (name: string) => boolean): GitOperation[] {
+  const operations: GitOperation[] = [];
+
+  for (const { operation, marker } of OPERATION_MARKERS) {
+    if (!present(marker)) continue;
+
+    // rebase-apply is shared by `git am`; am writes an "applying" marker
+    const detected =
+      marker === 'rebase-apply' && present('rebase-apply/applying') ? 'am' : operation;
+    if (!operations.includes(detected)) {
+      operations.push(detected);
+    }
+  }
+
+  return operations;
+}
+
+/**
+ * Reads the rebase step counter from rebase-merge/ (merge backend) or
+ * rebase-apply/ (apply backend).
+ */
+function readRebaseProgress(
+  present: (name: string) => boolean,
+  read: (name: string) => string | null
+): RebaseProgress {
+  const dir = present('rebase-merge') ? 'rebase-merge' : 'rebase-apply';
+  const [stepFile, totalFile] = dir === 'rebase-merge' ? ['msgnum', 'end'] : ['next', 'last'];
+
+  const headName = read(`${dir}/head-name`);
+
+  return {
+    step: parseInt(read(`${dir}/${stepFile}`) ?? '', 10) || 0,
+    totalSteps: parseInt(read(`${dir}/${totalFile}`) ?? '', 10) || 0,
+    branch:
+      headName && headName !== 'detached HEAD' ? headName.replace(/^refs\/heads\//, '') : null,
+    onto: read(`${dir}/onto`),
+  };
+}
+
+/**
+ * Reads the commit being merged, cherry-picked, or reverted.
+ */
+function readIncomingCommit(
+  operations: GitOperation[],
+  read: (name: string) => string | null
+): string | null {
+  for (const operation of operations) {
+    const file = INCOMING_COMMIT_FILES[operation];
+    if (file) {
+      // MERGE_HEAD lists one commit per line for octopus merges; report the first
+      return read(file)?.split('\n')[0] || null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Reads a state file, returning trimmed content or null if missing.
+ */
+function readStateFile(readContent: () => string | null): string | null {
+  try {
+    const content = readContent();
+    return content === null ? null : content.trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Builds HEAD state. `refs` is `git for-each-ref` output (`<oid> <type>\t<refname>`);
+ * the custom --format placeholders are blocked by gitArgsSchema, so ref names
+ * are shortened here.
+ */
+function toHeadState(detached: boolean, commit: string, refs: string | undefined): HeadState {
+  return {
+    detached,
+    commit: commit.trim() || null,
+    refs: (refs ?? '')
+      .split('\n')
+      .map((line) => line.split('\t')[1]?.trim() ?? '')
+      .filter((ref) => ref.length > 0)
+      .map((ref) => ref.replace(/^refs\/(heads|tags|remotes)\//, '')),
+  };
+}
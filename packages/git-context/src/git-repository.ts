@@ -4,7 +4,21 @@
  * @module git-repository
  */
 
-import { execGitSafe, execGitSafeDetailed } from './exec-safe.js';
+import {
+  execGitSafe,
+  execGitSafeAsync,
+  execGitSafeDetailed,
+  execGitSafeDetailedAsync,
+  type GitAsyncExecOptions,
+  type GitExecOptions,
+} from './exec-safe.js';
+import { getSubmodules, getSubmodulesAsync } from './git-submodule.js';
+import {
+  getWorktrees,
+  getWorktreesAsync,
+  isLinkedWorktree,
+  isLinkedWorktreeAsync,
+} from './git-worktree.js';
 import { sanitizeRemoteURL } from './sanitize.js';
 import type { RepositoryInfo } from './types.js';
 
@@ -24,7 +38,7 @@ import type { RepositoryInfo } from './types.js';
  * ```
  */
 export function findGitRoot(cwd?: string): string {
-  const output = execGitSafe(['rev-parse', '--show-toplevel']);
+  const output = execGitSafe(['rev-parse', '--show-toplevel'], { cwd });
   return output.trim();
 }
 
@@ -35,6 +49,8 @@ export function findGitRoot(cwd?: string): string {
  * - Repository root path
  * - Remote origin URL (sanitized)
  * - Whether working directory is clean
+ * - Worktrees, and whether root is a linked worktree
+ * - Submodules with their checked-out commits and dirty state
  *
  * @param options - Optional configuration
  * @returns Repository information
@@ -46,17 +62,28 @@ export function findGitRoot(cwd?: string): string {
  * console.log(repo.remote); // 'https://github.com/user/repo.git'
  * console.log(repo.isClean); // true
  * ```
+ *
+ * @example
+ * ```typescript
+ * // One process, several repositories
+ * const repos = ['/repos/app', '/repos/app-review'].map((cwd) => getRepositoryInfo({ cwd }));
+ * console.log(repos[1].isLinkedWorktree); // true
+ * console.log(repos[1].mainWorktreeRoot); // '/repos/app'
+ * ```
  */
-export function getRepositoryInfo(options?: { sanitize?: boolean }): RepositoryInfo {
+export function getRepositoryInfo(
+  options?: { sanitize?: boolean } & GitExecOptions
+): RepositoryInfo {
   const sanitize = options?.sanitize ?? true;
+  const exec = { cwd: options?.cwd };
 
   // Get repository root
-  const root = findGitRoot();
+  const root = findGitRoot(options?.cwd);
 
   // Get remote URL (origin)
   let remote: string | null = null;
   try {
-    const remoteResult = execGitSafeDetailed(['remote', 'get-url', 'origin']);
+    const remoteResult = execGitSafeDetailed(['remote', 'get-url', 'origin'], exec);
     if (remoteResult.exitCode === 0) {
       remote = remoteResult.stdout.trim();
       if (sanitize) {
@@ -71,17 +98,75 @@ export function getRepositoryInfo(options?: { sanitize?: boolean }): RepositoryI
   // Check if working directory is clean
   let isClean = false;
   try {
-    const statusResult = execGitSafeDetailed(['status', '--porcelain']);
+    const statusResult = execGitSafeDetailed(['status', '--porcelain'], exec);
     isClean = statusResult.stdout.trim().length === 0;
   } catch (error) {
     // Assume not clean if we can't determine
     isClean = false;
   }
 
+  const worktrees = getWorktrees(exec);
+
   return {
     root,
     remote,
     isClean,
+    isLinkedWorktree: isLinkedWorktree(exec),
+    mainWorktreeRoot: worktrees.find((worktree) => worktree.isMain)?.path ?? root,
+    worktrees,
+    submodules: getSubmodules(exec),
+  };
+}
+
+/**
+ * Async sibling of getRepositoryInfo.
+ *
+ * Runs the root, remote, clean-state, worktree and submodule lookups concurrently.
+ *
+ * @param options - Optional configuration plus async execution options
+ * @returns Promise resolving to repository information
+ * @throws {Error} If not in a git repository, or the command times out or is aborted
+ *
+ * @example
+ * ```typescript
+ * const repo = await getRepositoryInfoAsync({ timeoutMs: 200 });
+ * console.log(repo.root); // '/Users/alice/project'
+ * ```
+ */
+export async function getRepositoryInfoAsync(
+  options?: { sanitize?: boolean } & GitAsyncExecOptions
+): Promise<RepositoryInfo> {
+  const sanitize = options?.sanitize ?? true;
+
+  const [rootOutput, remoteResult, statusResult, linked, worktrees, submodules] = await Promise.all(
+    [
+      execGitSafeAsync(['rev-parse', '--show-toplevel'], options),
+      execGitSafeDetailedAsync(['remote', 'get-url', 'origin'], options),
+      execGitSafeDetailedAsync(['status', '--porcelain'], options),
+      isLinkedWorktreeAsync(options),
+      getWorktreesAsync(options),
+      getSubmodulesAsync(options),
+    ]
+  );
+  const root = rootOutput.trim();
+
+  // No remote configured - this is OK
+  let remote: string | null = null;
+  if (remoteResult.exitCode === 0) {
+    remote = remoteResult.stdout.trim();
+    if (sanitize) {
+      remote = sanitizeRemoteURL(remote);
+    }
+  }
+
+  return {
+    root,
+    remote,
+    isClean: statusResult.exitCode === 0 && statusResult.stdout.trim().length === 0,
+    isLinkedWorktree: linked,
+    mainWorktreeRoot: worktrees.find((worktree) => worktree.isMain)?.path ?? root,
+    worktrees,
+    submodules,
   };
 }
 
@@ -124,11 +209,11 @@ export function isInsideGitRepo(cwd?: string): boolean {
  * }
  * ```
  */
-export function getRemoteURL(options?: { sanitize?: boolean }): string | null {
+export function getRemoteURL(options?: { sanitize?: boolean } & GitExecOptions): string | null {
   const sanitize = options?.sanitize ?? true;
 
   try {
-    const output = execGitSafe(['remote', 'get-url', 'origin']);
+    const output = execGitSafe(['remote', 'get-url', 'origin'], { cwd: options?.cwd });
     const url = output.trim();
     return sanitize ? sanitizeRemoteURL(url) : url;
   } catch {
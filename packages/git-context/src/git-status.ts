@@ -4,17 +4,35 @@
  * @module git-status
  */
 
-import { execGitSafe } from './exec-safe.js';
-import type { ChangedFile, GitStatus } from './types.js';
+import {
+  execGitSafe,
+  execGitSafeAsync,
+  type GitAsyncExecOptions,
+  type GitExecOptions,
+} from './exec-safe.js';
+import type {
+  ChangedFile,
+  ConflictType,
+  FileChangeState,
+  GitStatus,
+  RenamedFile,
+  StatusEntry,
+  SubmoduleState,
+} from './types.js';
 
 /**
  * Gets the current git status (staged, modified, untracked, deleted files).
  *
- * Uses `git status --porcelain` for machine-readable output.
+ * Uses `git status --porcelain=v2 -z` for machine-readable, NUL-separated output
+ * that is safe for paths containing spaces, quotes, or newlines.
  *
- * **Porcelain format:**
- * - `XY path` where X is staged status, Y is working tree status
- * - Status codes: M (modified), A (added), D (deleted), R (renamed), C (copied), ?? (untracked)
+ * **Porcelain v2 records:**
+ * - `1 XY sub mH mI mW hH hI path` - ordinary change
+ * - `2 XY sub mH mI mW hH hI Xscore path<NUL>origPath` - rename or copy
+ * - `u XY sub m1 m2 m3 mW h1 h2 h3 path` - unmerged (conflict)
+ * - `? path` - untracked
+ *
+ * X is the index (staged) state, Y the working tree state, `.` means unmodified.
  *
  * @param options - Optional configuration
  * @returns Structured git status
@@ -25,56 +43,260 @@ import type { ChangedFile, GitStatus } from './types.js';
  * console.log(status.staged); // ['src/index.ts']
  * console.log(status.modified); // ['README.md']
  * console.log(status.untracked); // ['notes.txt']
+ * console.log(status.renamed); // [{ from: 'old.ts', to: 'new.ts', similarity: 100, kind: 'renamed' }]
+ * ```
+ */
+export function getGitStatus(options?: { includeUntracked?: boolean } & GitExecOptions): GitStatus {
+  const output = execGitSafe(buildStatusArgs(options?.includeUntracked ?? true), {
+    cwd: options?.cwd,
+  });
+  return parseStatusOutput(output);
+}
+
+/**
+ * Async sibling of getGitStatus that does not block the event loop.
+ *
+ * @param options - Optional configuration plus async execution options
+ * @returns Promise resolving to structured git status
+ *
+ * @example
+ * ```typescript
+ * const status = await getGitStatusAsync({ timeoutMs: 200 });
+ * console.log(status.staged); // ['src/index.ts']
  * ```
  */
-export function getGitStatus(options?: { includeUntracked?: boolean }): GitStatus {
-  const includeUntracked = options?.includeUntracked ?? true;
+export async function getGitStatusAsync(
+  options?: { includeUntracked?: boolean } & GitAsyncExecOptions
+): Promise<GitStatus> {
+  const output = await execGitSafeAsync(
+    buildStatusArgs(options?.includeUntracked ?? true),
+    options
+  );
+  return parseStatusOutput(output);
+}
 
-  // Build arguments
-  const args = ['status', '--porcelain'];
+/**
+ * Builds `git status` arguments for NUL-separated porcelain v2 output.
+ */
+function buildStatusArgs(includeUntracked: boolean): string[] {
+  const args = ['status', '--porcelain=v2', '-z'];
   if (!includeUntracked) {
     args.push('--untracked-files=no');
   }
+  return args;
+}
+
+/**
+ * Porcelain v2 XY status letters.
+ */
+const CHANGE_STATES: Record<string, FileChangeState> = {
+  '.': 'unmodified',
+  M: 'modified',
+  T: 'type-changed',
+  A: 'added',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied',
+  U: 'unmerged',
+};
+
+/**
+ * Unmerged XY codes (see git-status(1), "Short Format").
+ */
+const CONFLICT_TYPES: Record<string, ConflictType> = {
+  DD: 'both-deleted',
+  AU: 'added-by-us',
+  UD: 'deleted-by-them',
+  UA: 'added-by-them',
+  DU: 'deleted-by-us',
+  AA: 'both-added',
+  UU: 'both-modified',
+};
+
+/**
+ * Object id git reports for a missing conflict stage.
+ */
+const NULL_OID = /^0+$/;
+
+/**
+ * Parses `git status --porcelain=v2 -z` output into a GitStatus object.
+ *
+ * @param output - Raw NUL-separated porcelain v2 output
+ * @returns Structured git status
+ */
+export function parseStatusOutput(output: string): GitStatus {
+  const entries: StatusEntry[] = [];
+  const records = output.split('\0');
+
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    if (!record) continue;
+
+    const entry = parseStatusRecord(record, () => records[++i] ?? null);
+    if (entry) {
+      entries.push(entry);
+    }
+  }
+
+  return summarizeEntries(entries);
+}
+
+/**
+ * Parses one porcelain v2 record. Rename/copy records consume the following
+ * record (the original path) through `nextRecord`.
+ */
+function parseStatusRecord(record: string, nextRecord: () => string | null): StatusEntry | null {
+  const type = record[0];
+
+  // Untracked: "? path"
+  if (type === '?') {
+    return {
+      path: record.slice(2),
+      originalPath: null,
+      index: 'unmodified',
+      workTree: 'unmodified',
+      untracked: true,
+      similarity: null,
+      modes: null,
+      submodule: null,
+      conflict: null,
+    };
+  }
+
+  // Ordinary, rename/copy, and unmerged records share the "XY sub" prefix
+  const fieldCounts: Record<string, number> = { '1': 8, '2': 9, u: 10 };
+  const fieldCount = fieldCounts[type];
+  if (fieldCount === undefined) {
+    // Headers ("# ...") and ignored files ("! ...") are not reported
+    return null;
+  }
+
+  const fields = splitFields(record, fieldCount);
+  if (!fields) return null;
+
+  const xy = fields[1];
+  const submodule = parseSubmoduleState(fields[2]);
+
+  if (type === 'u') {
+    // u XY sub m1 m2 m3 mW h1 h2 h3 path (modes are per conflict stage, not HEAD/index)
+    const [, , , , , , , h1, h2, h3, path] = fields;
+    return {
+      path,
+      originalPath: null,
+      index: 'unmerged',
+      workTree: 'unmerged',
+      untracked: false,
+      similarity: null,
+      modes: null,
+      submodule,
+      conflict: {
+        type: CONFLICT_TYPES[xy] ?? 'both-modified',
+        base: toOid(h1),
+        ours: toOid(h2),
+        theirs: toOid(h3),
+      },
+    };
+  }
+
+  const [, , , mHead, mIndex, mWorkTree] = fields;
+  const path = fields[fields.length - 1];
+  const entry: StatusEntry = {
+    path,
+    originalPath: null,
+    index: CHANGE_STATES[xy[0]] ?? 'modified',
+    workTree: CHANGE_STATES[xy[1]] ?? 'modified',
+    untracked: false,
+    similarity: null,
+    modes: { head: mHead, index: mIndex, workTree: mWorkTree },
+    submodule,
+    conflict: null,
+  };
+
+  if (type === '2') {
+    // 2 XY sub mH mI mW hH hI Xscore path<NUL>origPath
+    entry.similarity = parseInt(fields[8].slice(1), 10) || 0;
+    entry.originalPath = nextRecord();
+  }
+
+  return entry;
+}
+
+/**
+ * Splits a record into `count` space-separated fields followed by the path,
+ * which may itself contain spaces.
+ */
+function splitFields(record: string, count: number): string[] | null {
+  const fields: string[] = [];
+  let start = 0;
+  for (let n = 0; n < count; n++) {
+    const end = record.indexOf(' ', start);
+    if (end < 0) return null;
+    fields.push(record.slice(start, end));
+    start = end + 1;
+  }
+  fields.push(record.slice(start));
+  return fields;
+}
+
+/**
+ * Parses the porcelain v2 submodule field: `N...` or `S<c><m><u>`.
+ */
+function parseSubmoduleState(field: string): SubmoduleState | null {
+  if (!field.startsWith('S')) return null;
+  return {
+    commitChanged: field[1] === 'C',
+    hasTrackedChanges: field[2] === 'M',
+    hasUntrackedChanges: field[3] === 'U',
+  };
+}
 
-  const output = execGitSafe(args);
+function toOid(hash: string): string | null {
+  return NULL_OID.test(hash) ? null : hash;
+}
 
+/**
+ * Builds the flat status lists from detailed entries.
+ */
+function summarizeEntries(entries: StatusEntry[]): GitStatus {
   const staged: string[] = [];
   const modified: string[] = [];
   const untracked: string[] = [];
   const deleted: string[] = [];
+  const renamed: RenamedFile[] = [];
+  const conflicted: string[] = [];
 
-  // Parse porcelain format: "XY path" (X=index, Y=worktree)
-  const lines = output.split('\n').filter((line) => line.trim().length > 0);
-
-  for (const line of lines) {
-    if (line.length < 4) continue; // Invalid line
-
-    const statusCode = line.substring(0, 2);
-    const filePath = line.substring(3);
+  for (const entry of entries) {
+    if (entry.untracked) {
+      untracked.push(entry.path);
+      continue;
+    }
 
-    const indexStatus = statusCode[0]; // Staging area
-    const workTreeStatus = statusCode[1]; // Working directory
+    // Conflicts are reported separately, not as staged/modified
+    if (entry.conflict) {
+      conflicted.push(entry.path);
+      continue;
+    }
 
-    // Staged files (index status not space or ?)
-    // Note: Staged deletions (D ) should go in 'staged', not 'deleted'
-    if (indexStatus !== ' ' && indexStatus !== '?') {
-      staged.push(filePath);
+    // Staged files (any index change)
+    // Note: Staged deletions should go in 'staged', not 'deleted'
+    if (entry.index !== 'unmodified') {
+      staged.push(entry.path);
     }
 
-    // Modified files (working tree status not space or ?)
-    if (workTreeStatus !== ' ' && workTreeStatus !== '?') {
-      if (workTreeStatus === 'D') {
-        if (!deleted.includes(filePath)) {
-          deleted.push(filePath);
-        }
-      } else {
-        modified.push(filePath);
-      }
+    // Working tree changes: deletions separately, everything else as modified
+    if (entry.workTree === 'deleted') {
+      deleted.push(entry.path);
+    } else if (entry.workTree !== 'unmodified') {
+      modified.push(entry.path);
     }
 
-    // Untracked files (??)
-    if (statusCode === '??') {
-      untracked.push(filePath);
+    if (entry.originalPath !== null && (entry.index === 'renamed' || entry.index === 'copied')) {
+      renamed.push({
+        from: entry.originalPath,
+        to: entry.path,
+        similarity: entry.similarity ?? 0,
+        kind: entry.index,
+      });
     }
   }
 
@@ -83,6 +305,9 @@ export function getGitStatus(options?: { includeUntracked?: boolean }): GitStatu
     modified,
     untracked,
     deleted,
+    renamed,
+    conflicted,
+    entries,
   };
 }
 
@@ -100,12 +325,19 @@ export function getGitStatus(options?: { includeUntracked?: boolean }): GitStatu
  * files.forEach(f => console.log(`${f.status}: ${f.path}`));
  * ```
  */
-export function getChangedFilesFromStatus(status: GitStatus): ChangedFile[] {
+export function getChangedFilesFromStatus(
+  status: Pick<GitStatus, 'staged' | 'modified' | 'untracked' | 'deleted'> &
+    Partial<Pick<GitStatus, 'renamed' | 'conflicted'>>
+): ChangedFile[] {
   const files: ChangedFile[] = [];
+  const renameSources = new Map((status.renamed ?? []).map((r) => [r.to, r.from]));
 
-  // Add staged files
+  // Add staged files (renames and copies carry their source path)
   for (const path of status.staged) {
-    files.push({ path, status: 'staged' });
+    const oldPath = renameSources.get(path);
+    files.push(
+      oldPath === undefined ? { path, status: 'staged' } : { path, status: 'renamed', oldPath }
+    );
   }
 
   // Add modified files
@@ -123,6 +355,11 @@ export function getChangedFilesFromStatus(status: GitStatus): ChangedFile[] {
     files.push({ path, status: 'deleted' });
   }
 
+  // Add files with unresolved conflicts
+  for (const path of status.conflicted ?? []) {
+    files.push({ path, status: 'conflicted' });
+  }
+
   return files;
 }
 
@@ -143,7 +380,9 @@ export function getChangedFilesFromStatus(status: GitStatus): ChangedFile[] {
  * // untracked: notes.txt
  * ```
  */
-export function getChangedFiles(options?: { includeUntracked?: boolean }): ChangedFile[] {
+export function getChangedFiles(
+  options?: { includeUntracked?: boolean } & GitExecOptions
+): ChangedFile[] {
   const status = getGitStatus(options);
   return getChangedFilesFromStatus(status);
 }
@@ -151,7 +390,8 @@ export function getChangedFiles(options?: { includeUntracked?: boolean }): Chang
 /**
  * Checks if the working directory is clean (no uncommitted changes).
  *
- * @returns True if no staged, modified, or deleted files exist
+ * @param options - Optional execution options (e.g., `cwd`)
+ * @returns True if no staged, modified, deleted, or conflicted files exist
  *
  * @example
  * ```typescript
@@ -162,7 +402,12 @@ export function getChangedFiles(options?: { includeUntracked?: boolean }): Chang
  * }
  * ```
  */
-export function isWorkingDirectoryClean(): boolean {
-  const status = getGitStatus({ includeUntracked: false });
-  return status.staged.length === 0 && status.modified.length === 0 && status.deleted.length === 0;
+export function isWorkingDirectoryClean(options?: GitExecOptions): boolean {
+  const status = getGitStatus({ includeUntracked: false, cwd: options?.cwd });
+  return (
+    status.staged.length === 0 &&
+    status.modified.length === 0 &&
+    status.deleted.length === 0 &&
+    status.conflicted.length === 0
+  );
 }
@@ -0,0 +1,197 @@
+/**
+ * Git submodule operations: checked-out commits and dirty state.
+ *
+ * @module git-submodule
+ */
+
+import { existsSync } from 'node:fs';
+import { access } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  execGitSafe,
+  execGitSafeAsync,
+  execGitSafeDetailed,
+  execGitSafeDetailedAsync,
+  type GitAsyncExecOptions,
+  type GitExecOptions,
+} from './exec-safe.js';
+import { parseStatusOutput } from './git-status.js';
+import type { StatusEntry, Submodule } from './types.js';
+
+/**
+ * Lists submodule paths declared in `.gitmodules` (`key\nvalue` records).
+ */
+const SUBMODULE_PATHS_ARGS = [
+  'config',
+  '-z',
+  '--file',
+  '.gitmodules',
+  '--get-regexp',
+  '^submodule\\..*\\.path',
+];
+
+/**
+ * File mode of a gitlink (submodule) entry in the index.
+ */
+const GITLINK_MODE = '160000';
+
+/**
+ * Lists the submodules of the repository with their checked-out commits and
+ * dirty state.
+ *
+ * Submodules are the paths declared in `.gitmodules` that are gitlinks in the
+ * index. Dirty state comes from the superproject's `git status --porcelain=v2`,
+ * the checked-out commit from each initialized submodule's HEAD. Nested
+ * submodules are not listed.
+ *
+ * @param options - Optional execution options (e.g., `cwd`)
+ * @returns Submodules in index order
+ * @throws {Error} If not in a git repository
+ *
+ * @example
+ * ```typescript
+ * for (const submodule of getSubmodules()) {
+ *   const dirty = submodule.hasTrackedChanges || submodule.hasUntrackedChanges;
+ *   console.log(`${submodule.path} @ ${submodule.commit ?? 'not initialized'}${dirty ? ' (dirty)' : ''}`);
+ * }
+ * ```
+ */
+export function getSubmodules(options?: GitExecOptions): Submodule[] {
+  const root = execGitSafe(['rev-parse', '--show-toplevel'], { cwd: options?.cwd }).trim();
+  const exec = { cwd: root };
+
+  // Missing .gitmodules exits non-zero: no submodules
+  const config = execGitSafeDetailed(SUBMODULE_PATHS_ARGS, exec);
+  const paths = config.exitCode === 0 ? parseSubmodulePaths(config.stdout) : [];
+  if (paths.length === 0) {
+    return [];
+  }
+
+  const gitlinks = parseGitlinks(execGitSafe(['ls-files', '--stage', '-z', '--', ...paths], exec));
+  const status = parseStatusOutput(
+    execGitSafe(['status', '--porcelain=v2', '-z', '--', ...paths], exec)
+  );
+
+  return [...gitlinks].map(([submodulePath, recordedCommit]) => {
+    const dir = path.join(root, submodulePath);
+    const initialized = existsSync(path.join(dir, '.git'));
+    const head = initialized
+      ? execGitSafeDetailed(['rev-parse', '--verify', '--quiet', 'HEAD'], { cwd: dir })
+      : null;
+
+    return toSubmodule(
+      submodulePath,
+      recordedCommit,
+      head?.exitCode === 0 ? head.stdout.trim() : null,
+      initialized,
+      status.entries
+    );
+  });
+}
+
+/**
+ * Async sibling of getSubmodules that does not block the event loop.
+ *
+ * @param options - Async execution options
+ * @returns Promise resolving to submodules in index order
+ * @throws {Error} If not in a git repository, or the command times out or is aborted
+ *
+ * @example
+ * ```typescript
+ * const submodules = await getSubmodulesAsync({ cwd: '/repos/app', timeoutMs: 500 });
+ * ```
+ */
+export async function getSubmodulesAsync(options?: GitAsyncExecOptions): Promise<Submodule[]> {
+  const root = (await execGitSafeAsync(['rev-parse', '--show-toplevel'], options)).trim();
+  const exec = { ...options, cwd: root };
+
+  const config = await execGitSafeDetailedAsync(SUBMODULE_PATHS_ARGS, exec);
+  const paths = config.exitCode === 0 ? parseSubmodulePaths(config.stdout) : [];
+  if (paths.length === 0) {
+    return [];
+  }
+
+  const [stageOutput, statusOutput] = await Promise.all([
+    execGitSafeAsync(['ls-files', '--stage', '-z', '--', ...paths], exec),
+    execGitSafeAsync(['status', '--porcelain=v2', '-z', '--', ...paths], exec),
+  ]);
+  const status = parseStatusOutput(statusOutput);
+
+  return Promise.all(
+    [...parseGitlinks(stageOutput)].map(async ([submodulePath, recordedCommit]) => {
+      const dir = path.join(root, submodulePath);
+      const initialized = await access(path.join(dir, '.git')).then(
+        () => true,
+        () => false
+      );
+      const head = initialized
+        ? await execGitSafeDetailedAsync(['rev-parse', '--verify', '--quiet', 'HEAD'], {
+            ...options,
+            cwd: dir,
+          })
+        : null;
+
+      return toSubmodule(
+        submodulePath,
+        recordedCommit,
+        head?.exitCode === 0 ? head.stdout.trim() : null,
+        initialized,
+        status.entries
+      );
+    })
+  );
+}
+
+/**
+ * Parses `git config -z --get-regexp` output (`key\nvalue` records) into
+ * the configured values.
+ */
+function parseSubmodulePaths(output: string): string[] {
+  return output
+    .split('\0')
+    .filter((record) => record.includes('\n'))
+    .map((record) => record.slice(record.indexOf('\n') + 1));
+}
+
+/**
+ * Parses `git ls-files --stage -z` output into gitlink paths and the commit
+ * recorded in the index (null when the gitlink is conflicted).
+ *
+ * Each record is `<mode> <object> <stage>\t<path>`.
+ */
+function parseGitlinks(output: string): Map<string, string | null> {
+  const gitlinks = new Map<string, string | null>();
+
+  for (const record of output.split('\0')) {
+    const match = record.match(/^(\d+) ([0-9a-f]+) (\d)\t(.+)$/s);
+    if (!match || match[1] !== GITLINK_MODE) continue;
+
+    const [, , object, stage, submodulePath] = match;
+    gitlinks.set(submodulePath, stage === '0' ? object : null);
+  }
+
+  return gitlinks;
+}
+
+/**
+ * Combines index, HEAD and status information for one submodule.
+ */
+function toSubmodule(
+  submodulePath: string,
+  recordedCommit: string | null,
+  commit: string | null,
+  initialized: boolean,
+  entries: StatusEntry[]
+): Submodule {
+  const state = entries.find((entry) => entry.path === submodulePath)?.submodule;
+
+  return {
+    path: submodulePath,
+    recordedCommit,
+    commit,
+    initialized,
+    commitChanged: state?.commitChanged ?? false,
+    hasTrackedChanges: state?.hasTrackedChanges ?? false,
+    hasUntrackedChanges: state?.hasUntrackedChanges ?? false,
+  };
+}
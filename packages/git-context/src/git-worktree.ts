@@ -0,0 +1,175 @@
+/**
+ * Git worktree operations for enumerating worktrees and telling linked
+ * worktrees (`git worktree add`) apart from the main worktree.
+ *
+ * @module git-worktree
+ */
+
+import {
+  execGitSafe,
+  execGitSafeAsync,
+  execGitSafeDetailed,
+  execGitSafeDetailedAsync,
+  type GitAsyncExecOptions,
+  type GitExecOptions,
+} from './exec-safe.js';
+import type { Worktree } from './types.js';
+
+/**
+ * Prints the git dir and common dir as absolute paths, one per line.
+ */
+const GIT_DIRS_ARGS = ['rev-parse', '--path-format=absolute', '--git-dir', '--git-common-dir'];
+
+/**
+ * Lists all worktrees of the repository.
+ *
+ * Uses `git worktree list --porcelain -z`. The main worktree is always first.
+ *
+ * @param options - Optional execution options (e.g., `cwd`)
+ * @returns Worktrees, main worktree first
+ * @throws {Error} If not in a git repository
+ *
+ * @example
+ * ```typescript
+ * for (const worktree of getWorktrees()) {
+ *   const label = worktree.isMain ? 'main' : 'linked';
+ *   console.log(`${worktree.path} (${label}) on ${worktree.branch ?? worktree.head}`);
+ * }
+ * ```
+ */
+export function getWorktrees(options?: GitExecOptions): Worktree[] {
+  const exec = { cwd: options?.cwd };
+  const output = execGitSafe(['worktree', 'list', '--porcelain', '-z'], exec);
+  const toplevel = execGitSafeDetailed(['rev-parse', '--show-toplevel'], exec);
+
+  return parseWorktreeOutput(output, toplevel.exitCode === 0 ? toplevel.stdout.trim() : null);
+}
+
+/**
+ * Async sibling of getWorktrees that does not block the event loop.
+ *
+ * @param options - Async execution options
+ * @returns Promise resolving to worktrees, main worktree first
+ * @throws {Error} If not in a git repository, or the command times out or is aborted
+ *
+ * @example
+ * ```typescript
+ * const worktrees = await getWorktreesAsync({ cwd: '/repos/app', timeoutMs: 200 });
+ * ```
+ */
+export async function getWorktreesAsync(options?: GitAsyncExecOptions): Promise<Worktree[]> {
+  const [output, toplevel] = await Promise.all([
+    execGitSafeAsync(['worktree', 'list', '--porcelain', '-z'], options),
+    execGitSafeDetailedAsync(['rev-parse', '--show-toplevel'], options),
+  ]);
+
+  return parseWorktreeOutput(output, toplevel.exitCode === 0 ? toplevel.stdout.trim() : null);
+}
+
+/**
+ * Checks whether the working directory belongs to a linked worktree.
+ *
+ * A linked worktree has its own git directory under the main repository's
+ * `worktrees/` directory, so its git dir differs from the common dir.
+ *
+ * @param options - Optional execution options (e.g., `cwd`)
+ * @returns True for a linked worktree, false for the main worktree
+ * @throws {Error} If not in a git repository
+ *
+ * @example
+ * ```typescript
+ * if (isLinkedWorktree()) {
+ *   console.log('Running in a linked worktree');
+ * }
+ * ```
+ */
+export function isLinkedWorktree(options?: GitExecOptions): boolean {
+  return parseIsLinked(execGitSafe(GIT_DIRS_ARGS, { cwd: options?.cwd }));
+}
+
+/**
+ * Async sibling of isLinkedWorktree.
+ *
+ * @param options - Async execution options
+ * @returns Promise resolving to true for a linked worktree
+ * @throws {Error} If not in a git repository, or the command times out or is aborted
+ */
+export async function isLinkedWorktreeAsync(options?: GitAsyncExecOptions): Promise<boolean> {
+  return parseIsLinked(await execGitSafeAsync(GIT_DIRS_ARGS, options));
+}
+
+/**
+ * A linked worktree's git dir differs from the common (shared) git dir.
+ */
+function parseIsLinked(output: string): boolean {
+  const [gitDir, commonDir] = output.trim().split('\n');
+  return gitDir !== commonDir;
+}
+
+/**
+ * Parses `git worktree list --porcelain -z` output.
+ *
+ * Each worktree is a run of NUL-terminated attribute lines, ended by an
+ * empty one:
+ * ```
+ * worktree /repos/app<NUL>HEAD 3f9bb10...<NUL>branch refs/heads/main<NUL><NUL>
+ * worktree /repos/app-review<NUL>HEAD 3f9bb10...<NUL>detached<NUL>locked agent session<NUL><NUL>
+ * ```
+ *
+ * @param output - Raw NUL-separated output
+ * @param currentPath - Top-level directory of the current worktree, if any
+ * @returns Worktrees in the order listed (main worktree first)
+ */
+export function parseWorktreeOutput(output: string, currentPath: string | null): Worktree[] {
+  const worktrees: Worktree[] = [];
+  let worktree: Worktree | null = null;
+
+  for (const line of output.split('\0')) {
+    if (line.startsWith('worktree ')) {
+      const path = line.slice('worktree '.length);
+      worktree = {
+        path,
+        head: null,
+        branch: null,
+        detached: false,
+        bare: false,
+        isMain: worktrees.length === 0,
+        isCurrent: path === currentPath,
+        locked: false,
+        lockReason: null,
+        prunable: false,
+      };
+      worktrees.push(worktree);
+      continue;
+    }
+
+    if (!worktree || !line) continue;
+
+    const [attribute] = line.split(' ', 1);
+    const value = line.slice(attribute.length + 1);
+    switch (attribute) {
+      case 'HEAD':
+        // Unborn branches report the all-zero object id
+        worktree.head = /^0+$/.test(value) ? null : value;
+        break;
+      case 'branch':
+        worktree.branch = value.replace(/^refs\/heads\//, '');
+        break;
+      case 'detached':
+        worktree.detached = true;
+        break;
+      case 'bare':
+        worktree.bare = true;
+        break;
+      case 'locked':
+        worktree.locked = true;
+        worktree.lockReason = value || null;
+        break;
+      case 'prunable':
+        worktree.prunable = true;
+        break;
+    }
+  }
+
+  return worktrees;
+}
@@ -9,14 +9,24 @@
  * @packageDocumentation
  */
 
-import { getCurrentBranch } from './git-branch.js';
-import { getParsedDiff } from './git-diff.js';
-import { getRecentCommits } from './git-log.js';
-import { getRepositoryInfo } from './git-repository.js';
-import { getChangedFilesFromStatus, getGitStatus } from './git-status.js';
-import { sanitizeForAIContext } from './sanitize.js';
-import type { GitContext, GitContextOptions } from './types.js';
-import { gitContextOptionsSchema } from './validators.js';
+import { setMaxListeners } from 'node:events';
+import { sanitizeError } from './exec-safe.js';
+import { getCurrentBranch, getCurrentBranchAsync } from './git-branch.js';
+import { getParsedDiff, getParsedDiffAsync } from './git-diff.js';
+import { getRecentCommits, getRecentCommitsAsync } from './git-log.js';
+import { getOperationState, getOperationStateAsync } from './git-operation.js';
+import { getRepositoryInfo, getRepositoryInfoAsync } from './git-repository.js';
+import { getChangedFilesFromStatus, getGitStatus, getGitStatusAsync } from './git-status.js';
+import { sanitizeForAIContext, sanitizePartialContext } from './sanitize.js';
+import type {
+  GitContext,
+  GitContextAsyncOptions,
+  GitContextOptions,
+  GitContextSection,
+  GitContextSectionError,
+  PartialGitContext,
+} from './types.js';
+import { gitContextAsyncOptionsSchema, gitContextOptionsSchema } from './validators.js';
 
 /**
  * Extracts comprehensive git context for AI agent injection.
@@ -28,12 +38,13 @@ import { gitContextOptionsSchema } from './validators.js';
  * - Sequential execution optimized for performance (<500ms target)
  *
  * **Includes:**
- * - Repository info (root, remote, clean status)
+ * - Repository info (root, remote, clean status, worktrees, submodules)
  * - Branch info (current, upstream, ahead/behind)
  * - Working directory status (staged, modified, untracked, deleted)
  * - Recent commits (default: 10)
  * - Parsed diff (unified format)
  * - Changed files list
+ * - In-progress operation state (merge/rebase/cherry-pick, conflicts, detached HEAD)
  *
  * @param options - Optional configuration
  * @returns Complete git context
@@ -62,16 +73,18 @@ export function getGitContext(options?: GitContextOptions): GitContext {
   const diffContext = validatedOptions?.diffContext ?? 3;
   const includeUntracked = validatedOptions?.includeUntracked ?? true;
   const sanitizeForAI = validatedOptions?.sanitizeForAI ?? true;
+  const exec = { cwd: validatedOptions?.cwd };
 
   // Execute all operations sequentially (synchronous spawnSync calls)
   // Target: <500ms total execution time
   // Note: Pass sanitize: false to avoid redundant sanitization
   // (sanitizeForAIContext at the end handles all sanitization)
-  const repository = getRepositoryInfo({ sanitize: false });
-  const branch = getCurrentBranch();
-  const status = getGitStatus({ includeUntracked });
-  const recentCommits = getRecentCommits({ limit: maxCommits, sanitize: false });
-  const diff = getParsedDiff({ context: diffContext });
+  const repository = getRepositoryInfo({ ...exec, sanitize: false });
+  const branch = getCurrentBranch(exec);
+  const status = getGitStatus({ ...exec, includeUntracked });
+  const recentCommits = getRecentCommits({ ...exec, limit: maxCommits, sanitize: false });
+  const diff = getParsedDiff({ ...exec, context: diffContext });
+  const operationState = getOperationState(exec);
 
   // Extract changed files from status (avoids duplicate git status call)
   const changedFiles = getChangedFilesFromStatus(status);
@@ -84,56 +97,321 @@ export function getGitContext(options?: GitContextOptions): GitContext {
     recentCommits,
     diff,
     changedFiles,
+    operationState,
   };
 
   // Apply AI sanitization if enabled
   return sanitizeForAI ? sanitizeForAIContext(context) : context;
 }
 
-export type { GitCommandResult } from './exec-safe.js';
+/**
+ * Async, concurrent variant of getGitContext with an overall time budget.
+ *
+ * Runs the independent git commands concurrently without blocking the event
+ * loop. Instead of throwing when one command fails, times out, or is aborted,
+ * the affected section is set to null and an error marker is recorded in
+ * `errors`, so callers always get whatever context could be gathered.
+ *
+ * @param options - Optional configuration, including `timeoutMs` and `signal`
+ * @returns Promise resolving to a (possibly partial) git context
+ * @throws {ZodError} If options fail validation
+ *
+ * @example
+ * ```typescript
+ * const context = await getGitContextAsync({ maxCommits: 5, timeoutMs: 500 });
+ * if (context.errors.diff) {
+ *   console.warn(`Diff unavailable (${context.errors.diff.reason})`);
+ * }
+ * console.log(context.branch?.current); // 'main'
+ * ```
+ */
+export async function getGitContextAsync(
+  options?: GitContextAsyncOptions
+): Promise<PartialGitContext> {
+  const validatedOptions = options ? gitContextAsyncOptionsSchema.parse(options) : undefined;
+
+  const maxCommits = validatedOptions?.maxCommits ?? 10;
+  const diffContext = validatedOptions?.diffContext ?? 3;
+  const includeUntracked = validatedOptions?.includeUntracked ?? true;
+  const sanitizeForAI = validatedOptions?.sanitizeForAI ?? true;
+  const timeoutMs = validatedOptions?.timeoutMs ?? 5000;
+
+  // One controller aborts every in-flight command on timeout or caller abort
+  const controller = new AbortController();
+  // Every in-flight command listens for abort; the sections together run more than Node's default 10
+  setMaxListeners(32, controller.signal);
+  const callerSignal = options?.signal;
+  let timedOut = false;
+
+  const onCallerAbort = () => controller.abort();
+  if (callerSignal?.aborted) {
+    controller.abort();
+  } else {
+    callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+  }
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  const errors: PartialGitContext['errors'] = {};
+  const exec = { cwd: validatedOptions?.cwd, signal: controller.signal };
+
+  // Resolve a section to its value, or to null with an error marker
+  const settle = async <T>(section: GitContextSection, task: Promise<T>): Promise<T | null> => {
+    try {
+      return await task;
+    } catch (error) {
+      errors[section] = toSectionError(error, controller.signal.aborted, timedOut);
+      return null;
+    }
+  };
+
+  let repository: PartialGitContext['repository'];
+  let branch: PartialGitContext['branch'];
+  let status: PartialGitContext['status'];
+  let recentCommits: PartialGitContext['recentCommits'];
+  let diff: PartialGitContext['diff'];
+  let operationState: PartialGitContext['operationState'];
+
+  try {
+    // Note: Pass sanitize: false to avoid redundant sanitization
+    // (sanitizePartialContext at the end handles all sanitization)
+    [repository, branch, status, recentCommits, diff, operationState] = await Promise.all([
+      settle('repository', getRepositoryInfoAsync({ ...exec, sanitize: false })),
+      settle('branch', getCurrentBranchAsync(exec)),
+      settle('status', getGitStatusAsync({ ...exec, includeUntracked })),
+      settle(
+        'recentCommits',
+        getRecentCommitsAsync({ ...exec, limit: maxCommits, sanitize: false })
+      ),
+      settle('diff', getParsedDiffAsync({ ...exec, context: diffContext })),
+      settle('operationState', getOperationStateAsync(exec)),
+    ]);
+  } finally {
+    clearTimeout(timer);
+    callerSignal?.removeEventListener('abort', onCallerAbort);
+  }
+
+  const context: PartialGitContext = {
+    repository,
+    branch,
+    status,
+    recentCommits,
+    diff,
+    changedFiles: status ? getChangedFilesFromStatus(status) : [],
+    operationState,
+    errors,
+  };
+
+  return sanitizeForAI ? sanitizePartialContext(context) : context;
+}
+
+/**
+ * Classifies a section failure as a git error, timeout, or caller abort.
+ */
+function toSectionError(
+  error: unknown,
+  aborted: boolean,
+  timedOut: boolean
+): GitContextSectionError {
+  const message = error instanceof Error ? error.message : String(error);
+  let reason: GitContextSectionError['reason'] = 'failed';
+  if (aborted) {
+    reason = timedOut ? 'timeout' : 'aborted';
+  }
+  return { reason, message: sanitizeError(message) };
+}
+
+export type {
+  ContextOmissions,
+  OmittedDiffFile,
+  PackedGitContext,
+  PackOptions,
+  TokenCounter,
+  TrimmedDiffFile,
+} from './context-budget.js';
+// Export token-budgeted serialization
+export {
+  countTokens,
+  DEFAULT_LOW_PRIORITY_PATTERNS,
+  estimateTokens,
+  packGitContext,
+} from './context-budget.js';
+export type {
+  GitContextCache,
+  GitContextCacheOptions,
+  GitContextFingerprint,
+  GitContextListener,
+} from './context-cache.js';
+// Export incremental context cache and change subscription
+export { createGitContextCache } from './context-cache.js';
+export type { FormatOptions, GitContextFormat, GitContextKey } from './context-format.js';
+// Export text renderings (JSON, Markdown digest, XML-tagged blocks)
+export { formatGitContext, GIT_CONTEXT_KEYS } from './context-format.js';
+// Export unified diff parsing (quoted paths, CRLF, binary sizes, -z output)
+export { parseNumstatZ, parseUnifiedDiff, unquoteGitPath } from './diff-parser.js';
+// Export symbol-level diff summaries (TypeScript compiler API)
+export { extractExportedSymbols, summarizeDiffSymbols } from './diff-symbols.js';
+export type {
+  GitAsyncExecOptions,
+  GitCommandResult,
+  GitExecOptions,
+  GitOutputOptions,
+} from './exec-safe.js';
 // Export safe execution utilities
-export { execGitSafe, execGitSafeDetailed, sanitizeError } from './exec-safe.js';
+export {
+  execGitSafe,
+  execGitSafeAsync,
+  execGitSafeDetailed,
+  execGitSafeDetailedAsync,
+  sanitizeError,
+} from './exec-safe.js';
+export { getBlame } from './git-blame.js';
 export {
   getCurrentBranch,
+  getCurrentBranchAsync,
   getCurrentBranchName,
   getUpstreamBranch,
   isTrackingUpstream,
 } from './git-branch.js';
-export { getDiffFileCount, getDiffStats, getParsedDiff } from './git-diff.js';
-export { getCommitsSince, getLatestCommit, getRecentCommits } from './git-log.js';
+export { detectBaseBranch, getBranchComparison, getMergeBase } from './git-compare.js';
+export { getDiffFileCount, getDiffStats, getParsedDiff, getParsedDiffAsync } from './git-diff.js';
+export {
+  getCommitsByHash,
+  getCommitsSince,
+  getLatestCommit,
+  getLineHistory,
+  getRecentCommits,
+  getRecentCommitsAsync,
+  parseCommitTrailers,
+  parseConventionalCommit,
+} from './git-log.js';
+export {
+  getOperationState,
+  getOperationStateAsync,
+  parseUnmergedOutput,
+} from './git-operation.js';
 
 // Export git operations
-export { findGitRoot, getRemoteURL, getRepositoryInfo, isInsideGitRepo } from './git-repository.js';
-export { getChangedFiles, getGitStatus, isWorkingDirectoryClean } from './git-status.js';
+export {
+  findGitRoot,
+  getRemoteURL,
+  getRepositoryInfo,
+  getRepositoryInfoAsync,
+  isInsideGitRepo,
+} from './git-repository.js';
+export {
+  getChangedFiles,
+  getGitStatus,
+  getGitStatusAsync,
+  isWorkingDirectoryClean,
+} from './git-status.js';
+export { getSubmodules, getSubmodulesAsync } from './git-submodule.js';
+export {
+  getWorktrees,
+  getWorktreesAsync,
+  isLinkedWorktree,
+  isLinkedWorktreeAsync,
+  parseWorktreeOutput,
+} from './git-worktree.js';
 // Export sanitization utilities (AI safety)
+export type { SanitizeContextOptions } from './sanitize.js';
 export {
+  defaultSanitizer,
   sanitizeCommitMessage,
   sanitizeFilePath,
   sanitizeForAIContext,
+  sanitizePartialContext,
   sanitizeRemoteURL,
 } from './sanitize.js';
+export type {
+  SanitizeResult,
+  Sanitizer,
+  SanitizerConfig,
+  SanitizerRule,
+} from './sanitizer.js';
+// Export configurable sanitizer engine
+export { createSanitizer, DEFAULT_SANITIZER_RULES, FILTERED_PLACEHOLDER } from './sanitizer.js';
+export type { SecretRule, SecretScanOptions, SecretScanResult } from './secret-scan.js';
+// Export secret scanning (diff redaction)
+export {
+  detectSecrets,
+  redactDiffSecrets,
+  SECRET_ALLOWLIST,
+  SECRET_REDACTION,
+  SECRET_RULES,
+} from './secret-scan.js';
 // Export types
 export type {
+  BinaryDiffInfo,
+  BlameLine,
+  BlameOptions,
+  BranchCommit,
+  BranchComparison,
+  BranchComparisonOptions,
   BranchInfo,
   ChangedFile,
   Commit,
+  CommitFileChange,
+  CommitPerson,
+  CommitSignature,
+  CommitSignatureStatus,
+  CommitTrailer,
+  ConflictedFile,
+  ConflictState,
+  ConflictType,
+  ConventionalCommit,
   DiffFile,
   DiffHunk,
+  DiffNumstatEntry,
   DiffStats,
+  DiffSymbolOptions,
+  DiffSymbolSummary,
+  ExportedSymbol,
+  ExportedSymbolKind,
+  FileSymbolChanges,
   GitContext,
+  GitContextAsyncOptions,
   GitContextOptions,
+  GitContextSection,
+  GitContextSectionError,
+  GitOperation,
   GitStatus,
+  HeadState,
+  LineHistoryOptions,
+  OperationState,
   ParsedDiff,
+  PartialGitContext,
+  RebaseProgress,
   RepositoryInfo,
+  SanitizationFinding,
+  SanitizationReport,
+  SanitizerRuleCategory,
+  SecretFinding,
+  Submodule,
+  SubmoduleState,
+  SymbolChange,
+  Worktree,
 } from './types.js';
 // Export validators
 export {
+  blameOptionsSchema,
+  branchComparisonOptionsSchema,
   branchNameSchema,
   commitHashSchema,
+  cwdSchema,
+  diffSymbolOptionsSchema,
   filePathSchema,
   gitArgsSchema,
+  gitContextAsyncOptionsSchema,
+  gitContextCacheOptionsSchema,
   gitContextOptionsSchema,
+  gitRefSchema,
+  lineHistoryOptionsSchema,
   nonNegativeIntegerSchema,
+  packOptionsSchema,
   positiveIntegerSchema,
   remoteUrlSchema,
   shortCommitHashSchema,
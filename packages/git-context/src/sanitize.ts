@@ -9,17 +9,61 @@
  * @module sanitize
  */
 
-import type { GitContext } from './types.js';
+import { createSanitizer, type Sanitizer } from './sanitizer.js';
+import { redactDiffSecrets } from './secret-scan.js';
+import type {
+  ChangedFile,
+  Commit,
+  GitContext,
+  GitStatus,
+  OperationState,
+  ParsedDiff,
+  PartialGitContext,
+  RepositoryInfo,
+  SanitizationFinding,
+  SecretFinding,
+} from './types.js';
+
+/**
+ * Options for sanitizeForAIContext() and sanitizePartialContext().
+ */
+export interface SanitizeContextOptions {
+  /**
+   * Attach a `sanitizationReport` listing which rules fired on which fields.
+   * @default false
+   */
+  report?: boolean;
+  /**
+   * Sanitizer used for commit text (see createSanitizer).
+   * @default defaultSanitizer
+   */
+  sanitizer?: Sanitizer;
+  /**
+   * Throw instead of redacting when the diff contains secrets (fail closed).
+   * @default false
+   */
+  failOnSecrets?: boolean;
+}
+
+/**
+ * Sanitizer with the built-in rule set (DEFAULT_SANITIZER_RULES, 500-character cap).
+ */
+export const defaultSanitizer: Sanitizer = createSanitizer();
 
 /**
  * Sanitizes commit messages to prevent prompt injection attacks.
  *
- * **Mitigations:**
+ * **Mitigations** (see DEFAULT_SANITIZER_RULES):
+ * - Normalizes zero-width characters, direction overrides (RLO/LRO),
+ *   fullwidth letters and Cyrillic/Greek homoglyphs
+ * - Filters base64 and URL-encoded payloads that decode to injections
  * - Filters "ignore previous instructions" patterns
  * - Filters "system prompt" manipulation patterns
  * - Removes special tokens (e.g., `<|endoftext|>`, `<|assistant|>`)
+ * - Removes markdown/HTML images and query-string links (exfiltration)
  * - Limits message length to 500 characters
- * - Removes Unicode direction override characters (RLO/LRO)
+ *
+ * Use createSanitizer() for custom rules or a findings report.
  *
  * @param message - Raw commit message
  * @returns Sanitized message safe for AI context
@@ -32,32 +76,7 @@ import type { GitContext } from './types.js';
  * ```
  */
 export function sanitizeCommitMessage(message: string): string {
-  return (
-    message
-      // Remove common prompt injection patterns (case-insensitive)
-      .replace(/ignore\s+(all\s+)?previous\s+instructions?/gi, '[FILTERED]')
-      .replace(/ignore\s+(the\s+)?above\s+(and\s+)?(instructions?|prompts?)/gi, '[FILTERED]')
-      .replace(/disregard\s+(all\s+)?previous\s+instructions?/gi, '[FILTERED]')
-      .replace(/forget\s+(all\s+)?previous\s+instructions?/gi, '[FILTERED]')
-      // System prompt manipulation
-      .replace(/system\s+prompts?/gi, '[FILTERED]')
-      .replace(/system\s+instructions?/gi, '[FILTERED]')
-      .replace(/you\s+are\s+now/gi, '[FILTERED]')
-      .replace(/act\s+as\s+(a|an)\s+/gi, '[FILTERED] ')
-      .replace(/pretend\s+to\s+be/gi, '[FILTERED]')
-      .replace(/roleplay\s+as/gi, '[FILTERED]')
-      // Special tokens (common in LLM tokenizers)
-      .replace(/<\|[^|]+\|>/g, '[FILTERED]') // <|endoftext|>, <|assistant|>, etc.
-      .replace(/\[INST\]/g, '[FILTERED]')
-      .replace(/\[\/INST\]/g, '[FILTERED]')
-      .replace(/<<SYS>>/g, '[FILTERED]')
-      .replace(/<\/SYS>/g, '[FILTERED]')
-      // Unicode direction override attacks (RLO/LRO)
-      .replace(/[\u202E\u202D]/g, '')
-      // Limit length (prevent context stuffing)
-      .substring(0, 500)
-      .trim()
-  );
+  return defaultSanitizer.sanitize(message).text;
 }
 
 /**
@@ -149,55 +168,217 @@ export function sanitizeFilePath(filePath: string): string {
  * Applies comprehensive sanitization to a GitContext object for AI safety.
  *
  * **Sanitizations applied:**
- * - Commit messages → sanitizeCommitMessage()
+ * - Commit messages → sanitizeCommitMessage() (or `options.sanitizer`)
  * - Remote URLs → sanitizeRemoteURL()
  * - File paths → sanitizeFilePath() (where applicable)
+ * - Diff lines containing secrets → redactDiffSecrets()
  * - Error messages → redacted in exec-safe.ts
  *
  * @param context - Raw git context
+ * @param options - Optional sanitizer, report flag, and fail-closed secret handling
  * @returns Sanitized context safe for AI injection
+ * @throws {Error} If `failOnSecrets` is set and the diff contains secrets
  *
  * @example
  * ```typescript
- * const rawContext = await getRawGitContext();
- * const safeContext = sanitizeForAIContext(rawContext);
- * // Now safe to pass to AI agents
+ * const rawContext = getGitContext({ sanitizeForAI: false });
+ * const safeContext = sanitizeForAIContext(rawContext, { report: true });
+ * for (const finding of safeContext.sanitizationReport?.findings ?? []) {
+ *   console.warn(`${finding.ruleId} fired on ${finding.field}`);
+ * }
  * ```
  */
-export function sanitizeForAIContext(context: GitContext): GitContext {
+export function sanitizeForAIContext(
+  context: GitContext,
+  options?: SanitizeContextOptions
+): GitContext {
+  const findings: SanitizationFinding[] = [];
+  const secrets: SecretFinding[] = [];
+  const sanitizer = options?.sanitizer ?? defaultSanitizer;
+  const diff = sanitizeDiff(context.diff, secrets, options?.failOnSecrets ?? false);
+
+  return {
+    ...context,
+    repository: sanitizeRepository(context.repository, sanitizer, findings),
+    recentCommits: sanitizeCommits(context.recentCommits, sanitizer, findings),
+    status: sanitizeStatus(context.status),
+    changedFiles: sanitizeChangedFiles(context.changedFiles),
+    diff,
+    operationState: sanitizeOperationState(context.operationState),
+    ...(options?.report && { sanitizationReport: { findings, secrets } }),
+  };
+}
+
+/**
+ * Applies the same sanitization as sanitizeForAIContext to a PartialGitContext.
+ * Missing sections stay null and error markers are passed through.
+ *
+ * @param context - Raw partial git context from getGitContextAsync()
+ * @param options - Optional sanitizer, report flag, and fail-closed secret handling
+ * @returns Sanitized partial context safe for AI injection
+ * @throws {Error} If `failOnSecrets` is set and the diff contains secrets
+ */
+export function sanitizePartialContext(
+  context: PartialGitContext,
+  options?: SanitizeContextOptions
+): PartialGitContext {
+  const findings: SanitizationFinding[] = [];
+  const secrets: SecretFinding[] = [];
+  const sanitizer = options?.sanitizer ?? defaultSanitizer;
+  const diff = context.diff && sanitizeDiff(context.diff, secrets, options?.failOnSecrets ?? false);
+
   return {
     ...context,
-    repository: {
-      ...context.repository,
-      root: sanitizeFilePath(context.repository.root),
-      remote: sanitizeRemoteURL(context.repository.remote),
-    },
-    recentCommits: context.recentCommits.map((commit) => ({
+    repository: context.repository && sanitizeRepository(context.repository, sanitizer, findings),
+    recentCommits:
+      context.recentCommits && sanitizeCommits(context.recentCommits, sanitizer, findings),
+    status: context.status && sanitizeStatus(context.status),
+    changedFiles: sanitizeChangedFiles(context.changedFiles),
+    diff,
+    operationState: context.operationState && sanitizeOperationState(context.operationState),
+    ...(options?.report && { sanitizationReport: { findings, secrets } }),
+  };
+}
+
+function sanitizeRepository(
+  repository: RepositoryInfo,
+  sanitizer: Sanitizer,
+  findings: SanitizationFinding[]
+): RepositoryInfo {
+  return {
+    ...repository,
+    root: sanitizeFilePath(repository.root),
+    remote: sanitizeRemoteURL(repository.remote),
+    mainWorktreeRoot: sanitizeFilePath(repository.mainWorktreeRoot),
+    worktrees: repository.worktrees.map((worktree, index) => {
+      // Lock reasons are free text written by whoever locked the worktree
+      let lockReason = worktree.lockReason;
+      if (lockReason !== null) {
+        const result = sanitizer.sanitize(lockReason, `repository.worktrees[${index}].lockReason`);
+        findings.push(...result.findings);
+        lockReason = result.text;
+      }
+      return { ...worktree, path: sanitizeFilePath(worktree.path), lockReason };
+    }),
+    submodules: repository.submodules.map((submodule) => ({
+      ...submodule,
+      path: sanitizeFilePath(submodule.path),
+    })),
+  };
+}
+
+/**
+ * Sanitizes commit text fields, collecting findings keyed by field path.
+ */
+function sanitizeCommits(
+  commits: Commit[],
+  sanitizer: Sanitizer,
+  findings: SanitizationFinding[]
+): Commit[] {
+  return commits.map((commit, index) => {
+    const sanitizeText = (text: string, field: string) => {
+      const result = sanitizer.sanitize(text, `recentCommits[${index}].${field}`);
+      findings.push(...result.findings);
+      return result.text;
+    };
+    const sanitizeField = (field: 'message' | 'subject' | 'body' | 'author' | 'email') =>
+      sanitizeText(commit[field], field);
+
+    return {
       ...commit,
-      message: sanitizeCommitMessage(commit.message),
-      subject: sanitizeCommitMessage(commit.subject),
-      body: sanitizeCommitMessage(commit.body),
-      author: sanitizeCommitMessage(commit.author),
-      email: sanitizeCommitMessage(commit.email),
+      message: sanitizeField('message'),
+      subject: sanitizeField('subject'),
+      body: sanitizeField('body'),
+      author: sanitizeField('author'),
+      email: sanitizeField('email'),
+      conventional: commit.conventional && {
+        ...commit.conventional,
+        description: sanitizeText(commit.conventional.description, 'conventional.description'),
+      },
+      trailers: commit.trailers.map((trailer, i) => ({
+        key: trailer.key,
+        value: sanitizeText(trailer.value, `trailers[${i}].value`),
+      })),
+      coAuthors: commit.coAuthors.map((person, i) => ({
+        name: sanitizeText(person.name, `coAuthors[${i}].name`),
+        email: sanitizeText(person.email, `coAuthors[${i}].email`),
+      })),
+      refs: commit.refs.map((ref, i) => sanitizeText(ref, `refs[${i}]`)),
+      aiAssisted: commit.aiAssisted && sanitizeText(commit.aiAssisted, 'aiAssisted'),
+      signature: {
+        ...commit.signature,
+        signer:
+          commit.signature.signer && sanitizeText(commit.signature.signer, 'signature.signer'),
+      },
+    };
+  });
+}
+
+function sanitizeStatus(status: GitStatus): GitStatus {
+  return {
+    ...status,
+    staged: status.staged.map(sanitizeFilePath),
+    modified: status.modified.map(sanitizeFilePath),
+    untracked: status.untracked.map(sanitizeFilePath),
+    deleted: status.deleted.map(sanitizeFilePath),
+    renamed: status.renamed.map((rename) => ({
+      ...rename,
+      from: sanitizeFilePath(rename.from),
+      to: sanitizeFilePath(rename.to),
     })),
-    status: {
-      ...context.status,
-      staged: context.status.staged.map(sanitizeFilePath),
-      modified: context.status.modified.map(sanitizeFilePath),
-      untracked: context.status.untracked.map(sanitizeFilePath),
-      deleted: context.status.deleted.map(sanitizeFilePath),
-    },
-    changedFiles: context.changedFiles.map((file) => ({
+    conflicted: status.conflicted.map(sanitizeFilePath),
+    entries: status.entries.map((entry) => ({
+      ...entry,
+      path: sanitizeFilePath(entry.path),
+      originalPath: entry.originalPath ? sanitizeFilePath(entry.originalPath) : null,
+    })),
+  };
+}
+
+function sanitizeChangedFiles(files: ChangedFile[]): ChangedFile[] {
+  return files.map((file) => ({
+    ...file,
+    path: sanitizeFilePath(file.path),
+    ...(file.oldPath !== undefined && { oldPath: sanitizeFilePath(file.oldPath) }),
+  }));
+}
+
+/**
+ * Sanitizes diff paths and redacts secret-bearing hunk lines, collecting
+ * secret findings. Throws instead of redacting when failing closed.
+ */
+function sanitizeDiff(
+  diff: ParsedDiff,
+  secrets: SecretFinding[],
+  failOnSecrets: boolean
+): ParsedDiff {
+  const redacted = redactDiffSecrets({
+    ...diff,
+    files: diff.files.map((file) => ({
       ...file,
       path: sanitizeFilePath(file.path),
+      oldPath: file.oldPath ? sanitizeFilePath(file.oldPath) : null,
+    })),
+  });
+
+  if (failOnSecrets && redacted.findings.length > 0) {
+    // Never include the secret itself, only where it is
+    const locations = redacted.findings
+      .map((finding) => `${finding.path}:${finding.line} (${finding.ruleId})`)
+      .join(', ');
+    throw new Error(`Secrets detected in diff, refusing to build AI context: ${locations}`);
+  }
+
+  secrets.push(...redacted.findings);
+  return redacted.diff;
+}
+
+function sanitizeOperationState(state: OperationState): OperationState {
+  return {
+    ...state,
+    conflicts: state.conflicts.map((conflict) => ({
+      ...conflict,
+      path: sanitizeFilePath(conflict.path),
     })),
-    diff: {
-      ...context.diff,
-      files: context.diff.files.map((file) => ({
-        ...file,
-        path: sanitizeFilePath(file.path),
-        oldPath: file.oldPath ? sanitizeFilePath(file.oldPath) : null,
-      })),
-    },
   };
 }
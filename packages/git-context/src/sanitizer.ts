@@ -0,0 +1,455 @@
+/**
+ * Rule-based prompt-injection sanitizer with a detection report.
+ *
+ * Text is passed through an ordered list of rules. Each rule is a global
+ * regular expression plus either a replacement or a decoder:
+ * - Replacement rules rewrite every match (default: `[FILTERED]`)
+ * - Decoder rules decode each match (base64, URL encoding) and filter it only
+ *   if the decoded text trips one of the sanitizer's own detection rules
+ *
+ * Every rule that changes the text is recorded as a finding, so callers can
+ * tell that something was filtered and why.
+ *
+ * @module sanitizer
+ */
+
+import type { SanitizationFinding, SanitizerRuleCategory } from './types.js';
+import { positiveIntegerSchema } from './validators.js';
+
+/**
+ * Text substituted for filtered content.
+ */
+export const FILTERED_PLACEHOLDER = '[FILTERED]';
+
+/**
+ * Single sanitizer rule.
+ *
+ * @example
+ * ```typescript
+ * const rule: SanitizerRule = {
+ *   id: 'jailbreak-dan',
+ *   category: 'prompt-injection',
+ *   description: 'DAN jailbreak prompt',
+ *   pattern: /\bdo\s+anything\s+now\b/gi,
+ * };
+ * ```
+ */
+export interface SanitizerRule {
+  /** Unique rule id, reported in findings */
+  id: string;
+  /** Rule category, reported in findings */
+  category: SanitizerRuleCategory;
+  /** Human-readable description */
+  description: string;
+  /** Pattern to match; must use the global (g) flag */
+  pattern: RegExp;
+  /**
+   * Replacement for each match. Ignored when `decode` is set.
+   * @default FILTERED_PLACEHOLDER
+   */
+  replacement?: string | ((match: string) => string);
+  /**
+   * Decodes a match for inspection. The match is filtered if the decoded text
+   * trips a prompt-injection, special-token, or exfiltration rule; return null
+   * if the match cannot be decoded.
+   */
+  decode?: (match: string) => string | null;
+}
+
+/**
+ * Sanitizer configuration.
+ */
+export interface SanitizerConfig {
+  /**
+   * Base rule set, applied in order.
+   * @default DEFAULT_SANITIZER_RULES
+   */
+  rules?: SanitizerRule[];
+  /** Rules appended after the base rule set */
+  extraRules?: SanitizerRule[];
+  /** Ids of rules to skip */
+  disabledRules?: string[];
+  /**
+   * Maximum length of sanitized text (prevents context stuffing).
+   * @default 500
+   */
+  maxLength?: number;
+}
+
+/**
+ * Result of sanitizing a single string.
+ */
+export interface SanitizeResult {
+  /** Sanitized text */
+  text: string;
+  /** Rules that changed the text */
+  findings: SanitizationFinding[];
+}
+
+/**
+ * Configured sanitizer created by createSanitizer().
+ */
+export interface Sanitizer {
+  /** Active rules, in application order */
+  readonly rules: readonly SanitizerRule[];
+  /** Maximum length of sanitized text */
+  readonly maxLength: number;
+  /**
+   * Sanitizes text and reports which rules fired.
+   *
+   * @param text - Raw text
+   * @param field - Field name recorded in findings (e.g., 'recentCommits[0].subject')
+   */
+  sanitize(text: string, field?: string): SanitizeResult;
+}
+
+/**
+ * Rule categories whose matches in decoded payloads cause the payload to be filtered.
+ */
+const DETECTION_CATEGORIES = new Set<SanitizerRuleCategory>([
+  'prompt-injection',
+  'special-token',
+  'exfiltration',
+]);
+
+/**
+ * Latin lookalikes from Cyrillic and Greek, used to defeat filters
+ * (e.g., "ignоre" with a Cyrillic "о").
+ */
+const HOMOGLYPHS: Record<string, string> = {
+  '\u0430': 'a', // Cyrillic small A
+  '\u0432': 'B', // Cyrillic small Ve
+  '\u0435': 'e', // Cyrillic small Ie
+  '\u0451': 'e', // Cyrillic small Io
+  '\u0456': 'i', // Cyrillic small Byelorussian-Ukrainian I
+  '\u0458': 'j', // Cyrillic small Je
+  '\u043A': 'k', // Cyrillic small Ka
+  '\u043C': 'M', // Cyrillic small Em
+  '\u043D': 'H', // Cyrillic small En
+  '\u043E': 'o', // Cyrillic small O
+  '\u0440': 'p', // Cyrillic small Er
+  '\u0441': 'c', // Cyrillic small Es
+  '\u0442': 'T', // Cyrillic small Te
+  '\u0443': 'y', // Cyrillic small U
+  '\u0445': 'x', // Cyrillic small Ha
+  '\u0455': 's', // Cyrillic small Dze
+  '\u0501': 'd', // Cyrillic small Komi De
+  '\u051B': 'q', // Cyrillic small Qa
+  '\u051D': 'w', // Cyrillic small We
+  '\u0410': 'A', // Cyrillic capital A
+  '\u0412': 'B', // Cyrillic capital Ve
+  '\u0415': 'E', // Cyrillic capital Ie
+  '\u0406': 'I', // Cyrillic capital Byelorussian-Ukrainian I
+  '\u0408': 'J', // Cyrillic capital Je
+  '\u041A': 'K', // Cyrillic capital Ka
+  '\u041C': 'M', // Cyrillic capital Em
+  '\u041D': 'H', // Cyrillic capital En
+  '\u041E': 'O', // Cyrillic capital O
+  '\u0420': 'P', // Cyrillic capital Er
+  '\u0421': 'C', // Cyrillic capital Es
+  '\u0422': 'T', // Cyrillic capital Te
+  '\u0425': 'X', // Cyrillic capital Ha
+  '\u0405': 'S', // Cyrillic capital Dze
+  '\u03B1': 'a', // Greek small Alpha
+  '\u03B5': 'e', // Greek small Epsilon
+  '\u03B9': 'i', // Greek small Iota
+  '\u03BA': 'k', // Greek small Kappa
+  '\u03BD': 'v', // Greek small Nu
+  '\u03BF': 'o', // Greek small Omicron
+  '\u03C1': 'p', // Greek small Rho
+  '\u03C4': 't', // Greek small Tau
+  '\u03C5': 'u', // Greek small Upsilon
+  '\u03C7': 'x', // Greek small Chi
+  '\u0391': 'A', // Greek capital Alpha
+  '\u0392': 'B', // Greek capital Beta
+  '\u0395': 'E', // Greek capital Epsilon
+  '\u0396': 'Z', // Greek capital Zeta
+  '\u0397': 'H', // Greek capital Eta
+  '\u0399': 'I', // Greek capital Iota
+  '\u039A': 'K', // Greek capital Kappa
+  '\u039C': 'M', // Greek capital Mu
+  '\u039D': 'N', // Greek capital Nu
+  '\u039F': 'O', // Greek capital Omicron
+  '\u03A1': 'P', // Greek capital Rho
+  '\u03A4': 'T', // Greek capital Tau
+  '\u03A5': 'Y', // Greek capital Upsilon
+  '\u03A7': 'X', // Greek capital Chi
+};
+
+/**
+ * Built-in rules, applied in order: normalization first so later rules see
+ * plain ASCII, then encoded payloads, then the detection rules.
+ */
+export const DEFAULT_SANITIZER_RULES: readonly SanitizerRule[] = [
+  // Normalization
+  {
+    id: 'zero-width',
+    category: 'normalization',
+    description: 'Zero-width and invisible formatting characters',
+    pattern: /[\u00AD\u180E\u200B-\u200D\u2060-\u2064\uFEFF]/g,
+    replacement: '',
+  },
+  {
+    id: 'bidi-override',
+    category: 'normalization',
+    description: 'Unicode direction override and isolate characters (RLO/LRO)',
+    pattern: /[\u202A-\u202E\u2066-\u2069]/g,
+    replacement: '',
+  },
+  {
+    id: 'fullwidth',
+    category: 'normalization',
+    description: 'Fullwidth Latin letters and digits',
+    pattern: /[\uFF10-\uFF19\uFF21-\uFF3A\uFF41-\uFF5A]/g,
+    replacement: (match) => String.fromCharCode(match.charCodeAt(0) - 0xfee0),
+  },
+  {
+    id: 'homoglyph',
+    category: 'normalization',
+    description: 'Cyrillic/Greek lookalikes mixed into Latin words',
+    // Only words that also contain Latin letters, so Cyrillic and Greek text is untouched
+    pattern: /[\p{L}\p{M}]+/gu,
+    replacement: (word) =>
+      /[A-Za-z]/.test(word) ? word.replace(/./gu, (char) => HOMOGLYPHS[char] ?? char) : word,
+  },
+
+  // Encoded payloads
+  {
+    id: 'base64-payload',
+    category: 'encoded-payload',
+    description: 'Base64-encoded prompt injection',
+    pattern: /[A-Za-z0-9+/]{24,}={0,2}|[A-Za-z0-9_-]{24,}/g,
+    decode: decodeBase64,
+  },
+  {
+    id: 'url-encoded-payload',
+    category: 'encoded-payload',
+    description: 'URL-encoded prompt injection',
+    pattern: /[^\s%]*(?:%[0-9A-Fa-f]{2}[^\s%]*){2,}/g,
+    decode: (match) => {
+      try {
+        return decodeURIComponent(match.replace(/\+/g, ' '));
+      } catch {
+        return null;
+      }
+    },
+  },
+
+  // Prompt injection
+  {
+    id: 'ignore-previous-instructions',
+    category: 'prompt-injection',
+    description: '"ignore previous instructions"',
+    pattern: /ignore\s+(all\s+)?previous\s+instructions?/gi,
+  },
+  {
+    id: 'ignore-above-instructions',
+    category: 'prompt-injection',
+    description: '"ignore the above instructions"',
+    pattern: /ignore\s+(the\s+)?above\s+(and\s+)?(instructions?|prompts?)/gi,
+  },
+  {
+    id: 'disregard-previous-instructions',
+    category: 'prompt-injection',
+    description: '"disregard previous instructions"',
+    pattern: /disregard\s+(all\s+)?previous\s+instructions?/gi,
+  },
+  {
+    id: 'forget-previous-instructions',
+    category: 'prompt-injection',
+    description: '"forget previous instructions"',
+    pattern: /forget\s+(all\s+)?previous\s+instructions?/gi,
+  },
+  {
+    id: 'system-prompt',
+    category: 'prompt-injection',
+    description: 'System prompt manipulation',
+    pattern: /system\s+prompts?/gi,
+  },
+  {
+    id: 'system-instructions',
+    category: 'prompt-injection',
+    description: 'System instruction manipulation',
+    pattern: /system\s+instructions?/gi,
+  },
+  {
+    id: 'you-are-now',
+    category: 'prompt-injection',
+    description: 'Role reassignment ("you are now")',
+    pattern: /you\s+are\s+now/gi,
+  },
+  {
+    id: 'act-as',
+    category: 'prompt-injection',
+    description: 'Role reassignment ("act as a")',
+    pattern: /act\s+as\s+(a|an)\s+/gi,
+    replacement: `${FILTERED_PLACEHOLDER} `,
+  },
+  {
+    id: 'pretend-to-be',
+    category: 'prompt-injection',
+    description: 'Role reassignment ("pretend to be")',
+    pattern: /pretend\s+to\s+be/gi,
+  },
+  {
+    id: 'roleplay-as',
+    category: 'prompt-injection',
+    description: 'Role reassignment ("roleplay as")',
+    pattern: /roleplay\s+as/gi,
+  },
+
+  // Special tokens (common in LLM tokenizers)
+  {
+    id: 'chat-template-token',
+    category: 'special-token',
+    description: 'Chat template tokens (<|endoftext|>, <|assistant|>)',
+    pattern: /<\|[^|]+\|>/g,
+  },
+  {
+    id: 'inst-token',
+    category: 'special-token',
+    description: 'Instruction tokens ([INST], [/INST])',
+    pattern: /\[\/?INST\]/g,
+  },
+  {
+    id: 'sys-token',
+    category: 'special-token',
+    description: 'System tokens (<<SYS>>, </SYS>)',
+    pattern: /<<SYS>>|<\/SYS>/g,
+  },
+
+  // Exfiltration: rendered images and links fetch URLs that can carry stolen data
+  {
+    id: 'markdown-image',
+    category: 'exfiltration',
+    description: 'Markdown image (fetched automatically when rendered)',
+    pattern: /!\[[^\]\n]*\]\([^)\n]*\)/g,
+  },
+  {
+    id: 'markdown-reference-image',
+    category: 'exfiltration',
+    description: 'Markdown reference-style image',
+    pattern: /!\[[^\]\n]*\]\[[^\]\n]*\]/g,
+  },
+  {
+    id: 'html-image',
+    category: 'exfiltration',
+    description: 'HTML image tag',
+    pattern: /<img\b[^>]*>/gi,
+  },
+  {
+    id: 'markdown-link-query',
+    category: 'exfiltration',
+    description: 'Markdown link whose URL carries a query string',
+    pattern: /\[([^\]\n]*)\]\(\s*https?:\/\/[^)\s]*\?[^)\n]*\)/gi,
+    replacement: (match) => `${match.slice(1, match.indexOf(']('))} ${FILTERED_PLACEHOLDER}`,
+  },
+];
+
+/**
+ * Creates a sanitizer from a rule set.
+ *
+ * @param config - Optional rules, extra rules, disabled rule ids, and length cap
+ * @returns Configured sanitizer
+ * @throws {Error} If a rule pattern is not global or rule ids are duplicated
+ * @throws {ZodError} If maxLength is not a positive integer
+ *
+ * @example
+ * ```typescript
+ * const sanitizer = createSanitizer({
+ *   extraRules: [
+ *     {
+ *       id: 'jailbreak-dan',
+ *       category: 'prompt-injection',
+ *       description: 'DAN jailbreak prompt',
+ *       pattern: /\bdo\s+anything\s+now\b/gi,
+ *     },
+ *   ],
+ *   disabledRules: ['act-as'],
+ * });
+ *
+ * const { text, findings } = sanitizer.sanitize(commit.message, 'message');
+ * ```
+ */
+export function createSanitizer(config?: SanitizerConfig): Sanitizer {
+  const maxLength = positiveIntegerSchema.parse(config?.maxLength ?? 500);
+  const disabled = new Set(config?.disabledRules ?? []);
+  const rules = [
+    ...(config?.rules ?? DEFAULT_SANITIZER_RULES),
+    ...(config?.extraRules ?? []),
+  ].filter((rule) => !disabled.has(rule.id));
+
+  const ids = new Set<string>();
+  for (const rule of rules) {
+    if (ids.has(rule.id)) {
+      throw new Error(`Duplicate sanitizer rule id: ${rule.id}`);
+    }
+    if (!rule.pattern.global) {
+      throw new Error(`Sanitizer rule "${rule.id}" pattern must use the global (g) flag`);
+    }
+    ids.add(rule.id);
+  }
+
+  const detectionRules = rules.filter((rule) => DETECTION_CATEGORIES.has(rule.category));
+  const isMalicious = (text: string) =>
+    detectionRules.some((rule) => new RegExp(rule.pattern.source, rule.pattern.flags).test(text));
+
+  return {
+    rules,
+    maxLength,
+    sanitize(text: string, field = 'text'): SanitizeResult {
+      const findings: SanitizationFinding[] = [];
+      let result = text;
+
+      for (const rule of rules) {
+        let count = 0;
+        result = result.replace(rule.pattern, (match: string) => {
+          const replaced = applyRule(rule, match, isMalicious);
+          if (replaced !== match) count++;
+          return replaced;
+        });
+        if (count > 0) {
+          findings.push({ field, ruleId: rule.id, category: rule.category, count });
+        }
+      }
+
+      if (result.length > maxLength) {
+        result = result.substring(0, maxLength);
+        findings.push({ field, ruleId: 'max-length', category: 'length', count: 1 });
+      }
+
+      return { text: result.trim(), findings };
+    },
+  };
+}
+
+/**
+ * Computes the replacement for one match of a rule.
+ */
+function applyRule(
+  rule: SanitizerRule,
+  match: string,
+  isMalicious: (text: string) => boolean
+): string {
+  if (rule.decode) {
+    const decoded = rule.decode(match);
+    return decoded !== null && decoded !== match && isMalicious(decoded)
+      ? FILTERED_PLACEHOLDER
+      : match;
+  }
+
+  const replacement = rule.replacement ?? FILTERED_PLACEHOLDER;
+  return typeof replacement === 'function' ? replacement(match) : replacement;
+}
+
+/**
+ * Decodes standard or URL-safe base64, returning null unless the result is
+ * mostly printable text (random identifiers decode to binary noise).
+ */
+function decodeBase64(match: string): string | null {
+  const decoded = Buffer.from(match.replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString(
+    'utf-8'
+  );
+  const printable = decoded.replace(/[^\x20-\x7E\n\t]/g, '');
+  return decoded.length > 0 && printable.length / decoded.length > 0.9 ? decoded : null;
+}
@@ -15,6 +15,9 @@ export interface GitContext {
   recentCommits: Commit[];
   diff: ParsedDiff;
   changedFiles: ChangedFile[];
+  operationState: OperationState;
+  /** What the sanitizer filtered; only present when requested from sanitizeForAIContext */
+  sanitizationReport?: SanitizationReport;
 }
 
 /**
@@ -27,6 +30,54 @@ export interface RepositoryInfo {
   remote: string | null;
   /** True if working directory is clean (no uncommitted changes) */
   isClean: boolean;
+  /** True if root is a linked worktree (`git worktree add`), false for the main worktree */
+  isLinkedWorktree: boolean;
+  /** Root of the main worktree; equals root unless this is a linked worktree */
+  mainWorktreeRoot: string;
+  /** All worktrees of the repository, main worktree first */
+  worktrees: Worktree[];
+  /** Submodules of this repository (not recursive) */
+  submodules: Submodule[];
+}
+
+/**
+ * Working tree attached to a repository (`git worktree list`).
+ */
+export interface Worktree {
+  /** Absolute path to the worktree */
+  path: string;
+  /** Checked-out commit, null for bare repositories and unborn branches */
+  head: string | null;
+  /** Checked-out branch (e.g., 'main'), null when detached or bare */
+  branch: string | null;
+  /** True if HEAD is detached */
+  detached: boolean;
+  /** True for a bare repository entry (no working tree) */
+  bare: boolean;
+  /** True for the main worktree, which holds the shared git directory */
+  isMain: boolean;
+  /** True for the worktree the context was built from */
+  isCurrent: boolean;
+  /** True if locked against pruning (`git worktree lock`) */
+  locked: boolean;
+  /** Reason given when locking, null if none */
+  lockReason: string | null;
+  /** True if the worktree directory is gone and `git worktree prune` would remove it */
+  prunable: boolean;
+}
+
+/**
+ * Submodule with its checked-out commit and dirty state.
+ */
+export interface Submodule extends SubmoduleState {
+  /** Path relative to the superproject root */
+  path: string;
+  /** Commit recorded in the superproject's index, null while conflicted */
+  recordedCommit: string | null;
+  /** Commit checked out in the submodule, null if not initialized */
+  commit: string | null;
+  /** True if the submodule has been cloned and checked out */
+  initialized: boolean;
 }
 
 /**
@@ -46,10 +97,10 @@ export interface BranchInfo {
 }
 
 /**
- * Working directory status (porcelain format parsed).
+ * Working directory status (`git status --porcelain=v2 -z` parsed).
  */
 export interface GitStatus {
-  /** Files staged for commit */
+  /** Files staged for commit (renames and copies listed by their new path) */
   staged: string[];
   /** Modified files not staged */
   modified: string[];
@@ -57,6 +108,168 @@ export interface GitStatus {
   untracked: string[];
   /** Deleted files */
   deleted: string[];
+  /** Renamed and copied files with source, target and similarity */
+  renamed: RenamedFile[];
+  /** Files with unresolved merge conflicts (not listed in staged/modified) */
+  conflicted: string[];
+  /** Full per-file detail, one entry per porcelain v2 record */
+  entries: StatusEntry[];
+}
+
+/**
+ * Change state of one side (index or working tree) of a status entry.
+ */
+export type FileChangeState =
+  | 'unmodified'
+  | 'modified'
+  | 'type-changed'
+  | 'added'
+  | 'deleted'
+  | 'renamed'
+  | 'copied'
+  | 'unmerged';
+
+/**
+ * File renamed or copied in the index.
+ */
+export interface RenamedFile {
+  /** Original path */
+  from: string;
+  /** New path */
+  to: string;
+  /** Similarity between source and target (0-100) */
+  similarity: number;
+  /** Whether the source was moved or copied */
+  kind: 'renamed' | 'copied';
+}
+
+/**
+ * File modes (octal strings, e.g. '100644') across HEAD, index and working tree.
+ * '000000' means the file does not exist at that stage.
+ */
+export interface FileModes {
+  head: string;
+  index: string;
+  workTree: string;
+}
+
+/**
+ * Submodule state reported by porcelain v2 (`S<c><m><u>`).
+ */
+export interface SubmoduleState {
+  /** Checked-out commit differs from the recorded commit */
+  commitChanged: boolean;
+  /** Submodule has tracked changes */
+  hasTrackedChanges: boolean;
+  /** Submodule has untracked files */
+  hasUntrackedChanges: boolean;
+}
+
+/**
+ * Kind of unresolved merge conflict (from the unmerged XY code).
+ */
+export type ConflictType =
+  | 'both-deleted'
+  | 'added-by-us'
+  | 'deleted-by-them'
+  | 'added-by-them'
+  | 'deleted-by-us'
+  | 'both-added'
+  | 'both-modified';
+
+/**
+ * Unmerged file with the object ids of each conflict stage.
+ * A stage is null when the file does not exist on that side.
+ */
+export interface ConflictState {
+  type: ConflictType;
+  /** Stage 1: common ancestor */
+  base: string | null;
+  /** Stage 2: our side (HEAD) */
+  ours: string | null;
+  /** Stage 3: their side (the branch being merged) */
+  theirs: string | null;
+}
+
+/**
+ * Detailed status of a single path.
+ */
+export interface StatusEntry {
+  /** Path relative to repository root (rename/copy target) */
+  path: string;
+  /** Source path for renames and copies, null otherwise */
+  originalPath: string | null;
+  /** Index (staged) state */
+  index: FileChangeState;
+  /** Working tree (unstaged) state */
+  workTree: FileChangeState;
+  /** True for untracked files */
+  untracked: boolean;
+  /** Rename/copy similarity (0-100), null otherwise */
+  similarity: number | null;
+  /** File modes, null for untracked files */
+  modes: FileModes | null;
+  /** Submodule state, null if the path is not a submodule */
+  submodule: SubmoduleState | null;
+  /** Conflict details, null unless the path is unmerged */
+  conflict: ConflictState | null;
+}
+
+/**
+ * Multi-step git operation that can be left in progress.
+ */
+export type GitOperation = 'merge' | 'rebase' | 'cherry-pick' | 'revert' | 'bisect' | 'am';
+
+/**
+ * Progress of an in-progress rebase.
+ */
+export interface RebaseProgress {
+  /** Current step (1-based), 0 if unknown */
+  step: number;
+  /** Total number of steps, 0 if unknown */
+  totalSteps: number;
+  /** Branch being rebased (e.g., 'feature/foo'), null if rebasing a detached HEAD */
+  branch: string | null;
+  /** Commit the branch is being rebased onto */
+  onto: string | null;
+}
+
+/**
+ * Unresolved conflict reported by the index.
+ */
+export interface ConflictedFile extends ConflictState {
+  /** Path relative to repository root */
+  path: string;
+}
+
+/**
+ * HEAD state. A detached HEAD has no current branch.
+ */
+export interface HeadState {
+  /** True if HEAD points at a commit instead of a branch */
+  detached: boolean;
+  /** Commit HEAD points at, null in a repository without commits */
+  commit: string | null;
+  /** Branches and tags pointing at HEAD (only listed when detached) */
+  refs: string[];
+}
+
+/**
+ * In-progress operation state (merge, rebase, cherry-pick, revert, bisect, am).
+ */
+export interface OperationState {
+  /** Primary in-progress operation, null if none */
+  operation: GitOperation | null;
+  /** All in-progress operations (e.g., a cherry-pick while bisecting) */
+  operations: GitOperation[];
+  /** Commit being merged, cherry-picked, or reverted */
+  incomingCommit: string | null;
+  /** Rebase progress, null unless rebasing */
+  rebase: RebaseProgress | null;
+  /** Unresolved conflicts with stage object ids */
+  conflicts: ConflictedFile[];
+  /** HEAD state */
+  head: HeadState;
 }
 
 /**
@@ -79,6 +292,132 @@ export interface Commit {
   subject: string;
   /** Body of commit message (sanitized) */
   body: string;
+  /** Full hashes of the parent commits (none for a root commit) */
+  parents: string[];
+  /** True if the commit has more than one parent */
+  isMerge: boolean;
+  /** Conventional Commits header, null if the subject does not follow the format */
+  conventional: ConventionalCommit | null;
+  /** Trailers from the end of the message (e.g., `Refs: #123`), in order */
+  trailers: CommitTrailer[];
+  /** People credited in `Co-authored-by` trailers */
+  coAuthors: CommitPerson[];
+  /** Values of `Refs` trailers */
+  refs: string[];
+  /** Value of the `AI-Assisted` trailer, null if absent */
+  aiAssisted: string | null;
+  /** GPG or SSH signature verification result */
+  signature: CommitSignature;
+}
+
+/**
+ * Conventional Commits header (`type(scope)!: description`).
+ */
+export interface ConventionalCommit {
+  /** Commit type (e.g., 'feat', 'fix') */
+  type: string;
+  /** Scope in parentheses, null if none */
+  scope: string | null;
+  /** True for a `!` before the colon or a `BREAKING CHANGE:` footer */
+  breaking: boolean;
+  /** Text after `: ` (sanitized) */
+  description: string;
+}
+
+/**
+ * Git trailer (`Key: value` line in the final paragraph of a commit message).
+ */
+export interface CommitTrailer {
+  /** Trailer key as written (e.g., 'Co-authored-by') */
+  key: string;
+  /** Trailer value, continuation lines unfolded (sanitized) */
+  value: string;
+}
+
+/**
+ * Name and email from a `Name <email>` identity.
+ */
+export interface CommitPerson {
+  /** Name (sanitized) */
+  name: string;
+  /** Email, empty if the identity has none (sanitized) */
+  email: string;
+}
+
+/**
+ * Signature verification result, from git's `%G?` placeholder.
+ *
+ * - `good`: valid signature from a trusted key
+ * - `bad`: signature does not match the commit
+ * - `untrusted`: valid signature from a key of unknown validity
+ * - `expired`: valid signature that has expired
+ * - `expired-key`: valid signature made by an expired key
+ * - `revoked`: valid signature made by a revoked key
+ * - `unverifiable`: signed, but the key is missing or the signature cannot be checked
+ * - `unsigned`: no signature
+ */
+export type CommitSignatureStatus =
+  | 'good'
+  | 'bad'
+  | 'untrusted'
+  | 'expired'
+  | 'expired-key'
+  | 'revoked'
+  | 'unverifiable'
+  | 'unsigned';
+
+/**
+ * GPG or SSH signature of a commit.
+ */
+export interface CommitSignature {
+  /** Verification result */
+  status: CommitSignatureStatus;
+  /** Signer identity reported by the verifier, null if unsigned or unknown (sanitized) */
+  signer: string | null;
+  /** Key id (GPG) or fingerprint (SSH), null if unsigned or unknown */
+  key: string | null;
+}
+
+/**
+ * Single line of `git blame` output.
+ */
+export interface BlameLine {
+  /** Line number in the current file (1-based) */
+  line: number;
+  /** Line number in the commit that last changed the line */
+  originalLine: number;
+  /** Path in the commit that last changed the line (differs after renames) */
+  originalPath: string;
+  /** Line content */
+  content: string;
+  /** Commit that last changed the line, null for uncommitted changes */
+  commit: Commit | null;
+}
+
+/**
+ * Configuration options for getBlame().
+ */
+export interface BlameOptions {
+  /** First line to blame (1-based, default: 1) */
+  startLine?: number;
+  /** Last line to blame, inclusive (default: end of file) */
+  endLine?: number;
+  /** Sanitize commit metadata (default: true) */
+  sanitize?: boolean;
+  /** Working directory of the repository (default: process.cwd()) */
+  cwd?: string;
+}
+
+/**
+ * Configuration options for getLineHistory().
+ */
+export interface LineHistoryOptions {
+  /** Maximum commits to return (default: 20) */
+  limit?: number;
+  /** Sanitize commit metadata (default: true) */
+  sanitize?: boolean;
+  /** Working directory of the repository (default: process.cwd()) */
+  cwd?: string;
 }
 
 /**
@@ -100,7 +439,21 @@ export interface DiffFile {
   /** Original path for renames, null otherwise */
   oldPath: string | null;
   /** Type of change */
-  status: 'added' | 'modified' | 'deleted' | 'renamed';
+  status: 'added' | 'modified' | 'deleted' | 'renamed' | 'copied';
+  /** Rename/copy similarity (0-100), null otherwise */
+  similarity: number | null;
+  /** File mode before the change (e.g., '100644'), null if unknown or added */
+  oldMode: string | null;
+  /** File mode after the change (e.g., '100755'), null if unknown or deleted */
+  newMode: string | null;
+  /** True if the path is a submodule (gitlink, mode 160000) */
+  submodule: boolean;
+  /** Blob ids and sizes if git reported the file as binary, null for text files */
+  binary: BinaryDiffInfo | null;
+  /** True if content lines ended in CRLF (the CR is stripped from `hunks`) */
+  crlf: boolean;
+  /** Encoding hunk lines were decoded with; 'latin1' if the content was not valid UTF-8 */
+  encoding: 'utf-8' | 'latin1';
   /** Lines added */
   additions: number;
   /** Lines deleted */
@@ -123,6 +476,43 @@ export interface DiffHunk {
   newLines: number;
   /** Diff lines (prefixed with +, -, or space) */
   lines: string[];
+  /** True if the old side's last line has no trailing newline (`\ No newline at end of file`) */
+  oldMissingNewline: boolean;
+  /** True if the new side's last line has no trailing newline */
+  newMissingNewline: boolean;
+}
+
+/**
+ * Binary file in a diff. Sizes come from `GIT binary patch` literals or the
+ * object database; the absent side of an added or deleted file has size 0.
+ */
+export interface BinaryDiffInfo {
+  /** Blob id before the change (from the `index` line), null if unknown */
+  oldOid: string | null;
+  /** Blob id after the change, null if unknown */
+  newOid: string | null;
+  /** Size in bytes before the change, null if unknown */
+  oldSize: number | null;
+  /** Size in bytes after the change, null if unknown */
+  newSize: number | null;
+  /** newSize - oldSize, null if either size is unknown */
+  sizeDelta: number | null;
+}
+
+/**
+ * One file from `git diff --numstat -z`.
+ */
+export interface DiffNumstatEntry {
+  /** Current file path */
+  path: string;
+  /** Original path for renames and copies, null otherwise */
+  oldPath: string | null;
+  /** Lines added (0 for binary files) */
+  additions: number;
+  /** Lines deleted (0 for binary files) */
+  deletions: number;
+  /** True if git reported the file as binary (`-` counts) */
+  binary: boolean;
 }
 
 /**
@@ -144,7 +534,9 @@ export interface ChangedFile {
   /** File path relative to repository root */
   path: string;
   /** File status */
-  status: 'staged' | 'modified' | 'untracked' | 'deleted';
+  status: 'staged' | 'modified' | 'untracked' | 'deleted' | 'renamed' | 'conflicted';
+  /** Source path for renamed files */
+  oldPath?: string;
 }
 
 /**
@@ -184,4 +576,308 @@ export interface GitContextOptions {
    * @default true
    */
   sanitizeForAI?: boolean;
+
+  /**
+   * Directory inside the repository to build context for.
+   * @default process.cwd()
+   */
+  cwd?: string;
+}
+
+/**
+ * File touched by a single commit (from `git log --name-status`).
+ */
+export interface CommitFileChange {
+  /** File path after the commit */
+  path: string;
+  /** Original path for renames and copies, null otherwise */
+  oldPath: string | null;
+  /** Type of change */
+  status: DiffFile['status'];
+}
+
+/**
+ * Commit on a compared branch, with the files it touched.
+ */
+export interface BranchCommit extends Commit {
+  /** Files changed by this commit */
+  files: CommitFileChange[];
+}
+
+/**
+ * Comparison of a head branch against its base ("everything on this branch vs main").
+ */
+export interface BranchComparison {
+  /** Base ref (e.g., 'main', 'origin/main') */
+  base: string;
+  /** Head ref (e.g., 'HEAD', 'feature/foo') */
+  head: string;
+  /** Merge base commit hash, null if the refs share no history */
+  mergeBase: string | null;
+  /** Commits on head that are not on base */
+  commitsAhead: number;
+  /** Commits on base that are not on head */
+  commitsBehind: number;
+  /** Commits unique to head (newest first, limited by maxCommits) */
+  commits: BranchCommit[];
+  /** Three-dot diff (`base...head`): changes on head since the merge base */
+  diff: ParsedDiff;
+}
+
+/**
+ * Configuration options for getBranchComparison().
+ *
+ * @example
+ * ```typescript
+ * const comparison = getBranchComparison({ base: 'origin/main', head: 'HEAD' });
+ * ```
+ */
+export interface BranchComparisonOptions {
+  /**
+   * Base ref to compare against.
+   * @default origin's default branch, else 'main', else 'master'
+   */
+  base?: string;
+
+  /**
+   * Head ref to compare.
+   * @default 'HEAD'
+   */
+  head?: string;
+
+  /**
+   * Maximum number of branch commits to return.
+   * @default 100
+   */
+  maxCommits?: number;
+
+  /**
+   * Number of context lines around changes in the diff.
+   * @default 3
+   */
+  diffContext?: number;
+
+  /**
+   * Sanitize commit messages for AI context.
+   * @default true
+   */
+  sanitize?: boolean;
+
+  /**
+   * Directory inside the repository to compare in.
+   * @default process.cwd()
+   */
+  cwd?: string;
+}
+
+/**
+ * Top-level sections of a GitContext that are fetched independently.
+ */
+export type GitContextSection =
+  | 'repository'
+  | 'branch'
+  | 'status'
+  | 'recentCommits'
+  | 'diff'
+  | 'operationState';
+
+/**
+ * Marker describing why a section of an async git context is missing.
+ */
+export interface GitContextSectionError {
+  /** Why the section failed: git error, overall timeout, or caller abort */
+  reason: 'failed' | 'timeout' | 'aborted';
+  /** Sanitized error message */
+  message: string;
+}
+
+/**
+ * Git context returned by getGitContextAsync().
+ *
+ * Sections that failed, timed out, or were aborted are null, with a matching
+ * entry in `errors`. `changedFiles` is empty when `status` is unavailable.
+ */
+export interface PartialGitContext {
+  repository: RepositoryInfo | null;
+  branch: BranchInfo | null;
+  status: GitStatus | null;
+  recentCommits: Commit[] | null;
+  diff: ParsedDiff | null;
+  changedFiles: ChangedFile[];
+  operationState: OperationState | null;
+  /** What the sanitizer filtered; only present when requested from sanitizePartialContext */
+  sanitizationReport?: SanitizationReport;
+  /** Error markers keyed by section; empty when every section succeeded */
+  errors: Partial<Record<GitContextSection, GitContextSectionError>>;
+}
+
+/**
+ * Configuration options for getGitContextAsync().
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * const context = await getGitContextAsync({
+ *   maxCommits: 5,
+ *   timeoutMs: 500,
+ *   signal: controller.signal,
+ * });
+ * ```
+ */
+export interface GitContextAsyncOptions extends GitContextOptions {
+  /**
+   * Overall time budget in milliseconds shared by all git commands.
+   * Sections still running when it elapses are reported as timed out.
+   * @default 5000
+   */
+  timeoutMs?: number;
+
+  /**
+   * Aborts all in-flight git commands; unfinished sections are reported as aborted.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Category of a sanitizer rule.
+ */
+export type SanitizerRuleCategory =
+  | 'normalization'
+  | 'encoded-payload'
+  | 'prompt-injection'
+  | 'special-token'
+  | 'exfiltration';
+
+/**
+ * A sanitizer rule that changed a field.
+ */
+export interface SanitizationFinding {
+  /** Field path (e.g., 'recentCommits[0].subject') */
+  field: string;
+  /** Rule id ('max-length' when the text was truncated) */
+  ruleId: string;
+  /** Rule category ('length' when the text was truncated) */
+  category: SanitizerRuleCategory | 'length';
+  /** Number of matches the rule changed */
+  count: number;
+}
+
+/**
+ * Report of everything the sanitizer changed in a context.
+ */
+export interface SanitizationReport {
+  /** Findings in field order; empty if nothing was filtered */
+  findings: SanitizationFinding[];
+  /** Diff lines redacted because they contained secrets */
+  secrets: SecretFinding[];
+}
+
+/**
+ * Diff line redacted because it contained a secret.
+ */
+export interface SecretFinding {
+  /** File path */
+  path: string;
+  /** Line number (new file for added/context lines, old file for removed lines) */
+  line: number;
+  /** Id of the rule that matched (e.g., 'stripe-access-token') */
+  ruleId: string;
+}
+
+/**
+ * Kind of exported TypeScript symbol.
+ *
+ * `component` is a PascalCase function that renders JSX (or is wrapped in
+ * `memo`/`forwardRef`); `schema` is a variable initialized from a `z.` chain.
+ */
+export type ExportedSymbolKind =
+  | 'function'
+  | 'class'
+  | 'interface'
+  | 'type'
+  | 'enum'
+  | 'variable'
+  | 'component'
+  | 'schema';
+
+/**
+ * Exported symbol declared in a TypeScript file.
+ */
+export interface ExportedSymbol {
+  /** Exported name ('default' for anonymous default exports) */
+  name: string;
+  /** Symbol kind */
+  kind: ExportedSymbolKind;
+  /** Declaration without bodies, whitespace-collapsed (e.g., 'function add(a: number, b: number): number') */
+  signature: string;
+  /** Line of the declaration (1-based) */
+  line: number;
+}
+
+/**
+ * Change to one exported symbol between the old and new version of a file.
+ */
+export interface SymbolChange {
+  /** Exported name */
+  name: string;
+  /** Symbol kind (new kind unless removed) */
+  kind: ExportedSymbolKind;
+  /** Type of change; `modified` means only the body or initializer changed */
+  change: 'added' | 'removed' | 'signature-changed' | 'modified';
+  /** Signature before the change; set for removed and signature-changed symbols */
+  oldSignature: string | null;
+  /** Signature after the change; null for removed symbols */
+  newSignature: string | null;
+  /** Line in the new file (old file for removed symbols) */
+  line: number;
+}
+
+/**
+ * Exported symbol changes in one TypeScript file.
+ */
+export interface FileSymbolChanges {
+  /** Current file path */
+  path: string;
+  /** Original path for renames, null otherwise */
+  oldPath: string | null;
+  /** Type of file change */
+  status: DiffFile['status'];
+  /** Symbol changes in new-file order, then removed symbols */
+  changes: SymbolChange[];
+}
+
+/**
+ * Symbol-level summary of a diff.
+ */
+export interface DiffSymbolSummary {
+  /** TypeScript files with at least one exported symbol change */
+  files: FileSymbolChanges[];
+  /** Change counts across all files */
+  stats: {
+    added: number;
+    removed: number;
+    signatureChanged: number;
+    modified: number;
+  };
+}
+
+/**
+ * Options for summarizeDiffSymbols().
+ *
+ * Describe the same comparison the diff was produced with (as for
+ * getParsedDiff) so the right old and new file versions are read.
+ */
+export interface DiffSymbolOptions {
+  /** The diff is of staged changes (HEAD → index) */
+  staged?: boolean;
+  /** Old revision (working tree is the new side unless commitB is set) */
+  commitA?: string;
+  /** New revision */
+  commitB?: string;
+  /** The diff is from the merge base of commitA and commitB (`A...B`) */
+  fromMergeBase?: boolean;
+  /** Redact signatures that contain secrets (default: true) */
+  sanitize?: boolean;
+  /** Working directory of the repository (default: process.cwd()) */
+  cwd?: string;
 }
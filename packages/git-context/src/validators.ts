@@ -57,6 +57,25 @@ export const branchNameSchema = z
   .refine((name) => !name.includes('..'), 'Branch name cannot contain ".."')
   .refine((name) => !name.endsWith('.lock'), 'Branch name cannot end with ".lock"');
 
+/**
+ * Validates a single git ref (branch, remote branch, tag, HEAD, or commit hash).
+ *
+ * Same character rules as branchNameSchema, and may not start with "-" so it
+ * can never be parsed as a flag. Ranges ("a..b") are built internally, never accepted.
+ *
+ * @example
+ * ```typescript
+ * gitRefSchema.parse('origin/main'); // OK
+ * gitRefSchema.parse('HEAD'); // OK
+ * gitRefSchema.parse('--output=/tmp/x'); // Error: Ref cannot start with "-"
+ * gitRefSchema.parse('main..HEAD'); // Error: Branch name cannot contain ".."
+ * ```
+ */
+export const gitRefSchema = branchNameSchema.refine(
+  (ref) => !ref.startsWith('-'),
+  'Ref cannot start with "-"'
+);
+
 /**
  * Validates git commit hashes (SHA-1 or SHA-256).
  *
@@ -144,6 +163,20 @@ export const nonNegativeIntegerSchema = z
   .int()
   .nonnegative('Must be a non-negative integer');
 
+/**
+ * Validates a working directory passed as `cwd`.
+ *
+ * @example
+ * ```typescript
+ * cwdSchema.parse('/repos/app'); // OK
+ * cwdSchema.parse(''); // Error: Working directory cannot be empty
+ * ```
+ */
+export const cwdSchema = z
+  .string()
+  .min(1, 'Working directory cannot be empty')
+  .refine((dir) => !dir.includes('\0'), 'Working directory cannot contain null bytes');
+
 /**
  * Validates git context options.
  */
@@ -153,9 +186,107 @@ export const gitContextOptionsSchema = z
     maxCommits: positiveIntegerSchema.optional(),
     diffContext: nonNegativeIntegerSchema.optional(),
     sanitizeForAI: z.boolean().optional(),
+    cwd: cwdSchema.optional(),
+  })
+  .optional();
+
+/**
+ * Validates async git context options.
+ *
+ * The AbortSignal is not validated here; it is passed through untouched.
+ */
+export const gitContextAsyncOptionsSchema = z
+  .object({
+    includeUntracked: z.boolean().optional(),
+    maxCommits: positiveIntegerSchema.optional(),
+    diffContext: nonNegativeIntegerSchema.optional(),
+    sanitizeForAI: z.boolean().optional(),
+    cwd: cwdSchema.optional(),
+    timeoutMs: positiveIntegerSchema.optional(),
   })
   .optional();
 
+/**
+ * Validates git context cache options for createGitContextCache().
+ */
+export const gitContextCacheOptionsSchema = z
+  .object({
+    includeUntracked: z.boolean().optional(),
+    maxCommits: positiveIntegerSchema.optional(),
+    diffContext: nonNegativeIntegerSchema.optional(),
+    sanitizeForAI: z.boolean().optional(),
+    cwd: cwdSchema.optional(),
+    pollIntervalMs: positiveIntegerSchema.optional(),
+  })
+  .optional();
+
+/**
+ * Validates token budget options for packGitContext().
+ */
+export const packOptionsSchema = z.object({
+  maxTokens: positiveIntegerSchema,
+});
+
+/**
+ * Validates branch comparison options.
+ */
+export const branchComparisonOptionsSchema = z
+  .object({
+    base: gitRefSchema.optional(),
+    head: gitRefSchema.optional(),
+    maxCommits: positiveIntegerSchema.optional(),
+    diffContext: nonNegativeIntegerSchema.optional(),
+    sanitize: z.boolean().optional(),
+    cwd: cwdSchema.optional(),
+  })
+  .optional();
+
+/**
+ * Validates blame options. The line range is inclusive and 1-based.
+ */
+export const blameOptionsSchema = z
+  .object({
+    startLine: positiveIntegerSchema.optional(),
+    endLine: positiveIntegerSchema.optional(),
+    sanitize: z.boolean().optional(),
+    cwd: cwdSchema.optional(),
+  })
+  .refine(
+    ({ startLine, endLine }) => !startLine || !endLine || endLine >= startLine,
+    'endLine must be greater than or equal to startLine'
+  )
+  .optional();
+
+/**
+ * Validates line history options.
+ */
+export const lineHistoryOptionsSchema = z
+  .object({
+    limit: positiveIntegerSchema.optional(),
+    sanitize: z.boolean().optional(),
+    cwd: cwdSchema.optional(),
+  })
+  .optional();
+
+/**
+ * Validates diff symbol summary options.
+ */
+export const diffSymbolOptionsSchema = z
+  .object({
+    staged: z.boolean().optional(),
+    commitA: gitRefSchema.optional(),
+    commitB: gitRefSchema.optional(),
+    fromMergeBase: z.boolean().optional(),
+    sanitize: z.boolean().optional(),
+    cwd: cwdSchema.optional(),
+  })
+  .refine(({ commitA, commitB }) => !commitB || commitA, 'commitB requires commitA')
+  .refine(
+    ({ commitA, commitB, fromMergeBase }) => !fromMergeBase || (commitA && commitB),
+    'fromMergeBase requires commitA and commitB'
+  )
+  .optional();
+
 /**
  * Validates an array of git arguments.
  * Ensures no shell metacharacters or dangerous patterns.
@@ -10,7 +10,14 @@ export {
   CardTitle,
   cardVariants,
 } from './src/components/ui/card';
-export { DataTable, type DataTableProps } from './src/components/ui/data-table';
+export {
+  type CursorPageRequest,
+  type CursorPageResult,
+  DataTable,
+  type DataTableProps,
+  type UseCursorPaginationOptions,
+  useCursorPagination,
+} from './src/components/ui/data-table';
 export {
   Dialog,
   DialogClose,
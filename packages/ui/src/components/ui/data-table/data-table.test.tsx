@@ -438,6 +438,86 @@ describe('DataTable Component', () => {
     });
   });
 
+  describe('Server mode', () => {
+    it('renders data as given without sorting it locally', async () => {
+      const user = userEvent.setup();
+      const onSortingChange = vi.fn();
+      render(
+        <DataTable
+          columns={basicColumns}
+          data={testData}
+          mode="server"
+          onSortingChange={onSortingChange}
+        />
+      );
+
+      await user.click(screen.getByRole('button', { name: 'Sort by name' }));
+
+      expect(onSortingChange).toHaveBeenCalledWith([{ id: 'name', desc: false }]);
+      const rows = screen.getAllByRole('row');
+      expect(within(rows[1]).getByText('John Doe')).toBeInTheDocument();
+    });
+
+    it('does not slice the current page', () => {
+      render(
+        <DataTable
+          columns={basicColumns}
+          data={testData}
+          mode="server"
+          enablePagination
+          pageSize={1}
+          rowCount={30}
+        />
+      );
+
+      expect(screen.getAllByRole('row')).toHaveLength(testData.length + 1);
+      expect(screen.getByText(/Page 1 of 30/)).toBeInTheDocument();
+    });
+
+    it('reports page changes through onPaginationChange', async () => {
+      const user = userEvent.setup();
+      const onPaginationChange = vi.fn();
+      render(
+        <DataTable
+          columns={basicColumns}
+          data={testData}
+          mode="server"
+          enablePagination
+          pagination={{ pageIndex: 0, pageSize: 10 }}
+          onPaginationChange={onPaginationChange}
+          hasNextPage
+        />
+      );
+
+      await user.click(screen.getByLabelText('Next page'));
+
+      expect(onPaginationChange).toHaveBeenCalledWith({ pageIndex: 1, pageSize: 10 });
+    });
+
+    it('uses hasNextPage when the row count is unknown', () => {
+      render(
+        <DataTable
+          columns={basicColumns}
+          data={testData}
+          mode="server"
+          enablePagination
+          hasNextPage={false}
+        />
+      );
+
+      expect(screen.getByText(/^Page 1$/)).toBeInTheDocument();
+      expect(screen.getByLabelText('Next page')).toBeDisabled();
+      expect(screen.getByLabelText('Last page')).toBeDisabled();
+    });
+
+    it('shows a loading state', () => {
+      render(<DataTable columns={basicColumns} data={[]} mode="server" loading />);
+
+      expect(screen.getByRole('table')).toHaveAttribute('aria-busy', 'true');
+      expect(screen.getByText('Loading…')).toBeInTheDocument();
+    });
+  });
+
   describe('Edge cases', () => {
     it('handles single row of data', () => {
       render(<DataTable columns={basicColumns} data={[testData[0]]} />);
@@ -8,6 +8,7 @@ import {
   getFilteredRowModel,
   getPaginationRowModel,
   getSortedRowModel,
+  type OnChangeFn,
   type PaginationState,
   type Row,
   type RowSelectionState,
@@ -131,6 +132,70 @@ export interface DataTableProps<TData, TValue> extends VariantProps<typeof dataT
    * Callback when row selection changes
    */
   onRowSelectionChange?: (selectedRows: TData[]) => void;
+  /**
+   * Where sorting, filtering and pagination happen. In server mode `data` is
+   * only the current page; state changes are reported through the callbacks
+   * below so the consumer can fetch matching rows (see useCursorPagination).
+   * @default 'client'
+   */
+  mode?: 'client' | 'server';
+  /**
+   * Total rows across all pages in server mode; omit when unknown
+   */
+  rowCount?: number;
+  /**
+   * Whether another page follows the current one in server mode
+   * (used when rowCount is unknown, e.g. with cursor pagination)
+   */
+  hasNextPage?: boolean;
+  /**
+   * Show a loading state while rows are fetched
+   * @default false
+   */
+  loading?: boolean;
+  /**
+   * Controlled sorting state
+   */
+  sorting?: SortingState;
+  /**
+   * Callback when sorting changes
+   */
+  onSortingChange?: (sorting: SortingState) => void;
+  /**
+   * Controlled column filter state
+   */
+  columnFilters?: ColumnFiltersState;
+  /**
+   * Callback when column filters change
+   */
+  onColumnFiltersChange?: (columnFilters: ColumnFiltersState) => void;
+  /**
+   * Controlled pagination state (takes precedence over pageSize)
+   */
+  pagination?: PaginationState;
+  /**
+   * Callback when the page index or page size changes
+   */
+  onPaginationChange?: (pagination: PaginationState) => void;
+}
+
+/**
+ * State that is internal unless the consumer passes a value, and reports
+ * every change to `onChange`
+ */
+function useControllableState<T>(
+  value: T | undefined,
+  onChange: ((value: T) => void) | undefined,
+  initial: T
+) {
+  const [internal, setInternal] = useState<T>(initial);
+  const state = value ?? internal;
+  const setState: OnChangeFn<T> = (updater) => {
+    const next = typeof updater === 'function' ? (updater as (old: T) => T)(state) : updater;
+    setInternal(next);
+    onChange?.(next);
+  };
+  return [state, setState, setInternal] as const;
 }
 
 /**
@@ -169,6 +234,13 @@ export interface DataTableProps<TData, TValue> extends VariantProps<typeof dataT
  * @param className - Additional CSS classes for container
  * @param tableClassName - Additional CSS classes for table element
  * @param onRowSelectionChange - Callback when selection changes
+ * @param mode - 'client' to sort/filter/paginate in memory, 'server' for manual state @default 'client'
+ * @param rowCount - Total rows in server mode, if known
+ * @param hasNextPage - Whether a next page exists in server mode
+ * @param loading - Show a loading state @default false
+ * @param sorting - Controlled sorting state, with onSortingChange
+ * @param columnFilters - Controlled column filters, with onColumnFiltersChange
+ * @param pagination - Controlled pagination state, with onPaginationChange
  *
  * @example
  * ```tsx
@@ -216,6 +288,14 @@ export interface DataTableProps<TData, TValue> extends VariantProps<typeof dataT
  * />
  * ```
  *
+ * @example
+ * ```tsx
+ * // Server-side table paged by cursor
+ * const table = useCursorPagination({ fetchPage: loadUsers, pageSize: 25 });
+ *
+ * <DataTable columns={columns} getRowId={(row) => row.id} {...table.tableProps} />
+ * ```
+ *
  * @see {@link https://tanstack.com/table/latest | TanStack Table Docs}
  */
 export function DataTable<TData, TValue>({
@@ -232,20 +312,43 @@ export function DataTable<TData, TValue>({
   className,
   tableClassName,
   onRowSelectionChange,
+  mode = 'client',
+  rowCount,
+  hasNextPage,
+  loading = false,
+  sorting: sortingProp,
+  onSortingChange,
+  columnFilters: columnFiltersProp,
+  onColumnFiltersChange,
+  pagination: paginationProp,
+  onPaginationChange,
 }: DataTableProps<TData, TValue>) {
-  const [sorting, setSorting] = useState<SortingState>([]);
-  const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
+  const isServer = mode === 'server';
+  const [sorting, setSorting] = useControllableState<SortingState>(
+    sortingProp,
+    onSortingChange,
+    []
+  );
+  const [columnFilters, setColumnFilters] = useControllableState<ColumnFiltersState>(
+    columnFiltersProp,
+    onColumnFiltersChange,
+    []
+  );
   const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({});
   const [rowSelection, setRowSelection] = useState<RowSelectionState>({});
-  const [pagination, setPagination] = useState<PaginationState>({
-    pageIndex: 0,
-    pageSize,
-  });
+  const [pagination, setPagination, setInternalPagination] = useControllableState<PaginationState>(
+    paginationProp,
+    onPaginationChange,
+    {
+      pageIndex: 0,
+      pageSize,
+    }
+  );
 
   // Sync internal pagination when prop changes
   useEffect(() => {
-    setPagination((prev) => (prev.pageSize === pageSize ? prev : { ...prev, pageSize }));
-  }, [pageSize]);
+    setInternalPagination((prev) => (prev.pageSize === pageSize ? prev : { ...prev, pageSize }));
+  }, [pageSize, setInternalPagination]);
 
   const table = useReactTable({
     data,
@@ -253,17 +356,26 @@ export function DataTable<TData, TValue>({
     ...(getRowId && { getRowId }),
     getCoreRowModel: getCoreRowModel(),
     ...(enableSorting && {
-      getSortedRowModel: getSortedRowModel(),
+      ...(!isServer && { getSortedRowModel: getSortedRowModel() }),
       onSortingChange: setSorting,
     }),
     ...(enableFiltering && {
-      getFilteredRowModel: getFilteredRowModel(),
+      ...(!isServer && { getFilteredRowModel: getFilteredRowModel() }),
       onColumnFiltersChange: setColumnFilters,
     }),
     ...(enablePagination && {
-      getPaginationRowModel: getPaginationRowModel(),
+      ...(!isServer && { getPaginationRowModel: getPaginationRowModel() }),
       onPaginationChange: setPagination,
     }),
+    // Rows arrive already sorted, filtered and paged; -1 marks an unknown page count.
+    // Both keys are always set because the table merges options across renders.
+    ...(isServer && {
+      manualSorting: true,
+      manualFiltering: true,
+      manualPagination: true,
+      pageCount: rowCount === undefined ? -1 : undefined,
+      rowCount,
+    }),
     onColumnVisibilityChange: setColumnVisibility,
     ...(enableRowSelection && {
       onRowSelectionChange: setRowSelection,
@@ -285,10 +397,16 @@ export function DataTable<TData, TValue>({
     onRowSelectionChange(selected);
   }, [enableRowSelection, onRowSelectionChange, table]);
 
+  const pageCount = table.getPageCount();
+  const canNextPage = isServer && hasNextPage !== undefined ? hasNextPage : table.getCanNextPage();
+
   return (
     <div className={cn(dataTableVariants({ size, density }), 'space-y-4', className)}>
       <div className="rounded-md border border-border">
-        <table className={cn('w-full caption-bottom', tableClassName)}>
+        <table
+          className={cn('w-full caption-bottom', tableClassName)}
+          aria-busy={loading || undefined}
+        >
           <thead className="border-b border-border bg-muted/50">
             {table.getHeaderGroups().map((headerGroup) => (
               <tr key={headerGroup.id}>
@@ -344,7 +462,7 @@ export function DataTable<TData, TValue>({
               </tr>
             ))}
           </thead>
-          <tbody className="[&_tr:last-child]:border-0">
+          <tbody className={cn('[&_tr:last-child]:border-0', loading && 'opacity-50')}>
             {table.getRowModel().rows?.length ? (
               table.getRowModel().rows.map((row) => (
                 <tr
@@ -388,7 +506,7 @@ export function DataTable<TData, TValue>({
                     }
                   )}
                 >
-                  No results.
+                  {loading ? 'Loading…' : 'No results.'}
                 </td>
               </tr>
             )}
@@ -437,7 +555,13 @@ export function DataTable<TData, TValue>({
                 size === 'sm' ? 'text-xs' : 'text-sm'
               )}
             >
-              Page {pagination.pageIndex + 1} of {table.getPageCount()}
+              {pageCount >= 0 ? (
+                <>
+                  Page {pagination.pageIndex + 1} of {pageCount}
+                </>
+              ) : (
+                <>Page {pagination.pageIndex + 1}</>
+              )}
             </div>
             <div className="flex items-center space-x-2">
               <button
@@ -472,7 +596,7 @@ export function DataTable<TData, TValue>({
                   size === 'sm' ? 'h-8 w-8 text-xs' : 'h-10 w-10 text-sm'
                 )}
                 onClick={() => table.nextPage()}
-                disabled={!table.getCanNextPage()}
+                disabled={!canNextPage}
               >
                 {'>'}
               </button>
@@ -483,8 +607,8 @@ export function DataTable<TData, TValue>({
                   'rounded-md border border-border bg-background p-0 transition-colors hover:bg-muted disabled:cursor-not-allowed disabled:opacity-50',
                   size === 'sm' ? 'h-8 w-8 text-xs' : 'h-10 w-10 text-sm'
                 )}
-                onClick={() => table.setPageIndex(table.getPageCount() - 1)}
-                disabled={!table.getCanNextPage()}
+                onClick={() => table.setPageIndex(pageCount - 1)}
+                disabled={!canNextPage || pageCount < 0}
               >
                 {'>>'}
               </button>
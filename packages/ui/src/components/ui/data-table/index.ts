@@ -1 +1,7 @@
 export { DataTable, type DataTableProps } from './data-table';
+export {
+  type CursorPageRequest,
+  type CursorPageResult,
+  type UseCursorPaginationOptions,
+  useCursorPagination,
+} from './use-cursor-pagination';
@@ -0,0 +1,120 @@
+import type { ColumnDef } from '@tanstack/react-table';
+import { act, render, renderHook, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+import { DataTable } from './data-table';
+import {
+  type CursorPageRequest,
+  type CursorPageResult,
+  useCursorPagination,
+} from './use-cursor-pagination';
+
+interface Item {
+  id: number;
+  name: string;
+}
+
+const items: Item[] = Array.from({ length: 5 }, (_, i) => ({ id: i + 1, name: `Item ${i + 1}` }));
+
+const columns: ColumnDef<Item>[] = [{ accessorKey: 'name', header: 'Name' }];
+
+/**
+ * Page through `items` by id, using the last id as the cursor
+ */
+function fakeFetchPage(withTotal = false) {
+  return vi.fn(async ({ after, limit, sorting }: CursorPageRequest) => {
+    const ordered = sorting[0]?.desc ? [...items].reverse() : items;
+    const start = after === null ? 0 : ordered.findIndex((item) => String(item.id) === after) + 1;
+    const rows = ordered.slice(start, start + limit);
+    const hasMore = start + limit < ordered.length;
+    const result: CursorPageResult<Item> = {
+      rows,
+      nextCursor: hasMore ? String(rows[rows.length - 1].id) : null,
+      total: withTotal ? items.length : null,
+    };
+    return result;
+  });
+}
+
+function CursorTable({ fetchPage }: { fetchPage: ReturnType<typeof fakeFetchPage> }) {
+  const { tableProps } = useCursorPagination({ fetchPage, pageSize: 2 });
+  return <DataTable columns={columns} getRowId={(row) => String(row.id)} {...tableProps} />;
+}
+
+describe('useCursorPagination', () => {
+  it('loads the first page', async () => {
+    const fetchPage = fakeFetchPage();
+    render(<CursorTable fetchPage={fetchPage} />);
+
+    expect(await screen.findByText('Item 1')).toBeInTheDocument();
+    expect(screen.getByText('Item 2')).toBeInTheDocument();
+    expect(screen.queryByText('Item 3')).not.toBeInTheDocument();
+    expect(fetchPage).toHaveBeenCalledWith(
+      expect.objectContaining({ after: null, limit: 2, sorting: [], columnFilters: [] })
+    );
+  });
+
+  it('follows cursors forwards and reuses them backwards', async () => {
+    const user = userEvent.setup();
+    const fetchPage = fakeFetchPage();
+    render(<CursorTable fetchPage={fetchPage} />);
+    await screen.findByText('Item 1');
+
+    await user.click(screen.getByLabelText('Next page'));
+    expect(await screen.findByText('Item 3')).toBeInTheDocument();
+    expect(fetchPage).toHaveBeenLastCalledWith(expect.objectContaining({ after: '2' }));
+
+    await user.click(screen.getByLabelText('Next page'));
+    expect(await screen.findByText('Item 5')).toBeInTheDocument();
+    await waitFor(() => expect(screen.getByLabelText('Next page')).toBeDisabled());
+
+    await user.click(screen.getByLabelText('Previous page'));
+    expect(await screen.findByText('Item 3')).toBeInTheDocument();
+    expect(fetchPage).toHaveBeenLastCalledWith(expect.objectContaining({ after: '2' }));
+  });
+
+  it('restarts from the first page when sorting changes', async () => {
+    const user = userEvent.setup();
+    const fetchPage = fakeFetchPage();
+    render(<CursorTable fetchPage={fetchPage} />);
+    await screen.findByText('Item 1');
+    await user.click(screen.getByLabelText('Next page'));
+    await screen.findByText('Item 3');
+
+    await user.click(screen.getByRole('button', { name: 'Sort by name' }));
+    await user.click(screen.getByRole('button', { name: 'Sort by name' }));
+
+    expect(await screen.findByText('Item 5')).toBeInTheDocument();
+    expect(fetchPage).toHaveBeenLastCalledWith(
+      expect.objectContaining({ after: null, sorting: [{ id: 'name', desc: true }] })
+    );
+    expect(screen.getByText(/^Page 1$/)).toBeInTheDocument();
+  });
+
+  it('shows the page count when the total is known', async () => {
+    render(<CursorTable fetchPage={fakeFetchPage(true)} />);
+
+    expect(await screen.findByText(/Page 1 of 3/)).toBeInTheDocument();
+  });
+
+  it('exposes fetch errors', async () => {
+    const failure = new Error('offline');
+    const { result } = renderHook(() =>
+      useCursorPagination<Item>({ fetchPage: () => Promise.reject(failure) })
+    );
+
+    await waitFor(() => expect(result.current.error).toBe(failure));
+    expect(result.current.tableProps.loading).toBe(false);
+  });
+
+  it('refetches the current page on reload', async () => {
+    const fetchPage = fakeFetchPage();
+    const { result } = renderHook(() => useCursorPagination<Item>({ fetchPage, pageSize: 2 }));
+    await waitFor(() => expect(result.current.tableProps.data).toHaveLength(2));
+
+    act(() => result.current.reload());
+
+    await waitFor(() => expect(fetchPage).toHaveBeenCalledTimes(2));
+    expect(fetchPage).toHaveBeenLastCalledWith(expect.objectContaining({ after: null, limit: 2 }));
+  });
+});
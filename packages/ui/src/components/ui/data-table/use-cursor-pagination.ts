@@ -0,0 +1,186 @@
+'use client';
+
+import type { ColumnFiltersState, PaginationState, SortingState } from '@tanstack/react-table';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * Page request passed to fetchPage
+ */
+export interface CursorPageRequest {
+  /** Cursor returned with the previous page, or null for the first page */
+  after: string | null;
+  limit: number;
+  sorting: SortingState;
+  columnFilters: ColumnFiltersState;
+  /** Aborted when the request is superseded or the component unmounts */
+  signal: AbortSignal;
+}
+
+/**
+ * Page returned by fetchPage (matches `Page` from `@shared/db` findPage)
+ */
+export interface CursorPageResult<TData> {
+  rows: TData[];
+  /** Cursor of the following page, or null on the last page */
+  nextCursor: string | null;
+  /** Total matching rows, if counted */
+  total?: number | null;
+}
+
+export interface UseCursorPaginationOptions<TData> {
+  /**
+   * Load one page; usually a server action or API route calling
+   * `client.table(name).findPage()`
+   */
+  fetchPage: (request: CursorPageRequest) => Promise<CursorPageResult<TData>>;
+  /**
+   * Rows per page
+   * @default 10
+   */
+  pageSize?: number;
+  /**
+   * Sorting applied before the user picks a column
+   * @default []
+   */
+  initialSorting?: SortingState;
+}
+
+/**
+ * Table state a page is fetched for
+ */
+interface PageQuery {
+  pagination: PaginationState;
+  sorting: SortingState;
+  columnFilters: ColumnFiltersState;
+}
+
+/**
+ * Hook binding cursor (keyset) pagination to DataTable's server mode
+ *
+ * Keeps the cursor of every visited page so users can step forwards and back,
+ * and restarts from the first page when sorting, filters or page size change.
+ * Pages beyond the furthest visited one cannot be jumped to, because their
+ * cursors are not known yet.
+ *
+ * @usageGuidelines
+ * - Spread `tableProps` into DataTable; add enableFiltering if filters are used
+ * - Map `sorting` to a stable orderBy on the server (ids are appended as tie-breakers)
+ * - Request `withCount` only when the total is needed; it costs an extra query
+ *
+ * @returns DataTable props, the last fetch error, and a reload function
+ *
+ * @example
+ * ```tsx
+ * const { tableProps, error } = useCursorPagination({
+ *   fetchPage: ({ after, limit, sorting }) =>
+ *     listProfiles({ after, limit, orderBy: sorting.map((s) => ({ column: s.id, ascending: !s.desc })) }),
+ *   pageSize: 25,
+ * });
+ *
+ * <DataTable columns={columns} getRowId={(row) => row.id} {...tableProps} />
+ * ```
+ */
+export function useCursorPagination<TData>({
+  fetchPage,
+  pageSize = 10,
+  initialSorting = [],
+}: UseCursorPaginationOptions<TData>) {
+  // One state object, so reload() can request a refetch by replacing it
+  const [query, setQuery] = useState<PageQuery>({
+    pagination: { pageIndex: 0, pageSize },
+    sorting: initialSorting,
+    columnFilters: [],
+  });
+  // cursors[i] is the cursor that loads page i
+  const [cursors, setCursors] = useState<(string | null)[]>([null]);
+  const [page, setPage] = useState<CursorPageResult<TData>>({ rows: [], nextCursor: null });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<unknown>(null);
+
+  // Read the latest fetchPage without refetching when an inline function is passed
+  const fetchPageRef = useRef(fetchPage);
+  useEffect(() => {
+    fetchPageRef.current = fetchPage;
+  }, [fetchPage]);
+
+  const { pagination, sorting, columnFilters } = query;
+  const after = cursors[pagination.pageIndex] ?? null;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const { pageIndex, pageSize } = query.pagination;
+    setLoading(true);
+    fetchPageRef
+      .current({
+        after,
+        limit: pageSize,
+        sorting: query.sorting,
+        columnFilters: query.columnFilters,
+        signal: controller.signal,
+      })
+      .then(
+        (result) => {
+          if (controller.signal.aborted) return;
+          setPage(result);
+          setCursors((prev) => [
+            ...prev.slice(0, pageIndex + 1),
+            ...(result.nextCursor ? [result.nextCursor] : []),
+          ]);
+          setError(null);
+          setLoading(false);
+        },
+        (reason: unknown) => {
+          if (controller.signal.aborted) return;
+          setError(reason);
+          setLoading(false);
+        }
+      );
+    return () => controller.abort();
+  }, [after, query]);
+
+  const restart = (next: Partial<PageQuery>, nextPageSize = pagination.pageSize) => {
+    setCursors([null]);
+    setQuery((prev) => ({
+      ...prev,
+      ...next,
+      pagination: { pageIndex: 0, pageSize: nextPageSize },
+    }));
+  };
+
+  const onPaginationChange = (next: PaginationState) => {
+    if (next.pageSize !== pagination.pageSize) {
+      restart({}, next.pageSize);
+      return;
+    }
+    setQuery((prev) => ({
+      ...prev,
+      pagination: { ...next, pageIndex: Math.min(next.pageIndex, cursors.length - 1) },
+    }));
+  };
+
+  const onSortingChange = (next: SortingState) => restart({ sorting: next });
+
+  const onColumnFiltersChange = (next: ColumnFiltersState) => restart({ columnFilters: next });
+
+  const reload = useCallback(() => setQuery((prev) => ({ ...prev })), []);
+
+  return {
+    tableProps: {
+      mode: 'server' as const,
+      data: page.rows,
+      enablePagination: true,
+      pageSize: pagination.pageSize,
+      pagination,
+      onPaginationChange,
+      sorting,
+      onSortingChange,
+      columnFilters,
+      onColumnFiltersChange,
+      rowCount: page.total ?? undefined,
+      hasNextPage: page.nextCursor !== null,
+      loading,
+    },
+    error,
+    reload,
+  };
+}
@@ -8,7 +8,14 @@ export {
   CardHeader,
   CardTitle,
 } from './components/ui/card';
-export { DataTable, type DataTableProps } from './components/ui/data-table';
+export {
+  type CursorPageRequest,
+  type CursorPageResult,
+  DataTable,
+  type DataTableProps,
+  type UseCursorPaginationOptions,
+  useCursorPagination,
+} from './components/ui/data-table';
 export {
   Dialog,
   DialogClose,
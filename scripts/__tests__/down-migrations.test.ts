@@ -0,0 +1,153 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  downFileName,
+  listMigrationPairs,
+  orphanDownScripts,
+  planRollback,
+  validateDownMigrations,
+} from '../db/down-migrations';
+import { irreversibleOperations, runRules } from '../validators';
+
+describe('Down Migrations', () => {
+  let root: string;
+  let migrationsDir: string;
+  let rollbacksDir: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'down-migrations-'));
+    migrationsDir = join(root, 'migrations');
+    rollbacksDir = join(root, 'rollbacks');
+    mkdirSync(migrationsDir);
+    mkdirSync(rollbacksDir);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  function migration(file: string, sql: string, downSql?: string) {
+    writeFileSync(join(migrationsDir, file), sql);
+    if (downSql !== undefined) {
+      writeFileSync(join(rollbacksDir, downFileName(file)), downSql);
+    }
+  }
+
+  describe('listMigrationPairs', () => {
+    it('should pair migrations with their down scripts in version order', async () => {
+      migration('2_second.sql', 'CREATE TABLE b (id int);', 'DROP TABLE b;');
+      migration('1_first.sql', 'CREATE TABLE a (id int);');
+      writeFileSync(join(migrationsDir, 'README.md'), '');
+
+      const pairs = await listMigrationPairs(migrationsDir, rollbacksDir);
+
+      expect(pairs.map((pair) => [pair.version, pair.name, pair.hasDown])).toEqual([
+        ['1', 'first', false],
+        ['2', 'second', true],
+      ]);
+      expect(pairs[1].downPath).toBe(join(rollbacksDir, '2_second.down.sql'));
+    });
+
+    it('should treat a down script with only comments as missing', async () => {
+      migration('1_first.sql', 'CREATE TABLE a (id int);', '-- Undo\n/* nothing yet */\n');
+
+      expect((await listMigrationPairs(migrationsDir, rollbacksDir))[0].hasDown).toBe(false);
+    });
+  });
+
+  describe('orphanDownScripts', () => {
+    it('should report down scripts without a migration', async () => {
+      migration('1_first.sql', 'SELECT 1;', 'SELECT 1;');
+      writeFileSync(join(rollbacksDir, '9_removed.down.sql'), 'SELECT 1;');
+
+      const pairs = await listMigrationPairs(migrationsDir, rollbacksDir);
+      expect(orphanDownScripts(pairs, rollbacksDir)).toEqual(['9_removed.down.sql']);
+    });
+  });
+
+  describe('validateDownMigrations', () => {
+    it('should fail irreversible migrations without a down script', async () => {
+      migration('1_drop.sql', 'CREATE TABLE a (id int);\nDROP FUNCTION old_fn();');
+      migration('2_covered.sql', 'DROP TABLE a;', 'CREATE TABLE a (id int);');
+      migration('3_additive.sql', 'CREATE TABLE c (id int);');
+
+      const results = await validateDownMigrations(
+        await listMigrationPairs(migrationsDir, rollbacksDir)
+      );
+
+      expect([...results.keys()]).toEqual(['1_drop.sql']);
+      expect(results.get('1_drop.sql')).toEqual([
+        expect.objectContaining({ code: 'MISSING_ROLLBACK', line: 2, column: 1 }),
+      ]);
+    });
+
+    it('should fail down scripts that do not parse', async () => {
+      migration('1_add.sql', 'CREATE TABLE a (id int);', 'DROP TABEL a;');
+
+      const results = await validateDownMigrations(
+        await listMigrationPairs(migrationsDir, rollbacksDir)
+      );
+
+      expect(results.get('1_add.down.sql')).toEqual([
+        expect.objectContaining({ code: 'PARSE_ERROR' }),
+      ]);
+    });
+  });
+
+  describe('planRollback', () => {
+    const pair = (version: string, hasDown = true) => ({
+      version,
+      name: `m${version}`,
+      file: `${version}_m${version}.sql`,
+      path: '',
+      downPath: `${version}_m${version}.down.sql`,
+      hasDown,
+    });
+    const pairs = [pair('1'), pair('2'), pair('3', false), pair('4')];
+
+    it('should roll back only the latest migration by default', () => {
+      const plan = planRollback(pairs, ['1', '2', '4']);
+      expect(plan.steps.map((step) => step.version)).toEqual(['4']);
+    });
+
+    it('should roll back everything after the target, newest first', () => {
+      const plan = planRollback(pairs, ['1', '2', '4'], '1');
+      expect(plan.steps.map((step) => step.version)).toEqual(['4', '2']);
+      expect(plan.missingDown).toEqual([]);
+    });
+
+    it('should report missing down scripts and unknown versions', () => {
+      const plan = planRollback(pairs, ['1', '2', '3', '4', '5'], '2');
+      expect(plan.missingDown.map((step) => step.version)).toEqual(['3']);
+      expect(plan.unknown).toEqual(['5']);
+    });
+  });
+
+  describe('irreversibleOperations', () => {
+    it('should flag irreversible DDL', async () => {
+      const sql = [
+        'DROP POLICY IF EXISTS p ON a;',
+        'ALTER TABLE a RENAME COLUMN x TO y;',
+        'ALTER TABLE a ALTER COLUMN y TYPE bigint;',
+        'TRUNCATE a;',
+      ].join('\n');
+
+      const { errors } = await runRules(sql, [irreversibleOperations]);
+      expect(errors.map((error) => [error.line, error.message])).toEqual([
+        [1, 'Irreversible operation (DROP POLICY) without a down migration'],
+        [2, 'Irreversible operation (RENAME COLUMN) without a down migration'],
+        [3, 'Irreversible operation (ALTER COLUMN TYPE) without a down migration'],
+        [4, 'Irreversible operation (TRUNCATE) without a down migration'],
+      ]);
+    });
+
+    it('should ignore commented-out DDL and additive changes', async () => {
+      const sql =
+        "-- DROP TABLE a;\n/*\nDROP TABLE b;\n*/\nCREATE TABLE c (note text DEFAULT 'DROP');";
+
+      expect((await runRules(sql, [irreversibleOperations])).errors).toEqual([]);
+    });
+  });
+});
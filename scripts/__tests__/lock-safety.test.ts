@@ -0,0 +1,262 @@
+import { describe, expect, it } from 'vitest';
+import {
+  constraintNotValid,
+  LOCK_SAFETY_RULES,
+  lockTimeout,
+  requireConcurrentIndex,
+  runRules,
+  setNotNull,
+  volatileDefault,
+} from '../validators';
+
+describe('Lock Safety Rules', () => {
+  describe('require-concurrent-index', () => {
+    it('should warn about CREATE INDEX on an existing table', async () => {
+      const { errors, warnings } = await runRules(
+        'CREATE INDEX idx_posts_author ON posts (author_id);',
+        [requireConcurrentIndex]
+      );
+
+      expect(errors).toEqual([]);
+      expect(warnings).toEqual([
+        expect.objectContaining({
+          code: 'NON_CONCURRENT_INDEX',
+          rule: 'require-concurrent-index',
+          line: 1,
+          column: 1,
+        }),
+      ]);
+    });
+
+    it('should allow CONCURRENTLY and indexes on tables created in the migration', async () => {
+      const sql = `
+        CREATE INDEX CONCURRENTLY idx_posts_author ON posts (author_id);
+        CREATE TABLE tags (id uuid PRIMARY KEY, name text);
+        CREATE INDEX idx_tags_name ON tags (name);
+      `;
+
+      expect((await runRules(sql, [requireConcurrentIndex])).warnings).toEqual([]);
+    });
+
+    it('should only warn about a plain CREATE INDEX with every rule enabled', async () => {
+      const { errors, warnings } = await runRules(
+        'CREATE INDEX idx_users_email ON users(email);',
+        LOCK_SAFETY_RULES
+      );
+
+      expect(errors).toEqual([]);
+      expect(warnings).toEqual(
+        expect.arrayContaining([expect.objectContaining({ code: 'NON_CONCURRENT_INDEX' })])
+      );
+    });
+  });
+
+  describe('volatile-default', () => {
+    it('should flag columns whose default is computed per row', async () => {
+      const sql = [
+        'ALTER TABLE posts ADD COLUMN key uuid NOT NULL DEFAULT gen_random_uuid();',
+        'ALTER TABLE posts ADD COLUMN seq bigserial;',
+        'ALTER TABLE posts ADD COLUMN n int GENERATED ALWAYS AS IDENTITY;',
+      ].join('\n');
+
+      const { errors } = await runRules(sql, [volatileDefault]);
+      expect(errors.map((error) => [error.line, error.column, error.message])).toEqual([
+        [
+          1,
+          30,
+          "Adding column 'key' with volatile default gen_random_uuid() rewrites 'posts' under an ACCESS EXCLUSIVE lock",
+        ],
+        [
+          2,
+          30,
+          "Adding column 'seq' with type bigserial rewrites 'posts' under an ACCESS EXCLUSIVE lock",
+        ],
+        [
+          3,
+          30,
+          "Adding column 'n' with an identity rewrites 'posts' under an ACCESS EXCLUSIVE lock",
+        ],
+      ]);
+    });
+
+    it('should allow constant and stable defaults', async () => {
+      const sql = `
+        ALTER TABLE posts ADD COLUMN status text NOT NULL DEFAULT 'draft';
+        ALTER TABLE posts ADD COLUMN created_at timestamptz DEFAULT now();
+        ALTER TABLE posts ADD COLUMN updated_at timestamptz DEFAULT CURRENT_TIMESTAMP;
+        ALTER TABLE posts ADD COLUMN meta jsonb DEFAULT '{}'::jsonb;
+      `;
+
+      expect((await runRules(sql, [volatileDefault])).errors).toEqual([]);
+    });
+  });
+
+  describe('set-not-null', () => {
+    it('should flag SET NOT NULL without a validated CHECK constraint', async () => {
+      const { errors } = await runRules('ALTER TABLE posts ALTER COLUMN title SET NOT NULL;', [
+        setNotNull,
+      ]);
+
+      expect(errors).toEqual([
+        expect.objectContaining({
+          code: 'SET_NOT_NULL',
+          message: "SET NOT NULL on 'posts.title' scans the table under an ACCESS EXCLUSIVE lock",
+        }),
+      ]);
+    });
+
+    it('should allow SET NOT NULL after validating a constraint named for the column', async () => {
+      const sql = `
+        ALTER TABLE posts VALIDATE CONSTRAINT posts_title_not_null;
+        ALTER TABLE posts ALTER COLUMN title SET NOT NULL;
+      `;
+
+      expect((await runRules(sql, [setNotNull])).errors).toEqual([]);
+    });
+
+    it('should not accept a validated constraint on another column', async () => {
+      const sql = `
+        ALTER TABLE posts VALIDATE CONSTRAINT posts_subtitle_not_null;
+        ALTER TABLE posts VALIDATE CONSTRAINT posts_author_fk;
+        ALTER TABLE posts ALTER COLUMN title SET NOT NULL;
+      `;
+
+      expect((await runRules(sql, [setNotNull])).errors).toEqual([
+        expect.objectContaining({
+          code: 'SET_NOT_NULL',
+          suggestion: expect.stringContaining('VALIDATE CONSTRAINT posts_title_not_null'),
+        }),
+      ]);
+    });
+
+    it('should match constraints added in the migration by their CHECK expression', async () => {
+      const sql = `
+        ALTER TABLE posts ADD CONSTRAINT posts_title_check CHECK (title IS NOT NULL) NOT VALID;
+        ALTER TABLE posts ADD CONSTRAINT posts_title_length CHECK (length(title) > 0) NOT VALID;
+        ALTER TABLE posts VALIDATE CONSTRAINT posts_title_length;
+        ALTER TABLE posts ALTER COLUMN title SET NOT NULL;
+        ALTER TABLE posts VALIDATE CONSTRAINT posts_title_check;
+        ALTER TABLE posts ALTER COLUMN title SET NOT NULL;
+      `;
+
+      expect((await runRules(sql, [setNotNull])).errors).toEqual([
+        expect.objectContaining({ code: 'SET_NOT_NULL', line: 5 }),
+      ]);
+    });
+  });
+
+  describe('constraint-not-valid', () => {
+    it('should flag foreign keys and CHECK constraints added without NOT VALID', async () => {
+      const sql = [
+        'ALTER TABLE posts ADD CONSTRAINT posts_author_fk FOREIGN KEY (author_id) REFERENCES users(id);',
+        'ALTER TABLE posts ADD CHECK (length(title) < 200);',
+      ].join('\n');
+
+      const { errors } = await runRules(sql, [constraintNotValid]);
+      expect(errors.map((error) => [error.line, error.column, error.message])).toEqual([
+        [
+          1,
+          23,
+          "Adding foreign key posts_author_fk to 'posts' validates every row while blocking writes to 'posts' and 'users'",
+        ],
+        [
+          2,
+          23,
+          "Adding CHECK constraint to 'posts' validates every row while holding an ACCESS EXCLUSIVE lock",
+        ],
+      ]);
+    });
+
+    it('should flag validating in the migration that added the constraint', async () => {
+      const sql = `
+        ALTER TABLE posts ADD CONSTRAINT posts_author_fk
+          FOREIGN KEY (author_id) REFERENCES users(id) NOT VALID;
+        ALTER TABLE posts VALIDATE CONSTRAINT posts_author_fk;
+      `;
+
+      const { errors } = await runRules(sql, [constraintNotValid]);
+      expect(errors).toEqual([expect.objectContaining({ code: 'VALIDATING_CONSTRAINT', line: 4 })]);
+    });
+
+    it('should allow constraints on tables created in the migration', async () => {
+      const sql = `
+        CREATE TABLE comments (id uuid PRIMARY KEY, post_id uuid);
+        ALTER TABLE comments ADD FOREIGN KEY (post_id) REFERENCES posts(id);
+      `;
+
+      expect((await runRules(sql, [constraintNotValid])).errors).toEqual([]);
+    });
+  });
+
+  describe('lock-timeout', () => {
+    it('should warn once per table locked without a lock_timeout', async () => {
+      const sql = [
+        'SELECT 1;',
+        'ALTER TABLE posts ADD COLUMN summary text;',
+        'ALTER TABLE posts ADD COLUMN slug text;',
+        'CREATE INDEX idx_users_email ON users (email);',
+      ].join('\n');
+
+      const { warnings } = await runRules(sql, [lockTimeout]);
+      expect(warnings.map((warning) => [warning.rule, warning.line])).toEqual([
+        ['lock-timeout', 2],
+        ['lock-timeout', 4],
+      ]);
+    });
+
+    it('should accept SET lock_timeout before the first lock', async () => {
+      const sql = "SET lock_timeout = '5s';\nALTER TABLE posts ADD COLUMN summary text;";
+
+      expect((await runRules(sql, [lockTimeout])).warnings).toEqual([]);
+    });
+  });
+
+  describe('migration-lint-disable', () => {
+    it('should disable rules for the statement that follows the comment', async () => {
+      const sql = `
+        -- migration-lint-disable require-concurrent-index, lock-timeout -- table has 10 rows
+        CREATE INDEX idx_flags_name ON flags (name);
+        CREATE INDEX idx_posts_author ON posts (author_id);
+      `;
+
+      const { warnings } = await runRules(sql, LOCK_SAFETY_RULES);
+      expect(warnings).toEqual([
+        expect.objectContaining({ code: 'NON_CONCURRENT_INDEX', line: 4 }),
+        expect.objectContaining({ code: 'MISSING_LOCK_TIMEOUT', line: 4 }),
+      ]);
+    });
+
+    it('should disable rules for the statement a comment trails or sits in', async () => {
+      const sql = [
+        'CREATE INDEX idx_flags_name ON flags (name); -- migration-lint-disable require-concurrent-index',
+        'ALTER TABLE posts',
+        '  -- migration-lint-disable volatile-default',
+        '  ADD COLUMN key uuid DEFAULT gen_random_uuid();',
+      ].join('\n');
+
+      const { errors, warnings } = await runRules(sql, [requireConcurrentIndex, volatileDefault]);
+      expect(errors).toEqual([]);
+      expect(warnings).toEqual([]);
+    });
+
+    it('should only disable the named rules', async () => {
+      const sql = `
+        -- migration-lint-disable lock-timeout
+        ALTER TABLE posts ALTER COLUMN title SET NOT NULL;
+      `;
+
+      const { errors, warnings } = await runRules(sql, LOCK_SAFETY_RULES);
+      expect(errors.map((error) => error.rule)).toEqual(['set-not-null']);
+      expect(warnings).toEqual([]);
+    });
+
+    it('should ignore directives inside string literals', async () => {
+      const sql = `
+        SELECT '-- migration-lint-disable require-concurrent-index';
+        CREATE INDEX idx_posts_author ON posts (author_id);
+      `;
+
+      expect((await runRules(sql, [requireConcurrentIndex])).warnings).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,394 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type CatalogRows,
+  catalogObjects,
+  diffSchemas,
+  diffTypes,
+  expectedTypes,
+  formatDrift,
+  migrationOrigins,
+  typesObjects,
+} from '../db/schema-drift';
+
+function catalog(overrides: Partial<CatalogRows> = {}): CatalogRows {
+  return {
+    tables: [{ schema: 'public', name: 'posts', kind: 'table', rls: true }],
+    columns: [
+      {
+        schema: 'public',
+        table: 'posts',
+        name: 'id',
+        type: 'uuid',
+        nullable: false,
+        default: 'gen_random_uuid()',
+      },
+      {
+        schema: 'public',
+        table: 'posts',
+        name: 'title',
+        type: 'text',
+        nullable: true,
+        default: null,
+      },
+      {
+        schema: 'public',
+        table: 'posts',
+        name: 'tags',
+        type: 'character varying(40)[]',
+        nullable: false,
+        default: null,
+      },
+    ],
+    policies: [
+      {
+        schema: 'public',
+        table: 'posts',
+        name: 'posts_select_own',
+        command: 'SELECT',
+        permissive: true,
+        roles: ['authenticated'],
+        using: '(( SELECT auth.uid() AS uid) = user_id)',
+        check: null,
+      },
+    ],
+    functions: [
+      {
+        schema: 'public',
+        name: 'search_posts',
+        arguments: 'term text',
+        args: [{ name: 'term', type: 'text', optional: false }],
+        returns: 'SETOF posts',
+        language: 'sql',
+        security_definer: false,
+        volatility: 's',
+      },
+      {
+        schema: 'public',
+        name: 'update_updated_at',
+        arguments: '',
+        args: [],
+        returns: 'trigger',
+        language: 'plpgsql',
+        security_definer: false,
+        volatility: 'v',
+      },
+    ],
+    ...overrides,
+  };
+}
+
+const TYPES = `
+export interface Database {
+  public: {
+    Tables: {
+      posts: {
+        Row: {
+          id: string;
+          title: string | null;
+          tags: string[];
+        };
+        Insert: { id?: string };
+        Update: { id?: string };
+        Relationships: [];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      search_posts: { Args: { term: string }; Returns: Json };
+    };
+  };
+}
+`;
+
+describe('Schema Drift', () => {
+  describe('diffSchemas', () => {
+    it('should report no drift for identical catalogs', () => {
+      expect(diffSchemas(catalogObjects(catalog()), catalogObjects(catalog()))).toEqual([]);
+    });
+
+    it('should report missing, unexpected and changed objects', () => {
+      const expected = catalogObjects(catalog());
+      const actual = catalogObjects(
+        catalog({
+          tables: [{ schema: 'public', name: 'posts', kind: 'table', rls: false }],
+          policies: [],
+          functions: [
+            ...catalog().functions,
+            {
+              schema: 'public',
+              name: 'search_posts',
+              arguments: 'term text, max integer',
+              args: [
+                { name: 'term', type: 'text', optional: false },
+                { name: 'max', type: 'integer', optional: false },
+              ],
+              returns: 'SETOF posts',
+              language: 'sql',
+              security_definer: false,
+              volatility: 's',
+            },
+          ],
+        })
+      );
+
+      expect(diffSchemas(expected, actual, new Map([['public.posts', '001_posts.sql']]))).toEqual([
+        {
+          kind: 'table',
+          name: 'public.posts',
+          status: 'changed',
+          expected: { rls: true },
+          actual: { rls: false },
+          migration: '001_posts.sql',
+        },
+        expect.objectContaining({
+          kind: 'policy',
+          name: 'public.posts.posts_select_own',
+          status: 'missing',
+        }),
+        expect.objectContaining({
+          kind: 'function',
+          name: 'public.search_posts(term text, max integer)',
+          status: 'unexpected',
+        }),
+      ]);
+    });
+  });
+
+  describe('diffTypes', () => {
+    it('should accept types generated from the schema', () => {
+      const expected = expectedTypes(catalogObjects(catalog()));
+
+      expect(expected.map((object) => object.name)).not.toContain('public.update_updated_at');
+      expect(diffTypes(expected, typesObjects(TYPES))).toEqual([]);
+    });
+
+    it('should report stale types', () => {
+      const schema = catalogObjects(
+        catalog({
+          columns: [
+            ...catalog().columns.filter((column) => column.name !== 'title'),
+            {
+              schema: 'public',
+              table: 'posts',
+              name: 'title',
+              type: 'text',
+              nullable: false,
+              default: null,
+            },
+            {
+              schema: 'public',
+              table: 'posts',
+              name: 'slug',
+              type: 'text',
+              nullable: true,
+              default: null,
+            },
+          ],
+        })
+      );
+      const drift = diffTypes(expectedTypes(schema), typesObjects(TYPES));
+
+      expect(drift.map(({ name, status }) => [name, status])).toEqual([
+        ['public.posts.slug', 'missing'],
+        ['public.posts.title', 'changed'],
+      ]);
+      expect(drift[1]).toMatchObject({
+        expected: { type: 'string' },
+        actual: { type: 'null | string' },
+      });
+    });
+
+    it('should compare columns of unmapped types by name only', () => {
+      const schema = catalogObjects(
+        catalog({
+          columns: [
+            ...catalog().columns,
+            {
+              schema: 'public',
+              table: 'posts',
+              name: 'status',
+              type: 'post_status',
+              nullable: false,
+              default: null,
+            },
+          ],
+        })
+      );
+      const types = TYPES.replace(
+        'tags: string[];',
+        'tags: string[];\n          status: Database["public"]["Enums"]["post_status"];'
+      );
+
+      expect(diffTypes(expectedTypes(schema), typesObjects(types))).toEqual([]);
+    });
+
+    it('should compare function arguments and return types', () => {
+      const query: CatalogRows['functions'][number] = {
+        schema: 'public',
+        name: 'query',
+        arguments: 'sql text, params jsonb',
+        args: [
+          { name: 'sql', type: 'text', optional: false },
+          { name: 'params', type: 'jsonb', optional: true },
+        ],
+        returns: 'jsonb',
+        language: 'plpgsql',
+        security_definer: false,
+        volatility: 'v',
+      };
+      const schema = catalogObjects(
+        catalog({
+          functions: [
+            ...catalog().functions,
+            query,
+            {
+              ...query,
+              name: 'applied_migrations',
+              arguments: '',
+              args: [],
+              returns: 'SETOF text',
+            },
+          ],
+        })
+      );
+      const functions = (entries: string) =>
+        TYPES.replace(
+          'search_posts: { Args: { term: string }; Returns: Json };',
+          `search_posts: { Args: { term: string }; Returns: Json };\n${entries}`
+        );
+
+      expect(
+        diffTypes(
+          expectedTypes(schema),
+          typesObjects(
+            functions(`
+              applied_migrations: { Args: never; Returns: string[] };
+              query: { Args: { params?: Json; sql: string }; Returns: Json };
+            `)
+          )
+        )
+      ).toEqual([]);
+
+      const drift = diffTypes(
+        expectedTypes(schema),
+        typesObjects(
+          functions(`
+            applied_migrations: { Args: never; Returns: string };
+            query: { Args: { sql: string; timeout_ms?: number }; Returns: Json };
+          `)
+        )
+      );
+      expect(drift).toEqual([
+        expect.objectContaining({
+          name: 'public.applied_migrations',
+          status: 'changed',
+          expected: { args: {}, returns: 'string[]' },
+          actual: { args: {}, returns: 'string' },
+        }),
+        expect.objectContaining({
+          name: 'public.query',
+          status: 'changed',
+          expected: { args: { 'params?': 'Json', sql: 'string' }, returns: 'Json' },
+          actual: { args: { sql: 'string', 'timeout_ms?': 'number' }, returns: 'Json' },
+        }),
+      ]);
+    });
+
+    it('should compare overloaded functions by name only', () => {
+      const schema = catalogObjects(
+        catalog({
+          functions: [
+            ...catalog().functions,
+            {
+              ...catalog().functions[0],
+              arguments: 'term text, max integer',
+              args: [
+                { name: 'term', type: 'text', optional: false },
+                { name: 'max', type: 'integer', optional: false },
+              ],
+            },
+          ],
+        })
+      );
+      const types = TYPES.replace(
+        'search_posts: { Args: { term: string }; Returns: Json };',
+        `search_posts:
+          | { Args: { term: string }; Returns: Json }
+          | { Args: { max: number; term: string }; Returns: Json };`
+      );
+
+      expect(diffTypes(expectedTypes(schema), typesObjects(types))).toEqual([]);
+    });
+
+    it('should fail on a types file without a Database type', () => {
+      expect(() => typesObjects('export type Json = string;')).toThrow(
+        "No Database['public'] type found"
+      );
+    });
+  });
+
+  describe('migrationOrigins', () => {
+    it('should map objects to the migration that last created them', async () => {
+      const origins = await migrationOrigins([
+        {
+          path: 'supabase/migrations/001_posts.sql',
+          sql: `
+            CREATE TABLE posts (id uuid PRIMARY KEY, title text);
+            CREATE POLICY posts_select_own ON posts FOR SELECT USING (true);
+            CREATE FUNCTION private.is_admin() RETURNS boolean LANGUAGE sql AS $$ SELECT false $$;
+          `,
+        },
+        {
+          path: 'supabase/migrations/002_posts_slug.sql',
+          sql: `
+            ALTER TABLE public.posts ADD COLUMN slug text;
+            CREATE OR REPLACE FUNCTION private.is_admin() RETURNS boolean LANGUAGE sql AS $$ SELECT true $$;
+          `,
+        },
+      ]);
+
+      expect(Object.fromEntries(origins)).toEqual({
+        'public.posts': '001_posts.sql',
+        'public.posts.id': '001_posts.sql',
+        'public.posts.title': '001_posts.sql',
+        'public.posts.posts_select_own': '001_posts.sql',
+        'public.posts.slug': '002_posts_slug.sql',
+        'private.is_admin': '002_posts_slug.sql',
+      });
+    });
+  });
+
+  describe('formatDrift', () => {
+    it('should describe each difference with its migration', () => {
+      const expected = catalogObjects(catalog());
+      const actual = catalogObjects(catalog({ policies: [] }));
+      const origins = new Map([['public.posts.posts_select_own', '001_posts.sql']]);
+
+      const output = formatDrift({
+        database: {
+          expected: 'supabase/migrations',
+          actual: 'local database',
+          drift: diffSchemas(expected, actual, origins),
+        },
+        types: { expected: 'supabase/migrations', actual: 'types.ts', drift: [] },
+        seed: {
+          expected: 'supabase/migrations',
+          actual: 'supabase/seed.sql',
+          drift: diffSchemas(actual, expected),
+        },
+      });
+
+      expect(output).toBe(
+        [
+          'local database vs supabase/migrations: 1 difference',
+          '  - policy public.posts.posts_select_own: missing from local database (001_posts.sql)',
+          'types.ts vs supabase/migrations: no drift',
+          'supabase/seed.sql vs supabase/migrations: 1 difference',
+          '  + policy public.posts.posts_select_own: only in supabase/seed.sql',
+        ].join('\n')
+      );
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { generateTable, parseTableSpec, type TableSpec, tableDependencies } from '../db/table-spec';
+import { MIGRATION_RULES, runRules } from '../validators';
+
+const EXAMPLE_SPEC = 'supabase/templates/table-spec.example.yaml';
+
+describe('Table Specs', () => {
+  describe('parseTableSpec', () => {
+    it('should parse YAML and JSON specs alike', () => {
+      const yaml = `
+table: notes
+columns:
+  - { name: body, type: text, nullable: false }
+`;
+      const json =
+        '{"table": "notes", "columns": [{"name": "body", "type": "text", "nullable": false}]}';
+
+      expect(parseTableSpec(yaml)).toEqual(parseTableSpec(json));
+      expect(parseTableSpec(json).columns).toEqual([
+        { name: 'body', type: 'text', nullable: false },
+      ]);
+    });
+
+    it('should reject content that is not a table spec', () => {
+      expect(() => parseTableSpec('- notes')).toThrow('expected a mapping with a `table` name');
+      expect(() => parseTableSpec('table: notes\ncolumns: body')).toThrow(
+        '`columns` must be a list'
+      );
+    });
+  });
+
+  describe('generateTable', () => {
+    it('should generate identical SQL for identical specs', () => {
+      const source = readFileSync(EXAMPLE_SPEC, 'utf-8');
+
+      expect(generateTable(parseTableSpec(source))).toEqual(generateTable(parseTableSpec(source)));
+    });
+
+    it('should generate a migration that passes the migration rules', async () => {
+      const example = parseTableSpec(readFileSync(EXAMPLE_SPEC, 'utf-8'));
+      const specs: TableSpec[] = [
+        example,
+        { ...example, ownership: 'team', indexes: [{ columns: ['team_id', 'status'] }] },
+      ];
+
+      for (const spec of specs) {
+        const { errors, warnings } = await runRules(generateTable(spec).migration, MIGRATION_RULES);
+
+        expect(errors).toEqual([]);
+        expect(warnings).toEqual([]);
+      }
+    });
+
+    it('should add the owner column, timestamps and indexes on foreign keys', () => {
+      const { migration } = generateTable({
+        table: 'tasks',
+        columns: [
+          { name: 'title', type: 'text', nullable: false },
+          { name: 'project_id', type: 'uuid', references: 'projects(id)' },
+        ],
+      });
+
+      expect(migration).toContain(`CREATE TABLE public.tasks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  project_id uuid REFERENCES public.projects(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);`);
+      expect(migration).toContain('CREATE INDEX idx_tasks_user_id ON public.tasks (user_id);');
+      expect(migration).toContain(
+        'CREATE INDEX idx_tasks_project_id ON public.tasks (project_id);'
+      );
+      expect(migration).toContain('ALTER TABLE public.tasks ENABLE ROW LEVEL SECURITY;');
+      expect(migration).toContain('CREATE TRIGGER update_tasks_updated_at');
+    });
+
+    it('should generate team policies and hide soft-deleted rows', () => {
+      const { migration, policies } = generateTable({
+        table: 'projects',
+        ownership: 'team',
+        softDelete: true,
+      });
+
+      expect(policies.map((policy) => policy.name)).toEqual([
+        'projects_select_team',
+        'projects_insert_team',
+        'projects_update_team',
+        'projects_delete_team',
+      ]);
+      expect(policies[0].condition).toBe(
+        'team_id IN (SELECT private.user_teams()) AND deleted_at IS NULL'
+      );
+      expect(migration).toContain(
+        'team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE'
+      );
+      expect(migration).toContain('CREATE OR REPLACE FUNCTION private.user_teams()');
+      expect(migration).toContain('  deleted_at timestamptz\n);');
+      expect(migration).toContain('-- WARNING: team ownership assumes these tables exist');
+    });
+
+    it('should generate a pgTAP test planning one test per assertion', () => {
+      const { test } = generateTable({
+        table: 'notes',
+        columns: [{ name: 'body', type: 'text' }],
+        indexes: [{ columns: ['body'] }],
+      });
+
+      const assertions = test
+        .split('\n')
+        .filter((line) => /^select (?!plan|\* from finish)/.test(line));
+      expect(test).toContain(`select plan(${assertions.length});`);
+      expect(test).toContain(
+        "select columns_are('public', 'notes', ARRAY['id', 'user_id', 'body', 'created_at', 'updated_at'], 'notes has the columns of its spec');"
+      );
+      expect(test).toContain(
+        "select col_is_null('public', 'notes', 'body', 'notes.body is nullable');"
+      );
+      expect(test).toContain(
+        "select policies_are('public', 'notes', ARRAY['notes_select_own', 'notes_insert_own', 'notes_update_own', 'notes_delete_own'], 'notes has the generated policies');"
+      );
+    });
+
+    it('should reject invalid specs', () => {
+      const invalid: Array<[TableSpec, string]> = [
+        [{ table: 'Notes' }, 'table name must be a lowercase identifier'],
+        [{ table: 'notes', ownership: 'org' as never }, 'ownership must be user or team'],
+        [
+          { table: 'notes', columns: [{ name: 'body', type: 'text; DROP TABLE users' }] },
+          "column 'body' has invalid type",
+        ],
+        [
+          { table: 'notes', columns: [{ name: 'created_at', type: 'timestamptz' }] },
+          "column 'created_at' is defined twice",
+        ],
+        [{ table: 'notes', indexes: [{ columns: ['title'] }] }, "index on unknown column 'title'"],
+        [
+          {
+            table: 'notes',
+            columns: [{ name: 'folder_id', type: 'uuid', references: 'folders(id); --' }],
+          },
+          "column 'folder_id' references must be",
+        ],
+      ];
+
+      for (const [spec, message] of invalid) {
+        expect(() => generateTable(spec)).toThrow(message);
+      }
+    });
+  });
+
+  describe('tableDependencies', () => {
+    it('should list the team tables and foreign key targets', () => {
+      const spec: TableSpec = {
+        table: 'tasks',
+        ownership: 'team',
+        columns: [
+          { name: 'project_id', type: 'uuid', references: 'projects(id)' },
+          { name: 'parent_id', type: 'uuid', references: 'tasks' },
+          { name: 'reviewer_id', type: 'uuid', references: { table: 'auth.users' } },
+          { name: 'lead_id', type: 'uuid', references: 'public.team_members' },
+        ],
+      };
+
+      expect(tableDependencies(spec)).toEqual([
+        'public.teams',
+        'public.team_members',
+        'public.projects',
+        'auth.users',
+      ]);
+    });
+
+    it('should only depend on auth.users in the example spec, plus the team tables', () => {
+      const example = parseTableSpec(readFileSync(EXAMPLE_SPEC, 'utf-8'));
+
+      expect(tableDependencies(example)).toEqual(['auth.users']);
+      expect(tableDependencies({ ...example, ownership: 'team' })).toEqual([
+        'public.teams',
+        'public.team_members',
+        'auth.users',
+      ]);
+    });
+  });
+});
@@ -3,9 +3,9 @@ import { validateMigration } from '../validate-migration';
 
 describe('Migration Validation', () => {
   describe('Destructive Operations', () => {
-    it('should error on DROP TABLE', () => {
+    it('should error on DROP TABLE', async () => {
       const sql = 'DROP TABLE users;';
-      const result = validateMigration({
+      const result = await validateMigration({
         sql,
         path: 'test.sql',
         timestamp: '20251004',
@@ -19,9 +19,9 @@ describe('Migration Validation', () => {
       expect(result.errors[0].suggestion).toBeDefined();
     });
 
-    it('should error on DROP COLUMN', () => {
+    it('should error on DROP COLUMN', async () => {
       const sql = 'ALTER TABLE users DROP COLUMN email;';
-      const result = validateMigration({
+      const result = await validateMigration({
         sql,
         path: 'test.sql',
         timestamp: '20251004',
@@ -32,9 +32,9 @@ describe('Migration Validation', () => {
       expect(result.errors[0].code).toBe('DROP_COLUMN');
     });
 
-    it('should error on TRUNCATE', () => {
+    it('should error on TRUNCATE', async () => {
       const sql = 'TRUNCATE TABLE posts;';
-      const result = validateMigration({
+      const result = await validateMigration({
         sql,
         path: 'test.sql',
         timestamp: '20251004',
@@ -47,9 +47,9 @@ describe('Migration Validation', () => {
   });
 
   describe('RLS Policy Validation', () => {
-    it('should warn on CREATE TABLE without RLS', () => {
+    it('should warn on CREATE TABLE without RLS', async () => {
       const sql = 'CREATE TABLE posts (id uuid PRIMARY KEY);';
-      const result = validateMigration({
+      const result = await validateMigration({
         sql,
         path: 'test.sql',
         timestamp: '20251004',
@@ -64,12 +64,12 @@ describe('Migration Validation', () => {
       );
     });
 
-    it('should pass when RLS is enabled', () => {
+    it('should pass when RLS is enabled', async () => {
       const sql = `
         CREATE TABLE posts (id uuid PRIMARY KEY);
         ALTER TABLE posts ENABLE ROW LEVEL SECURITY;
       `;
-      const result = validateMigration({
+      const result = await validateMigration({
         sql,
         path: 'test.sql',
         timestamp: '20251004',
@@ -81,14 +81,14 @@ describe('Migration Validation', () => {
   });
 
   describe('Performance Checks', () => {
-    it('should warn on foreign key without index', () => {
+    it('should warn on foreign key without index', async () => {
       const sql = `
         CREATE TABLE comments (
           id uuid PRIMARY KEY,
           post_id uuid REFERENCES posts(id)
         );
       `;
-      const result = validateMigration({
+      const result = await validateMigration({
         sql,
         path: 'test.sql',
         timestamp: '20251004',
@@ -101,7 +101,7 @@ describe('Migration Validation', () => {
       );
     });
 
-    it('should pass when foreign key has index', () => {
+    it('should pass when foreign key has index', async () => {
       const sql = `
         CREATE TABLE comments (
           id uuid PRIMARY KEY,
@@ -109,7 +109,7 @@ describe('Migration Validation', () => {
         );
         CREATE INDEX idx_comments_post_id ON comments(post_id);
       `;
-      const result = validateMigration({
+      const result = await validateMigration({
         sql,
         path: 'test.sql',
         timestamp: '20251004',
@@ -121,9 +121,9 @@ describe('Migration Validation', () => {
   });
 
   describe('Type Changes', () => {
-    it('should warn on ALTER COLUMN type change', () => {
+    it('should warn on ALTER COLUMN type change', async () => {
       const sql = 'ALTER TABLE users ALTER COLUMN age TYPE text;';
-      const result = validateMigration({
+      const result = await validateMigration({
         sql,
         path: 'test.sql',
         timestamp: '20251004',
@@ -134,9 +134,9 @@ describe('Migration Validation', () => {
       expect(result.warnings.find((w) => w.code === 'TYPE_CHANGE')?.suggestion).toContain('USING');
     });
 
-    it('should pass when type change has USING clause', () => {
+    it('should pass when type change has USING clause', async () => {
       const sql = 'ALTER TABLE users ALTER COLUMN age TYPE text USING age::text;';
-      const result = validateMigration({
+      const result = await validateMigration({
         sql,
         path: 'test.sql',
         timestamp: '20251004',
@@ -148,9 +148,9 @@ describe('Migration Validation', () => {
   });
 
   describe('Safe Operations', () => {
-    it('should pass on adding column', () => {
+    it('should pass on adding column', async () => {
       const sql = 'ALTER TABLE users ADD COLUMN bio text;';
-      const result = validateMigration({
+      const result = await validateMigration({
         sql,
         path: 'test.sql',
         timestamp: '20251004',
@@ -161,9 +161,9 @@ describe('Migration Validation', () => {
       expect(result.errors).toHaveLength(0);
     });
 
-    it('should pass on creating index', () => {
+    it('should pass on creating index', async () => {
       const sql = 'CREATE INDEX idx_users_email ON users(email);';
-      const result = validateMigration({
+      const result = await validateMigration({
         sql,
         path: 'test.sql',
         timestamp: '20251004',
@@ -174,4 +174,85 @@ describe('Migration Validation', () => {
       expect(result.errors).toHaveLength(0);
     });
   });
+
+  describe('SQL Parsing', () => {
+    const validate = (sql: string) =>
+      validateMigration({ sql, path: 'test.sql', timestamp: '20251004', name: 'test' });
+
+    it('should ignore DDL in comments and string literals', async () => {
+      const result = await validate(`
+        -- DROP TABLE users;
+        /* TRUNCATE posts; */
+        COMMENT ON TABLE posts IS 'never DROP TABLE posts';
+        SELECT 'ALTER TABLE users DROP COLUMN email';
+      `);
+
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toHaveLength(0);
+    });
+
+    it('should not look inside DO blocks and function bodies', async () => {
+      const result = await validate(`
+        DO $$ BEGIN EXECUTE 'DROP TABLE legacy'; END $$;
+        CREATE FUNCTION f() RETURNS void LANGUAGE sql AS $body$ TRUNCATE audit; $body$;
+      `);
+
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('should match quoted and schema-qualified table names', async () => {
+      const result = await validate(`
+        CREATE TABLE public."Posts" (id uuid PRIMARY KEY);
+        ALTER TABLE "Posts" ENABLE ROW LEVEL SECURITY;
+        CREATE TABLE "Drafts" (id uuid PRIMARY KEY);
+      `);
+
+      expect(result.warnings.map((w) => w.message)).toEqual([
+        `Table '"Drafts"' created without Row Level Security`,
+      ]);
+    });
+
+    it('should locate issues at the offending statement or node', async () => {
+      const result = await validate(
+        [
+          '-- Migration → with non-ASCII comment',
+          "SELECT 'é';",
+          'CREATE TABLE comments (id uuid PRIMARY KEY, post_id uuid REFERENCES posts(id));',
+          '  ALTER TABLE users DROP COLUMN email;',
+        ].join('\n')
+      );
+
+      expect(result.errors[0]).toMatchObject({ code: 'DROP_COLUMN', line: 4, column: 3 });
+      expect(result.warnings).toEqual([
+        expect.objectContaining({ code: 'MISSING_RLS', line: 3, column: 14 }),
+        expect.objectContaining({ code: 'MISSING_INDEX_FK', line: 3, column: 58 }),
+        expect.objectContaining({ code: 'MISSING_LOCK_TIMEOUT', line: 4, column: 3 }),
+      ]);
+    });
+
+    it('should count an index on the leading columns as covering a foreign key', async () => {
+      const result = await validate(`
+        CREATE TABLE members (
+          team_id uuid,
+          user_id uuid,
+          PRIMARY KEY (team_id, user_id),
+          FOREIGN KEY (team_id) REFERENCES teams(id),
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+      `);
+
+      expect(result.warnings.filter((w) => w.code === 'MISSING_INDEX_FK')).toEqual([
+        expect.objectContaining({ message: expect.stringContaining("'user_id' on 'members'") }),
+      ]);
+    });
+
+    it('should report unparseable SQL as an error at the parser position', async () => {
+      const result = await validate('SELECT 1;\nCREATE TABLEX users (id uuid);');
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        expect.objectContaining({ code: 'PARSE_ERROR', line: 2, column: 8 }),
+      ]);
+    });
+  });
 });
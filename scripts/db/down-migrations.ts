@@ -0,0 +1,182 @@
+/**
+ * Down Migrations
+ *
+ * Pairs each forward migration in supabase/migrations with an optional down
+ * script in supabase/rollbacks of the same name with a `.down.sql` extension:
+ *
+ *   supabase/migrations/20251105000000_parameterized_query_rpc.sql
+ *   supabase/rollbacks/20251105000000_parameterized_query_rpc.down.sql
+ *
+ * Down scripts live outside supabase/migrations because the Supabase CLI
+ * applies every `<version>_<name>.sql` file there as a forward migration.
+ * They run inside the same transaction that removes the version from
+ * supabase_migrations.schema_migrations, so they must not BEGIN or COMMIT.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { ValidationError } from '../types/migration-validation';
+import { hasStatements, irreversibleOperations, runRules } from '../validators';
+
+export const MIGRATIONS_DIR = join('supabase', 'migrations');
+export const ROLLBACKS_DIR = join('supabase', 'rollbacks');
+
+const MIGRATION_FILE = /^(\d+)_(.+)\.sql$/;
+
+/**
+ * A forward migration and its down script, if any
+ */
+export interface MigrationPair {
+  version: string;
+  name: string;
+  file: string;
+  path: string;
+  downPath: string;
+  /** Down script exists and contains SQL beyond comments */
+  hasDown: boolean;
+}
+
+/**
+ * Down migrations to run, newest first
+ */
+export interface RollbackPlan {
+  steps: MigrationPair[];
+  /** Steps without a down script; the rollback must not start */
+  missingDown: MigrationPair[];
+  /** Applied versions to roll back that have no local migration file */
+  unknown: string[];
+}
+
+/**
+ * File name of the down script for a migration file
+ *
+ * @param migrationFile - e.g. `20251105000000_parameterized_query_rpc.sql`
+ * @returns e.g. `20251105000000_parameterized_query_rpc.down.sql`
+ */
+export function downFileName(migrationFile: string): string {
+  return migrationFile.replace(/\.sql$/, '.down.sql');
+}
+
+/**
+ * Template for a new down script
+ *
+ * @param name - Migration name as given to `create`
+ */
+export function downTemplate(name: string): string {
+  return `-- Down migration: ${name}
+-- Reverts ${name}. Runs in one transaction with the removal of its version
+-- from supabase_migrations.schema_migrations: do not add BEGIN/COMMIT.
+
+-- Undo the up migration in reverse order, e.g.
+-- DROP TABLE IF EXISTS example_table;
+`;
+}
+
+/**
+ * List forward migrations, oldest first, with their down scripts
+ *
+ * @param migrationsDir - Directory of forward migrations
+ * @param rollbacksDir - Directory of down scripts
+ */
+export async function listMigrationPairs(
+  migrationsDir = MIGRATIONS_DIR,
+  rollbacksDir = ROLLBACKS_DIR
+): Promise<MigrationPair[]> {
+  if (!existsSync(migrationsDir)) {
+    return [];
+  }
+
+  const pairs: MigrationPair[] = [];
+  for (const file of readdirSync(migrationsDir)) {
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) continue;
+
+    const downPath = join(rollbacksDir, downFileName(file));
+    pairs.push({
+      version: match[1],
+      name: match[2],
+      file,
+      path: join(migrationsDir, file),
+      downPath,
+      hasDown: existsSync(downPath) && (await hasStatements(readFileSync(downPath, 'utf-8'))),
+    });
+  }
+  return pairs.sort((a, b) => a.version.localeCompare(b.version));
+}
+
+/**
+ * Down scripts in the rollbacks directory that match no forward migration
+ *
+ * @param pairs - Result of listMigrationPairs()
+ * @param rollbacksDir - Directory of down scripts
+ */
+export function orphanDownScripts(pairs: MigrationPair[], rollbacksDir = ROLLBACKS_DIR): string[] {
+  if (!existsSync(rollbacksDir)) {
+    return [];
+  }
+
+  const expected = new Set(pairs.map((pair) => downFileName(pair.file)));
+  return readdirSync(rollbacksDir)
+    .filter((file) => file.endsWith('.down.sql') && !expected.has(file))
+    .sort();
+}
+
+/**
+ * Validate that every migration with irreversible DDL has a down script, and
+ * that every down script parses
+ *
+ * @param pairs - Result of listMigrationPairs()
+ * @returns Errors by migration or down script file name; files without errors are omitted
+ */
+export async function validateDownMigrations(
+  pairs: MigrationPair[]
+): Promise<Map<string, ValidationError[]>> {
+  const results = new Map<string, ValidationError[]>();
+
+  for (const pair of pairs) {
+    if (pair.hasDown) {
+      const { errors } = await runRules(readFileSync(pair.downPath, 'utf-8'), []);
+      if (errors.length > 0) results.set(downFileName(pair.file), errors);
+    } else {
+      const { errors } = await runRules(readFileSync(pair.path, 'utf-8'), [irreversibleOperations]);
+      if (errors.length > 0) results.set(pair.file, errors);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Plan a rollback of applied migrations
+ *
+ * @param pairs - Result of listMigrationPairs()
+ * @param applied - Versions recorded in supabase_migrations.schema_migrations
+ * @param target - Version to roll back to (it stays applied); when omitted,
+ *   only the latest applied migration is rolled back
+ */
+export function planRollback(
+  pairs: MigrationPair[],
+  applied: string[],
+  target?: string
+): RollbackPlan {
+  const newestFirst = [...applied].sort((a, b) => b.localeCompare(a));
+  const versions =
+    target === undefined
+      ? newestFirst.slice(0, 1)
+      : newestFirst.filter((version) => version.localeCompare(target) > 0);
+
+  const byVersion = new Map(pairs.map((pair) => [pair.version, pair]));
+  const steps: MigrationPair[] = [];
+  const unknown: string[] = [];
+
+  for (const version of versions) {
+    const pair = byVersion.get(version);
+    if (pair) {
+      steps.push(pair);
+    } else {
+      unknown.push(version);
+    }
+  }
+
+  return { steps, missingDown: steps.filter((step) => !step.hasDown), unknown };
+}
@@ -1,10 +1,23 @@
 #!/usr/bin/env tsx
 
-// scripts/db/plan.ts - AI-assisted migration planning with security-first defaults
+// scripts/db/plan.ts - Generate a table migration, down migration and pgTAP test from a table spec
 
-import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
 import { join } from 'node:path';
 import { Command } from 'commander';
+import { ValidationCode, type ValidationWarning } from '../types/migration-validation';
+import { validateMigration } from '../validate-migration';
+import { downFileName, listMigrationPairs, MIGRATIONS_DIR, ROLLBACKS_DIR } from './down-migrations';
+import { DRIFT_SCHEMAS, migrationOrigins } from './schema-drift';
+import {
+  generateTable,
+  parseTableSpec,
+  type TableSpec,
+  TEAM_TABLES,
+  tableDependencies,
+} from './table-spec';
+
+const TESTS_DIR = join('supabase', 'tests');
 
 /**
  * Represents a planned database migration with security considerations
@@ -12,9 +25,13 @@ import { Command } from 'commander';
 interface MigrationPlan {
   description: string;
   sql: string;
+  downSql: string;
+  testSql: string;
   timestamp: string;
   filename: string;
+  testFilename: string;
   rls_considerations: string[];
+  warnings: ValidationWarning[];
   type_changes: boolean;
   success: boolean;
   error?: string;
@@ -30,51 +47,64 @@ interface PlanResult {
 }
 
 /**
- * Generate a SQL migration from natural language specification
- * Creates timestamped migration file with RLS considerations and security defaults
- * @param specification - Natural language description of the desired changes
+ * Generate a migration from a declarative table spec
+ * Writes the migration, its down migration and a pgTAP test; the generated
+ * migration must pass `pnpm db:validate` before anything is written
+ * @param specPath - Path to a YAML or JSON table spec
  * @param options - Planning options (dry-run, etc.)
  */
 async function generateMigration(
-  specification: string,
+  specPath: string,
   options: { dryRun?: boolean } = {}
 ): Promise<PlanResult> {
-  const timestamp = new Date().toISOString().replace(/[-:]/g, '').split('.')[0];
-  const filename = `${timestamp}_${specification
-    .toLowerCase()
-    .replace(/[^a-z0-9]/g, '_')
-    .slice(0, 50)}.sql`;
-
   try {
-    console.log(`🔍 Analyzing specification: "${specification}"`);
+    console.log(`🔍 Reading table spec: ${specPath}`);
+    const spec = parseTableSpec(readFileSync(specPath, 'utf-8'));
+
     console.log('📝 Generating SQL migration...');
+    const generated = generateTable(spec);
+    const timestamp = new Date().toISOString().replace(/[-:]/g, '').split('.')[0].replace('T', '');
+    const filename = `${timestamp}_create_${spec.table}.sql`;
+
+    const validation = await validateMigration({
+      path: filename,
+      timestamp,
+      name: `create_${spec.table}`,
+      sql: generated.migration,
+    });
+    if (!validation.valid) {
+      const errors = validation.errors.map((error) => `[${error.code}] ${error.message}`);
+      throw new Error(`generated migration fails validation: ${errors.join('; ')}`);
+    }
 
-    // TODO: Replace with actual MCP calls to Supabase
-    // For now, providing a structured template that demonstrates patterns
     const plan: MigrationPlan = {
-      description: specification,
-      sql: generateStructuredSQL(specification),
+      description: spec.description ?? `Create public.${spec.table}`,
+      sql: generated.migration,
+      downSql: generated.down,
+      testSql: generated.test,
       timestamp,
       filename,
-      rls_considerations: [
-        'Enable RLS by default on new tables',
-        'Consider user-scoped policies for data access',
-        'Review anonymous vs authenticated access patterns',
-        'Validate foreign key constraints for security',
-      ],
+      testFilename: `${nextTestNumber()}-${spec.table.replace(/_/g, '-')}.sql`,
+      rls_considerations: generated.policies.map(
+        (policy) => `${policy.operation} (${policy.role}): ${policy.description}`
+      ),
+      warnings: [...validation.warnings, ...(await missingDependencies(spec))],
       type_changes: true,
       success: true,
     };
 
     if (!options.dryRun) {
-      const migrationDir = join('supabase', 'migrations');
-      if (!existsSync(migrationDir)) mkdirSync(migrationDir, { recursive: true });
-      const migrationPath = join(migrationDir, plan.filename);
-      // Fail if file already exists to prevent clobbering
-      writeFileSync(migrationPath, plan.sql, { flag: 'wx' });
-      console.log('📄 Migration file created');
+      for (const dir of [MIGRATIONS_DIR, ROLLBACKS_DIR, TESTS_DIR]) {
+        if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+      }
+      // Fail if a file already exists to prevent clobbering
+      writeFileSync(join(MIGRATIONS_DIR, plan.filename), plan.sql, { flag: 'wx' });
+      writeFileSync(join(ROLLBACKS_DIR, downFileName(plan.filename)), plan.downSql, { flag: 'wx' });
+      writeFileSync(join(TESTS_DIR, plan.testFilename), plan.testSql, { flag: 'wx' });
+      console.log('📄 Migration, down migration and test files created');
     } else {
-      console.log('🔍 Dry run - no files written');
+      console.log('🔍 Dry run - no files written\n');
+      console.log(plan.sql);
     }
 
     return { success: true, plan };
@@ -89,53 +119,59 @@ async function generateMigration(
 }
 
 /**
- * Generate structured SQL migration template based on specification
- * Provides realistic examples based on common patterns
- * @param spec - Natural language specification
+ * Warnings for the tables the generated migration depends on (team tables,
+ * foreign key targets) that no migration creates. Tables in schemas Supabase
+ * manages, such as `auth.users`, always exist.
  */
-function generateStructuredSQL(spec: string): string {
-  return `-- Migration: ${spec}
--- Generated: ${new Date().toISOString()}
--- Status: DRAFT - Review before applying
-
--- TODO: Replace with actual migration SQL
--- This migration was generated from: "${spec}"
-
-BEGIN;
-
--- Example table structure (replace with actual requirements)
--- CREATE TABLE IF NOT EXISTS public.example_table (
---   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
---   created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
---   updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
--- );
-
--- Enable Row Level Security
--- ALTER TABLE public.example_table ENABLE ROW LEVEL SECURITY;
-
--- Example RLS policies
--- CREATE POLICY "Users can read own data" ON public.example_table
---   FOR SELECT
---   TO authenticated
---   USING (auth.uid() = user_id);
-
-COMMIT;
-
--- Notes:
--- 1. Review the generated SQL before applying
--- 2. Test in development environment first
--- 3. Update TypeScript types after migration
--- 4. Consider data migration needs for existing users`;
+async function missingDependencies(spec: TableSpec): Promise<ValidationWarning[]> {
+  const missing = tableDependencies(spec).filter((table) =>
+    DRIFT_SCHEMAS.includes(table.slice(0, table.indexOf('.')))
+  );
+  if (missing.length === 0) return [];
+
+  const migrations = (await listMigrationPairs()).map(({ path }) => ({
+    path,
+    sql: readFileSync(path, 'utf-8'),
+  }));
+  const origins = await migrationOrigins(migrations);
+
+  return missing
+    .filter((table) => !origins.has(table))
+    .map((table) =>
+      TEAM_TABLES.includes(table)
+        ? {
+            code: ValidationCode.MISSING_DEPENDENCY,
+            message: `Team ownership needs ${table}, which no migration in ${MIGRATIONS_DIR} creates; the generated migration fails until it exists`,
+            suggestion: `Create ${TEAM_TABLES.join(' and ')} in an earlier migration (see supabase/templates/table-with-team-rls.sql)`,
+          }
+        : {
+            code: ValidationCode.MISSING_DEPENDENCY,
+            message: `A foreign key references ${table}, which no migration in ${MIGRATIONS_DIR} creates; the generated migration fails until it exists`,
+            suggestion: `Create ${table} in an earlier migration, or reference a table that exists`,
+          }
+    );
+}
+
+/**
+ * Number prefix for a new pgTAP test file, after the existing `NNN-*.sql` tests
+ */
+function nextTestNumber(): string {
+  const numbers = existsSync(TESTS_DIR)
+    ? readdirSync(TESTS_DIR)
+        .map((file) => Number.parseInt(file, 10))
+        .filter(Number.isFinite)
+    : [];
+  return String(Math.max(-1, ...numbers) + 1).padStart(3, '0');
 }
 
 /**
  * Main command execution with proper CLI handling
  */
-async function executeCommand(specification: string, options: { dryRun?: boolean }): Promise<void> {
+async function executeCommand(specPath: string, options: { dryRun?: boolean }): Promise<void> {
   console.log('🗄️  Database Migration Planner');
   console.log('==============================\n');
 
-  const result = await generateMigration(specification, options);
+  const result = await generateMigration(specPath, options);
 
   if (!result.success) {
     console.error('\n❌ Migration planning failed');
@@ -150,19 +186,28 @@ async function executeCommand(specification: string, options: { dryRun?: boolean
   }
 
   console.log('\n✅ Migration plan generated:');
-  console.log(`📄 File: ${options.dryRun ? '[dry-run]' : `supabase/migrations/${plan.filename}`}`);
+  if (options.dryRun) {
+    console.log('📄 Files: [dry-run]');
+  } else {
+    console.log(`📄 Migration: ${join(MIGRATIONS_DIR, plan.filename)}`);
+    console.log(`📄 Down migration: ${join(ROLLBACKS_DIR, downFileName(plan.filename))}`);
+    console.log(`📄 Test: ${join(TESTS_DIR, plan.testFilename)}`);
+  }
   console.log(`📋 Description: ${plan.description}`);
-  console.log('🛡️  RLS Considerations:');
+  console.log('🛡️  RLS Policies:');
   plan.rls_considerations.forEach((consideration) => {
     console.log(`   • ${consideration}`);
   });
+  plan.warnings.forEach((warning) => {
+    console.log(`⚠️  [${warning.code}] ${warning.message}`);
+  });
 
   if (plan.type_changes) {
     console.log('\n📝 Next steps:');
     console.log('   1. Review the generated SQL migration');
     console.log('   2. Apply with: pnpm db:migrate');
     console.log('   3. Update types: pnpm db:types');
-    console.log('   4. Test the changes locally');
+    console.log('   4. Run the database tests: supabase test db');
   }
 }
 
@@ -171,10 +216,10 @@ const program = new Command();
 
 program
   .name('db:plan')
-  .description('Generate SQL migration from natural language specification')
-  .version('1.0.0')
-  .argument('<specification>', 'Natural language description of database changes')
-  .option('--dry-run', 'Generate migration plan without writing files')
+  .description('Generate a table migration, down migration and pgTAP test from a table spec')
+  .version('2.0.0')
+  .argument('<spec>', 'Path to a YAML or JSON table spec')
+  .option('--dry-run', 'Print the migration without writing files')
   .action(executeCommand);
 
 program
@@ -184,16 +229,22 @@ program
     console.log('🗄️  Database Migration Planner - Examples');
     console.log('=========================================\n');
     console.log('Basic usage:');
-    console.log('  pnpm db:plan "Add user profiles table with avatar and bio"');
-    console.log('  pnpm db:plan "Create posts table with content and author relationship"\n');
-    console.log('With options:');
-    console.log('  pnpm db:plan "Add search functionality" --dry-run\n');
-    console.log('Common patterns:');
-    console.log('  • User data: "Add profiles table with user_id, avatar_url, bio"');
-    console.log('  • Content: "Create posts with title, content, author_id, published_at"');
-    console.log('  • Relations: "Add comments table referencing posts and users"');
-    console.log('  • Indexes: "Add full-text search index to articles table"');
-    console.log('  • Constraints: "Add email uniqueness constraint to users"');
+    console.log('  pnpm db:plan specs/projects.yaml');
+    console.log('  pnpm db:plan specs/projects.json --dry-run\n');
+    console.log('Spec (see supabase/templates/table-spec.example.yaml):');
+    console.log('  table: projects');
+    console.log('  ownership: team            # user (default) or team');
+    console.log('  softDelete: true');
+    console.log('  columns:');
+    console.log('    - { name: name, type: text, nullable: false }');
+    console.log('    - { name: client_id, type: uuid, references: clients(id) }');
+    console.log('  indexes:');
+    console.log('    - { columns: [name], unique: true }\n');
+    console.log('Added for every table:');
+    console.log('  • id, user_id or team_id, created_at, updated_at (deleted_at with softDelete)');
+    console.log('  • Indexes on the owner column and every foreign key');
+    console.log('  • RLS with owner policies (same as pnpm db:rls:scaffold)');
+    console.log('  • updated_at trigger, down migration and pgTAP test');
   });
 
 program.parse(process.argv);
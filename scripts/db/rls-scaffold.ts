@@ -19,7 +19,7 @@ function assertIdent(id: string, label: string): void {
 /**
  * Represents a single Row Level Security policy
  */
-interface RLSPolicy {
+export interface RLSPolicy {
   name: string;
   table: string;
   operation: 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE';
@@ -28,11 +28,18 @@ interface RLSPolicy {
   description: string;
 }
 
+/**
+ * Who owns a row: a user (`user_id = auth.uid()`) or a team the user is a
+ * member of (`team_id IN private.user_teams()`)
+ */
+export type Ownership = 'user' | 'team';
+
 /**
  * Configuration options for RLS policy scaffolding
  */
-interface ScaffoldOptions {
+export interface ScaffoldOptions {
   table: string;
+  ownership?: Ownership;
   ownerColumn?: string;
   publicRead?: boolean;
   allowAnon?: boolean;
@@ -49,16 +56,30 @@ interface ScaffoldResult {
   error?: string;
 }
 
+/**
+ * Owner column used when none is given: `user_id` or `team_id`
+ */
+export function defaultOwnerColumn(ownership: Ownership = 'user'): string {
+  return ownership === 'team' ? 'team_id' : 'user_id';
+}
+
 /**
  * Builds an array of row-level security (RLS) policy definitions for a table according to the provided scaffold options.
  *
- * Generates owner-based policies when an owner column is specified; optionally adds a public read policy; when anonymous access is allowed, clones authenticated policies to create role-based anon variants; and, when soft-deletes are enabled, appends `deleted_at IS NULL` to SELECT policy conditions.
+ * Generates owner-based policies when an owner column is specified (matching the user, or any team the user belongs to); optionally adds a public read policy; when anonymous access is allowed, clones authenticated policies to create role-based anon variants; and, when soft-deletes are enabled, appends `deleted_at IS NULL` to SELECT policy conditions.
  *
- * @param options - Scaffold options that control policy generation (table name, ownerColumn defaulting to `user_id`, publicRead, allowAnon, softDeletes)
+ * @param options - Scaffold options that control policy generation (table name, ownership defaulting to `user`, ownerColumn defaulting to `user_id` or `team_id`, publicRead, allowAnon, softDeletes)
  * @returns An array of `RLSPolicy` objects describing the policies to create for the target table
  */
-function generateRLSPolicies(options: ScaffoldOptions): RLSPolicy[] {
-  const { table, ownerColumn = 'user_id', publicRead, allowAnon, softDeletes } = options;
+export function generateRLSPolicies(options: ScaffoldOptions): RLSPolicy[] {
+  const {
+    table,
+    ownership = 'user',
+    ownerColumn = defaultOwnerColumn(ownership),
+    publicRead,
+    allowAnon,
+    softDeletes,
+  } = options;
 
   // Validate identifiers to prevent SQL injection
   assertIdent(table, 'table');
@@ -67,8 +88,45 @@ function generateRLSPolicies(options: ScaffoldOptions): RLSPolicy[] {
   const policies: RLSPolicy[] = [];
 
   // Owner-based policies (most common pattern)
-  // Performance: Wrap auth.uid() in SELECT for caching (100x+ faster)
-  if (ownerColumn) {
+  // Performance: Wrap auth.uid() in SELECT for caching (100x+ faster); team
+  // membership goes through a security definer function instead of a join
+  if (ownerColumn && ownership === 'team') {
+    const condition = `${ownerColumn} IN (SELECT private.user_teams())`;
+    policies.push(
+      {
+        name: `${table}_select_team`,
+        table,
+        operation: 'SELECT',
+        role: 'authenticated',
+        condition,
+        description: "Team members can read their team's records",
+      },
+      {
+        name: `${table}_insert_team`,
+        table,
+        operation: 'INSERT',
+        role: 'authenticated',
+        condition,
+        description: 'Team members can create records for their team',
+      },
+      {
+        name: `${table}_update_team`,
+        table,
+        operation: 'UPDATE',
+        role: 'authenticated',
+        condition,
+        description: "Team members can update their team's records",
+      },
+      {
+        name: `${table}_delete_team`,
+        table,
+        operation: 'DELETE',
+        role: 'authenticated',
+        condition,
+        description: "Team members can delete their team's records",
+      }
+    );
+  } else if (ownerColumn) {
     policies.push({
       name: `${table}_select_own`,
       table,
@@ -148,7 +206,10 @@ function generateRLSPolicies(options: ScaffoldOptions): RLSPolicy[] {
   return policies;
 }
 
-function generatePolicySQL(policy: RLSPolicy): string {
+/**
+ * CREATE POLICY statement for a policy, preceded by its description as a comment
+ */
+export function generatePolicySQL(policy: RLSPolicy): string {
   const usingClause = policy.operation === 'INSERT' ? '' : `\n  USING (${policy.condition})`;
   const withCheckClause =
     policy.operation === 'INSERT' || policy.operation === 'UPDATE'
@@ -180,10 +241,8 @@ function generateCompleteRLSScript(options: ScaffoldOptions): string {
     `ALTER TABLE public.${table} FORCE ROW LEVEL SECURITY;\n`,
 
     '-- Drop existing policies (uncomment if recreating)',
-    `-- DROP POLICY IF EXISTS "${table}_select_own" ON public.${table};`,
-    `-- DROP POLICY IF EXISTS "${table}_insert_own" ON public.${table};`,
-    `-- DROP POLICY IF EXISTS "${table}_update_own" ON public.${table};`,
-    `-- DROP POLICY IF EXISTS "${table}_delete_own" ON public.${table};\n`,
+    ...policies.map((policy) => `-- DROP POLICY IF EXISTS "${policy.name}" ON public.${table};`),
+    '',
 
     ...policies.map((policy) => generatePolicySQL(policy)),
 
@@ -213,6 +272,7 @@ function generateCompleteRLSScript(options: ScaffoldOptions): string {
 async function executeScaffolding(
   tableName: string,
   options: {
+    ownership?: Ownership;
     ownerColumn?: string;
     publicRead?: boolean;
     allowAnon?: boolean;
@@ -223,9 +283,16 @@ async function executeScaffolding(
   console.log('🛡️  Row Level Security Scaffolder');
   console.log('=================================\n');
 
+  const ownership = options.ownership || 'user';
+  if (ownership !== 'user' && ownership !== 'team') {
+    console.error(`❌ --ownership must be user or team, got: ${ownership}`);
+    process.exit(1);
+  }
+
   const scaffoldOptions: ScaffoldOptions = {
     table: tableName,
-    ownerColumn: options.ownerColumn || 'user_id',
+    ownership,
+    ownerColumn: options.ownerColumn || defaultOwnerColumn(ownership),
     publicRead: options.publicRead || false,
     allowAnon: options.allowAnon || false,
     softDeletes: options.softDeletes || false,
@@ -310,7 +377,11 @@ program
   .description('Generate Row Level Security policies for database tables')
   .version('1.0.0')
   .argument('<table>', 'Table name to generate RLS policies for')
-  .option('--owner-column <column>', 'Column name for ownership-based policies', 'user_id')
+  .option('--ownership <model>', 'Row ownership: user or team (via private.user_teams())', 'user')
+  .option(
+    '--owner-column <column>',
+    'Column name for ownership-based policies (default: user_id or team_id)'
+  )
   .option('--public-read', 'Allow anonymous read access')
   .option('--allow-anon', 'Allow anonymous role-based access (auth.role() = anon)')
   .option('--soft-deletes', 'Consider deleted_at column in policies')
@@ -326,7 +397,8 @@ program
     console.log('Basic usage:');
     console.log('  pnpm db:rls:scaffold users');
     console.log('  pnpm db:rls:scaffold profiles --public-read');
-    console.log('  pnpm db:rls:scaffold posts --owner-column=author_id\n');
+    console.log('  pnpm db:rls:scaffold posts --owner-column=author_id');
+    console.log('  pnpm db:rls:scaffold projects --ownership=team\n');
     console.log('With options:');
     console.log('  pnpm db:rls:scaffold comments --soft-deletes --dry-run\n');
     console.log('Common patterns:');
@@ -338,4 +410,6 @@ program
     console.log("\\nNote: --allow-anon uses auth.role() = 'anon' (not auth.uid())");
   });
 
-program.parse(process.argv);
+if (require.main === module) {
+  program.parse(process.argv);
+}
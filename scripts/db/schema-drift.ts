@@ -0,0 +1,642 @@
+/**
+ * Schema Drift Detection
+ *
+ * Compares three views of the schema:
+ *
+ * - the local database, introspected from the Postgres catalog
+ * - a shadow database built from `supabase/migrations` (the source of truth)
+ * - the `Database` type in `packages/db/src/types.ts`
+ *
+ * Both databases are read with CATALOG_QUERY into flat lists of schema
+ * objects (tables, views, columns, policies, functions) and diffed by name.
+ * The types are parsed with the TypeScript compiler and diffed against the
+ * public schema of the shadow database, as `pnpm db:types` would generate it.
+ * Each drifted object names the migration that created it, found by parsing
+ * the migrations with the PostgreSQL parser.
+ */
+
+import { basename } from 'node:path';
+import ts from 'typescript';
+import { names, parseMigrationSql, tableKey, walk } from '../validators/sql-ast';
+
+export type SchemaObjectKind = 'table' | 'view' | 'column' | 'policy' | 'function';
+
+/**
+ * A named object of the schema and the attributes compared for drift
+ */
+export interface SchemaObject {
+  kind: SchemaObjectKind;
+  /** Qualified name: `public.posts`, `public.posts.title`, `public.query(sql text)` */
+  name: string;
+  definition: Record<string, unknown>;
+}
+
+/**
+ * Rows returned by CATALOG_QUERY
+ */
+export interface CatalogRows {
+  tables: Array<{ schema: string; name: string; kind: 'table' | 'view'; rls: boolean }>;
+  columns: Array<{
+    schema: string;
+    table: string;
+    name: string;
+    type: string;
+    nullable: boolean;
+    default: string | null;
+  }>;
+  policies: Array<{
+    schema: string;
+    table: string;
+    name: string;
+    command: string;
+    permissive: boolean;
+    roles: string[];
+    using: string | null;
+    check: string | null;
+  }>;
+  functions: Array<{
+    schema: string;
+    name: string;
+    arguments: string;
+    /** Input arguments in order; `optional` when they have a default */
+    args: Array<{ name: string; type: string; optional: boolean }>;
+    returns: string;
+    language: string;
+    security_definer: boolean;
+    volatility: string;
+  }>;
+}
+
+export interface DriftEntry {
+  kind: SchemaObjectKind;
+  name: string;
+  /** missing: only in the expected schema; unexpected: only in the actual one */
+  status: 'missing' | 'unexpected' | 'changed';
+  expected?: Record<string, unknown>;
+  actual?: Record<string, unknown>;
+  /** Migration that created the object */
+  migration?: string;
+}
+
+export interface DriftComparison {
+  /** Where the expected schema comes from, e.g. `supabase/migrations` */
+  expected: string;
+  /** Where the compared schema comes from, e.g. `local database` */
+  actual: string;
+  drift: DriftEntry[];
+}
+
+export interface DriftReport {
+  /** Local database vs the shadow database, migrated and seeded */
+  database: DriftComparison;
+  /** packages/db/src/types.ts vs the shadow database, migrated and seeded */
+  types: DriftComparison;
+  /** Schema changes made by supabase/seed.sql after the migrations */
+  seed: DriftComparison;
+}
+
+/**
+ * Schemas compared by default: application schemas created by migrations,
+ * not the ones Supabase manages (auth, storage, realtime, ...)
+ */
+export const DRIFT_SCHEMAS = ['public', 'private'];
+
+/**
+ * Catalog introspection for psql, returning CatalogRows as one JSON value.
+ * Expects the psql variable `schemas` (comma-separated schema names).
+ * Functions that belong to extensions are skipped.
+ */
+export const CATALOG_QUERY = `
+WITH target AS (
+  SELECT oid, nspname FROM pg_namespace WHERE nspname = ANY (string_to_array(:'schemas', ','))
+)
+SELECT json_build_object(
+  'tables', (
+    SELECT coalesce(json_agg(json_build_object(
+      'schema', t.nspname,
+      'name', c.relname,
+      'kind', CASE WHEN c.relkind IN ('v', 'm') THEN 'view' ELSE 'table' END,
+      'rls', c.relrowsecurity
+    ) ORDER BY t.nspname, c.relname), '[]')
+    FROM pg_class c JOIN target t ON t.oid = c.relnamespace
+    WHERE c.relkind IN ('r', 'p', 'v', 'm')
+  ),
+  'columns', (
+    SELECT coalesce(json_agg(json_build_object(
+      'schema', t.nspname,
+      'table', c.relname,
+      'name', a.attname,
+      'type', format_type(a.atttypid, a.atttypmod),
+      'nullable', NOT a.attnotnull,
+      'default', pg_get_expr(d.adbin, d.adrelid)
+    ) ORDER BY t.nspname, c.relname, a.attnum), '[]')
+    FROM pg_attribute a
+    JOIN pg_class c ON c.oid = a.attrelid
+    JOIN target t ON t.oid = c.relnamespace
+    LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+    WHERE c.relkind IN ('r', 'p', 'v', 'm') AND a.attnum > 0 AND NOT a.attisdropped
+  ),
+  'policies', (
+    SELECT coalesce(json_agg(json_build_object(
+      'schema', p.schemaname,
+      'table', p.tablename,
+      'name', p.policyname,
+      'command', p.cmd,
+      'permissive', p.permissive = 'PERMISSIVE',
+      'roles', p.roles,
+      'using', p.qual,
+      'check', p.with_check
+    ) ORDER BY p.schemaname, p.tablename, p.policyname), '[]')
+    FROM pg_policies p JOIN target t ON t.nspname = p.schemaname
+  ),
+  'functions', (
+    SELECT coalesce(json_agg(json_build_object(
+      'schema', t.nspname,
+      'name', p.proname,
+      'arguments', pg_get_function_identity_arguments(p.oid),
+      'args', (
+        SELECT coalesce(json_agg(json_build_object(
+          'name', arg.name,
+          'type', format_type(arg.type, NULL),
+          'optional', arg.position > p.pronargs - p.pronargdefaults
+        ) ORDER BY arg.position), '[]')
+        FROM (
+          SELECT a.type, coalesce(p.proargnames[a.n], '') AS name,
+            row_number() OVER (ORDER BY a.n) AS position
+          FROM unnest(coalesce(p.proallargtypes, p.proargtypes::oid[])) WITH ORDINALITY AS a(type, n)
+          WHERE coalesce(p.proargmodes[a.n], 'i') IN ('i', 'b', 'v')
+        ) arg
+      ),
+      'returns', pg_get_function_result(p.oid),
+      'language', l.lanname,
+      'security_definer', p.prosecdef,
+      'volatility', p.provolatile
+    ) ORDER BY t.nspname, p.proname, pg_get_function_identity_arguments(p.oid)), '[]')
+    FROM pg_proc p
+    JOIN target t ON t.oid = p.pronamespace
+    JOIN pg_language l ON l.oid = p.prolang
+    WHERE p.prokind = 'f'
+      AND NOT EXISTS (
+        SELECT 1 FROM pg_depend dep
+        WHERE dep.classid = 'pg_proc'::regclass AND dep.objid = p.oid AND dep.deptype = 'e'
+      )
+  )
+);
+`;
+
+/**
+ * Flatten catalog rows into schema objects
+ *
+ * @param catalog - Rows returned by CATALOG_QUERY
+ * @returns Schema objects sorted by kind and name
+ */
+export function catalogObjects(catalog: CatalogRows): SchemaObject[] {
+  const objects: SchemaObject[] = [
+    ...catalog.tables.map(({ schema, name, kind, rls }) => ({
+      kind,
+      name: `${schema}.${name}`,
+      definition: kind === 'table' ? { rls } : {},
+    })),
+    ...catalog.columns.map(({ schema, table, name, ...definition }) => ({
+      kind: 'column' as const,
+      name: `${schema}.${table}.${name}`,
+      definition,
+    })),
+    ...catalog.policies.map(({ schema, table, name, ...definition }) => ({
+      kind: 'policy' as const,
+      name: `${schema}.${table}.${name}`,
+      definition: { ...definition, roles: [...definition.roles].sort() },
+    })),
+    ...catalog.functions.map(({ schema, name, arguments: args, ...definition }) => ({
+      kind: 'function' as const,
+      name: `${schema}.${name}(${args})`,
+      definition,
+    })),
+  ];
+  return sortObjects(objects);
+}
+
+/**
+ * Diff two schemas by object name
+ *
+ * @param expected - Objects that should exist (e.g. built from migrations)
+ * @param actual - Objects that do exist
+ * @param origins - Migration that created each object, from migrationOrigins()
+ * @returns Missing, unexpected and changed objects, sorted by kind and name
+ */
+export function diffSchemas(
+  expected: SchemaObject[],
+  actual: SchemaObject[],
+  origins: Map<string, string> = new Map()
+): DriftEntry[] {
+  const key = (object: SchemaObject) => `${object.kind} ${object.name}`;
+  const actualByKey = new Map(actual.map((object) => [key(object), object]));
+  const expectedKeys = new Set(expected.map(key));
+  const migration = (object: SchemaObject) => origins.get(originKey(object));
+
+  const drift: DriftEntry[] = [];
+  for (const object of expected) {
+    const other = actualByKey.get(key(object));
+    if (!other) {
+      drift.push({
+        kind: object.kind,
+        name: object.name,
+        status: 'missing',
+        expected: object.definition,
+        migration: migration(object),
+      });
+    } else if (changedFields(object.definition, other.definition).length > 0) {
+      drift.push({
+        kind: object.kind,
+        name: object.name,
+        status: 'changed',
+        expected: object.definition,
+        actual: other.definition,
+        migration: migration(object),
+      });
+    }
+  }
+  for (const object of actual) {
+    if (!expectedKeys.has(key(object))) {
+      drift.push({
+        kind: object.kind,
+        name: object.name,
+        status: 'unexpected',
+        actual: object.definition,
+        migration: migration(object),
+      });
+    }
+  }
+  return sortObjects(drift);
+}
+
+/**
+ * Objects the `Database` type should describe for a schema, the way
+ * `supabase gen types typescript --schema public` generates it: tables,
+ * views and their Row columns, and functions callable through RPC
+ *
+ * @param objects - Schema objects from catalogObjects()
+ * @param schema - Schema the types were generated for
+ */
+export function expectedTypes(objects: SchemaObject[], schema = 'public'): SchemaObject[] {
+  const prefix = `${schema}.`;
+  const functions = new Map<string, Array<Record<string, unknown>>>();
+  const types: SchemaObject[] = [];
+
+  for (const object of objects) {
+    if (!object.name.startsWith(prefix)) continue;
+    if (object.kind === 'table' || object.kind === 'view') {
+      types.push({ kind: object.kind, name: object.name, definition: {} });
+    } else if (object.kind === 'column') {
+      const type = rowType(String(object.definition.type), object.definition.nullable === true);
+      types.push({ kind: 'column', name: object.name, definition: type ? { type } : {} });
+    } else if (
+      object.kind === 'function' &&
+      !/^(event_)?trigger$/.test(String(object.definition.returns))
+    ) {
+      const name = object.name.slice(0, object.name.indexOf('('));
+      functions.set(name, [...(functions.get(name) ?? []), functionType(object.definition)]);
+    }
+  }
+  for (const [name, overloads] of functions) {
+    // Overloads share one entry in the Functions type, a union compared by name only
+    types.push({ kind: 'function', name, definition: overloads.length === 1 ? overloads[0] : {} });
+  }
+  return sortObjects(types);
+}
+
+/**
+ * Objects described by the `Database` type of a generated types file
+ *
+ * @param source - Content of packages/db/src/types.ts
+ * @param schema - Schema property of `Database` to read
+ * @returns Tables and views with their Row columns (as `{ type }`), and functions
+ *   (as `{ args, returns }`, or `{}` for a union of overloads)
+ * @throws Error if the file has no `Database` type with the schema
+ */
+export function typesObjects(source: string, schema = 'public'): SchemaObject[] {
+  const file = ts.createSourceFile('types.ts', source, ts.ScriptTarget.Latest, true);
+  const database = file.statements.find(
+    (statement): statement is ts.InterfaceDeclaration | ts.TypeAliasDeclaration =>
+      (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) &&
+      statement.name.text === 'Database'
+  );
+  const root = database && (ts.isInterfaceDeclaration(database) ? database : database.type);
+  const schemaType = root && member(root, schema);
+  if (!schemaType) {
+    throw new Error(`No Database['${schema}'] type found in types file`);
+  }
+
+  const objects: SchemaObject[] = [];
+  for (const [group, kind] of [
+    ['Tables', 'table'],
+    ['Views', 'view'],
+  ] as const) {
+    for (const [name, relation] of members(member(schemaType, group))) {
+      objects.push({ kind, name: `${schema}.${name}`, definition: {} });
+      for (const [column, type] of members(member(relation, 'Row'))) {
+        objects.push({
+          kind: 'column',
+          name: `${schema}.${name}.${column}`,
+          definition: { type: normalizeType(type.getText(file)) },
+        });
+      }
+    }
+  }
+  for (const [name, type] of members(member(schemaType, 'Functions'))) {
+    objects.push({
+      kind: 'function',
+      name: `${schema}.${name}`,
+      definition: ts.isTypeLiteralNode(type)
+        ? {
+            args: argTypes(member(type, 'Args'), file),
+            returns: normalizeType(member(type, 'Returns')?.getText(file) ?? 'unknown'),
+          }
+        : {},
+    });
+  }
+  return sortObjects(objects);
+}
+
+/**
+ * Diff the `Database` type against the schema it was generated from.
+ * Columns, function arguments and return types whose type has no known
+ * TypeScript mapping are compared by name only.
+ *
+ * @param expected - Objects from expectedTypes()
+ * @param actual - Objects from typesObjects()
+ * @param origins - Migration that created each object
+ */
+export function diffTypes(
+  expected: SchemaObject[],
+  actual: SchemaObject[],
+  origins?: Map<string, string>
+): DriftEntry[] {
+  const expectedByKey = new Map(
+    expected.map((object) => [`${object.kind} ${object.name}`, object.definition])
+  );
+  return diffSchemas(
+    expected,
+    actual.map((object) => {
+      const definition = expectedByKey.get(`${object.kind} ${object.name}`);
+      return definition
+        ? { ...object, definition: typedFields(definition, object.definition) }
+        : object;
+    }),
+    origins
+  );
+}
+
+/**
+ * The fields of a generated type that expectedTypes() could map: fields it
+ * left out are dropped, and arguments it mapped to null are blanked
+ */
+function typedFields(
+  expected: Record<string, unknown>,
+  actual: Record<string, unknown>
+): Record<string, unknown> {
+  const typed: Record<string, unknown> = {};
+  for (const field of Object.keys(expected)) {
+    const mapped = expected[field];
+    const value = actual[field];
+    typed[field] =
+      field === 'args' && isRecord(mapped) && isRecord(value)
+        ? Object.fromEntries(
+            Object.entries(value).map(([arg, type]) => [arg, mapped[arg] === null ? null : type])
+          )
+        : value;
+  }
+  return typed;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Migration that (last) created each table, view, column, policy and function
+ *
+ * @param migrations - Migration files in apply order, as `{ path, sql }`
+ * @returns Map from object name (functions without arguments) to migration file name
+ * @throws SqlSyntaxError if a migration does not parse
+ */
+export async function migrationOrigins(
+  migrations: Array<{ path: string; sql: string }>
+): Promise<Map<string, string>> {
+  const origins = new Map<string, string>();
+
+  for (const { path, sql } of migrations) {
+    const file = basename(path);
+    const add = (name: string) => origins.set(name, file);
+    const ast = await parseMigrationSql(sql);
+
+    for (const statement of ast.statements) {
+      walk(statement.node, {
+        CreateStmt(stmt) {
+          if (!stmt.relation) return;
+          const table = tableKey(stmt.relation);
+          add(table);
+          for (const element of stmt.tableElts ?? []) {
+            if ('ColumnDef' in element) add(`${table}.${element.ColumnDef.colname}`);
+          }
+        },
+        ViewStmt: (stmt) => stmt.view && add(tableKey(stmt.view)),
+        AlterTableStmt(stmt) {
+          if (!stmt.relation) return;
+          for (const cmd of stmt.cmds ?? []) {
+            const def = 'AlterTableCmd' in cmd ? cmd.AlterTableCmd.def : undefined;
+            if (def && 'ColumnDef' in def) {
+              add(`${tableKey(stmt.relation)}.${def.ColumnDef.colname}`);
+            }
+          }
+        },
+        CreatePolicyStmt: (stmt) =>
+          stmt.table && add(`${tableKey(stmt.table)}.${stmt.policy_name}`),
+        CreateFunctionStmt(stmt) {
+          const name = names(stmt.funcname);
+          add(name.length > 1 ? name.join('.') : `public.${name[0]}`);
+        },
+      });
+    }
+  }
+  return origins;
+}
+
+/**
+ * Human-readable drift report
+ *
+ * @example
+ * ```
+ * local database vs supabase/migrations: 1 difference
+ *   + column public.posts.slug: only in local database
+ * ```
+ */
+export function formatDrift(report: DriftReport): string {
+  const lines: string[] = [];
+
+  for (const { expected, actual, drift } of [report.database, report.types, report.seed]) {
+    const count = drift.length === 1 ? '1 difference' : `${drift.length} differences`;
+    lines.push(`${actual} vs ${expected}: ${drift.length === 0 ? 'no drift' : count}`);
+
+    for (const entry of drift) {
+      const origin = entry.migration ? ` (${entry.migration})` : '';
+      if (entry.status === 'missing') {
+        lines.push(`  - ${entry.kind} ${entry.name}: missing from ${actual}${origin}`);
+      } else if (entry.status === 'unexpected') {
+        lines.push(`  + ${entry.kind} ${entry.name}: only in ${actual}${origin}`);
+      } else {
+        lines.push(`  ~ ${entry.kind} ${entry.name}${origin}`);
+        for (const field of changedFields(entry.expected ?? {}, entry.actual ?? {})) {
+          const before = JSON.stringify(entry.expected?.[field]);
+          const after = JSON.stringify(entry.actual?.[field]);
+          lines.push(`      ${field}: ${before} in ${expected}, ${after} in ${actual}`);
+        }
+      }
+    }
+  }
+  return lines.join('\n');
+}
+
+/** TypeScript types of Row fields by Postgres type, as `supabase gen types` maps them */
+const ROW_TYPES: Record<string, string> = {
+  boolean: 'boolean',
+  smallint: 'number',
+  integer: 'number',
+  bigint: 'number',
+  real: 'number',
+  'double precision': 'number',
+  numeric: 'number',
+  json: 'Json',
+  jsonb: 'Json',
+  text: 'string',
+  'character varying': 'string',
+  character: 'string',
+  uuid: 'string',
+  date: 'string',
+  'time without time zone': 'string',
+  'time with time zone': 'string',
+  'timestamp without time zone': 'string',
+  'timestamp with time zone': 'string',
+  interval: 'string',
+  bytea: 'string',
+  inet: 'string',
+  citext: 'string',
+};
+
+/**
+ * Row field type for a column (`format_type` output), undefined for types
+ * without a known mapping (enums, composites, domains)
+ */
+function rowType(type: string, nullable: boolean): string | undefined {
+  const array = type.endsWith('[]');
+  const base = ROW_TYPES[type.replace(/\[\]$/, '').replace(/\(.*\)/, '')];
+  if (!base) return undefined;
+  return normalizeType(`${base}${array ? '[]' : ''}${nullable ? ' | null' : ''}`);
+}
+
+/**
+ * Functions entry for a function (catalogObjects() definition), as `{ args,
+ * returns }`: arguments with a default are optional (`name?`), arguments of
+ * unmapped types are null and an unmapped return type (composites, TABLE,
+ * SETOF a table) is left out
+ */
+function functionType(definition: Record<string, unknown>): Record<string, unknown> {
+  const args = (definition.args ?? []) as CatalogRows['functions'][number]['args'];
+  const returns = returnType(String(definition.returns));
+  return {
+    args: byName(
+      args.map(({ name, type, optional }) => [
+        `${name}${optional ? '?' : ''}`,
+        rowType(type, false) ?? null,
+      ])
+    ),
+    ...(returns ? { returns } : {}),
+  };
+}
+
+/** `Returns` type for a function result (`pg_get_function_result` output) */
+function returnType(result: string): string | undefined {
+  if (result === 'void') return 'undefined';
+  const type = rowType(result.replace(/^SETOF /, ''), false);
+  return type && normalizeType(result.startsWith('SETOF ') ? `${type}[]` : type);
+}
+
+/**
+ * Arguments of an `Args` type as `name` (or `name?`) to type; `never` and
+ * `Record<PropertyKey, never>` mean no arguments
+ */
+function argTypes(node: ts.TypeNode | undefined, file: ts.SourceFile): Record<string, string> {
+  return byName(
+    properties(node).map((property) => [
+      `${property.name.text}${property.questionToken ? '?' : ''}`,
+      normalizeType(property.type.getText(file)),
+    ])
+  );
+}
+
+/** Record with keys in name order, so argument order does not count as drift */
+function byName<T>(entries: Array<[string, T]>): Record<string, T> {
+  return Object.fromEntries(entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+}
+
+/** Collapse whitespace and order union members so `null | string` equals `string | null` */
+function normalizeType(type: string): string {
+  return type
+    .split('|')
+    .map((part) => part.replace(/\s+/g, ' ').trim())
+    .sort()
+    .join(' | ');
+}
+
+function member(node: ts.Node | undefined, name: string): ts.TypeNode | undefined {
+  return members(node).find(([key]) => key === name)?.[1];
+}
+
+/** Properties of an interface or type literal, as `[name, type]` */
+function members(node: ts.Node | undefined): Array<[string, ts.TypeNode]> {
+  return properties(node).map((property) => [property.name.text, property.type]);
+}
+
+/** A property signature with a plain name and a type annotation */
+type NamedProperty = ts.PropertySignature & {
+  name: ts.Identifier | ts.StringLiteral;
+  type: ts.TypeNode;
+};
+
+/**
+ * Properties of an interface or type literal; mapped types such as
+ * `{ [_ in never]: never }` have none
+ */
+function properties(node: ts.Node | undefined): NamedProperty[] {
+  if (!node || !(ts.isInterfaceDeclaration(node) || ts.isTypeLiteralNode(node))) return [];
+  return node.members.filter(
+    (property): property is NamedProperty =>
+      ts.isPropertySignature(property) &&
+      property.type !== undefined &&
+      (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))
+  );
+}
+
+function originKey(object: SchemaObject): string {
+  return object.kind === 'function' ? object.name.replace(/\(.*$/, '') : object.name;
+}
+
+function changedFields(
+  expected: Record<string, unknown>,
+  actual: Record<string, unknown>
+): string[] {
+  const fields = [...new Set([...Object.keys(expected), ...Object.keys(actual)])];
+  return fields.filter(
+    (field) => JSON.stringify(expected[field]) !== JSON.stringify(actual[field])
+  );
+}
+
+const KIND_ORDER: SchemaObjectKind[] = ['table', 'view', 'column', 'policy', 'function'];
+
+function sortObjects<T extends { kind: SchemaObjectKind; name: string }>(objects: T[]): T[] {
+  return [...objects].sort(
+    (a, b) =>
+      KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) ||
+      (a.name < b.name ? -1 : a.name > b.name ? 1 : 0)
+  );
+}
@@ -0,0 +1,496 @@
+/**
+ * Table Specs
+ *
+ * Declarative table definitions for `pnpm db:plan`. A spec (YAML or JSON)
+ * lists a table's columns, foreign keys, indexes, ownership model and
+ * soft-delete; generateTable() turns it into a migration, its down migration
+ * and a pgTAP test:
+ *
+ *   table: projects
+ *   ownership: team
+ *   softDelete: true
+ *   columns:
+ *     - { name: name, type: text, nullable: false }
+ *     - { name: client_id, type: uuid, references: clients(id) }
+ *   indexes:
+ *     - { columns: [name], unique: true }
+ *
+ * Every table gets `id`, the owner column (`user_id` or `team_id`),
+ * `created_at` and `updated_at` (and `deleted_at` with softDelete), RLS with
+ * the owner policies from rls-scaffold, an index on the owner column and on
+ * every foreign key, and a trigger keeping `updated_at` current.
+ *
+ * Generation is deterministic: the same spec always yields the same SQL.
+ */
+
+import { parse as parseYaml } from 'yaml';
+import {
+  defaultOwnerColumn,
+  generatePolicySQL,
+  generateRLSPolicies,
+  type Ownership,
+  type RLSPolicy,
+} from './rls-scaffold';
+
+/**
+ * Tables a team-owned table depends on: `team_id` references `public.teams`,
+ * and `private.user_teams()` reads memberships from `public.team_members`.
+ * No migration in this repo creates them; `pnpm db:plan` warns when they are
+ * missing.
+ */
+export const TEAM_TABLES = ['public.teams', 'public.team_members'];
+
+/**
+ * Tables the migration generated for a spec needs, as `schema.table`: the
+ * team tables for team ownership and every foreign key target
+ *
+ * @param spec - A spec generateTable() accepts
+ */
+export function tableDependencies(spec: TableSpec): string[] {
+  const references = (spec.columns ?? []).flatMap((column) =>
+    column.references === undefined ? [] : [parseReference(column)]
+  );
+  const tables = [
+    ...(spec.ownership === 'team' ? TEAM_TABLES : []),
+    ...references.map((reference) => `${reference.schema}.${reference.table}`),
+  ];
+  return [...new Set(tables)].filter((table) => table !== `public.${spec.table}`);
+}
+
+/**
+ * Foreign key target; the string form is `table`, `table(column)` or
+ * `schema.table(column)`
+ */
+export interface ReferenceSpec {
+  table: string;
+  /** Referenced column (default: `id`) */
+  column?: string;
+  onDelete?: 'cascade' | 'restrict' | 'set null' | 'no action';
+}
+
+export interface ColumnSpec {
+  name: string;
+  /** PostgreSQL type, e.g. `text`, `numeric(10, 2)` or `uuid[]` */
+  type: string;
+  /** Allow NULL (default: true) */
+  nullable?: boolean;
+  /** SQL expression, e.g. `0`, `'draft'` or `now()` */
+  default?: string | number | boolean;
+  unique?: boolean;
+  references?: string | ReferenceSpec;
+}
+
+export interface IndexSpec {
+  columns: string[];
+  unique?: boolean;
+  /** Index name (default: `idx_<table>_<columns>`) */
+  name?: string;
+}
+
+export interface TableSpec {
+  /** Table name in the public schema */
+  table: string;
+  description?: string;
+  /** Row ownership model for RLS (default: `user`) */
+  ownership?: Ownership;
+  columns?: ColumnSpec[];
+  indexes?: IndexSpec[];
+  /** Add `deleted_at` and hide soft-deleted rows from SELECT policies */
+  softDelete?: boolean;
+  /** Let anonymous users read every row */
+  publicRead?: boolean;
+}
+
+/**
+ * SQL generated for a table spec
+ */
+export interface GeneratedTable {
+  /** Migration creating the table, its indexes, policies and trigger */
+  migration: string;
+  /** Down migration dropping the table */
+  down: string;
+  /** pgTAP test for supabase/tests */
+  test: string;
+  policies: RLSPolicy[];
+}
+
+const IDENTIFIER = /^[a-z_][a-z0-9_]*$/;
+const TYPE = /^([a-z_][a-z0-9_]*\.)?[a-z][a-z0-9_]*( [a-z][a-z0-9_]*)*(\(\d+(, ?\d+)?\))?(\[\])?$/;
+const REFERENCE = /^(?:([a-z_][a-z0-9_]*)\.)?([a-z_][a-z0-9_]*)(?:\(([a-z_][a-z0-9_]*)\))?$/;
+const ON_DELETE = ['cascade', 'restrict', 'set null', 'no action'];
+const MAX_IDENTIFIER_LENGTH = 63;
+
+/**
+ * Parse a YAML or JSON table spec
+ *
+ * @param source - Spec file content (JSON is valid YAML)
+ * @returns The spec; identifiers and types are checked by generateTable()
+ * @throws Error if the content is not a table spec
+ */
+export function parseTableSpec(source: string): TableSpec {
+  const spec: unknown = parseYaml(source);
+  if (!isRecord(spec) || typeof spec.table !== 'string') {
+    throw new Error('Invalid table spec: expected a mapping with a `table` name');
+  }
+  for (const key of ['columns', 'indexes'] as const) {
+    if (spec[key] !== undefined && !Array.isArray(spec[key])) {
+      throw new Error(`Invalid table spec: \`${key}\` must be a list`);
+    }
+  }
+  return spec as unknown as TableSpec;
+}
+
+/**
+ * Generate the migration, down migration and pgTAP test for a table spec
+ *
+ * @param spec - Table spec
+ * @returns Generated SQL; identical for identical specs
+ * @throws Error if the spec has invalid identifiers or types, duplicate or
+ *   unknown columns, or an unknown ownership model
+ *
+ * @example
+ * ```ts
+ * const { migration } = generateTable({ table: 'notes', columns: [{ name: 'body', type: 'text' }] });
+ * // CREATE TABLE public.notes (id uuid PRIMARY KEY ..., user_id uuid NOT NULL REFERENCES auth.users(id) ...
+ * ```
+ */
+export function generateTable(spec: TableSpec): GeneratedTable {
+  const { table, ownership = 'user', softDelete = false, publicRead = false } = spec;
+  identifier(table, 'table name');
+  if (ownership !== 'user' && ownership !== 'team') {
+    throw new Error(`Invalid table spec: ownership must be user or team, got: ${ownership}`);
+  }
+
+  const columns = tableColumns(spec);
+  const indexes = tableIndexes(spec, columns);
+  const policies = generateRLSPolicies({
+    table,
+    ownership,
+    ownerColumn: defaultOwnerColumn(ownership),
+    publicRead,
+    softDeletes: softDelete,
+  });
+
+  return {
+    migration: migrationSql(spec, columns, indexes, policies),
+    down: downSql(table),
+    test: testSql(table, columns, indexes, policies),
+    policies,
+  };
+}
+
+interface Column {
+  name: string;
+  notNull: boolean;
+  definition: string;
+  reference?: { schema: string; table: string; column: string };
+}
+
+interface Index {
+  name: string;
+  columns: string[];
+  unique: boolean;
+}
+
+function tableColumns(spec: TableSpec): Column[] {
+  const ownership = spec.ownership ?? 'user';
+  const owner: ColumnSpec =
+    ownership === 'team'
+      ? {
+          name: 'team_id',
+          type: 'uuid',
+          nullable: false,
+          references: { table: 'teams', onDelete: 'cascade' },
+        }
+      : {
+          name: 'user_id',
+          type: 'uuid',
+          nullable: false,
+          references: { table: 'auth.users', onDelete: 'cascade' },
+        };
+  const specs: ColumnSpec[] = [
+    { name: 'id', type: 'uuid', nullable: false, default: 'gen_random_uuid()' },
+    owner,
+    ...(spec.columns ?? []),
+    { name: 'created_at', type: 'timestamptz', nullable: false, default: 'now()' },
+    { name: 'updated_at', type: 'timestamptz', nullable: false, default: 'now()' },
+    ...(spec.softDelete ? [{ name: 'deleted_at', type: 'timestamptz' }] : []),
+  ];
+
+  const seen = new Set<string>();
+  return specs.map((column) => {
+    identifier(column.name, 'column name');
+    if (seen.has(column.name)) {
+      throw new Error(
+        `Invalid table spec: column '${column.name}' is defined twice (id, the owner column and timestamps are added for you)`
+      );
+    }
+    seen.add(column.name);
+    if (typeof column.type !== 'string' || !TYPE.test(column.type)) {
+      throw new Error(
+        `Invalid table spec: column '${column.name}' has invalid type: ${column.type}`
+      );
+    }
+
+    const reference = column.references === undefined ? undefined : parseReference(column);
+    const parts = [column.name, column.type];
+    if (column.name === 'id') parts.push('PRIMARY KEY');
+    if (column.nullable === false && column.name !== 'id') parts.push('NOT NULL');
+    if (column.default !== undefined) parts.push(`DEFAULT ${column.default}`);
+    if (column.unique) parts.push('UNIQUE');
+    if (reference) {
+      parts.push(`REFERENCES ${reference.schema}.${reference.table}(${reference.column})`);
+      if (reference.onDelete) parts.push(`ON DELETE ${reference.onDelete.toUpperCase()}`);
+    }
+
+    return {
+      name: column.name,
+      notNull: column.nullable === false,
+      definition: parts.join(' '),
+      reference,
+    };
+  });
+}
+
+function parseReference(column: ColumnSpec) {
+  const target =
+    typeof column.references === 'string'
+      ? REFERENCE.exec(column.references)
+      : REFERENCE.exec(column.references?.table ?? '');
+  if (!target) {
+    throw new Error(
+      `Invalid table spec: column '${column.name}' references must be table, table(column) or schema.table(column)`
+    );
+  }
+
+  const options: Partial<ReferenceSpec> =
+    typeof column.references === 'object' ? column.references : {};
+  const referenced = options.column ?? target[3] ?? 'id';
+  identifier(referenced, `column '${column.name}' referenced column`);
+  if (options.onDelete !== undefined && !ON_DELETE.includes(options.onDelete)) {
+    throw new Error(
+      `Invalid table spec: column '${column.name}' onDelete must be one of ${ON_DELETE.join(', ')}`
+    );
+  }
+
+  return {
+    schema: target[1] ?? 'public',
+    table: target[2],
+    column: referenced,
+    onDelete: options.onDelete,
+  };
+}
+
+function tableIndexes(spec: TableSpec, columns: Column[]): Index[] {
+  const columnNames = new Set(columns.map((column) => column.name));
+  const ownerColumn = defaultOwnerColumn(spec.ownership);
+
+  // The owner column filters every policy; foreign keys need an index for
+  // joins and cascading deletes
+  const indexes: Index[] = [
+    [ownerColumn],
+    ...columns
+      .filter((column) => column.reference && column.name !== ownerColumn)
+      .map((column) => [column.name]),
+  ].map((indexColumns) => ({
+    name: identifier(indexName(spec.table, indexColumns), 'index name'),
+    columns: indexColumns,
+    unique: false,
+  }));
+
+  for (const index of spec.indexes ?? []) {
+    if (!Array.isArray(index.columns) || index.columns.length === 0) {
+      throw new Error('Invalid table spec: every index needs a non-empty list of columns');
+    }
+    for (const column of index.columns) {
+      if (!columnNames.has(column)) {
+        throw new Error(`Invalid table spec: index on unknown column '${column}'`);
+      }
+    }
+    const name = index.name ?? indexName(spec.table, index.columns);
+    identifier(name, 'index name');
+
+    const existing = indexes.findIndex((other) => other.name === name);
+    const entry = { name, columns: index.columns, unique: index.unique ?? false };
+    if (existing === -1) {
+      indexes.push(entry);
+    } else {
+      indexes[existing] = entry;
+    }
+  }
+
+  return indexes;
+}
+
+function indexName(table: string, columns: string[]): string {
+  return `idx_${table}_${columns.join('_')}`;
+}
+
+function identifier(value: unknown, label: string): string {
+  if (typeof value !== 'string' || !IDENTIFIER.test(value)) {
+    throw new Error(
+      `Invalid table spec: ${label} must be a lowercase identifier, got: ${String(value)}`
+    );
+  }
+  if (value.length > MAX_IDENTIFIER_LENGTH) {
+    throw new Error(
+      `Invalid table spec: ${label} '${value}' is longer than ${MAX_IDENTIFIER_LENGTH} characters`
+    );
+  }
+  return value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function comment(text: string): string[] {
+  return text
+    .trim()
+    .split('\n')
+    .map((line) => `-- ${line}`.trimEnd());
+}
+
+function migrationSql(
+  spec: TableSpec,
+  columns: Column[],
+  indexes: Index[],
+  policies: RLSPolicy[]
+): string {
+  const table = `public.${spec.table}`;
+  const lines = [
+    `-- Migration: create ${table}`,
+    '-- Generated by pnpm db:plan from a table spec; change the spec and regenerate',
+    ...(spec.description ? comment(spec.description) : []),
+    ...(spec.ownership === 'team'
+      ? [
+          '--',
+          '-- WARNING: team ownership assumes these tables exist (create them in an',
+          '-- earlier migration):',
+          '-- CREATE TABLE public.teams (id uuid PRIMARY KEY, ...);',
+          '-- CREATE TABLE public.team_members (',
+          '--   team_id uuid REFERENCES public.teams(id),',
+          '--   user_id uuid REFERENCES auth.users(id),',
+          '--   PRIMARY KEY (team_id, user_id)',
+          '-- );',
+        ]
+      : []),
+    '',
+    'BEGIN;',
+    '',
+    `CREATE TABLE ${table} (`,
+    columns.map((column) => `  ${column.definition}`).join(',\n'),
+    ');',
+    '',
+    ...indexes.map(
+      (index) =>
+        `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${index.name} ON ${table} (${index.columns.join(', ')});`
+    ),
+    '',
+    `ALTER TABLE ${table} ENABLE ROW LEVEL SECURITY;`,
+    '',
+  ];
+
+  if (spec.ownership === 'team') {
+    lines.push(
+      '-- Teams the current user belongs to; security definer so policies avoid',
+      '-- joining team_members (which has RLS of its own)',
+      'CREATE OR REPLACE FUNCTION private.user_teams()',
+      'RETURNS SETOF uuid',
+      'LANGUAGE sql',
+      'SECURITY DEFINER',
+      'STABLE',
+      "SET search_path = ''",
+      'AS $$',
+      '  SELECT team_id FROM public.team_members WHERE user_id = auth.uid();',
+      '$$;',
+      '',
+      'GRANT EXECUTE ON FUNCTION private.user_teams() TO authenticated;',
+      ''
+    );
+  }
+
+  lines.push(
+    ...policies.map((policy) => `${generatePolicySQL(policy)}\n`),
+    'CREATE OR REPLACE FUNCTION public.update_updated_at()',
+    'RETURNS TRIGGER',
+    'LANGUAGE plpgsql',
+    "SET search_path = ''",
+    'AS $$',
+    'BEGIN',
+    '  NEW.updated_at = now();',
+    '  RETURN NEW;',
+    'END;',
+    '$$;',
+    '',
+    `CREATE TRIGGER update_${spec.table}_updated_at`,
+    `  BEFORE UPDATE ON ${table}`,
+    '  FOR EACH ROW',
+    '  EXECUTE FUNCTION public.update_updated_at();',
+    '',
+    'COMMIT;',
+    ''
+  );
+
+  return lines.join('\n');
+}
+
+function downSql(table: string): string {
+  return `-- Down migration: create public.${table}
+-- Generated by pnpm db:plan. Dropping the table drops its indexes, policies and
+-- trigger; the shared functions public.update_updated_at() and
+-- private.user_teams() stay, other tables use them.
+
+DROP TABLE IF EXISTS public.${table};
+`;
+}
+
+function sqlArray(values: string[]): string {
+  return `ARRAY[${values.map((value) => `'${value}'`).join(', ')}]`;
+}
+
+function testSql(
+  table: string,
+  columns: Column[],
+  indexes: Index[],
+  policies: RLSPolicy[]
+): string {
+  const tests = [
+    `select has_table('public', '${table}', '${table} exists');`,
+    `select columns_are('public', '${table}', ${sqlArray(columns.map((column) => column.name))}, '${table} has the columns of its spec');`,
+    ...columns.map(({ name, notNull }) =>
+      notNull
+        ? `select col_not_null('public', '${table}', '${name}', '${table}.${name} is NOT NULL');`
+        : `select col_is_null('public', '${table}', '${name}', '${table}.${name} is nullable');`
+    ),
+    ...columns.flatMap(({ name, reference }) =>
+      reference
+        ? [
+            `select fk_ok('public', '${table}', '${name}', '${reference.schema}', '${reference.table}', '${reference.column}', '${table}.${name} references ${reference.schema}.${reference.table}');`,
+          ]
+        : []
+    ),
+    ...indexes.map(
+      (index) =>
+        `select has_index('public', '${table}', '${index.name}', ${sqlArray(index.columns)}, '${index.name} exists');`
+    ),
+    `select ok((select relrowsecurity from pg_class where oid = 'public.${table}'::regclass), 'RLS is enabled on ${table}');`,
+    `select policies_are('public', '${table}', ${sqlArray(policies.map((policy) => policy.name))}, '${table} has the generated policies');`,
+    `select has_trigger('public', '${table}', 'update_${table}_updated_at', '${table} keeps updated_at current');`,
+  ];
+
+  return [
+    `-- ${table} Schema Test`,
+    `-- Generated by pnpm db:plan with the migration creating public.${table};`,
+    '-- regenerate both from the table spec instead of editing this file',
+    '',
+    'begin;',
+    `select plan(${tests.length});`,
+    '',
+    ...tests,
+    '',
+    'select * from finish();',
+    'rollback;',
+    '',
+  ].join('\n');
+}
@@ -68,19 +68,17 @@ interface ValidationResult {
  * Retrieve the names of all user-defined base tables in the public schema.
  *
  * @returns An array of table names in the public schema; returns an empty array if no tables are found.
- * @throws An Error when the database RPC query fails or returns an error payload.
+ * @throws An Error when the database RPC query fails.
  */
 async function fetchAllTables(supabase: ReturnType<typeof createClient>): Promise<string[]> {
   const { data, error } = await supabase.rpc('query', {
     sql: `
-      SELECT COALESCE(jsonb_agg(t.table_name ORDER BY t.table_name), '[]'::jsonb) as result
-      FROM (
-        SELECT table_name
-        FROM information_schema.tables
-        WHERE table_schema = 'public'
-          AND table_type = 'BASE TABLE'
-          AND table_name NOT LIKE 'pg_%'
-      ) t;
+      SELECT table_name
+      FROM information_schema.tables
+      WHERE table_schema = 'public'
+        AND table_type = 'BASE TABLE'
+        AND table_name NOT LIKE 'pg_%'
+      ORDER BY table_name
     `,
   });
 
@@ -89,16 +87,12 @@ async function fetchAllTables(supabase: ReturnType<typeof createClient>): Promis
     throw new Error(`Database query failed: ${error.message}`);
   }
 
-  if (!data || typeof data !== 'object') {
+  // The query RPC returns rows as a JSONB array
+  if (!Array.isArray(data)) {
     return [];
   }
 
-  // Parse the result - data is returned as a JSONB array
-  if (Array.isArray(data)) {
-    return data as string[];
-  }
-
-  return [];
+  return (data as { table_name: string }[]).map((row) => row.table_name);
 }
 
 /**
@@ -111,19 +105,15 @@ async function checkRLSStatus(
   supabase: ReturnType<typeof createClient>,
   tableName: string
 ): Promise<{ hasRLS: boolean; rlsForced: boolean }> {
-  // Note: Using string interpolation since query RPC doesn't support parameters
-  // tableName is from trusted source (information_schema) so SQL injection not a concern
   const { data, error } = await supabase.rpc('query', {
     sql: `
-      SELECT jsonb_build_object(
-        'has_rls', relrowsecurity,
-        'rls_forced', relforcerowsecurity
-      ) as result
+      SELECT relrowsecurity AS has_rls, relforcerowsecurity AS rls_forced
       FROM pg_class
       JOIN pg_namespace ON pg_class.relnamespace = pg_namespace.oid
       WHERE nspname = 'public'
-        AND relname = '${tableName.replace(/'/g, "''")}';
+        AND relname = $1
     `,
+    params: [tableName],
   });
 
   if (error) {
@@ -131,17 +121,11 @@ async function checkRLSStatus(
     return { hasRLS: false, rlsForced: false };
   }
 
-  if (!data || typeof data !== 'object') {
-    return { hasRLS: false, rlsForced: false };
-  }
-
-  // Check for error in response
-  if ('error' in data) {
-    console.warn(`⚠️  Query error for ${tableName}:`, (data as { error: string }).error);
+  if (!Array.isArray(data) || data.length === 0) {
     return { hasRLS: false, rlsForced: false };
   }
 
-  const result = data as { has_rls: boolean; rls_forced: boolean };
+  const result = data[0] as { has_rls: boolean; rls_forced: boolean };
 
   if (typeof result.has_rls !== 'boolean' || typeof result.rls_forced !== 'boolean') {
     console.warn(`⚠️  Unexpected data shape for ${tableName}:`, result);
@@ -166,27 +150,25 @@ async function fetchPolicies(
   supabase: ReturnType<typeof createClient>,
   tableName: string
 ): Promise<PolicyInfo[]> {
-  // Note: Using string interpolation since query RPC doesn't support parameters
-  // tableName is from trusted source (information_schema) so SQL injection not a concern
   const { data, error } = await supabase.rpc('query', {
     sql: `
-      SELECT COALESCE(jsonb_agg(jsonb_build_object(
-        'policy_name', polname,
-        'operation', CASE polcmd
+      SELECT
+        polname AS policy_name,
+        CASE polcmd
           WHEN 'r' THEN 'SELECT'
           WHEN 'a' THEN 'INSERT'
           WHEN 'w' THEN 'UPDATE'
           WHEN 'd' THEN 'DELETE'
           WHEN '*' THEN 'ALL'
-        END,
-        'roles', ARRAY(SELECT rolname FROM pg_roles WHERE oid = ANY(polroles))
-      )), '[]'::jsonb) as result
+        END AS operation,
+        ARRAY(SELECT rolname FROM pg_roles WHERE oid = ANY(polroles)) AS roles
       FROM pg_policy
       JOIN pg_class ON pg_policy.polrelid = pg_class.oid
       JOIN pg_namespace ON pg_class.relnamespace = pg_namespace.oid
       WHERE nspname = 'public'
-        AND relname = '${tableName.replace(/'/g, "''")}';
+        AND relname = $1
     `,
+    params: [tableName],
   });
 
   if (error) {
@@ -194,16 +176,6 @@ async function fetchPolicies(
     return [];
   }
 
-  if (!data) {
-    return [];
-  }
-
-  // Check for error in response
-  if (typeof data === 'object' && 'error' in data) {
-    console.warn(`⚠️  Query error for ${tableName}:`, (data as { error: string }).error);
-    return [];
-  }
-
   if (!Array.isArray(data)) {
     return [];
   }
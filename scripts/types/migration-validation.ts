@@ -7,14 +7,24 @@ export interface ValidationResult {
 export interface ValidationError {
   code: string;
   message: string;
+  /** Name of the rule that reported it, for `-- migration-lint-disable <rule>` */
+  rule?: string;
+  /** 1-based line of the offending statement or node */
   line?: number;
+  /** 1-based column of the offending statement or node */
+  column?: number;
   suggestion?: string;
 }
 
 export interface ValidationWarning {
   code: string;
   message: string;
+  /** Name of the rule that reported it, for `-- migration-lint-disable <rule>` */
+  rule?: string;
+  /** 1-based line of the offending statement or node */
   line?: number;
+  /** 1-based column of the offending statement or node */
+  column?: number;
   suggestion?: string;
 }
 
@@ -23,12 +33,19 @@ export enum ValidationCode {
   DROP_TABLE = 'DROP_TABLE',
   DROP_COLUMN = 'DROP_COLUMN',
   TRUNCATE = 'TRUNCATE',
+  MISSING_ROLLBACK = 'MISSING_ROLLBACK',
+  PARSE_ERROR = 'PARSE_ERROR',
+  NON_CONCURRENT_INDEX = 'NON_CONCURRENT_INDEX',
+  TABLE_REWRITE = 'TABLE_REWRITE',
+  SET_NOT_NULL = 'SET_NOT_NULL',
+  VALIDATING_CONSTRAINT = 'VALIDATING_CONSTRAINT',
 
   // Warnings (non-blocking)
   MISSING_RLS = 'MISSING_RLS',
   TYPE_CHANGE = 'TYPE_CHANGE',
   MISSING_INDEX_FK = 'MISSING_INDEX_FK',
-  MISSING_ROLLBACK = 'MISSING_ROLLBACK',
+  MISSING_LOCK_TIMEOUT = 'MISSING_LOCK_TIMEOUT',
+  MISSING_DEPENDENCY = 'MISSING_DEPENDENCY',
 }
 
 export interface MigrationFile {
@@ -1,63 +1,61 @@
 import fs from 'node:fs';
 import path from 'node:path';
-import type { MigrationFile, ValidationResult } from './types/migration-validation';
-import {
-  detectDestructiveOperations,
-  detectMissingIndexOnFK,
-  detectMissingRLS,
-  detectTypeChanges,
-} from './validators';
+import type {
+  MigrationFile,
+  ValidationError,
+  ValidationResult,
+} from './types/migration-validation';
+import { MIGRATION_RULES, runRules } from './validators';
 
 /**
  * Validates a single database migration file for safety and best practices.
  *
- * Performs comprehensive validation including:
- * - Destructive operation detection (DROP, TRUNCATE)
+ * Parses the SQL with the PostgreSQL parser and runs each rule as a visitor
+ * over the statements, so comments, string literals, quoted identifiers and
+ * `DO $$ ... $$` bodies are never mistaken for DDL:
+ * - Destructive operation detection (DROP TABLE, DROP COLUMN, TRUNCATE)
  * - Row Level Security (RLS) policy checks
  * - Foreign key index validation
  * - Type change safety verification
+ * - Lock safety: statements that block a live table for a full scan, rewrite
+ *   or index build (see validators/lock-safety.ts)
+ *
+ * A `-- migration-lint-disable <rule>` comment turns a rule off for one statement.
  *
  * @param file - Migration file object containing path, timestamp, name, and SQL content
- * @returns Validation result with errors (blocking) and warnings (non-blocking)
+ * @returns Validation result with errors (blocking) and warnings (non-blocking),
+ *   located by line and column; SQL that does not parse is a PARSE_ERROR
  *
  * @example
  * ```ts
- * const result = validateMigration({
+ * const result = await validateMigration({
  *   sql: 'DROP TABLE users;',
  *   path: 'migration.sql',
  *   timestamp: '20251004',
  *   name: 'test'
  * });
  * console.log(result.valid); // false
- * console.log(result.errors); // [{ code: 'DROP_TABLE', ... }]
+ * console.log(result.errors); // [{ code: 'DROP_TABLE', line: 1, column: 1, ... }]
  * ```
  */
-export function validateMigration(file: MigrationFile): ValidationResult {
-  const result: ValidationResult = {
-    valid: true,
-    errors: [],
-    warnings: [],
-  };
-
-  // Check destructive operations (errors)
-  const destructive = detectDestructiveOperations(file.sql);
-  result.errors.push(...destructive);
-
-  // Check missing RLS (warning)
-  const missingRLS = detectMissingRLS(file.sql);
-  result.warnings.push(...missingRLS);
-
-  // Check missing indexes on foreign keys (warning)
-  const missingIndexes = detectMissingIndexOnFK(file.sql);
-  result.warnings.push(...missingIndexes);
-
-  // Check type changes without conversion (warning)
-  const typeChanges = detectTypeChanges(file.sql);
-  result.warnings.push(...typeChanges);
+export async function validateMigration(file: MigrationFile): Promise<ValidationResult> {
+  const { errors, warnings } = await runRules(file.sql, MIGRATION_RULES);
+  return { valid: errors.length === 0, errors, warnings };
+}
 
-  result.valid = result.errors.length === 0;
+/**
+ * `line:column` of an issue, for console output
+ */
+export function formatLocation({ line, column }: Pick<ValidationError, 'line' | 'column'>): string {
+  return line === undefined ? '' : ` ${line}:${column ?? 1}`;
+}
 
-  return result;
+/**
+ * One console line for an issue, ending with the rule name to disable it by
+ */
+export function formatIssue(level: 'ERROR' | 'WARN', issue: ValidationError): string {
+  const rule = issue.rule ? ` (${issue.rule})` : '';
+  return `   ${level} [${issue.code}]${formatLocation(issue)}: ${issue.message}${rule}`;
 }
 
 /**
@@ -120,12 +118,12 @@ export async function validateAllMigrations(): Promise<void> {
       sql,
     };
 
-    const result = validateMigration(migration);
+    const result = await validateMigration(migration);
 
     if (result.errors.length > 0) {
       console.log(`❌ ${file}`);
       result.errors.forEach((error) => {
-        console.log(`   ERROR [${error.code}]: ${error.message}`);
+        console.log(formatIssue('ERROR', error));
         if (error.suggestion) {
           console.log(`   → ${error.suggestion}`);
         }
@@ -134,7 +132,7 @@ export async function validateAllMigrations(): Promise<void> {
     } else if (result.warnings.length > 0) {
       console.log(`⚠️  ${file}`);
       result.warnings.forEach((warning) => {
-        console.log(`   WARN [${warning.code}]: ${warning.message}`);
+        console.log(formatIssue('WARN', warning));
         if (warning.suggestion) {
           console.log(`   → ${warning.suggestion}`);
         }
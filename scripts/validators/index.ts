@@ -1,201 +1,478 @@
+import type { Node, ObjectType, RangeVar, TypeName } from 'libpg-query';
 import {
   ValidationCode,
   type ValidationError,
   type ValidationWarning,
 } from '../types/migration-validation';
+import { LOCK_SAFETY_RULES } from './lock-safety';
+import {
+  type MigrationAst,
+  type NodeVisitor,
+  names,
+  parseMigrationSql,
+  SqlSyntaxError,
+  tableDisplay,
+  tableKey,
+  walk,
+} from './sql-ast';
+
+export {
+  constraintNotValid,
+  LOCK_SAFETY_RULES,
+  lockTimeout,
+  requireConcurrentIndex,
+  setNotNull,
+  volatileDefault,
+} from './lock-safety';
 
 /**
- * Detects destructive SQL operations that could cause data loss.
- *
- * Scans migration SQL for dangerous operations like DROP TABLE, DROP COLUMN, and TRUNCATE.
- * Strips comments to prevent bypass attempts and uses word boundary matching to catch
- * operations anywhere in a line.
- *
- * @param sql - The SQL migration content to validate
- * @returns Array of validation errors for destructive operations found
- *
- * @example
- * ```ts
- * const errors = detectDestructiveOperations('DROP TABLE users;');
- * // Returns: [{ code: 'DROP_TABLE', message: '...', suggestion: '...' }]
- * ```
+ * An issue as reported by a rule; the runner adds its rule, line and column
  */
-export function detectDestructiveOperations(sql: string): ValidationError[] {
-  const errors: ValidationError[] = [];
-  const lines = sql.split('\n');
-
-  lines.forEach((line, index) => {
-    const trimmed = line.trim().toUpperCase();
-    // Remove SQL comments to prevent bypass via comments
-    const withoutComments = trimmed
-      .replace(/--.*$/, '')
-      .replace(/\/\*.*?\*\//g, '')
-      .trim();
-
-    // Use word boundary regex to catch DROP TABLE anywhere in the line
-    if (/\bDROP\s+TABLE\b/i.test(withoutComments)) {
-      errors.push({
-        code: ValidationCode.DROP_TABLE,
-        message: 'Destructive operation: DROP TABLE will permanently delete data',
-        line: index + 1,
-        suggestion:
-          'Consider: 1) Rename table instead, 2) Add archived_at column for soft delete, 3) Create backup first',
-      });
-    }
+export type RuleIssue = Omit<ValidationError, 'rule' | 'line' | 'column'>;
 
-    if (/\bDROP\s+COLUMN\b/i.test(withoutComments)) {
-      errors.push({
-        code: ValidationCode.DROP_COLUMN,
-        message: 'Destructive operation: DROP COLUMN will permanently delete data',
-        line: index + 1,
-        suggestion: 'Consider: 1) Rename column, 2) Migrate data first, 3) Use two-step migration',
-      });
-    }
+/**
+ * What a rule can do while visiting a migration
+ */
+export interface RuleContext {
+  /**
+   * Report an issue
+   * @param issue - Code, message and suggestion
+   * @param offset - Parser byte offset of the offending node (default: start of the current statement)
+   */
+  report(issue: RuleIssue, offset?: number): void;
+}
 
-    if (/\bTRUNCATE\b/i.test(withoutComments)) {
-      errors.push({
-        code: ValidationCode.TRUNCATE,
-        message: 'Destructive operation: TRUNCATE will delete all rows',
-        line: index + 1,
-        suggestion: 'Use DELETE with WHERE clause if you need selective deletion',
-      });
-    }
-  });
+/**
+ * A validation rule: a visitor over the statements of one migration
+ *
+ * `create` is called once per migration. The returned visitor is called for
+ * every matching node in every statement, then `end` runs, for rules that
+ * compare statements (e.g. a table created in one statement and secured in another).
+ */
+export interface ValidationRule {
+  name: string;
+  severity: 'error' | 'warning';
+  create(context: RuleContext): NodeVisitor & { end?: () => void };
+}
 
-  return errors;
+/**
+ * Issues found in a migration, sorted by location
+ */
+export interface RuleResults {
+  errors: ValidationError[];
+  warnings: ValidationWarning[];
 }
 
 /**
- * Detects tables created without Row Level Security enabled.
+ * Parse a migration and run rules over its statements.
+ *
+ * A migration that does not parse yields a single PARSE_ERROR at the position
+ * the PostgreSQL parser reported, and no rule runs.
  *
- * Scans for CREATE TABLE statements and checks if corresponding RLS enablement
- * exists. Handles quoted identifiers, schema-qualified names, and IF NOT EXISTS clauses.
+ * A `-- migration-lint-disable <rule>[, <rule>...]` comment turns rules off for
+ * one statement: the statement it is in, the statement it trails on the same
+ * line, or else the statement that follows it. Text after the rule names is
+ * free-form, e.g. the reason the statement is safe.
  *
  * @param sql - The SQL migration content to validate
- * @returns Array of warnings for tables missing RLS policies
+ * @param rules - Rules to run
+ * @returns Errors and warnings with line and column of the offending statement or node
  *
  * @example
  * ```ts
- * const warnings = detectMissingRLS('CREATE TABLE posts (id uuid);');
- * // Returns: [{ code: 'MISSING_RLS', message: '...', suggestion: '...' }]
+ * const { errors } = await runRules('SELECT 1;\nDROP TABLE users;', [destructiveOperations]);
+ * // Returns errors: [{ code: 'DROP_TABLE', line: 2, column: 1, ... }]
  * ```
  */
-export function detectMissingRLS(sql: string): ValidationWarning[] {
-  const warnings: ValidationWarning[] = [];
-  // Match table names: word chars OR quoted identifiers OR schema.table
-  const createTableRegex =
-    /CREATE\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?(?:(\w+)\.)?("[^"]+"|[\w]+)/gi;
-  const rlsRegex =
-    /ALTER\s+TABLE\s+(?:(\w+)\.)?("[^"]+"|[\w]+)\s+ENABLE\s+ROW\s+LEVEL\s+SECURITY/gi;
-
-  const tables = new Set<string>();
-  const rlsEnabled = new Set<string>();
-
-  let match;
-  while ((match = createTableRegex.exec(sql)) !== null) {
-    // match[2] is the table name (with or without quotes)
-    const tableName = match[2].replace(/"/g, '').toLowerCase();
-    tables.add(tableName);
+export async function runRules(sql: string, rules: ValidationRule[]): Promise<RuleResults> {
+  const results: RuleResults = { errors: [], warnings: [] };
+
+  let ast: Awaited<ReturnType<typeof parseMigrationSql>>;
+  try {
+    ast = await parseMigrationSql(sql);
+  } catch (error) {
+    if (!(error instanceof SqlSyntaxError)) throw error;
+    results.errors.push({
+      code: ValidationCode.PARSE_ERROR,
+      message: `SQL does not parse: ${error.message}`,
+      ...error.location,
+      suggestion: 'Fix the syntax error; no other checks ran on this migration',
+    });
+    return results;
   }
 
-  while ((match = rlsRegex.exec(sql)) !== null) {
-    const tableName = match[2].replace(/"/g, '').toLowerCase();
-    rlsEnabled.add(tableName);
+  const disabled = disabledRules(ast);
+  let statementOffset = 0;
+  const visitors = rules.map((rule) => {
+    const target = rule.severity === 'error' ? results.errors : results.warnings;
+    return rule.create({
+      report(issue, offset = statementOffset) {
+        const statement = ast.statements.filter((stmt) => stmt.offset <= offset).length - 1;
+        if (disabled.get(statement)?.has(rule.name)) return;
+        target.push({ ...issue, rule: rule.name, ...ast.locate(offset) });
+      },
+    });
+  });
+
+  for (const statement of ast.statements) {
+    statementOffset = statement.offset;
+    for (const visitor of visitors) walk(statement.node, visitor);
   }
+  for (const visitor of visitors) visitor.end?.();
 
-  tables.forEach((table) => {
-    if (!rlsEnabled.has(table)) {
-      warnings.push({
-        code: ValidationCode.MISSING_RLS,
-        message: `Table '${table}' created without Row Level Security`,
-        suggestion: `Add: ALTER TABLE ${table} ENABLE ROW LEVEL SECURITY; and CREATE POLICY statements`,
-      });
+  const byLocation = (a: ValidationWarning, b: ValidationWarning) =>
+    (a.line ?? 0) - (b.line ?? 0) || (a.column ?? 0) - (b.column ?? 0);
+  results.errors.sort(byLocation);
+  results.warnings.sort(byLocation);
+  return results;
+}
+
+const DISABLE_DIRECTIVE = /^(?:--|\/\*)\s*migration-lint-disable\s+([\w-]+(?:\s*,\s*[\w-]+)*)/;
+
+/**
+ * Rule names turned off by `migration-lint-disable` comments, by statement index
+ */
+function disabledRules(ast: MigrationAst): Map<number, Set<string>> {
+  const disabled = new Map<number, Set<string>>();
+
+  for (const comment of ast.comments) {
+    const match = DISABLE_DIRECTIVE.exec(comment.text);
+    if (!match) continue;
+
+    // First statement ending after the comment: the one containing or following it
+    let index = ast.statements.findIndex((stmt) => comment.offset < stmt.end);
+    const containing = index !== -1 && ast.statements[index].offset <= comment.offset;
+    const previous = ast.statements[(index === -1 ? ast.statements.length : index) - 1];
+    if (
+      !containing &&
+      previous &&
+      ast.locate(previous.end).line === ast.locate(comment.offset).line
+    ) {
+      index = ast.statements.indexOf(previous);
     }
-  });
+    if (index === -1) continue;
 
-  return warnings;
+    const rules = disabled.get(index) ?? new Set<string>();
+    for (const rule of match[1].split(/\s*,\s*/)) rules.add(rule);
+    disabled.set(index, rules);
+  }
+
+  return disabled;
 }
 
 /**
- * Detects foreign key columns without corresponding indexes.
+ * Destructive operations that could cause data loss: DROP TABLE, DROP COLUMN
+ * and TRUNCATE.
  *
- * Foreign keys without indexes can cause severe performance issues in PostgreSQL.
- * This function scans for REFERENCES clauses and checks for matching CREATE INDEX statements.
+ * @example
+ * ```ts
+ * await runRules('ALTER TABLE users DROP COLUMN email;', [destructiveOperations]);
+ * // errors: [{ code: 'DROP_COLUMN', line: 1, column: 1, ... }]
+ * ```
+ */
+export const destructiveOperations: ValidationRule = {
+  name: 'destructive-operations',
+  severity: 'error',
+  create: (context) => ({
+    DropStmt(stmt) {
+      if (stmt.removeType === 'OBJECT_TABLE') {
+        context.report({
+          code: ValidationCode.DROP_TABLE,
+          message: 'Destructive operation: DROP TABLE will permanently delete data',
+          suggestion:
+            'Consider: 1) Rename table instead, 2) Add archived_at column for soft delete, 3) Create backup first',
+        });
+      }
+    },
+    AlterTableCmd(cmd) {
+      if (cmd.subtype === 'AT_DropColumn') {
+        context.report({
+          code: ValidationCode.DROP_COLUMN,
+          message: 'Destructive operation: DROP COLUMN will permanently delete data',
+          suggestion:
+            'Consider: 1) Rename column, 2) Migrate data first, 3) Use two-step migration',
+        });
+      }
+    },
+    TruncateStmt() {
+      context.report({
+        code: ValidationCode.TRUNCATE,
+        message: 'Destructive operation: TRUNCATE will delete all rows',
+        suggestion: 'Use DELETE with WHERE clause if you need selective deletion',
+      });
+    },
+  }),
+};
+
+/**
+ * Tables created without Row Level Security enabled in the same migration.
  *
- * @param sql - The SQL migration content to validate
- * @returns Array of warnings for foreign keys missing indexes
+ * Unqualified names are taken to be in `public`; temporary tables are skipped.
  *
  * @example
  * ```ts
- * const warnings = detectMissingIndexOnFK('user_id uuid REFERENCES users(id)');
- * // Returns: [{ code: 'MISSING_INDEX_FK', message: '...', suggestion: '...' }]
+ * await runRules('CREATE TABLE posts (id uuid);', [missingRls]);
+ * // warnings: [{ code: 'MISSING_RLS', line: 1, column: 14, ... }]
  * ```
  */
-export function detectMissingIndexOnFK(sql: string): ValidationWarning[] {
-  const warnings: ValidationWarning[] = [];
-  const fkRegex = /(\w+)\s+\w+\s+REFERENCES\s+\w+\((\w+)\)/gi;
-  const indexRegex = /CREATE INDEX\s+\w+\s+ON\s+\w+\((\w+)\)/gi;
+export const missingRls: ValidationRule = {
+  name: 'missing-rls',
+  severity: 'warning',
+  create(context) {
+    const created = new Map<string, { display: string; offset?: number }>();
+    const secured = new Set<string>();
 
-  const fkColumns = new Set<string>();
-  const indexedColumns = new Set<string>();
+    return {
+      CreateStmt(stmt) {
+        if (stmt.relation && stmt.relation.relpersistence !== 't') {
+          created.set(tableKey(stmt.relation), {
+            display: tableDisplay(stmt.relation),
+            offset: stmt.relation.location,
+          });
+        }
+      },
+      AlterTableStmt(stmt) {
+        const enables = stmt.cmds?.some(
+          (cmd) => 'AlterTableCmd' in cmd && cmd.AlterTableCmd.subtype === 'AT_EnableRowSecurity'
+        );
+        if (enables && stmt.relation) secured.add(tableKey(stmt.relation));
+      },
+      end() {
+        for (const [key, table] of created) {
+          if (secured.has(key)) continue;
+          context.report(
+            {
+              code: ValidationCode.MISSING_RLS,
+              message: `Table '${table.display}' created without Row Level Security`,
+              suggestion: `Add: ALTER TABLE ${table.display} ENABLE ROW LEVEL SECURITY; and CREATE POLICY statements`,
+            },
+            table.offset
+          );
+        }
+      },
+    };
+  },
+};
 
-  let match;
-  while ((match = fkRegex.exec(sql)) !== null) {
-    fkColumns.add(match[1].toLowerCase());
-  }
+/**
+ * Foreign keys whose columns are not the leading columns of an index.
+ *
+ * Foreign keys without indexes can cause severe performance issues in
+ * PostgreSQL. Indexes come from CREATE INDEX and from primary key and unique
+ * constraints in the same migration.
+ *
+ * @example
+ * ```ts
+ * await runRules('CREATE TABLE c (post_id uuid REFERENCES posts(id));', [missingIndexOnForeignKey]);
+ * // warnings: [{ code: 'MISSING_INDEX_FK', line: 1, column: 32, ... }]
+ * ```
+ */
+export const missingIndexOnForeignKey: ValidationRule = {
+  name: 'missing-index-on-foreign-key',
+  severity: 'warning',
+  create(context) {
+    const foreignKeys: { table: RangeVar; columns: string[]; offset?: number }[] = [];
+    const indexes = new Map<string, string[][]>();
 
-  while ((match = indexRegex.exec(sql)) !== null) {
-    indexedColumns.add(match[1].toLowerCase());
-  }
+    const addIndex = (table: RangeVar, columns: string[]) => {
+      const key = tableKey(table);
+      indexes.set(key, [...(indexes.get(key) ?? []), columns]);
+    };
 
-  fkColumns.forEach((column) => {
-    if (!indexedColumns.has(column)) {
-      warnings.push({
-        code: ValidationCode.MISSING_INDEX_FK,
-        message: `Foreign key column '${column}' does not have an index`,
-        suggestion: `Add: CREATE INDEX idx_<table>_${column} ON <table>(${column});`,
-      });
-    }
-  });
+    const collect = (table: RangeVar | undefined, elements: Node[] | undefined) => {
+      if (!table) return;
+      for (const element of elements ?? []) {
+        if ('ColumnDef' in element) {
+          const column = element.ColumnDef.colname ?? '';
+          for (const constraint of element.ColumnDef.constraints ?? []) {
+            if (!('Constraint' in constraint)) continue;
+            const { contype, location } = constraint.Constraint;
+            if (contype === 'CONSTR_FOREIGN') {
+              foreignKeys.push({ table, columns: [column], offset: location });
+            } else if (contype === 'CONSTR_PRIMARY' || contype === 'CONSTR_UNIQUE') {
+              addIndex(table, [column]);
+            }
+          }
+        } else if ('Constraint' in element) {
+          const { contype, fk_attrs, keys, location } = element.Constraint;
+          if (contype === 'CONSTR_FOREIGN') {
+            foreignKeys.push({ table, columns: names(fk_attrs), offset: location });
+          } else if (contype === 'CONSTR_PRIMARY' || contype === 'CONSTR_UNIQUE') {
+            addIndex(table, names(keys));
+          }
+        }
+      }
+    };
 
-  return warnings;
-}
+    return {
+      CreateStmt(stmt) {
+        collect(stmt.relation, stmt.tableElts);
+      },
+      AlterTableStmt(stmt) {
+        const added = (stmt.cmds ?? []).flatMap((cmd) =>
+          'AlterTableCmd' in cmd && cmd.AlterTableCmd.def ? [cmd.AlterTableCmd.def] : []
+        );
+        collect(stmt.relation, added);
+      },
+      IndexStmt(stmt) {
+        if (!stmt.relation) return;
+        // Expression columns end the usable prefix
+        const columns: string[] = [];
+        for (const param of stmt.indexParams ?? []) {
+          if (!('IndexElem' in param) || !param.IndexElem.name) break;
+          columns.push(param.IndexElem.name);
+        }
+        addIndex(stmt.relation, columns);
+      },
+      end() {
+        for (const fk of foreignKeys) {
+          const covered = (indexes.get(tableKey(fk.table)) ?? []).some((index) => {
+            const prefix = index.slice(0, fk.columns.length);
+            return (
+              prefix.length === fk.columns.length &&
+              fk.columns.every((column) => prefix.includes(column))
+            );
+          });
+          if (covered) continue;
+
+          const table = tableDisplay(fk.table);
+          const columns = fk.columns.join(', ');
+          context.report(
+            {
+              code: ValidationCode.MISSING_INDEX_FK,
+              message: `Foreign key column '${columns}' on '${table}' does not have an index`,
+              suggestion: `Add: CREATE INDEX idx_${fk.table.relname}_${fk.columns.join('_')} ON ${table}(${columns});`,
+            },
+            fk.offset
+          );
+        }
+      },
+    };
+  },
+};
 
 /**
- * Detects column type changes without explicit conversion logic.
+ * Column type changes without a USING clause.
  *
- * ALTER COLUMN TYPE without a USING clause can fail or produce unexpected results
- * when PostgreSQL cannot automatically convert the data. This function warns about
- * type changes missing the USING clause.
+ * ALTER COLUMN TYPE without USING can fail or produce unexpected results when
+ * PostgreSQL cannot automatically convert the data.
  *
- * @param sql - The SQL migration content to validate
- * @returns Array of warnings for unsafe type changes
+ * @example
+ * ```ts
+ * await runRules('ALTER TABLE users ALTER COLUMN age TYPE text;', [typeChangeWithoutUsing]);
+ * // warnings: [{ code: 'TYPE_CHANGE', line: 1, column: 32, ... }]
+ * ```
+ */
+export const typeChangeWithoutUsing: ValidationRule = {
+  name: 'type-change-without-using',
+  severity: 'warning',
+  create: (context) => ({
+    AlterTableCmd(cmd) {
+      if (cmd.subtype !== 'AT_AlterColumnType' || !cmd.def || !('ColumnDef' in cmd.def)) return;
+      const { raw_default: using, typeName, location } = cmd.def.ColumnDef;
+      if (using) return;
+
+      const column = cmd.name ?? '';
+      const newType = typeNameDisplay(typeName);
+      context.report(
+        {
+          code: ValidationCode.TYPE_CHANGE,
+          message: `Column '${column}' type changed to '${newType}' without conversion`,
+          suggestion: `Add USING clause: ALTER COLUMN ${column} TYPE ${newType} USING ${column}::${newType}`,
+        },
+        location
+      );
+    },
+  }),
+};
+
+/**
+ * Irreversible DDL, which needs a down migration: DROP of any object,
+ * TRUNCATE, RENAME, and ALTER TABLE dropping columns or constraints or
+ * changing column types.
  *
  * @example
  * ```ts
- * const warnings = detectTypeChanges('ALTER TABLE users ALTER COLUMN age TYPE text');
- * // Returns: [{ code: 'TYPE_CHANGE', message: '...', suggestion: '...' }]
+ * await runRules('DROP FUNCTION public.legacy();', [irreversibleOperations]);
+ * // errors: [{ code: 'MISSING_ROLLBACK', message: 'Irreversible operation (DROP FUNCTION) ...' }]
  * ```
  */
-export function detectTypeChanges(sql: string): ValidationWarning[] {
-  const warnings: ValidationWarning[] = [];
-  const typeChangeRegex = /ALTER TABLE\s+\w+\s+ALTER COLUMN\s+(\w+)\s+TYPE\s+(\w+)/gi;
-
-  let match;
-  while ((match = typeChangeRegex.exec(sql)) !== null) {
-    const column = match[1];
-    const newType = match[2];
-
-    // Check if USING clause is present
-    const fullStatement = sql.substring(match.index, match.index + 200);
-    if (!fullStatement.toUpperCase().includes('USING')) {
-      warnings.push({
-        code: ValidationCode.TYPE_CHANGE,
-        message: `Column '${column}' type changed to '${newType}' without conversion`,
-        suggestion: `Add USING clause: ALTER COLUMN ${column} TYPE ${newType} USING ${column}::${newType}`,
+export const irreversibleOperations: ValidationRule = {
+  name: 'irreversible-operations',
+  severity: 'error',
+  create(context) {
+    const report = (operation: string) =>
+      context.report({
+        code: ValidationCode.MISSING_ROLLBACK,
+        message: `Irreversible operation (${operation}) without a down migration`,
+        suggestion:
+          'Add supabase/rollbacks/<migration>.down.sql that restores the dropped or changed objects',
       });
-    }
+    const alterations: Record<string, string> = {
+      AT_DropColumn: 'DROP COLUMN',
+      AT_DropConstraint: 'DROP CONSTRAINT',
+      AT_AlterColumnType: 'ALTER COLUMN TYPE',
+    };
+
+    return {
+      DropStmt: (stmt) => report(`DROP ${objectTypeDisplay(stmt.removeType)}`),
+      TruncateStmt: () => report('TRUNCATE'),
+      RenameStmt: (stmt) => report(`RENAME ${objectTypeDisplay(stmt.renameType)}`),
+      AlterTableCmd(cmd) {
+        const operation = cmd.subtype && alterations[cmd.subtype];
+        if (operation) report(operation);
+      },
+    };
+  },
+};
+
+/**
+ * Rules run by validateMigration()
+ */
+export const MIGRATION_RULES: ValidationRule[] = [
+  destructiveOperations,
+  missingRls,
+  missingIndexOnForeignKey,
+  typeChangeWithoutUsing,
+  ...LOCK_SAFETY_RULES,
+];
+
+/**
+ * Whether SQL contains at least one statement (comments alone do not count)
+ *
+ * @param sql - SQL text
+ * @returns False for empty or comment-only SQL; true for SQL that does not parse
+ */
+export async function hasStatements(sql: string): Promise<boolean> {
+  try {
+    return (await parseMigrationSql(sql)).statements.length > 0;
+  } catch (error) {
+    if (error instanceof SqlSyntaxError) return true;
+    throw error;
   }
+}
+
+/**
+ * SQL spelling of internal type names the parser produces (e.g. `bigint` → `pg_catalog.int8`)
+ */
+const TYPE_NAMES: Record<string, string> = {
+  int2: 'smallint',
+  int4: 'integer',
+  int8: 'bigint',
+  float4: 'real',
+  float8: 'double precision',
+  bool: 'boolean',
+  bpchar: 'char',
+};
+
+function typeNameDisplay(typeName: TypeName | undefined): string {
+  const parts = names(typeName?.names);
+  const qualified = parts[0] === 'pg_catalog' ? parts.slice(1) : parts;
+  const base = qualified.map((part) => TYPE_NAMES[part] ?? part).join('.');
+  return typeName?.arrayBounds?.length ? `${base}[]` : base;
+}
 
-  return warnings;
+function objectTypeDisplay(type: ObjectType | undefined): string {
+  if (type === 'OBJECT_MATVIEW') return 'MATERIALIZED VIEW';
+  return (type ?? 'OBJECT_UNKNOWN').replace(/^OBJECT_/, '').replace(/_/g, ' ');
 }
@@ -0,0 +1,381 @@
+/**
+ * Lock-safety rules for zero-downtime migrations
+ *
+ * Each rule flags DDL on an existing table that holds a heavy lock for as long
+ * as it takes to scan, rewrite or index the whole table. Tables created in the
+ * same migration are empty and are never flagged.
+ *
+ * Severity follows the damage: statements that block the table for a full
+ * scan or rewrite are errors; a missing lock_timeout, which only matters when
+ * the lock is contended, is a warning. So is a plain CREATE INDEX, because its
+ * fix (CONCURRENTLY) cannot run in a migration here; see
+ * requireConcurrentIndex. Statements known to be safe (small table,
+ * maintenance window) can opt out with `-- migration-lint-disable <rule>`.
+ */
+
+import type { AlterTableCmd, AlterTableStmt, ColumnDef, Node, RangeVar } from 'libpg-query';
+import { ValidationCode } from '../types/migration-validation';
+import type { ValidationRule } from './index';
+import { names, tableDisplay, tableKey, walk } from './sql-ast';
+
+/**
+ * CREATE INDEX without CONCURRENTLY. The SHARE lock blocks every write to the
+ * table until the index is built.
+ *
+ * A warning rather than an error: migrations are applied in a transaction
+ * (the Supabase CLI, the schema drift shadow build and db:migrate:rollback),
+ * where CREATE INDEX CONCURRENTLY fails. For a large table, build the index
+ * concurrently against the database before deploying, and keep a
+ * `CREATE INDEX IF NOT EXISTS` in the migration, with this rule disabled, so
+ * it is a no-op there and builds the index on new databases.
+ *
+ * @example
+ * ```ts
+ * await runRules('CREATE INDEX idx_posts_author ON posts (author_id);', [requireConcurrentIndex]);
+ * // warnings: [{ code: 'NON_CONCURRENT_INDEX', line: 1, column: 1, ... }]
+ * ```
+ */
+export const requireConcurrentIndex: ValidationRule = {
+  name: 'require-concurrent-index',
+  severity: 'warning',
+  create(context) {
+    const created = new Set<string>();
+
+    return {
+      CreateStmt: (stmt) => addTable(created, stmt.relation),
+      IndexStmt(stmt) {
+        if (stmt.concurrent || !stmt.relation || created.has(tableKey(stmt.relation))) return;
+        context.report({
+          code: ValidationCode.NON_CONCURRENT_INDEX,
+          message: `CREATE INDEX on '${tableDisplay(stmt.relation)}' blocks writes to the table until the index is built`,
+          suggestion:
+            'If the table is large, run CREATE INDEX CONCURRENTLY IF NOT EXISTS against the database before deploying, and make this CREATE INDEX IF NOT EXISTS with -- migration-lint-disable require-concurrent-index',
+        });
+      },
+    };
+  },
+};
+
+/**
+ * ADD COLUMN whose default has to be computed per row: a volatile function
+ * call, serial, identity or stored generated column. PostgreSQL rewrites the
+ * table under an ACCESS EXCLUSIVE lock; constant and stable defaults such as
+ * `now()` are stored once and are instant.
+ *
+ * Functions not known to be stable count as volatile, which is also what
+ * PostgreSQL assumes for functions declared without a volatility.
+ *
+ * @example
+ * ```ts
+ * await runRules('ALTER TABLE posts ADD COLUMN key uuid NOT NULL DEFAULT gen_random_uuid();', [volatileDefault]);
+ * // errors: [{ code: 'TABLE_REWRITE', line: 1, column: 30, ... }]
+ * ```
+ */
+export const volatileDefault: ValidationRule = {
+  name: 'volatile-default',
+  severity: 'error',
+  create(context) {
+    const created = new Set<string>();
+
+    return {
+      CreateStmt: (stmt) => addTable(created, stmt.relation),
+      AlterTableStmt(stmt) {
+        if (!existingTable(stmt, created)) return;
+        for (const cmd of alterCommands(stmt)) {
+          if (cmd.subtype !== 'AT_AddColumn' || !cmd.def || !('ColumnDef' in cmd.def)) continue;
+          const column = cmd.def.ColumnDef;
+          const reason = rewriteReason(column);
+          if (!reason) continue;
+
+          context.report(
+            {
+              code: ValidationCode.TABLE_REWRITE,
+              message: `Adding column '${column.colname}' with ${reason} rewrites '${tableDisplay(stmt.relation)}' under an ACCESS EXCLUSIVE lock`,
+              suggestion:
+                'Add the column without a default (or with a constant one), backfill it in batches, then SET DEFAULT',
+            },
+            column.location
+          );
+        }
+      },
+    };
+  },
+};
+
+/**
+ * ALTER COLUMN ... SET NOT NULL without a validated CHECK constraint to prove
+ * it. PostgreSQL scans the whole table under an ACCESS EXCLUSIVE lock unless a
+ * valid `CHECK (column IS NOT NULL)` already exists.
+ *
+ * A VALIDATE CONSTRAINT earlier in the migration counts as that proof if the
+ * constraint checks the column: a `CHECK (column IS NOT NULL)` added in this
+ * migration, or one added NOT VALID in an earlier migration (which rules cannot
+ * see) whose name contains the column name, e.g. `posts_title_not_null`.
+ *
+ * @example
+ * ```ts
+ * await runRules('ALTER TABLE posts ALTER COLUMN title SET NOT NULL;', [setNotNull]);
+ * // errors: [{ code: 'SET_NOT_NULL', line: 1, column: 1, ... }]
+ * ```
+ */
+export const setNotNull: ValidationRule = {
+  name: 'set-not-null',
+  severity: 'error',
+  create(context) {
+    const created = new Set<string>();
+    // `table.constraint` of CHECK constraints added in this migration, to the
+    // column they prove NOT NULL (null for any other check)
+    const checks = new Map<string, string | null>();
+    // Constraints validated so far, by table
+    const validated = new Map<string, Set<string>>();
+
+    const proves = (table: string, constraint: string, column: string) => {
+      const checked = checks.get(`${table}.${constraint}`);
+      return checked === undefined ? `_${constraint}_`.includes(`_${column}_`) : checked === column;
+    };
+
+    return {
+      CreateStmt: (stmt) => addTable(created, stmt.relation),
+      AlterTableStmt(stmt) {
+        if (!existingTable(stmt, created)) return;
+        const table = tableKey(stmt.relation);
+        for (const cmd of alterCommands(stmt)) {
+          if (cmd.subtype === 'AT_AddConstraint' && cmd.def && 'Constraint' in cmd.def) {
+            const constraint = cmd.def.Constraint;
+            if (constraint.contype === 'CONSTR_CHECK' && constraint.conname) {
+              checks.set(`${table}.${constraint.conname}`, notNullColumn(constraint.raw_expr));
+            }
+          } else if (cmd.subtype === 'AT_ValidateConstraint') {
+            validated.set(table, (validated.get(table) ?? new Set()).add(cmd.name ?? ''));
+          } else if (cmd.subtype === 'AT_SetNotNull' && cmd.name) {
+            const column = cmd.name;
+            const constraints = [...(validated.get(table) ?? [])];
+            if (constraints.some((constraint) => proves(table, constraint, column))) continue;
+
+            const constraint = `${stmt.relation.relname}_${column}_not_null`;
+            context.report({
+              code: ValidationCode.SET_NOT_NULL,
+              message: `SET NOT NULL on '${tableDisplay(stmt.relation)}.${column}' scans the table under an ACCESS EXCLUSIVE lock`,
+              suggestion: `Add CONSTRAINT ${constraint} CHECK (${column} IS NOT NULL) NOT VALID in an earlier migration, then VALIDATE CONSTRAINT ${constraint} before SET NOT NULL`,
+            });
+          }
+        }
+      },
+    };
+  },
+};
+
+/**
+ * ADD CONSTRAINT ... FOREIGN KEY or CHECK without NOT VALID, and VALIDATE
+ * CONSTRAINT in the same migration that added the constraint NOT VALID.
+ *
+ * Validating an added constraint scans every row while holding the lock of the
+ * ADD: ACCESS EXCLUSIVE for CHECK, and writes blocked on both tables for a
+ * foreign key. Locks are held until commit, so validation only gets the weaker
+ * lock of VALIDATE CONSTRAINT in a later migration.
+ *
+ * @example
+ * ```ts
+ * await runRules(
+ *   'ALTER TABLE posts ADD CONSTRAINT posts_author_fk FOREIGN KEY (author_id) REFERENCES users(id);',
+ *   [constraintNotValid]
+ * );
+ * // errors: [{ code: 'VALIDATING_CONSTRAINT', line: 1, column: 23, ... }]
+ * ```
+ */
+export const constraintNotValid: ValidationRule = {
+  name: 'constraint-not-valid',
+  severity: 'error',
+  create(context) {
+    const created = new Set<string>();
+    const notValid = new Set<string>();
+
+    return {
+      CreateStmt: (stmt) => addTable(created, stmt.relation),
+      AlterTableStmt(stmt) {
+        if (!existingTable(stmt, created)) return;
+        const table = tableDisplay(stmt.relation);
+        for (const cmd of alterCommands(stmt)) {
+          if (cmd.subtype === 'AT_ValidateConstraint') {
+            if (notValid.has(`${tableKey(stmt.relation)}.${cmd.name}`)) {
+              context.report({
+                code: ValidationCode.VALIDATING_CONSTRAINT,
+                message: `VALIDATE CONSTRAINT ${cmd.name} runs in the migration that added it, still holding the lock of ADD CONSTRAINT`,
+                suggestion: 'Move VALIDATE CONSTRAINT to a later migration',
+              });
+            }
+            continue;
+          }
+          if (cmd.subtype !== 'AT_AddConstraint' || !cmd.def || !('Constraint' in cmd.def))
+            continue;
+
+          const constraint = cmd.def.Constraint;
+          const foreignKey = constraint.contype === 'CONSTR_FOREIGN';
+          if (!foreignKey && constraint.contype !== 'CONSTR_CHECK') continue;
+          if (constraint.skip_validation) {
+            notValid.add(`${tableKey(stmt.relation)}.${constraint.conname}`);
+            continue;
+          }
+
+          const kind = foreignKey ? 'foreign key' : 'CHECK constraint';
+          const name = constraint.conname ? ` ${constraint.conname}` : '';
+          const lock = foreignKey
+            ? `blocking writes to '${table}' and '${tableDisplay(constraint.pktable ?? {})}'`
+            : 'holding an ACCESS EXCLUSIVE lock';
+          context.report(
+            {
+              code: ValidationCode.VALIDATING_CONSTRAINT,
+              message: `Adding ${kind}${name} to '${table}' validates every row while ${lock}`,
+              suggestion: 'Add it with NOT VALID, then VALIDATE CONSTRAINT in a later migration',
+            },
+            constraint.location
+          );
+        }
+      },
+    };
+  },
+};
+
+/**
+ * ALTER TABLE or CREATE INDEX on an existing table without `SET lock_timeout`
+ * first. A lock request waiting behind a long-running query makes every later
+ * query on the table queue behind it, even for changes that are otherwise
+ * instant. Reported once per table, at its first such statement.
+ *
+ * @example
+ * ```ts
+ * await runRules('ALTER TABLE posts ADD COLUMN summary text;', [lockTimeout]);
+ * // warnings: [{ code: 'MISSING_LOCK_TIMEOUT', line: 1, column: 1, ... }]
+ * ```
+ */
+export const lockTimeout: ValidationRule = {
+  name: 'lock-timeout',
+  severity: 'warning',
+  create(context) {
+    const created = new Set<string>();
+    const locked = new Set<string>();
+    let timeoutSet = false;
+
+    const locks = (table: RangeVar) => {
+      if (timeoutSet || locked.has(tableKey(table))) return;
+      locked.add(tableKey(table));
+      context.report({
+        code: ValidationCode.MISSING_LOCK_TIMEOUT,
+        message: `'${tableDisplay(table)}' is locked without a lock_timeout; while it waits, every later query on the table waits too`,
+        suggestion:
+          "Start the migration with SET lock_timeout = '5s'; and retry it if it times out",
+      });
+    };
+
+    return {
+      CreateStmt: (stmt) => addTable(created, stmt.relation),
+      VariableSetStmt(stmt) {
+        if (stmt.name === 'lock_timeout') timeoutSet = true;
+      },
+      AlterTableStmt(stmt) {
+        if (existingTable(stmt, created)) locks(stmt.relation);
+      },
+      IndexStmt(stmt) {
+        if (!stmt.concurrent && stmt.relation && !created.has(tableKey(stmt.relation))) {
+          locks(stmt.relation);
+        }
+      },
+    };
+  },
+};
+
+/**
+ * Lock-safety rules, run by validateMigration()
+ */
+export const LOCK_SAFETY_RULES: ValidationRule[] = [
+  requireConcurrentIndex,
+  volatileDefault,
+  setNotNull,
+  constraintNotValid,
+  lockTimeout,
+];
+
+/**
+ * Functions commonly used in defaults that are stable or immutable, so their
+ * value is computed once when the column is added
+ */
+const NON_VOLATILE_FUNCTIONS = new Set([
+  'now',
+  'transaction_timestamp',
+  'statement_timestamp',
+  'current_setting',
+]);
+
+const SERIAL_TYPES = new Set([
+  'smallserial',
+  'serial',
+  'bigserial',
+  'serial2',
+  'serial4',
+  'serial8',
+]);
+
+function addTable(created: Set<string>, table: RangeVar | undefined): void {
+  if (table) created.add(tableKey(table));
+}
+
+/**
+ * Whether an ALTER TABLE targets a table that exists before the migration
+ */
+function existingTable(
+  stmt: AlterTableStmt,
+  created: Set<string>
+): stmt is AlterTableStmt & { relation: RangeVar } {
+  return (
+    stmt.objtype === 'OBJECT_TABLE' && !!stmt.relation && !created.has(tableKey(stmt.relation))
+  );
+}
+
+function alterCommands(stmt: AlterTableStmt): AlterTableCmd[] {
+  return (stmt.cmds ?? []).flatMap((cmd) => ('AlterTableCmd' in cmd ? [cmd.AlterTableCmd] : []));
+}
+
+/**
+ * Column a CHECK expression proves NOT NULL, if it is `column IS NOT NULL`
+ */
+function notNullColumn(expression: Node | undefined): string | null {
+  if (!expression || !('NullTest' in expression)) return null;
+  const { arg, nulltesttype } = expression.NullTest;
+  if (nulltesttype !== 'IS_NOT_NULL' || !arg || !('ColumnRef' in arg)) return null;
+  const fields = arg.ColumnRef.fields ?? [];
+  return fields.length === 1 ? (names(fields)[0] ?? null) : null;
+}
+
+/**
+ * Why adding a column computes a value per row, if it does
+ */
+function rewriteReason(column: ColumnDef): string | undefined {
+  const typeName = names(column.typeName?.names).at(-1) ?? '';
+  if (SERIAL_TYPES.has(typeName)) return `type ${typeName}`;
+
+  for (const item of column.constraints ?? []) {
+    if (!('Constraint' in item)) continue;
+    const constraint = item.Constraint;
+    if (constraint.contype === 'CONSTR_IDENTITY') return 'an identity';
+    // Virtual generated columns (generated_kind 'v') are computed on read
+    if (constraint.contype === 'CONSTR_GENERATED' && constraint.generated_kind === 's') {
+      return 'a stored generated expression';
+    }
+    if (constraint.contype === 'CONSTR_DEFAULT') {
+      const volatile = volatileFunction(constraint.raw_expr);
+      if (volatile) return `volatile default ${volatile}()`;
+    }
+  }
+  return undefined;
+}
+
+function volatileFunction(expression: unknown): string | undefined {
+  let found: string | undefined;
+  walk(expression, {
+    FuncCall(call) {
+      const name = names(call.funcname).filter((part) => part !== 'pg_catalog');
+      if (!found && !NON_VOLATILE_FUNCTIONS.has(name.join('.'))) found = name.join('.');
+    },
+  });
+  return found;
+}
@@ -0,0 +1,204 @@
+import { type Node, parse, type RangeVar, type RawStmt, scan } from 'libpg-query';
+
+/**
+ * Name of an AST node type, e.g. `CreateStmt` or `Constraint`
+ */
+export type NodeType = Node extends infer N ? (N extends unknown ? keyof N : never) : never;
+
+/**
+ * Fields of an AST node of the given type
+ */
+export type NodeOf<K extends NodeType> = Extract<Node, Record<K, unknown>> extends infer N
+  ? N extends Record<K, infer V>
+    ? V
+    : never
+  : never;
+
+/**
+ * 1-based position in the migration source
+ */
+export interface SourceLocation {
+  line: number;
+  column: number;
+}
+
+/**
+ * A top-level statement of a migration
+ */
+export interface MigrationStatement {
+  /** Node type of the statement, e.g. `DropStmt` */
+  type: NodeType;
+  node: Node;
+  /** Byte offset of the statement's first token */
+  offset: number;
+  /** Byte offset just past the statement's last token (before its `;`) */
+  end: number;
+}
+
+/**
+ * A line (`--`) or block comment in the migration source
+ */
+export interface SqlComment {
+  text: string;
+  /** Byte offset of the comment */
+  offset: number;
+}
+
+/**
+ * A migration parsed with the PostgreSQL parser (libpg_query)
+ */
+export interface MigrationAst {
+  sql: string;
+  statements: MigrationStatement[];
+  comments: SqlComment[];
+  /**
+   * Line and column of a byte offset reported by the parser
+   * @param offset - Byte offset into `sql` (parser locations count UTF-8 bytes)
+   */
+  locate(offset: number): SourceLocation;
+}
+
+/**
+ * Parse error with the location the parser reported
+ */
+export class SqlSyntaxError extends Error {
+  readonly location: SourceLocation;
+
+  constructor(message: string, location: SourceLocation) {
+    super(message);
+    this.name = 'SqlSyntaxError';
+    this.location = location;
+  }
+}
+
+/**
+ * Parse a migration into top-level statements and comments.
+ *
+ * Uses the PostgreSQL parser itself, so comments, string literals, quoted
+ * identifiers and dollar-quoted bodies (`DO $$ ... $$`, function bodies) are
+ * never mistaken for statements.
+ *
+ * @param sql - Migration SQL
+ * @returns Parsed statements with a byte-offset locator
+ * @throws SqlSyntaxError if the SQL does not parse
+ *
+ * @example
+ * ```ts
+ * const ast = await parseMigrationSql('DROP TABLE users;');
+ * ast.statements[0].type; // 'DropStmt'
+ * ```
+ */
+export async function parseMigrationSql(sql: string): Promise<MigrationAst> {
+  const lineStarts = [0];
+  for (let i = 0; i < sql.length; i++) {
+    if (sql[i] === '\n') lineStarts.push(i + 1);
+  }
+  const positionOf = (index: number): SourceLocation => {
+    let line = lineStarts.length - 1;
+    while (lineStarts[line] > index) line--;
+    return { line: line + 1, column: index - lineStarts[line] + 1 };
+  };
+
+  let stmts: RawStmt[];
+  try {
+    stmts = (await parse(sql)).stmts ?? [];
+  } catch (error) {
+    const details = (error as { sqlDetails?: { message: string; cursorPosition: number } })
+      .sqlDetails;
+    if (!details) throw error;
+    // The cursor is a 0-based character index, unlike node locations
+    throw new SqlSyntaxError(details.message, positionOf(details.cursorPosition));
+  }
+
+  const bytes = Buffer.from(sql, 'utf8');
+  const { tokens } = await scan(sql);
+  return {
+    sql,
+    statements: stmts.flatMap(({ stmt, stmt_location: offset = 0, stmt_len }) =>
+      stmt
+        ? [
+            {
+              type: nodeType(stmt),
+              node: stmt,
+              offset,
+              end: stmt_len ? offset + stmt_len : bytes.length,
+            },
+          ]
+        : []
+    ),
+    comments: tokens.flatMap(({ tokenName, text, start }) =>
+      tokenName === 'SQL_COMMENT' || tokenName === 'C_COMMENT' ? [{ text, offset: start }] : []
+    ),
+    locate: (offset) => positionOf(bytes.subarray(0, offset).toString('utf8').length),
+  };
+}
+
+/**
+ * Node type of a wrapped AST node (`{ CreateStmt: {...} }` → `'CreateStmt'`)
+ */
+export function nodeType(node: Node): NodeType {
+  return Object.keys(node)[0] as NodeType;
+}
+
+/**
+ * Callbacks by node type, called for every matching node in a statement
+ */
+export type NodeVisitor = {
+  [K in NodeType]?: (node: NodeOf<K>) => void;
+};
+
+/**
+ * Walk an AST depth-first, calling the visitor for each wrapped node
+ *
+ * Wrapped nodes are objects with a single node-type key (`{ ColumnDef: {...} }`);
+ * plain structs embedded in a node (e.g. a RangeVar `relation`) are descended
+ * into but not dispatched.
+ *
+ * @param node - Node, node list or struct to walk
+ * @param visitor - Callbacks by node type
+ */
+export function walk(node: unknown, visitor: NodeVisitor): void {
+  if (Array.isArray(node)) {
+    for (const child of node) walk(child, visitor);
+    return;
+  }
+  if (node === null || typeof node !== 'object') {
+    return;
+  }
+
+  const keys = Object.keys(node);
+  if (keys.length === 1 && /^[A-Z]/.test(keys[0])) {
+    const type = keys[0] as NodeType;
+    const fields = (node as Record<string, unknown>)[type];
+    (visitor[type] as ((fields: unknown) => void) | undefined)?.(fields);
+    walk(fields, visitor);
+    return;
+  }
+  for (const value of Object.values(node)) walk(value, visitor);
+}
+
+/**
+ * String values of a name list (`[{ String: { sval: 'public' } }, ...]`)
+ */
+export function names(list: Node[] | undefined): string[] {
+  return (list ?? []).flatMap((item) => ('String' in item ? [item.String.sval ?? ''] : []));
+}
+
+/**
+ * Key of a table for comparing references: `schema.table`, unqualified names in `public`
+ */
+export function tableKey(table: RangeVar): string {
+  return `${table.schemaname ?? 'public'}.${table.relname}`;
+}
+
+/**
+ * Table name as written in SQL, quoted where needed
+ */
+export function tableDisplay(table: RangeVar): string {
+  const name = quoteIdent(table.relname ?? '');
+  return table.schemaname ? `${quoteIdent(table.schemaname)}.${name}` : name;
+}
+
+function quoteIdent(name: string): string {
+  return /^[a-z_][a-z0-9_$]*$/.test(name) ? name : `"${name.replace(/"/g, '""')}"`;
+}
@@ -0,0 +1,310 @@
+-- Migration: Parameterized query RPC function
+-- Created: 2025-11-05
+--
+-- Replaces the placeholder public.query(text, jsonb), which ignored its params
+-- and only returned a single jsonb value, with a real implementation:
+-- 1. $1..$n placeholders are bound from the jsonb params array
+-- 2. Row-set results are returned as a jsonb array of row objects; whether a
+--    statement has one is decided from its keywords, not by pattern matching
+-- 3. A 30 s statement timeout for the whole request, plus a per-call limit
+--    on lock waits and row reads
+-- 4. Read-only mode, on by default
+--
+-- Errors are raised with their SQLSTATE instead of being returned as
+-- {error, code}, so PostgREST reports them like any other failed request.
+
+BEGIN;
+
+-- ============================================================================
+-- Parameter binding
+-- ============================================================================
+-- Replaces each $n placeholder with the quoted n-th element of params.
+-- Placeholders inside string literals, quoted identifiers, dollar-quoted
+-- strings and comments are left alone.
+--
+-- Values are bound as untyped literals, so Postgres infers their type from
+-- context just as it does for driver parameters; add a cast ($1::int) where
+-- the context is ambiguous. JSON objects and arrays are bound as jsonb, and
+-- JSON null as NULL.
+
+CREATE OR REPLACE FUNCTION private.bind_query_params(
+  sql text,
+  params jsonb
+) RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  bound text := '';
+  pos integer := 1;
+  len integer := length(sql);
+  rest text;
+  ch text;
+  prev text;
+  token text;
+  tag text;
+  close_pos integer;
+  n integer;
+  param jsonb;
+BEGIN
+  WHILE pos <= len LOOP
+    rest := substr(sql, pos);
+    ch := substr(rest, 1, 1);
+    prev := CASE WHEN pos > 1 THEN substr(sql, pos - 1, 1) ELSE '' END;
+    token := NULL;
+
+    IF ch = '''' THEN
+      -- String literal; E'...' strings also escape quotes with a backslash
+      IF lower(prev) = 'e' AND (pos = 2 OR substr(sql, pos - 2, 1) !~ '[[:alnum:]_]') THEN
+        token := (regexp_match(rest, $re$^('(?:[^'\\]|''|\\.)*')$re$))[1];
+      ELSE
+        token := (regexp_match(rest, $re$^('(?:[^']|'')*')$re$))[1];
+      END IF;
+      token := coalesce(token, rest);
+
+    ELSIF ch = '"' THEN
+      token := coalesce((regexp_match(rest, $re$^("(?:[^"]|"")*")$re$))[1], rest);
+
+    ELSIF substr(rest, 1, 2) = '--' THEN
+      token := coalesce((regexp_match(rest, $re$^(--[^\n]*)$re$))[1], rest);
+
+    ELSIF substr(rest, 1, 2) = '/*' THEN
+      close_pos := strpos(substr(rest, 3), '*/');
+      token := CASE WHEN close_pos = 0 THEN rest ELSE substr(rest, 1, close_pos + 3) END;
+
+    ELSIF ch = '$' AND prev !~ '[[:alnum:]_$]' THEN
+      IF rest ~ '^\$[0-9]' THEN
+        n := (regexp_match(rest, '^\$([0-9]+)'))[1]::integer;
+        IF n < 1 OR n > jsonb_array_length(params) THEN
+          RAISE EXCEPTION 'Query references $% but % parameter(s) were given',
+            n, jsonb_array_length(params)
+            USING ERRCODE = 'undefined_parameter';
+        END IF;
+
+        param := params -> (n - 1);
+        bound := bound || CASE jsonb_typeof(param)
+          WHEN 'null' THEN 'NULL'
+          WHEN 'object' THEN quote_literal(param::text) || '::jsonb'
+          WHEN 'array' THEN quote_literal(param::text) || '::jsonb'
+          ELSE quote_literal(param #>> '{}')
+        END;
+        pos := pos + length(n::text) + 1;
+        CONTINUE;
+      END IF;
+
+      tag := (regexp_match(rest, '^(\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$)'))[1];
+      IF tag IS NOT NULL THEN
+        close_pos := strpos(substr(rest, length(tag) + 1), tag);
+        token := CASE
+          WHEN close_pos = 0 THEN rest
+          ELSE substr(rest, 1, 2 * length(tag) + close_pos - 1)
+        END;
+      END IF;
+    END IF;
+
+    -- Copy plain text up to the next character that may start a token
+    IF token IS NULL THEN
+      token := coalesce((regexp_match(rest, $re$^([^'"$/-]+)$re$))[1], ch);
+    END IF;
+
+    bound := bound || token;
+    pos := pos + length(token);
+  END LOOP;
+
+  RETURN bound;
+END;
+$$;
+
+-- ============================================================================
+-- Statement keywords
+-- ============================================================================
+-- Lowercased bare words of a statement outside parentheses, in order:
+-- 'INSERT INTO t (a) SELECT x FROM s WHERE y IN (1) RETURNING a' gives
+-- {insert,into,t,select,x,from,s,where,y,in,returning}. Words inside string
+-- literals, quoted identifiers, dollar-quoted strings, comments and
+-- parentheses (subqueries, CTE bodies) are skipped, so the first keyword and a
+-- top-level RETURNING classify the statement.
+
+CREATE OR REPLACE FUNCTION private.query_keywords(sql text) RETURNS text[]
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  keywords text[] := '{}';
+  depth integer := 0;
+  pos integer := 1;
+  len integer := length(sql);
+  rest text;
+  ch text;
+  prev text;
+  token text;
+  tag text;
+  close_pos integer;
+BEGIN
+  WHILE pos <= len LOOP
+    rest := substr(sql, pos);
+    ch := substr(rest, 1, 1);
+    prev := CASE WHEN pos > 1 THEN substr(sql, pos - 1, 1) ELSE '' END;
+    token := NULL;
+
+    IF ch = '''' THEN
+      IF lower(prev) = 'e' AND (pos = 2 OR substr(sql, pos - 2, 1) !~ '[[:alnum:]_]') THEN
+        token := (regexp_match(rest, $re$^('(?:[^'\\]|''|\\.)*')$re$))[1];
+      ELSE
+        token := (regexp_match(rest, $re$^('(?:[^']|'')*')$re$))[1];
+      END IF;
+      token := coalesce(token, rest);
+
+    ELSIF ch = '"' THEN
+      token := coalesce((regexp_match(rest, $re$^("(?:[^"]|"")*")$re$))[1], rest);
+
+    ELSIF substr(rest, 1, 2) = '--' THEN
+      token := coalesce((regexp_match(rest, $re$^(--[^\n]*)$re$))[1], rest);
+
+    ELSIF substr(rest, 1, 2) = '/*' THEN
+      close_pos := strpos(substr(rest, 3), '*/');
+      token := CASE WHEN close_pos = 0 THEN rest ELSE substr(rest, 1, close_pos + 3) END;
+
+    ELSIF ch = '$' AND prev !~ '[[:alnum:]_$]' THEN
+      tag := (regexp_match(rest, '^(\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$)'))[1];
+      IF tag IS NOT NULL THEN
+        close_pos := strpos(substr(rest, length(tag) + 1), tag);
+        token := CASE
+          WHEN close_pos = 0 THEN rest
+          ELSE substr(rest, 1, 2 * length(tag) + close_pos - 1)
+        END;
+      END IF;
+
+    ELSIF ch = '(' THEN
+      depth := depth + 1;
+    ELSIF ch = ')' THEN
+      depth := depth - 1;
+
+    ELSE
+      token := (regexp_match(rest, '^([A-Za-z_][A-Za-z0-9_$]*)'))[1];
+      IF token IS NOT NULL AND depth = 0 THEN
+        keywords := keywords || lower(token);
+      END IF;
+      -- Skip other text up to the next character that may start a token
+      token := coalesce(token, (regexp_match(rest, $re$^([^'"$/()A-Za-z_-]+)$re$))[1]);
+    END IF;
+
+    pos := pos + length(coalesce(token, ch));
+  END LOOP;
+
+  RETURN keywords;
+END;
+$$;
+
+-- ============================================================================
+-- Query function
+-- ============================================================================
+-- SET statement_timeout is the only hard limit: PostgREST applies
+-- function-level statement_timeout settings to the transaction before
+-- calling the function. Postgres arms statement_timeout when a statement
+-- starts, so timeout_ms cannot re-arm it from inside the function. It is
+-- narrower than a statement timeout: it bounds lock waits (lock_timeout) and
+-- is checked between result rows, but a single slow step such as a large
+-- sort, an aggregate or a write without RETURNING runs until the 30 s cap.
+
+DROP FUNCTION IF EXISTS public.query(text, jsonb);
+
+CREATE FUNCTION public.query(
+  sql text,
+  params jsonb DEFAULT '[]'::jsonb,
+  read_only boolean DEFAULT true,
+  timeout_ms integer DEFAULT 5000
+) RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET statement_timeout = '30s'
+AS $$
+DECLARE
+  bound_sql text;
+  keywords text[];
+  statement_kind text;
+  started timestamptz := clock_timestamp();
+  time_limit interval := make_interval(secs => timeout_ms / 1000.0);
+  result_row record;
+  result_rows jsonb[] := '{}';
+BEGIN
+  -- Strict service role check - checks the Postgres role, not a JWT claim
+  IF NOT pg_has_role(current_user, 'service_role', 'USAGE') THEN
+    RAISE EXCEPTION 'Query function is restricted to service role only. Current role: %', current_user
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  params := coalesce(params, '[]'::jsonb);
+  IF jsonb_typeof(params) <> 'array' THEN
+    RAISE EXCEPTION 'Query params must be a JSON array, got %', jsonb_typeof(params)
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF timeout_ms IS NULL OR timeout_ms < 1 OR timeout_ms > 30000 THEN
+    RAISE EXCEPTION 'Query timeout_ms must be between 1 and 30000, got %', timeout_ms
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Transaction-local: both settings end with the request
+  PERFORM set_config('lock_timeout', timeout_ms || 'ms', true);
+  IF read_only THEN
+    PERFORM set_config('transaction_read_only', 'on', true);
+  END IF;
+
+  bound_sql := rtrim(private.bind_query_params(sql, params), E'; \t\r\n');
+
+  -- Classify the statement as bound, so placeholders cannot change its kind.
+  -- A WITH statement is the kind of its main statement, after the CTE bodies.
+  keywords := private.query_keywords(bound_sql);
+  statement_kind := keywords[1];
+  IF statement_kind = 'with' THEN
+    SELECT keyword INTO statement_kind
+    FROM unnest(keywords[2:]) WITH ORDINALITY AS k(keyword, n)
+    WHERE keyword IN ('select', 'values', 'table', 'insert', 'update', 'delete', 'merge')
+    ORDER BY n
+    LIMIT 1;
+  END IF;
+
+  IF statement_kind IN ('fetch', 'execute') THEN
+    RAISE EXCEPTION 'Query does not support % statements; cursors and prepared statements do not outlive the request',
+      upper(statement_kind)
+      USING ERRCODE = 'feature_not_supported';
+  END IF;
+
+  -- Statements without a row set (DDL, DML without a top-level RETURNING) return []
+  IF NOT coalesce(
+    statement_kind IN ('select', 'values', 'table', 'explain', 'show')
+    OR (statement_kind IN ('insert', 'update', 'delete', 'merge') AND 'returning' = ANY (keywords)),
+    false
+  ) THEN
+    EXECUTE bound_sql;
+    RETURN '[]'::jsonb;
+  END IF;
+
+  -- A cursor over a single statement; multiple statements are rejected
+  FOR result_row IN EXECUTE bound_sql LOOP
+    IF clock_timestamp() - started > time_limit THEN
+      RAISE EXCEPTION 'Query exceeded its % ms timeout', timeout_ms
+        USING ERRCODE = 'query_canceled';
+    END IF;
+    result_rows := result_rows || to_jsonb(result_row);
+  END LOOP;
+
+  RETURN to_jsonb(result_rows);
+END;
+$$;
+
+-- Functions are executable by PUBLIC by default; restrict them to service role
+REVOKE ALL ON FUNCTION private.bind_query_params(text, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION private.query_keywords(text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.query(text, jsonb, boolean, integer) FROM PUBLIC, anon, authenticated;
+
+GRANT USAGE ON SCHEMA private TO service_role;
+GRANT EXECUTE ON FUNCTION private.bind_query_params(text, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION private.query_keywords(text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.query(text, jsonb, boolean, integer) TO service_role;
+
+COMMENT ON FUNCTION public.query(text, jsonb, boolean, integer) IS
+'Service-role-only function for executing one SQL statement with $1..$n parameters bound from a jsonb array. Returns the rows of SELECT, VALUES, TABLE, EXPLAIN, SHOW and statements with a top-level RETURNING as a jsonb array, [] for other statements. Read-only unless read_only => false. timeout_ms limits lock waits and row reads; statements are capped at 30 s.';
+
+COMMIT;
@@ -0,0 +1,37 @@
+-- Migration: Expose applied migration versions to the service role
+-- Created: 2025-11-06
+--
+-- The readiness check compares the migrations in supabase/migrations with
+-- the ones applied to the database. The Supabase CLI records applied
+-- migrations in supabase_migrations.schema_migrations, which PostgREST does
+-- not expose and the service role cannot read, so this function reads it on
+-- the caller's behalf.
+
+BEGIN;
+
+-- SECURITY DEFINER: reads supabase_migrations as the function owner
+-- plpgsql: the table is only resolved when called, so this migration does
+-- not depend on the CLI having created it
+CREATE OR REPLACE FUNCTION public.applied_migrations()
+RETURNS SETOF text
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = ''
+AS $$
+BEGIN
+  RETURN QUERY
+    SELECT version::text
+    FROM supabase_migrations.schema_migrations
+    ORDER BY version;
+END;
+$$;
+
+-- Functions are executable by PUBLIC by default; restrict to service role
+REVOKE ALL ON FUNCTION public.applied_migrations() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.applied_migrations() TO service_role;
+
+COMMENT ON FUNCTION public.applied_migrations() IS
+'Service-role-only list of applied migration versions, oldest first. Used by the readiness health check.';
+
+COMMIT;
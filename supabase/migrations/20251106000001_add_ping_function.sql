@@ -0,0 +1,26 @@
+-- Migration: Round-trip function for the database health check
+-- Created: 2025-11-06
+--
+-- DatabaseClient.healthCheck() times one request through PostgREST to
+-- Postgres. It read public._health_check, which only seed.sql creates, so the
+-- readiness check failed on unseeded and production databases. This function
+-- exists in every database the migrations were applied to.
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION public.ping()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT true;
+$$;
+
+-- The health check runs with the anon key
+GRANT EXECUTE ON FUNCTION public.ping() TO anon, authenticated, service_role;
+
+COMMENT ON FUNCTION public.ping() IS
+'Returns true. Used by the readiness health check to time a database round trip.';
+
+COMMIT;
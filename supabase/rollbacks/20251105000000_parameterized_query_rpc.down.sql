@@ -0,0 +1,45 @@
+-- Down migration: Parameterized query RPC function
+-- Reverts 20251105000000_parameterized_query_rpc.sql by restoring the
+-- placeholder public.query(text, jsonb) from 20250926120000_add_query_rpc_function.sql
+
+DROP FUNCTION IF EXISTS public.query(text, jsonb, boolean, integer);
+DROP FUNCTION IF EXISTS private.bind_query_params(text, jsonb);
+DROP FUNCTION IF EXISTS private.query_keywords(text);
+
+REVOKE USAGE ON SCHEMA private FROM service_role;
+
+CREATE OR REPLACE FUNCTION public.query(
+  sql text,
+  params jsonb DEFAULT NULL
+) RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  result jsonb;
+BEGIN
+  -- Strict service role check - prevents privilege escalation
+  IF auth.role() != 'service_role' THEN
+    RAISE EXCEPTION 'Query function is restricted to service role only. Current role: %', auth.role();
+  END IF;
+
+  -- Execute the query and return results as JSON
+  -- Note: This is a simplified implementation
+  -- Real implementation would need proper parameter substitution
+  EXECUTE sql INTO result;
+
+  RETURN COALESCE(result, '[]'::jsonb);
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Return error information
+    RETURN jsonb_build_object(
+      'error', SQLERRM,
+      'code', SQLSTATE
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.query(text, jsonb) TO service_role;
+
+COMMENT ON FUNCTION public.query(text, jsonb) IS
+'Service-role-only function for executing SQL queries with parameters. Restricted to service role to prevent privilege escalation.';
@@ -0,0 +1,4 @@
+-- Down migration: Applied migrations function
+-- Reverts 20251106000000_add_applied_migrations_function.sql
+
+DROP FUNCTION IF EXISTS public.applied_migrations();
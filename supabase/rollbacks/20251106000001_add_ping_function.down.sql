@@ -0,0 +1,4 @@
+-- Down migration: Ping function
+-- Reverts 20251106000001_add_ping_function.sql
+
+DROP FUNCTION IF EXISTS public.ping();
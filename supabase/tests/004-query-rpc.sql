@@ -0,0 +1,171 @@
+-- ============================================================================
+-- Query RPC Tests
+-- ============================================================================
+-- Tests the service-role-only public.query function.
+-- Run with: pnpm test:rls
+--
+-- Validates:
+-- 1. Only the service role can execute it
+-- 2. $1..$n placeholders are bound safely from the jsonb params
+-- 3. Row sets are returned as a jsonb array, classified by the statement's
+--    keywords rather than words in its literals
+-- 4. Read-only mode (the default) rejects writes
+--
+-- Related: supabase/migrations/20251105000000_parameterized_query_rpc.sql
+
+BEGIN;
+
+-- Load pgTAP extension
+CREATE EXTENSION IF NOT EXISTS pgtap;
+
+-- Plan: Define number of tests
+SELECT plan(17);
+
+-- ============================================================================
+-- TEST GROUP 1: Access
+-- ============================================================================
+
+SELECT has_function(
+    'public',
+    'query',
+    ARRAY['text', 'jsonb', 'boolean', 'integer'],
+    'query(sql, params, read_only, timeout_ms) should exist'
+);
+
+SELECT tests.clear_authentication();
+
+SELECT throws_ok(
+    $$SELECT public.query('SELECT 1 AS one')$$,
+    '42501',
+    NULL,
+    'Anonymous users cannot execute query'
+);
+
+SELECT tests.authenticate_as_service_role();
+
+-- ============================================================================
+-- TEST GROUP 2: Writes (read_only => false)
+-- ============================================================================
+-- Runs first: a successful read-only call keeps the rest of this test
+-- transaction read-only.
+
+SELECT is(
+    public.query('CREATE TEMP TABLE query_rpc_probe (id int, label text)', read_only => false),
+    '[]'::jsonb,
+    'Statements without a row set return an empty array'
+);
+
+SELECT is(
+    public.query(
+        'INSERT INTO query_rpc_probe VALUES ($1, $2), ($3, NULL) RETURNING id, label;',
+        '[1, "one", 2]',
+        read_only => false
+    ),
+    '[{"id": 1, "label": "one"}, {"id": 2, "label": null}]'::jsonb,
+    'RETURNING rows are returned when writes are allowed'
+);
+
+SELECT is(
+    public.query(
+        'UPDATE query_rpc_probe SET label = $1 WHERE id = $2',
+        '["returning soon", 2]',
+        read_only => false
+    ),
+    '[]'::jsonb,
+    'A bound literal containing "returning" does not make DML a row set'
+);
+
+SELECT is(
+    public.query(
+        $q$UPDATE query_rpc_probe SET label = 'back' WHERE id IN (SELECT id FROM query_rpc_probe WHERE label = 'returning soon')$q$,
+        read_only => false
+    ),
+    '[]'::jsonb,
+    'Words in literals and subqueries do not make DML a row set'
+);
+
+-- ============================================================================
+-- TEST GROUP 3: Parameter binding
+-- ============================================================================
+
+SELECT is(
+    public.query('SELECT label FROM query_rpc_probe WHERE id = $1', '[1]'),
+    '[{"label": "one"}]'::jsonb,
+    'Parameters are bound and rows returned as a jsonb array'
+);
+
+SELECT is(
+    public.query($q$SELECT '$2' AS literal, $1 AS "$2" -- $3$q$, '["x"]'),
+    '[{"literal": "$2", "$2": "x"}]'::jsonb,
+    'Placeholders in literals, identifiers and comments are not bound'
+);
+
+SELECT is(
+    public.query(E'/* report */ -- first page\nSELECT label FROM query_rpc_probe WHERE id = $1', '[1]'),
+    '[{"label": "one"}]'::jsonb,
+    'Rows are returned for statements with leading comments'
+);
+
+SELECT is(
+    public.query('SELECT $1 AS value', $$["x'); DROP TABLE query_rpc_probe; --"]$$),
+    $$[{"value": "x'); DROP TABLE query_rpc_probe; --"}]$$::jsonb,
+    'String parameters are quoted, not spliced into the statement'
+);
+
+SELECT is(
+    public.query($q$SELECT $1->>'a' AS a, $2::int AS missing$q$, '[{"a": "b"}, null]'),
+    '[{"a": "b", "missing": null}]'::jsonb,
+    'Objects are bound as jsonb and null as NULL'
+);
+
+SELECT is(
+    jsonb_array_length(public.query('EXPLAIN SELECT label FROM query_rpc_probe WHERE id = $1', '[1]')) > 0,
+    true,
+    'EXPLAIN returns its plan rows'
+);
+
+SELECT is(
+    public.query('SHOW timezone') -> 0 ? 'TimeZone',
+    true,
+    'SHOW returns its setting'
+);
+
+SELECT throws_ok(
+    $$SELECT public.query('SELECT $1, $2', '["only one"]')$$,
+    '42P02',
+    NULL,
+    'Referencing a missing parameter fails'
+);
+
+SELECT throws_ok(
+    $$SELECT public.query('SELECT 1', '{"a": 1}')$$,
+    '22023',
+    NULL,
+    'Params must be a JSON array'
+);
+
+-- ============================================================================
+-- TEST GROUP 4: Read-only mode and timeouts
+-- ============================================================================
+
+SELECT throws_ok(
+    $$SELECT public.query('CREATE TABLE public.query_rpc_write_probe (id int)')$$,
+    '25006',
+    NULL,
+    'Writes are rejected in read-only mode (the default)'
+);
+
+SELECT throws_ok(
+    $$SELECT public.query('SELECT 1', timeout_ms => 0)$$,
+    '22023',
+    NULL,
+    'Timeouts outside 1..30000 ms are rejected'
+);
+
+-- ============================================================================
+-- Finish tests
+-- ============================================================================
+
+SELECT * FROM finish();
+
+ROLLBACK;